@@ -7,6 +7,12 @@
  * 1. Multi-Agent Discussion System Tests
  * 2. Brutal Advisor Prompt Tests
  * 3. Socket.io Integration Tests
+ * 4. Presence Store Tests
+ * 5. LLM Provider Tests
+ * 6. Chat Command Parsing Tests
+ * 7. Debate Control Tests
+ * 8. Conversation Import Tests
+ * 9. Agent Definition File Tests
  */
 
 const { execSync } = require('child_process')
@@ -40,6 +46,36 @@ class TestRunner {
         name: 'Socket.io Integration',
         script: 'test-socket-integration.ts',
         description: 'Tests real-time communication, typing indicators, and presence'
+      },
+      {
+        name: 'Presence Store',
+        script: 'test-presence-store.ts',
+        description: 'Tests in-memory and Redis presence stores behave the same'
+      },
+      {
+        name: 'LLM Providers',
+        script: 'test-llm-providers.ts',
+        description: 'Tests provider registry resolution, the mock provider and cost estimates'
+      },
+      {
+        name: 'Chat Commands',
+        script: 'test-chat-commands.ts',
+        description: 'Tests slash command parsing, flags and autocomplete'
+      },
+      {
+        name: 'Debate Control',
+        script: 'test-debate-control.ts',
+        description: 'Tests debate config, response targets and consensus detection'
+      },
+      {
+        name: 'Conversation Import',
+        script: 'test-conversation-import.ts',
+        description: 'Tests JSON, Markdown and ChatGPT conversation import parsing'
+      },
+      {
+        name: 'Agent Definition Files',
+        script: 'test-agent-definitions.ts',
+        description: 'Tests JSON, YAML and Markdown agent definition parsing'
       }
     ]
 
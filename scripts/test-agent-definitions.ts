@@ -0,0 +1,180 @@
+#!/usr/bin/env node
+
+/**
+ * Agent Definition Files Testing Script
+ *
+ * Offline checks for parseAgentDefinitionFiles:
+ * - Single agents as JSON, YAML and Markdown role files with front matter
+ * - Bundles and multi-document YAML
+ * - Per-field error messages that name the file and path
+ * - Round trips through serializeAgentDefinitions
+ */
+
+import assert from 'node:assert/strict'
+import {
+  parseAgentDefinitionFiles,
+  serializeAgentDefinitions,
+  type AgentDefinition
+} from '../src/lib/agent-definition'
+
+interface DefinitionTestResult {
+  testName: string
+  success: boolean
+  message: string
+  duration: number
+}
+
+const PROMPT = 'You challenge every assumption and ask for evidence.'
+
+class AgentDefinitionTester {
+  private testResults: DefinitionTestResult[] = []
+
+  /**
+   * Run every definition file scenario
+   */
+  async runAllTests(): Promise<void> {
+    console.log('📄 Testing Agent Definition Files\n')
+    console.log('='.repeat(60))
+
+    await this.runTest('Single agent files', () => this.testSingleAgents())
+    await this.runTest('Markdown role files', () => this.testMarkdownRoles())
+    await this.runTest('Bundles and YAML documents', () => this.testBundles())
+    await this.runTest('Errors name the file and field', () => this.testErrors())
+    await this.runTest('Serialize and parse again', () => this.testRoundTrip())
+
+    this.printTestSummary()
+  }
+
+  private async testSingleAgents(): Promise<void> {
+    const { definitions, errors } = parseAgentDefinitionFiles([
+      {
+        name: 'skeptic.json',
+        content: JSON.stringify({ version: 1, name: 'Skeptic', prompt: PROMPT, generation: { temperature: 0.2 } })
+      },
+      { name: 'mentor.yaml', content: `version: 1\nname: Mentor\nemoji: "🧭"\nprompt: ${PROMPT}\n` }
+    ])
+
+    assert.deepEqual(errors, [])
+    assert.deepEqual(definitions.map(definition => definition.name), ['Skeptic', 'Mentor'])
+    assert.equal(definitions[0].generation?.temperature, 0.2)
+    assert.equal(definitions[1].emoji, '🧭')
+  }
+
+  private async testMarkdownRoles(): Promise<void> {
+    const { definitions, errors } = parseAgentDefinitionFiles([
+      { name: 'steve_jobs.md', content: `${PROMPT}\n\nFocus on the product.` },
+      { name: 'coach.md', content: `---\nname: Head Coach\ncolor: "#F59E0B"\n---\n${PROMPT}` }
+    ])
+
+    assert.deepEqual(errors, [])
+    assert.equal(definitions[0].name, 'Steve jobs', 'the name comes from the file name')
+    assert.equal(definitions[0].prompt, `${PROMPT}\n\nFocus on the product.`)
+    assert.equal(definitions[1].name, 'Head Coach', 'front matter overrides the file name')
+    assert.equal(definitions[1].color, '#F59E0B')
+    assert.equal(definitions[1].prompt, PROMPT)
+  }
+
+  private async testBundles(): Promise<void> {
+    const { definitions, errors } = parseAgentDefinitionFiles([
+      {
+        name: 'team.json',
+        content: JSON.stringify({ version: 1, agents: [{ name: 'One', prompt: PROMPT }, { name: 'Two', prompt: PROMPT }] })
+      },
+      { name: 'pair.yaml', content: `version: 1\nname: Three\nprompt: ${PROMPT}\n---\nversion: 1\nname: Four\nprompt: ${PROMPT}\n` }
+    ])
+
+    assert.deepEqual(errors, [])
+    assert.deepEqual(definitions.map(definition => definition.name), ['One', 'Two', 'Three', 'Four'])
+    assert.equal(definitions[0].version, 1, 'bundled agents inherit the bundle version')
+  }
+
+  private async testErrors(): Promise<void> {
+    const { definitions, errors } = parseAgentDefinitionFiles([
+      { name: 'broken.json', content: '{ "name": ' },
+      { name: 'bad.yaml', content: `version: 1\nname: Bad\nprompt: ${PROMPT}\ngeneration:\n  temperature: 5\n` },
+      {
+        name: 'team.json',
+        content: JSON.stringify({ version: 1, agents: [{ name: 'Fine', prompt: PROMPT }, { name: 'Short', prompt: 'hi' }] })
+      },
+      { name: 'future.json', content: JSON.stringify({ version: 2, name: 'Later', prompt: PROMPT }) },
+      { name: 'extra.json', content: JSON.stringify({ version: 1, name: 'Extra', prompt: PROMPT, mood: 'happy' }) }
+    ])
+
+    assert.deepEqual(definitions.map(definition => definition.name), ['Fine'], 'valid agents still load')
+    assert.match(errors[0], /^broken\.json: Invalid JSON/)
+    assert.equal(errors[1], 'bad.yaml: generation.temperature: Temperature must be between 0 and 2')
+    assert.equal(errors[2], 'team.json: agents[1]: prompt: Prompt must be at least 10 characters')
+    assert.equal(errors[3], 'future.json: version: Unsupported version; expected 1')
+    assert.match(errors[4], /^extra\.json: Unrecognized key\(s\) in object: 'mood'/)
+    assert.equal(errors.length, 5)
+  }
+
+  private async testRoundTrip(): Promise<void> {
+    const agents: AgentDefinition[] = [
+      { version: 1, name: 'Skeptic', prompt: PROMPT, emoji: '🧐', generation: { maxTokens: 500 } },
+      { version: 1, name: 'Mentor', prompt: PROMPT, persona: { name: 'Ada', title: 'Engineer' } }
+    ]
+
+    for (const format of ['json', 'yaml'] as const) {
+      const single = parseAgentDefinitionFiles([{ name: `agent.${format}`, content: serializeAgentDefinitions(agents.slice(0, 1), format) }])
+      assert.deepEqual(single.definitions, agents.slice(0, 1), `one ${format} agent`)
+
+      const bundle = parseAgentDefinitionFiles([{ name: `agents.${format}`, content: serializeAgentDefinitions(agents, format) }])
+      assert.deepEqual(bundle.definitions, agents, `a ${format} bundle`)
+    }
+  }
+
+  private async runTest(testName: string, test: () => Promise<void>): Promise<void> {
+    const startTime = Date.now()
+
+    try {
+      await test()
+      this.testResults.push({ testName, success: true, message: 'OK', duration: Date.now() - startTime })
+      console.log(`✅ ${testName}`)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      this.testResults.push({ testName, success: false, message, duration: Date.now() - startTime })
+      console.log(`❌ ${testName}: ${message}`)
+    }
+  }
+
+  private printTestSummary(): void {
+    console.log('\n' + '='.repeat(60))
+    console.log('📊 AGENT DEFINITION TEST SUMMARY')
+    console.log('='.repeat(60))
+
+    const totalTests = this.testResults.length
+    const passedTests = this.testResults.filter(r => r.success).length
+    const failedTests = totalTests - passedTests
+
+    console.log(`Total Tests: ${totalTests}`)
+    console.log(`Passed: ${passedTests} ✅`)
+    console.log(`Failed: ${failedTests} ❌`)
+
+    if (failedTests > 0) {
+      console.log('\n❌ Failed Tests:')
+      this.testResults
+        .filter(r => !r.success)
+        .forEach(r => console.log(`   - ${r.testName}: ${r.message}`))
+      process.exitCode = 1
+    }
+  }
+}
+
+/**
+ * Main execution function
+ */
+async function main(): Promise<void> {
+  const tester = new AgentDefinitionTester()
+  await tester.runAllTests()
+}
+
+// Run tests if this file is executed directly
+if (require.main === module) {
+  main().catch(error => {
+    console.error(error)
+    process.exitCode = 1
+  })
+}
+
+export { AgentDefinitionTester }
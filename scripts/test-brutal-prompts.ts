@@ -24,7 +24,7 @@ try {
   console.warn('Could not load .env file, using existing environment variables')
 }
 
-import { getZAIClient } from '../src/lib/zai'
+import { getLLMProvider } from '../src/lib/llm'
 
 interface BrutalTestResult {
   agentStyle: string
@@ -37,7 +37,7 @@ interface BrutalTestResult {
 }
 
 class BrutalPromptTester {
-  private zaiClient = getZAIClient()
+  private llm = getLLMProvider()
   private testResults: BrutalTestResult[] = []
 
   /**
@@ -116,7 +116,7 @@ class BrutalPromptTester {
       const prompt = this.getBrutalPrompt(agentStyle)
 
       // Generate response
-      const response = await this.zaiClient.generateAgentResponse(
+      const response = await this.llm.generateAgentResponse(
         prompt,
         agentStyle as any,
         scenario,
@@ -0,0 +1,149 @@
+#!/usr/bin/env node
+
+/**
+ * Chat Command Parsing Testing Script
+ *
+ * Offline checks for the slash command parser shared by the composer and createMessage:
+ * - Known commands vs ordinary messages that start with "/"
+ * - Arguments, value flags (spaced and inline) and boolean switches
+ * - Errors for unknown or incomplete options
+ * - Autocomplete matching
+ */
+
+import assert from 'node:assert/strict'
+import { isChatCommand, matchChatCommands, parseChatCommand } from '../src/lib/chat-commands'
+
+interface CommandTestResult {
+  testName: string
+  success: boolean
+  message: string
+  duration: number
+}
+
+class ChatCommandTester {
+  private testResults: CommandTestResult[] = []
+
+  /**
+   * Run every parser scenario
+   */
+  async runAllTests(): Promise<void> {
+    console.log('⌨️  Testing Chat Commands\n')
+    console.log('='.repeat(60))
+
+    await this.runTest('Ordinary messages are not commands', () => this.testOrdinaryMessages())
+    await this.runTest('Arguments and flags', () => this.testArgumentsAndFlags())
+    await this.runTest('Inline flag values', () => this.testInlineFlags())
+    await this.runTest('Invalid options', () => this.testInvalidOptions())
+    await this.runTest('Autocomplete matches', () => this.testAutocomplete())
+
+    this.printTestSummary()
+  }
+
+  private async testOrdinaryMessages(): Promise<void> {
+    assert.equal(parseChatCommand('hello there'), null)
+    assert.equal(parseChatCommand('/etc/hosts is a file'), null, 'paths are not commands')
+    assert.equal(parseChatCommand('/shrug'), null, 'unknown names are ordinary chat')
+    assert.equal(isChatCommand('  /pause'), true, 'leading whitespace is ignored')
+    assert.equal(isChatCommand('/PAUSE'), true, 'names are case-insensitive')
+  }
+
+  private async testArgumentsAndFlags(): Promise<void> {
+    const parsed = parseChatCommand('/debate @Alice @Bob  Is remote work better? --rounds 3 --no-moderator --intensity intense')
+
+    assert.ok(parsed?.success)
+    assert.equal(parsed.data.name, 'debate')
+    assert.equal(parsed.data.args, '@Alice @Bob Is remote work better?', 'flags are removed from the arguments')
+    assert.deepEqual(parsed.data.flags, { rounds: '3', 'no-moderator': true, intensity: 'intense' })
+
+    const bare = parseChatCommand('/stop')
+    assert.ok(bare?.success)
+    assert.deepEqual(bare.data, { name: 'stop', args: '', flags: {} })
+  }
+
+  private async testInlineFlags(): Promise<void> {
+    const parsed = parseChatCommand('/summarize --last=30')
+
+    assert.ok(parsed?.success)
+    assert.deepEqual(parsed.data.flags, { last: '30' })
+
+    const upper = parseChatCommand('/debate topic --ROUNDS 2')
+    assert.ok(upper?.success)
+    assert.deepEqual(upper.data.flags, { rounds: '2' }, 'flag names are lowercased')
+  }
+
+  private async testInvalidOptions(): Promise<void> {
+    assert.deepEqual(parseChatCommand('/ask @Alice why? --rounds 2'), {
+      success: false,
+      error: 'Unknown option --rounds for /ask'
+    })
+    assert.deepEqual(parseChatCommand('/summarize --last'), {
+      success: false,
+      error: 'Option --last needs a value'
+    })
+    assert.deepEqual(parseChatCommand('/debate topic --rounds --no-moderator'), {
+      success: false,
+      error: 'Option --rounds needs a value'
+    }, 'another flag is not a value')
+  }
+
+  private async testAutocomplete(): Promise<void> {
+    assert.deepEqual(matchChatCommands('/s').map(command => command.name), ['summarize', 'stop'])
+    assert.equal(matchChatCommands('/').length, 7, 'a bare slash lists every command')
+    assert.deepEqual(matchChatCommands('/debate topic'), [], 'no suggestions once arguments start')
+    assert.deepEqual(matchChatCommands('hello'), [])
+  }
+
+  private async runTest(testName: string, test: () => Promise<void>): Promise<void> {
+    const startTime = Date.now()
+
+    try {
+      await test()
+      this.testResults.push({ testName, success: true, message: 'OK', duration: Date.now() - startTime })
+      console.log(`✅ ${testName}`)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      this.testResults.push({ testName, success: false, message, duration: Date.now() - startTime })
+      console.log(`❌ ${testName}: ${message}`)
+    }
+  }
+
+  private printTestSummary(): void {
+    console.log('\n' + '='.repeat(60))
+    console.log('📊 CHAT COMMAND TEST SUMMARY')
+    console.log('='.repeat(60))
+
+    const totalTests = this.testResults.length
+    const passedTests = this.testResults.filter(r => r.success).length
+    const failedTests = totalTests - passedTests
+
+    console.log(`Total Tests: ${totalTests}`)
+    console.log(`Passed: ${passedTests} ✅`)
+    console.log(`Failed: ${failedTests} ❌`)
+
+    if (failedTests > 0) {
+      console.log('\n❌ Failed Tests:')
+      this.testResults
+        .filter(r => !r.success)
+        .forEach(r => console.log(`   - ${r.testName}: ${r.message}`))
+      process.exitCode = 1
+    }
+  }
+}
+
+/**
+ * Main execution function
+ */
+async function main(): Promise<void> {
+  const tester = new ChatCommandTester()
+  await tester.runAllTests()
+}
+
+// Run tests if this file is executed directly
+if (require.main === module) {
+  main().catch(error => {
+    console.error(error)
+    process.exitCode = 1
+  })
+}
+
+export { ChatCommandTester }
@@ -0,0 +1,263 @@
+#!/usr/bin/env node
+
+/**
+ * Conversation Import Testing Script
+ *
+ * Offline checks for parseConversationImport:
+ * - This app's JSON export, including redacted agents and bounded settings
+ * - Markdown transcripts, both this app's export and hand-written ones
+ * - ChatGPT exports: the shown branch and conversation selection
+ * - User-facing errors for files that don't match their source
+ */
+
+import assert from 'node:assert/strict'
+import { renderConversationExport, type ConversationExport } from '../src/lib/services/conversation-export'
+import {
+  IMPORTED_AGENT_PROMPT,
+  IMPORTER_ID,
+  parseConversationImport
+} from '../src/lib/services/conversation-import'
+
+interface ImportTestResult {
+  testName: string
+  success: boolean
+  message: string
+  duration: number
+}
+
+function sampleExport(): ConversationExport {
+  return {
+    version: 1,
+    exportedAt: '2026-01-02T10:00:00.000Z',
+    room: { id: 'room-1', name: 'Pricing', description: null },
+    discussionId: null,
+    filters: { from: null, to: null, types: null },
+    agents: [
+      {
+        id: 'agent-own',
+        name: 'Analyst',
+        emoji: '📊',
+        color: '#10B981',
+        style: 'TRUTH_TELLER',
+        prompt: 'You analyse pricing decisions with numbers.',
+        llmProvider: 'openai',
+        model: 'gpt-4o-mini',
+        temperature: 0.3,
+        topP: null,
+        maxTokens: 800,
+        systemPromptPrefix: null
+      },
+      // Someone else's private agent, exported by appearance only
+      { id: 'agent-other', name: 'Critic', emoji: '🧐', color: '#EF4444', style: 'TRUTH_TELLER' }
+    ],
+    messages: [
+      {
+        id: 'message-1',
+        type: 'USER',
+        content: 'Should we raise prices?',
+        timestamp: '2026-01-02T09:00:00.000Z',
+        editedAt: null,
+        parentId: null,
+        senderId: 'user-1',
+        senderName: 'Dana',
+        agentId: null,
+        processingTime: null,
+        agentConfidence: null,
+        contextLength: null,
+        mentions: ['agent-own']
+      },
+      {
+        id: 'message-2',
+        type: 'AGENT',
+        content: 'Only for new customers.',
+        timestamp: '2026-01-02T09:01:00.000Z',
+        editedAt: null,
+        parentId: 'message-1',
+        senderId: null,
+        senderName: null,
+        agentId: 'agent-own',
+        processingTime: 1.5,
+        agentConfidence: 0.8,
+        contextLength: 3,
+        mentions: []
+      }
+    ],
+    discussions: []
+  }
+}
+
+class ConversationImportTester {
+  private testResults: ImportTestResult[] = []
+
+  /**
+   * Run every import source scenario
+   */
+  async runAllTests(): Promise<void> {
+    console.log('📥 Testing Conversation Import\n')
+    console.log('='.repeat(60))
+
+    await this.runTest('JSON export round trip', () => this.testJsonRoundTrip())
+    await this.runTest('JSON agent settings are bounded', () => this.testJsonAgentBounds())
+    await this.runTest('Markdown export round trip', () => this.testMarkdownExport())
+    await this.runTest('Hand-written Markdown transcript', () => this.testMarkdownTranscript())
+    await this.runTest('ChatGPT export', () => this.testChatGptExport())
+    await this.runTest('Mismatched files', () => this.testErrors())
+
+    this.printTestSummary()
+  }
+
+  private async testJsonRoundTrip(): Promise<void> {
+    const data = parseConversationImport('discux', JSON.stringify(sampleExport()))
+
+    assert.equal(data.room.name, 'Pricing')
+    assert.equal(data.messages.length, 2)
+    assert.equal(data.messages[1].parentId, 'message-1')
+    assert.equal(data.agents[0].temperature, 0.3)
+
+    const redacted = data.agents.find(agent => agent.id === 'agent-other')
+    assert.equal(redacted?.prompt, IMPORTED_AGENT_PROMPT, 'agents without a prompt get a placeholder')
+    assert.equal(redacted?.model, undefined)
+  }
+
+  private async testJsonAgentBounds(): Promise<void> {
+    const withSettings = (settings: Record<string, unknown>) => {
+      const data = sampleExport()
+      data.agents[0] = { ...data.agents[0], ...settings }
+      return JSON.stringify(data)
+    }
+
+    assert.throws(() => parseConversationImport('discux', withSettings({ temperature: 7 })), /agents\.0\.temperature/)
+    assert.throws(() => parseConversationImport('discux', withSettings({ maxTokens: 1_000_000 })), /maxTokens/)
+    assert.throws(() => parseConversationImport('discux', withSettings({ llmProvider: 'skynet' })), /llmProvider/)
+    assert.throws(() => parseConversationImport('discux', withSettings({ prompt: 'short' })), /prompt/)
+  }
+
+  private async testMarkdownExport(): Promise<void> {
+    const markdown = renderConversationExport(sampleExport(), 'markdown').body
+    const data = parseConversationImport('markdown', markdown)
+
+    assert.equal(data.messages.length, 2)
+    assert.equal(data.messages[0].type, 'USER')
+    assert.equal(data.messages[0].senderName, 'Dana')
+    assert.equal(data.messages[1].type, 'AGENT')
+    assert.equal(data.messages[1].parentId, data.messages[0].id, 'quoted replies stay in their thread')
+    assert.equal(data.messages[1].content, 'Only for new customers.')
+    assert.deepEqual(data.agents.map(agent => agent.name), ['Analyst'])
+  }
+
+  private async testMarkdownTranscript(): Promise<void> {
+    const data = parseConversationImport('markdown', [
+      '# Planning chat',
+      '',
+      '**You:** What should we ship first?',
+      '**🦉 Owl:** The importer.',
+      'It unblocks the rest.',
+      '## Moderator',
+      'Agreed: importer first.'
+    ].join('\n'))
+
+    assert.equal(data.room.name, 'Planning chat')
+    assert.deepEqual(data.messages.map(message => message.type), ['USER', 'AGENT', 'SYSTEM'])
+    assert.equal(data.messages[0].senderId, IMPORTER_ID, '"You" is the importing user')
+    assert.equal(data.messages[1].content, 'The importer.\nIt unblocks the rest.')
+    assert.deepEqual(data.agents.map(agent => [agent.name, agent.emoji]), [['Owl', '🦉']])
+  }
+
+  private async testChatGptExport(): Promise<void> {
+    const conversation = {
+      title: 'Trip ideas',
+      create_time: 1700000000,
+      current_node: 'answer-2',
+      mapping: {
+        root: { message: null, parent: null },
+        question: {
+          parent: 'root',
+          message: { author: { role: 'user' }, content: { parts: ['Where should I go?'] }, create_time: 1700000001 }
+        },
+        'answer-1': {
+          parent: 'question',
+          message: { author: { role: 'assistant' }, content: { parts: ['A regenerated answer'] } }
+        },
+        'answer-2': {
+          parent: 'question',
+          message: {
+            author: { role: 'assistant' },
+            content: { parts: ['Lisbon.'] },
+            metadata: { model_slug: 'gpt-4o' }
+          }
+        }
+      }
+    }
+
+    const data = parseConversationImport('chatgpt', JSON.stringify([{ title: 'Other', mapping: {} }, conversation]), 1)
+
+    assert.equal(data.room.name, 'Trip ideas')
+    assert.deepEqual(data.messages.map(message => message.content), ['Where should I go?', 'Lisbon.'],
+      'only the shown branch is imported')
+    assert.equal(data.agents[0].model, 'gpt-4o')
+
+    assert.throws(() => parseConversationImport('chatgpt', JSON.stringify([conversation, conversation]), 5),
+      /has 2 conversations/)
+  }
+
+  private async testErrors(): Promise<void> {
+    assert.throws(() => parseConversationImport('discux', 'not json'), /not valid JSON/)
+    assert.throws(() => parseConversationImport('discux', '{"version":2}'), /Not a valid conversation export/)
+    assert.throws(() => parseConversationImport('chatgpt', '{"title":"x"}'), /Not a ChatGPT conversation export/)
+    assert.throws(() => parseConversationImport('markdown', 'Just some notes'), /No messages found/)
+  }
+
+  private async runTest(testName: string, test: () => Promise<void>): Promise<void> {
+    const startTime = Date.now()
+
+    try {
+      await test()
+      this.testResults.push({ testName, success: true, message: 'OK', duration: Date.now() - startTime })
+      console.log(`✅ ${testName}`)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      this.testResults.push({ testName, success: false, message, duration: Date.now() - startTime })
+      console.log(`❌ ${testName}: ${message}`)
+    }
+  }
+
+  private printTestSummary(): void {
+    console.log('\n' + '='.repeat(60))
+    console.log('📊 CONVERSATION IMPORT TEST SUMMARY')
+    console.log('='.repeat(60))
+
+    const totalTests = this.testResults.length
+    const passedTests = this.testResults.filter(r => r.success).length
+    const failedTests = totalTests - passedTests
+
+    console.log(`Total Tests: ${totalTests}`)
+    console.log(`Passed: ${passedTests} ✅`)
+    console.log(`Failed: ${failedTests} ❌`)
+
+    if (failedTests > 0) {
+      console.log('\n❌ Failed Tests:')
+      this.testResults
+        .filter(r => !r.success)
+        .forEach(r => console.log(`   - ${r.testName}: ${r.message}`))
+      process.exitCode = 1
+    }
+  }
+}
+
+/**
+ * Main execution function
+ */
+async function main(): Promise<void> {
+  const tester = new ConversationImportTester()
+  await tester.runAllTests()
+}
+
+// Run tests if this file is executed directly
+if (require.main === module) {
+  main().catch(error => {
+    console.error(error)
+    process.exitCode = 1
+  })
+}
+
+export { ConversationImportTester }
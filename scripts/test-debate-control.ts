@@ -0,0 +1,172 @@
+#!/usr/bin/env node
+
+/**
+ * Debate Control Testing Script
+ *
+ * Offline checks for the pure helpers the discussion orchestrator relies on:
+ * - Discussion.metadata parsing and debate config defaults
+ * - Choosing which earlier turn an agent answers
+ * - Detecting which participant a reply addresses
+ * - The consensus heuristic
+ */
+
+import assert from 'node:assert/strict'
+import {
+  detectConsensus,
+  findAddressedTurn,
+  getDebateConfig,
+  parseDiscussionMetadata,
+  pickResponseTarget,
+  type DebateTurn
+} from '../src/lib/services/debate-control'
+
+interface DebateTestResult {
+  testName: string
+  success: boolean
+  message: string
+  duration: number
+}
+
+function turn(turnOrder: number, agentId: string, agentName: string, content: string): DebateTurn {
+  return { agentId, agentName, messageId: `message-${turnOrder}`, content, turnOrder }
+}
+
+class DebateControlTester {
+  private testResults: DebateTestResult[] = []
+
+  /**
+   * Run every debate control scenario
+   */
+  async runAllTests(): Promise<void> {
+    console.log('🎙️  Testing Debate Control\n')
+    console.log('='.repeat(60))
+
+    await this.runTest('Metadata parsing', () => this.testMetadataParsing())
+    await this.runTest('Debate config defaults', () => this.testDebateConfig())
+    await this.runTest('Response target', () => this.testResponseTarget())
+    await this.runTest('Addressed turn', () => this.testAddressedTurn())
+    await this.runTest('Consensus detection', () => this.testConsensus())
+
+    this.printTestSummary()
+  }
+
+  private async testMetadataParsing(): Promise<void> {
+    assert.deepEqual(parseDiscussionMetadata(null), {})
+    assert.deepEqual(parseDiscussionMetadata(''), {})
+    assert.deepEqual(parseDiscussionMetadata('{not json'), {}, 'malformed JSON is tolerated')
+    assert.deepEqual(parseDiscussionMetadata('"a string"'), {}, 'non-objects are ignored')
+    assert.deepEqual(parseDiscussionMetadata('{"rounds":3,"jobError":"boom"}'), { rounds: 3, jobError: 'boom' })
+  }
+
+  private async testDebateConfig(): Promise<void> {
+    assert.deepEqual(getDebateConfig({}), { rounds: 1, stopConditions: ['maxTurns'] }, 'maxTurns is always enforced')
+    assert.equal(getDebateConfig({ rounds: 50 }).rounds, 10, 'rounds are capped')
+    assert.equal(getDebateConfig({ rounds: -2 }).rounds, 1, 'rounds are at least one')
+
+    const config = getDebateConfig({
+      stopConditions: ['consensus', 'bogus' as never, 'maxTurns']
+    })
+    assert.deepEqual(config.stopConditions, ['consensus', 'maxTurns'], 'unknown conditions are dropped')
+  }
+
+  private async testResponseTarget(): Promise<void> {
+    assert.equal(pickResponseTarget([], 'a', 'Alice'), undefined, 'nobody to answer yet')
+
+    const history = [
+      turn(0, 'a', 'Alice', 'Opening statement.'),
+      turn(1, 'b', 'Bob', 'Alice is wrong about costs.'),
+      turn(2, 'c', 'Carol', 'A different angle entirely.')
+    ]
+    assert.equal(pickResponseTarget(history, 'a', 'Alice')?.turnOrder, 1, 'a challenge by name wins')
+    assert.equal(pickResponseTarget(history, 'b', 'Bob')?.turnOrder, 2, 'otherwise the latest other turn')
+
+    const answered = [...history, turn(3, 'a', 'Alice', 'Bob, costs fall over time.')]
+    assert.equal(pickResponseTarget(answered, 'a', 'Alice')?.turnOrder, 2, 'answered challenges no longer win')
+  }
+
+  private async testAddressedTurn(): Promise<void> {
+    const history = [
+      turn(0, 'a', 'Alice', 'First.'),
+      turn(1, 'b', 'Bob', 'Second.'),
+      turn(2, 'c', 'Carol', 'Third.'),
+      turn(3, 'b', 'Bob', 'Fourth.')
+    ]
+
+    assert.equal(findAddressedTurn('I side with carol, not Bob.', history, 'a')?.turnOrder, 2,
+      'the name mentioned first wins')
+    assert.equal(findAddressedTurn('bob has a point', history, 'a')?.turnOrder, 3,
+      "an agent's latest turn is the one addressed")
+    assert.equal(findAddressedTurn('Alice said it best', history, 'a'), undefined, 'own name is ignored')
+    assert.equal(findAddressedTurn('No names here', history, 'a'), undefined)
+  }
+
+  private async testConsensus(): Promise<void> {
+    assert.equal(detectConsensus([turn(0, 'a', 'Alice', 'I agree.')]), false, 'one reply is not a consensus')
+    assert.equal(detectConsensus([
+      turn(0, 'a', 'Alice', 'I agree with Bob.'),
+      turn(1, 'b', 'Bob', 'Saya setuju.')
+    ]), true)
+    assert.equal(detectConsensus([
+      turn(0, 'a', 'Alice', 'I agree with Bob.'),
+      turn(1, 'b', 'Bob', 'I agree, however the timeline is off.')
+    ]), false, 'pushback breaks consensus')
+    assert.equal(detectConsensus([
+      turn(0, 'a', 'Alice', 'I agree.'),
+      turn(1, 'b', 'Bob', 'Interesting.')
+    ]), false, 'every reply must agree')
+  }
+
+  private async runTest(testName: string, test: () => Promise<void>): Promise<void> {
+    const startTime = Date.now()
+
+    try {
+      await test()
+      this.testResults.push({ testName, success: true, message: 'OK', duration: Date.now() - startTime })
+      console.log(`✅ ${testName}`)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      this.testResults.push({ testName, success: false, message, duration: Date.now() - startTime })
+      console.log(`❌ ${testName}: ${message}`)
+    }
+  }
+
+  private printTestSummary(): void {
+    console.log('\n' + '='.repeat(60))
+    console.log('📊 DEBATE CONTROL TEST SUMMARY')
+    console.log('='.repeat(60))
+
+    const totalTests = this.testResults.length
+    const passedTests = this.testResults.filter(r => r.success).length
+    const failedTests = totalTests - passedTests
+
+    console.log(`Total Tests: ${totalTests}`)
+    console.log(`Passed: ${passedTests} ✅`)
+    console.log(`Failed: ${failedTests} ❌`)
+
+    if (failedTests > 0) {
+      console.log('\n❌ Failed Tests:')
+      this.testResults
+        .filter(r => !r.success)
+        .forEach(r => console.log(`   - ${r.testName}: ${r.message}`))
+      process.exitCode = 1
+    }
+  }
+}
+
+/**
+ * Main execution function
+ */
+async function main(): Promise<void> {
+  const tester = new DebateControlTester()
+  await tester.runAllTests()
+}
+
+// Run tests if this file is executed directly
+if (require.main === module) {
+  main().catch(error => {
+    console.error(error)
+    process.exitCode = 1
+  })
+}
+
+export { DebateControlTester }
@@ -0,0 +1,245 @@
+#!/usr/bin/env node
+
+/**
+ * LLM Provider Testing Script
+ *
+ * Offline checks for the provider layer:
+ * - Registry resolution from explicit names and LLM_PROVIDER
+ * - Default models per provider
+ * - Instance caching and resetLLMProviders
+ * - The mock provider's deterministic replies, token budget, streaming and abort handling
+ * - Cost estimates from the price table
+ */
+
+import assert from 'node:assert/strict'
+import {
+  getDefaultLLMModel,
+  getDefaultLLMProviderName,
+  getLLMProvider,
+  isAbortError,
+  resetLLMProviders
+} from '../src/lib/llm'
+import { MockLLMClient } from '../src/lib/llm/mock'
+import { estimateCost, getModelPrice } from '../src/lib/llm/pricing'
+
+interface ProviderTestResult {
+  testName: string
+  success: boolean
+  message: string
+  duration: number
+}
+
+class LLMProviderTester {
+  private testResults: ProviderTestResult[] = []
+  private originalProvider = process.env.LLM_PROVIDER
+  private originalOpenAIModel = process.env.OPENAI_MODEL
+
+  /**
+   * Run registry and mock provider tests
+   */
+  async runAllTests(): Promise<void> {
+    console.log('🤖 Testing LLM Providers\n')
+    console.log('='.repeat(60))
+
+    try {
+      await this.runTest('Default provider name', () => this.testDefaultProviderName())
+      await this.runTest('Explicit provider names', () => this.testExplicitNames())
+      await this.runTest('Provider caching and reset', () => this.testCaching())
+      await this.runTest('Default models follow the provider', () => this.testDefaultModels())
+      await this.runTest('Mock replies are deterministic', () => this.testMockDeterminism())
+      await this.runTest('Mock honours generation settings', () => this.testMockSettings())
+      await this.runTest('Mock streams its reply', () => this.testMockStreaming())
+      await this.runTest('Mock respects abort signals', () => this.testMockAbort())
+      await this.runTest('Cost estimates', () => this.testCostEstimates())
+    } finally {
+      this.restoreEnvironment()
+      this.printTestSummary()
+    }
+  }
+
+  private async testDefaultProviderName(): Promise<void> {
+    delete process.env.LLM_PROVIDER
+    assert.equal(getDefaultLLMProviderName(), 'zai', 'falls back to Z.ai')
+
+    process.env.LLM_PROVIDER = ' Mock '
+    assert.equal(getDefaultLLMProviderName(), 'mock', 'trims and lowercases LLM_PROVIDER')
+
+    process.env.LLM_PROVIDER = 'unknown'
+    assert.equal(getDefaultLLMProviderName(), 'zai', 'ignores unknown providers')
+  }
+
+  private async testExplicitNames(): Promise<void> {
+    process.env.LLM_PROVIDER = 'mock'
+    resetLLMProviders()
+
+    assert.equal(getLLMProvider('openai').name, 'openai')
+    assert.equal(getLLMProvider('local').name, 'local')
+    assert.equal(getLLMProvider('mock').name, 'mock')
+    assert.equal(getLLMProvider().name, 'mock', 'no name uses LLM_PROVIDER')
+    assert.equal(getLLMProvider(null).name, 'mock', 'agents without a provider use LLM_PROVIDER')
+    assert.equal(getLLMProvider('gpt-9').name, 'mock', 'unknown names use LLM_PROVIDER')
+  }
+
+  private async testCaching(): Promise<void> {
+    process.env.LLM_PROVIDER = 'mock'
+    resetLLMProviders()
+
+    const first = getLLMProvider('mock')
+    assert.equal(getLLMProvider('mock'), first, 'same instance per provider')
+    assert.equal(getLLMProvider(), first, 'default shares the named instance')
+    assert.notEqual(getLLMProvider('openai'), first)
+
+    resetLLMProviders()
+    assert.notEqual(getLLMProvider('mock'), first, 'reset creates new instances')
+  }
+
+  private async testDefaultModels(): Promise<void> {
+    process.env.LLM_PROVIDER = 'mock'
+    delete process.env.OPENAI_MODEL
+
+    assert.equal(getDefaultLLMModel(), 'mock-echo', 'no name uses LLM_PROVIDER')
+    assert.equal(getDefaultLLMModel('openai'), 'gpt-4o-mini')
+
+    process.env.OPENAI_MODEL = 'gpt-custom'
+    assert.equal(getDefaultLLMModel('openai'), 'gpt-custom', 'OPENAI_MODEL overrides the default')
+  }
+
+  private async testMockDeterminism(): Promise<void> {
+    const client = new MockLLMClient()
+
+    const first = await client.generateAgentResponse('You are blunt', 'TRUTH_TELLER', '  Is this plan good?  ')
+    const second = await client.generateAgentResponse('You are blunt', 'TRUTH_TELLER', 'Is this plan good?')
+    const otherAgent = await client.generateAgentResponse('You are kind', 'TRUTH_TELLER', 'Is this plan good?')
+
+    assert.match(first.content, /^\[mock:[0-9a-f]{8}\] Is this plan good\?$/)
+    assert.equal(first.content, second.content, 'same input, same reply')
+    assert.notEqual(first.content, otherAgent.content, 'prompts are fingerprinted')
+    assert.equal(first.model, 'mock-echo')
+    assert.deepEqual(first.usage, { prompt_tokens: 7, completion_tokens: 5, total_tokens: 12 })
+  }
+
+  private async testMockSettings(): Promise<void> {
+    const client = new MockLLMClient('mock-custom')
+    const plain = await client.generateAgentResponse('Prompt', 'STYLE', 'one two three four five')
+
+    const prefixed = await client.generateAgentResponse('Prompt', 'STYLE', 'one two three four five', [], undefined, {
+      systemPromptPrefix: 'Answer in French'
+    })
+    assert.notEqual(prefixed.content, plain.content, 'system prompt prefix reaches the prompt')
+
+    const limited = await client.generateAgentResponse('Prompt', 'STYLE', 'one two three four five', [], undefined, {
+      maxTokens: 3,
+      model: 'override-model'
+    })
+    assert.equal(limited.content.split(/\s+/).length, 3, 'maxTokens caps the reply')
+    assert.equal(limited.model, 'override-model')
+    assert.equal(plain.model, 'mock-custom')
+  }
+
+  private async testMockStreaming(): Promise<void> {
+    const client = new MockLLMClient()
+    const tokens: string[] = []
+
+    const response = await client.generateAgentResponse('Prompt', 'STYLE', 'stream these words', [], undefined, {
+      onToken: token => tokens.push(token)
+    })
+
+    assert.ok(tokens.length > 1, 'reply arrives in several tokens')
+    assert.equal(tokens.join(''), response.content, 'tokens add up to the reply')
+  }
+
+  private async testMockAbort(): Promise<void> {
+    const client = new MockLLMClient()
+    const controller = new AbortController()
+    controller.abort()
+
+    await assert.rejects(
+      client.generateAgentResponse('Prompt', 'STYLE', 'never answered', [], undefined, { signal: controller.signal }),
+      (error: unknown) => isAbortError(error)
+    )
+  }
+
+  private async testCostEstimates(): Promise<void> {
+    const million = { promptTokens: 1_000_000, completionTokens: 0, cachedTokens: 0 }
+    const closeTo = (actual: number, expected: number, message?: string) =>
+      assert.ok(Math.abs(actual - expected) < 1e-9, message || `${actual} != ${expected}`)
+
+    closeTo(estimateCost('zai', 'glm-4.6', million), 0.6)
+    closeTo(estimateCost('zai', 'glm-4.5-air-0111', million), 0.2, 'the longest model-name prefix wins')
+    closeTo(estimateCost('openai', 'GPT-4o-mini-2024', { promptTokens: 1_000_000, completionTokens: 500_000, cachedTokens: 400_000 }),
+      (600_000 * 0.15 + 400_000 * 0.075 + 500_000 * 0.6) / 1_000_000, 'cached prompt tokens use the cached price')
+
+    assert.equal(estimateCost('local', 'llama3.1', million), 0, 'self-hosted models are free')
+    assert.equal(estimateCost('mock', 'mock-echo', million), 0)
+    assert.equal(getModelPrice('openai', 'unknown-model'), null)
+    assert.equal(estimateCost('openai', 'unknown-model', million), 0, 'unknown models count as free')
+  }
+
+  private restoreEnvironment(): void {
+    if (this.originalProvider === undefined) {
+      delete process.env.LLM_PROVIDER
+    } else {
+      process.env.LLM_PROVIDER = this.originalProvider
+    }
+    if (this.originalOpenAIModel === undefined) {
+      delete process.env.OPENAI_MODEL
+    } else {
+      process.env.OPENAI_MODEL = this.originalOpenAIModel
+    }
+    resetLLMProviders()
+  }
+
+  private async runTest(testName: string, test: () => Promise<void>): Promise<void> {
+    const startTime = Date.now()
+
+    try {
+      await test()
+      this.testResults.push({ testName, success: true, message: 'OK', duration: Date.now() - startTime })
+      console.log(`✅ ${testName}`)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      this.testResults.push({ testName, success: false, message, duration: Date.now() - startTime })
+      console.log(`❌ ${testName}: ${message}`)
+    }
+  }
+
+  private printTestSummary(): void {
+    console.log('\n' + '='.repeat(60))
+    console.log('📊 LLM PROVIDER TEST SUMMARY')
+    console.log('='.repeat(60))
+
+    const totalTests = this.testResults.length
+    const passedTests = this.testResults.filter(r => r.success).length
+    const failedTests = totalTests - passedTests
+
+    console.log(`Total Tests: ${totalTests}`)
+    console.log(`Passed: ${passedTests} ✅`)
+    console.log(`Failed: ${failedTests} ❌`)
+
+    if (failedTests > 0) {
+      console.log('\n❌ Failed Tests:')
+      this.testResults
+        .filter(r => !r.success)
+        .forEach(r => console.log(`   - ${r.testName}: ${r.message}`))
+      process.exitCode = 1
+    }
+  }
+}
+
+/**
+ * Main execution function
+ */
+async function main(): Promise<void> {
+  const tester = new LLMProviderTester()
+  await tester.runAllTests()
+}
+
+// Run tests if this file is executed directly
+if (require.main === module) {
+  main().catch(error => {
+    console.error(error)
+    process.exitCode = 1
+  })
+}
+
+export { LLMProviderTester }
@@ -0,0 +1,243 @@
+#!/usr/bin/env node
+
+/**
+ * Presence Store Testing Script
+ *
+ * Runs the same scenarios against the in-memory store and the Redis store
+ * (backed by an in-process sorted-set stand-in) to check they agree on:
+ * - First-socket / last-socket detection across tabs
+ * - Online users per room
+ * - Typing indicators and their expiry
+ * - Cleanup of sockets left behind by a crashed instance (Redis only)
+ */
+
+import assert from 'node:assert/strict'
+import {
+  InMemoryPresenceStore,
+  RedisPresenceStore,
+  type PresenceStore,
+  type RedisLike
+} from '../src/lib/services/presence-store'
+
+interface PresenceTestResult {
+  testName: string
+  success: boolean
+  message: string
+  duration: number
+}
+
+/**
+ * Sorted sets with the ioredis semantics the presence store relies on
+ */
+class FakeRedis implements RedisLike {
+  private sets = new Map<string, Map<string, number>>()
+
+  async zadd(key: string, score: number, member: string): Promise<number> {
+    if (!this.sets.has(key)) this.sets.set(key, new Map())
+    const set = this.sets.get(key)!
+    const added = set.has(member) ? 0 : 1
+    set.set(member, score)
+    return added
+  }
+
+  async zrem(key: string, member: string): Promise<number> {
+    return this.sets.get(key)?.delete(member) ? 1 : 0
+  }
+
+  async zremrangebyscore(key: string, min: number | string, max: number | string): Promise<number> {
+    const set = this.sets.get(key)
+    if (!set) return 0
+
+    const low = min === '-inf' ? -Infinity : Number(min)
+    const high = max === '+inf' ? Infinity : Number(max)
+    let removed = 0
+    set.forEach((score, member) => {
+      if (score >= low && score <= high) {
+        set.delete(member)
+        removed++
+      }
+    })
+    return removed
+  }
+
+  async zrange(key: string, start: number, stop: number): Promise<string[]> {
+    const members = Array.from(this.sets.get(key)?.entries() || [])
+      .sort(([memberA, scoreA], [memberB, scoreB]) => scoreA - scoreB || memberA.localeCompare(memberB))
+      .map(([member]) => member)
+    return members.slice(start, stop === -1 ? undefined : stop + 1)
+  }
+
+  async expire(): Promise<number> {
+    return 1
+  }
+
+  /**
+   * Backdate a member, as if its instance stopped sending heartbeats
+   */
+  age(key: string, member: string, ms: number): void {
+    const set = this.sets.get(key)
+    const score = set?.get(member)
+    if (set && score !== undefined) set.set(member, score - ms)
+  }
+}
+
+class PresenceStoreTester {
+  private testResults: PresenceTestResult[] = []
+
+  /**
+   * Run every scenario against both stores, then the Redis-only checks
+   */
+  async runAllTests(): Promise<void> {
+    console.log('👥 Testing Presence Stores\n')
+    console.log('='.repeat(60))
+
+    const stores: Array<[string, () => PresenceStore]> = [
+      ['memory', () => new InMemoryPresenceStore()],
+      ['redis', () => new RedisPresenceStore(new FakeRedis(), 'test:presence')]
+    ]
+
+    for (const [label, createStore] of stores) {
+      await this.runTest(`Multiple tabs (${label})`, () => this.testMultipleTabs(createStore()))
+      await this.runTest(`Rooms are independent (${label})`, () => this.testRoomIsolation(createStore()))
+      await this.runTest(`Typing indicators (${label})`, () => this.testTyping(createStore()))
+      await this.runTest(`Leaving clears typing (${label})`, () => this.testLeaveClearsTyping(createStore()))
+    }
+
+    await this.runTest('Stale sockets are dropped (redis)', () => this.testStaleSockets())
+    await this.runTest('Expired typing is dropped (redis)', () => this.testTypingExpiry())
+
+    this.printTestSummary()
+  }
+
+  private async testMultipleTabs(store: PresenceStore): Promise<void> {
+    assert.equal(await store.join('room-1', 'alice', 'tab-1'), true, 'first tab announces the user')
+    assert.equal(await store.join('room-1', 'alice', 'tab-2'), false, 'second tab is silent')
+    assert.equal(await store.join('room-1', 'alice', 'tab-1'), false, 'a tab joining again is silent')
+    assert.deepEqual(await store.onlineUsers('room-1'), ['alice'])
+
+    assert.equal(await store.leave('room-1', 'alice', 'tab-1'), false, 'user stays online with a tab left')
+    assert.deepEqual(await store.onlineUsers('room-1'), ['alice'])
+
+    assert.equal(await store.leave('room-1', 'alice', 'tab-2'), true, 'last tab takes the user offline')
+    assert.deepEqual(await store.onlineUsers('room-1'), [])
+
+    assert.equal(await store.leave('room-1', 'alice', 'tab-2'), false, 'leaving twice is a no-op')
+  }
+
+  private async testRoomIsolation(store: PresenceStore): Promise<void> {
+    await store.join('room-1', 'alice', 'tab-1')
+    await store.join('room-2', 'bob', 'tab-2')
+    assert.equal(await store.join('room-2', 'alice', 'tab-1'), true, 'same socket joins another room as first')
+
+    assert.deepEqual((await store.onlineUsers('room-1')).sort(), ['alice'])
+    assert.deepEqual((await store.onlineUsers('room-2')).sort(), ['alice', 'bob'])
+
+    await store.leave('room-2', 'alice', 'tab-1')
+    assert.deepEqual(await store.onlineUsers('room-1'), ['alice'])
+  }
+
+  private async testTyping(store: PresenceStore): Promise<void> {
+    await store.setTyping('room-1', 'alice', true)
+    await store.setTyping('room-1', 'bob', true)
+    assert.deepEqual((await store.typingUsers('room-1')).sort(), ['alice', 'bob'])
+    assert.deepEqual(await store.typingUsers('room-2'), [])
+
+    await store.setTyping('room-1', 'alice', false)
+    assert.deepEqual(await store.typingUsers('room-1'), ['bob'])
+
+    await store.setTyping('room-1', 'carol', false)
+    assert.deepEqual(await store.typingUsers('room-1'), ['bob'], 'stopping without typing is a no-op')
+  }
+
+  private async testLeaveClearsTyping(store: PresenceStore): Promise<void> {
+    await store.join('room-1', 'alice', 'tab-1')
+    await store.join('room-1', 'alice', 'tab-2')
+    await store.setTyping('room-1', 'alice', true)
+
+    await store.leave('room-1', 'alice', 'tab-1')
+    assert.deepEqual(await store.typingUsers('room-1'), ['alice'], 'typing survives while a tab is open')
+
+    await store.leave('room-1', 'alice', 'tab-2')
+    assert.deepEqual(await store.typingUsers('room-1'), [])
+  }
+
+  private async testStaleSockets(): Promise<void> {
+    const redis = new FakeRedis()
+    const store = new RedisPresenceStore(redis, 'test:presence')
+
+    await store.join('room-1', 'alice', 'crashed-tab')
+    await store.join('room-1', 'bob', 'tab-1')
+    redis.age('test:presence:room-1:sockets', 'alice|crashed-tab', 24 * 60 * 60 * 1000)
+
+    assert.deepEqual(await store.onlineUsers('room-1'), ['bob'], 'stale socket no longer counts')
+    assert.equal(await store.join('room-1', 'alice', 'tab-2'), true, 'rejoining after a crash announces again')
+
+    await store.touch('room-1', 'bob', 'tab-1')
+    assert.deepEqual((await store.onlineUsers('room-1')).sort(), ['alice', 'bob'])
+  }
+
+  private async testTypingExpiry(): Promise<void> {
+    const redis = new FakeRedis()
+    const store = new RedisPresenceStore(redis, 'test:presence')
+
+    await store.setTyping('room-1', 'alice', true)
+    await store.setTyping('room-1', 'bob', true)
+    redis.age('test:presence:room-1:typing', 'alice', 60 * 1000)
+
+    assert.deepEqual(await store.typingUsers('room-1'), ['bob'])
+  }
+
+  private async runTest(testName: string, test: () => Promise<void>): Promise<void> {
+    const startTime = Date.now()
+
+    try {
+      await test()
+      this.testResults.push({ testName, success: true, message: 'OK', duration: Date.now() - startTime })
+      console.log(`✅ ${testName}`)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      this.testResults.push({ testName, success: false, message, duration: Date.now() - startTime })
+      console.log(`❌ ${testName}: ${message}`)
+    }
+  }
+
+  private printTestSummary(): void {
+    console.log('\n' + '='.repeat(60))
+    console.log('📊 PRESENCE STORE TEST SUMMARY')
+    console.log('='.repeat(60))
+
+    const totalTests = this.testResults.length
+    const passedTests = this.testResults.filter(r => r.success).length
+    const failedTests = totalTests - passedTests
+
+    console.log(`Total Tests: ${totalTests}`)
+    console.log(`Passed: ${passedTests} ✅`)
+    console.log(`Failed: ${failedTests} ❌`)
+
+    if (failedTests > 0) {
+      console.log('\n❌ Failed Tests:')
+      this.testResults
+        .filter(r => !r.success)
+        .forEach(r => console.log(`   - ${r.testName}: ${r.message}`))
+      process.exitCode = 1
+    }
+  }
+}
+
+/**
+ * Main execution function
+ */
+async function main(): Promise<void> {
+  const tester = new PresenceStoreTester()
+  await tester.runAllTests()
+}
+
+// Run tests if this file is executed directly
+if (require.main === module) {
+  main().catch(error => {
+    console.error(error)
+    process.exitCode = 1
+  })
+}
+
+export { PresenceStoreTester }
@@ -2,6 +2,7 @@ import { createServer } from 'http'
 import { parse } from 'url'
 import next from 'next'
 import { initializeSocket } from './src/lib/services/socket-service'
+import { getDiscussionQueue } from './src/lib/services/discussion-queue'
 
 const dev = process.env.NODE_ENV !== 'production'
 const hostname = 'localhost'
@@ -54,6 +55,9 @@ async function startServer() {
     initializeSocket(server)
     console.log('[Socket] Socket.io server initialized')
 
+    // Start the discussion worker (resumes discussions left ACTIVE by a restart)
+    await getDiscussionQueue().start()
+
     // Start listening with proper error handling
     server.listen(port, hostname, () => {
       console.log(`[Server] Ready on http://${hostname}:${port}`)
@@ -88,11 +92,13 @@ async function startServer() {
 // Handle graceful shutdown
 process.on('SIGINT', () => {
   console.log('[Server] Received SIGINT, shutting down gracefully...')
+  getDiscussionQueue().stop()
   process.exit(0)
 })
 
 process.on('SIGTERM', () => {
   console.log('[Server] Received SIGTERM, shutting down gracefully...')
+  getDiscussionQueue().stop()
   process.exit(0)
 })
 
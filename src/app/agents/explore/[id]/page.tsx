@@ -0,0 +1,201 @@
+import Link from "next/link"
+import { notFound, redirect } from "next/navigation"
+import { ArrowLeft, Copy, Star, TrendingUp } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Avatar, AvatarFallback } from "@/components/ui/avatar"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { AgentListingActions } from "@/components/marketplace/AgentListingActions"
+import { AgentRatingForm } from "@/components/marketplace/AgentRatingForm"
+import { getPublicAgent } from "@/lib/actions/marketplace"
+import { getCurrentUser } from "@/lib/session"
+
+interface AgentListingPageProps {
+  params: {
+    id: string
+  }
+}
+
+export default async function AgentListingPage({ params }: AgentListingPageProps) {
+  const user = await getCurrentUser()
+
+  if (!user?.id) {
+    redirect("/login")
+  }
+
+  const result = await getPublicAgent(params.id, user.id)
+
+  if (!result.success || !result.data) {
+    notFound()
+  }
+
+  const agent = result.data
+
+  return (
+    <div className="container mx-auto py-8 px-4 max-w-4xl">
+      <Button variant="ghost" asChild className="mb-4">
+        <Link href="/agents/explore">
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to Explore
+        </Link>
+      </Button>
+
+      {!agent.isPublic && (
+        <p className="mb-4 rounded-md bg-muted p-3 text-sm text-muted-foreground">
+          This agent is not published; only you can see this page
+        </p>
+      )}
+
+      {agent.isOwner && agent.isPublic && agent.flaggedAt && (
+        <p className="mb-4 rounded-md bg-muted p-3 text-sm text-muted-foreground">
+          Several users reported this agent; it stays listed while the reports are reviewed
+        </p>
+      )}
+
+      <div className="flex flex-col gap-6 md:flex-row md:items-start md:justify-between mb-8">
+        <div className="flex items-center gap-4">
+          <Avatar className="h-16 w-16" style={{ backgroundColor: agent.color }}>
+            <AvatarFallback className="text-3xl">{agent.emoji}</AvatarFallback>
+          </Avatar>
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">{agent.name}</h1>
+            <p className="text-muted-foreground">
+              {agent.title ? `${agent.title} · ` : ""}by {agent.creator.name || "Anonymous"}
+            </p>
+            {agent.clonedFrom && (
+              <p className="text-xs text-muted-foreground mt-1">
+                Cloned from{" "}
+                {agent.clonedFrom.isPublic ? (
+                  <Link href={`/agents/explore/${agent.clonedFrom.id}`} className="underline">
+                    {agent.clonedFrom.name}
+                  </Link>
+                ) : (
+                  agent.clonedFrom.name
+                )}
+              </p>
+            )}
+          </div>
+        </div>
+        {agent.isPublic && (
+          <AgentListingActions
+            agentId={agent.id}
+            agentName={agent.name}
+            currentUserId={user.id}
+            isOwner={agent.isOwner}
+            hasReported={agent.hasReported}
+          />
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 mb-8 text-sm text-muted-foreground">
+        <span className="flex items-center gap-1">
+          <Star className="h-4 w-4" />
+          {agent.ratingCount > 0
+            ? `${agent.ratingAverage.toFixed(1)} from ${agent.ratingCount} ${agent.ratingCount === 1 ? "rating" : "ratings"}`
+            : "No ratings yet"}
+        </span>
+        <span className="flex items-center gap-1">
+          <TrendingUp className="h-4 w-4" />
+          {agent.usageCount} uses
+        </span>
+        <span className="flex items-center gap-1">
+          <Copy className="h-4 w-4" />
+          {agent.cloneCount} clones
+        </span>
+        {agent.category && (
+          <Link href={`/agents/explore?category=${agent.category}`}>
+            <Badge className="capitalize">{agent.category}</Badge>
+          </Link>
+        )}
+        {agent.tags.map(tag => (
+          <Link key={tag} href={`/agents/explore?tag=${encodeURIComponent(tag)}`}>
+            <Badge variant="outline">#{tag}</Badge>
+          </Link>
+        ))}
+      </div>
+
+      <div className="space-y-6">
+        {(agent.philosophy || agent.keyCharacteristics.length > 0) && (
+          <Card>
+            <CardHeader>
+              <CardTitle>About</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {agent.philosophy && <p className="text-sm">{agent.philosophy}</p>}
+              {agent.keyCharacteristics.length > 0 && (
+                <ul className="list-disc pl-5 text-sm text-muted-foreground space-y-1">
+                  {agent.keyCharacteristics.map(characteristic => (
+                    <li key={characteristic}>{characteristic}</li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Sample conversations</CardTitle>
+            <CardDescription>Real replies picked by the creator</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {agent.samples.length === 0 ? (
+              <p className="text-sm text-muted-foreground">The creator has not added samples yet</p>
+            ) : (
+              agent.samples.map(sample => (
+                <div key={sample.messageId} className="space-y-2">
+                  <div className="ml-auto max-w-[85%] rounded-lg bg-primary px-4 py-2 text-sm text-primary-foreground whitespace-pre-wrap">
+                    {sample.prompt}
+                  </div>
+                  <div className="max-w-[85%] rounded-lg bg-muted px-4 py-2 text-sm whitespace-pre-wrap">
+                    <span className="mr-1">{agent.emoji}</span>
+                    {sample.response}
+                  </div>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Prompt</CardTitle>
+            <CardDescription>What you get when you clone this agent</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <pre className="max-h-80 overflow-y-auto whitespace-pre-wrap text-sm text-muted-foreground">{agent.prompt}</pre>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Ratings</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {agent.isPublic && !agent.isOwner && (
+              <AgentRatingForm agentId={agent.id} currentUserId={user.id} initialRating={agent.myRating} />
+            )}
+            {agent.ratings.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No reviews yet</p>
+            ) : (
+              <div className="space-y-4">
+                {agent.ratings.map(rating => (
+                  <div key={rating.id} className="border-t pt-4 text-sm">
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium">{rating.user.name || "Anonymous"}</span>
+                      <span className="text-yellow-500">
+                        {"★".repeat(rating.score)}
+                        <span className="text-muted-foreground">{"★".repeat(5 - rating.score)}</span>
+                      </span>
+                    </div>
+                    <p className="mt-1 text-muted-foreground">{rating.comment}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
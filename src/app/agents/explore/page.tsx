@@ -0,0 +1,103 @@
+import Link from "next/link"
+import { redirect } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { MarketplaceFilters, type MarketplaceQuery } from "@/components/marketplace/MarketplaceFilters"
+import { MarketplaceAgentCard } from "@/components/marketplace/MarketplaceAgentCard"
+import { searchPublicAgents } from "@/lib/actions/marketplace"
+import { getCurrentUser } from "@/lib/session"
+import { AGENT_CATEGORIES } from "@/lib/constants"
+
+export const metadata = {
+  title: "Explore Agents | Discux3",
+  description: "Discover and clone agents shared by the community",
+}
+
+interface ExplorePageProps {
+  searchParams: Partial<Record<keyof MarketplaceQuery | "page", string>>
+}
+
+export default async function ExploreAgentsPage({ searchParams }: ExplorePageProps) {
+  const user = await getCurrentUser()
+
+  if (!user?.id) {
+    redirect("/login")
+  }
+
+  const query: MarketplaceQuery = {
+    q: searchParams.q || "",
+    category: (AGENT_CATEGORIES as readonly string[]).includes(searchParams.category || "") ? searchParams.category! : "",
+    tag: searchParams.tag || "",
+    sort: ["usage", "rating", "recent"].includes(searchParams.sort || "") ? searchParams.sort! : "usage",
+  }
+  const page = Math.max(1, parseInt(searchParams.page || "1", 10) || 1)
+
+  const result = await searchPublicAgents({
+    q: query.q || undefined,
+    category: (query.category || undefined) as (typeof AGENT_CATEGORIES)[number] | undefined,
+    tag: query.tag || undefined,
+    sort: query.sort as "usage" | "rating" | "recent",
+    page,
+  })
+
+  const pageHref = (target: number) => {
+    const params = new URLSearchParams()
+    Object.entries(query).forEach(([key, value]) => {
+      if (value) params.set(key, value)
+    })
+    params.set("page", String(target))
+    return `/agents/explore?${params.toString()}`
+  }
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold tracking-tight">Explore Agents</h1>
+        <p className="text-muted-foreground mt-2">
+          Agents shared by the community; clone one to make it your own
+        </p>
+      </div>
+
+      <div className="mb-8">
+        <MarketplaceFilters initialQuery={query} />
+      </div>
+
+      {!result.success || !result.data ? (
+        <p className="text-muted-foreground">Failed to load agents</p>
+      ) : result.data.agents.length === 0 ? (
+        <div className="text-center py-12 border-2 border-dashed rounded-lg">
+          <h3 className="text-lg font-semibold mb-2">No agents found</h3>
+          <p className="text-muted-foreground">Try another search or category</p>
+        </div>
+      ) : (
+        <>
+          <p className="text-sm text-muted-foreground mb-4">
+            {result.data.total} {result.data.total === 1 ? "agent" : "agents"}
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {result.data.agents.map(agent => (
+              <MarketplaceAgentCard key={agent.id} agent={agent} />
+            ))}
+          </div>
+
+          {result.data.pageCount > 1 && (
+            <div className="flex items-center justify-center gap-4 mt-8">
+              {page > 1 && (
+                <Button variant="outline" asChild>
+                  <Link href={pageHref(page - 1)}>Previous</Link>
+                </Button>
+              )}
+              <span className="text-sm text-muted-foreground">
+                Page {result.data.page} of {result.data.pageCount}
+              </span>
+              {page < result.data.pageCount && (
+                <Button variant="outline" asChild>
+                  <Link href={pageHref(page + 1)}>Next</Link>
+                </Button>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -1,8 +1,9 @@
 import { Suspense } from "react"
 import Link from "next/link"
-import { Plus } from "lucide-react"
+import { Compass, Plus } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { AgentList } from "@/components/agents/AgentList"
+import { AgentImportExport } from "@/components/agents/AgentImportExport"
 import { AgentListSkeleton } from "@/components/agents/AgentListSkeleton"
 
 export const metadata = {
@@ -20,12 +21,21 @@ export default function AgentsPage() {
             Create and manage your AI agents with different personalities
           </p>
         </div>
-        <Button asChild>
-          <Link href="/agents/create">
-            <Plus className="mr-2 h-4 w-4" />
-            Create Agent
-          </Link>
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" asChild>
+            <Link href="/agents/explore">
+              <Compass className="mr-2 h-4 w-4" />
+              Explore
+            </Link>
+          </Button>
+          <AgentImportExport />
+          <Button asChild>
+            <Link href="/agents/create">
+              <Plus className="mr-2 h-4 w-4" />
+              Create Agent
+            </Link>
+          </Button>
+        </div>
       </div>
 
       <Suspense fallback={<AgentListSkeleton />}>
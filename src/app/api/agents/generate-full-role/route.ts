@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server"
 import { generateFullAgentRole } from "@/lib/services/agent-generator"
 import { AgentPreviewSchema } from "@/lib/services/agent-generator"
 import { auth } from "@/lib/auth"
+import { QuotaExceededError, quotaExceededResult } from "@/lib/services/quota-service"
 
 export async function POST(request: NextRequest) {
   try {
@@ -28,7 +29,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Generate full system role for selected agent (Step 2)
-    const fullSystemRole = await generateFullAgentRole(validatedPreview, goal.trim())
+    const fullSystemRole = await generateFullAgentRole(validatedPreview, goal.trim(), session.user.id)
 
     return NextResponse.json({
       success: true,
@@ -39,6 +40,10 @@ export async function POST(request: NextRequest) {
       goal: goal.trim(),
     })
   } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      return NextResponse.json(quotaExceededResult(error), { status: 429 })
+    }
+
     console.error("Error in generate-full-role API:", error)
 
     return NextResponse.json(
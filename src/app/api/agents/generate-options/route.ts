@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server"
 import { generateAgentPreviews } from "@/lib/services/agent-generator"
 import { auth } from "@/lib/auth"
+import { QuotaExceededError, quotaExceededResult } from "@/lib/services/quota-service"
 
 export async function POST(request: NextRequest) {
   try {
@@ -24,7 +25,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Generate agent previews (Step 1 - lightweight)
-    const previews = await generateAgentPreviews(goal.trim())
+    const previews = await generateAgentPreviews(goal.trim(), session.user.id)
 
     return NextResponse.json({
       success: true,
@@ -32,6 +33,10 @@ export async function POST(request: NextRequest) {
       goal: goal.trim(),
     })
   } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      return NextResponse.json(quotaExceededResult(error), { status: 429 })
+    }
+
     console.error("Error in generate-agent-previews API:", error)
 
     return NextResponse.json(
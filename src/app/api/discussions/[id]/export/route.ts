@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server"
+import { exportDiscussion } from "@/lib/actions/export"
+import { auth } from "@/lib/auth"
+import { parseExportQuery } from "@/lib/services/conversation-export"
+
+/**
+ * Download one discussion's transcript
+ * Query: ?format=markdown|json|html, &from=<date>, &to=<date>, &types=USER,AGENT,SYSTEM
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const discussionId = params.id
+    if (!discussionId) {
+      return NextResponse.json({ error: "Discussion ID required" }, { status: 400 })
+    }
+
+    const query = parseExportQuery(request.nextUrl.searchParams)
+    if (!query.success) {
+      return NextResponse.json({ error: query.error.errors[0]?.message || "Invalid export options" }, { status: 400 })
+    }
+
+    const result = await exportDiscussion(discussionId, session.user.id, query.data)
+
+    if (!result.success || !result.data) {
+      return NextResponse.json({ error: result.error }, { status: 400 })
+    }
+
+    return new NextResponse(result.data.body, {
+      headers: {
+        "Content-Type": result.data.contentType,
+        "Content-Disposition": `attachment; filename="${result.data.filename}"`
+      }
+    })
+  } catch (error) {
+    console.error("Error exporting discussion:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
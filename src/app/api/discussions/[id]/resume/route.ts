@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from "next/server"
-import { resumeDiscussion, executeDiscussion } from "@/lib/services/discussion-orchestrator"
+import { resumeDiscussion } from "@/lib/services/discussion-orchestrator"
 import { auth } from "@/lib/auth"
 
 export async function POST(
@@ -17,33 +17,19 @@ export async function POST(
       return NextResponse.json({ error: "Discussion ID required" }, { status: 400 })
     }
 
-    // Resume discussion
-    const resumeResult = await resumeDiscussion(discussionId)
+    // Resume discussion; this re-queues it so the worker continues from currentTurn
+    const resumeResult = await resumeDiscussion(discussionId, session.user.id, session.user.name)
     if (!resumeResult.success) {
-      return NextResponse.json({ error: resumeResult.error }, { status: 500 })
+      return NextResponse.json({ error: resumeResult.error }, { status: 409 })
     }
 
-    // Execute next turns
-    const executionResult = await executeDiscussion(
-      discussionId,
-      session.user.id,
-      session.user.name
-    )
-
-    // Type guard for success/error discrimination
-    if ('error' in executionResult) {
-      return NextResponse.json({ error: executionResult.error }, { status: 500 })
-    }
-
-    // Type guard for success case
-    if ('data' in executionResult && executionResult.success) {
-      return NextResponse.json({
-        success: true,
-        data: executionResult.data!
-      })
-    }
-
-    return NextResponse.json({ error: "Unexpected execution result" }, { status: 500 })
+    return NextResponse.json({
+      success: true,
+      data: {
+        discussionId,
+        ...resumeResult.data
+      }
+    })
   } catch (error) {
     console.error("Error resuming discussion:", error)
     return NextResponse.json(
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server"
+import { steerDiscussion } from "@/lib/services/discussion-steering"
+import { auth } from "@/lib/auth"
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const discussionId = params.id
+    if (!discussionId) {
+      return NextResponse.json({ error: "Discussion ID required" }, { status: 400 })
+    }
+
+    // Body: { content?, topic?, nextAgentId?, extendTurns? }; validated by the service
+    const body = await request.json()
+    const result = await steerDiscussion(discussionId, session.user.id, body)
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 })
+    }
+
+    return NextResponse.json({ success: true, data: result.data })
+  } catch (error) {
+    console.error("Error steering discussion:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
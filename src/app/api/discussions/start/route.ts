@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from "next/server"
-import { createDiscussion, executeDiscussion } from "@/lib/services/discussion-orchestrator"
+import { createDiscussion } from "@/lib/services/discussion-orchestrator"
+import { getDiscussionQueue } from "@/lib/services/discussion-queue"
+import { canUseModeratorAgent } from "@/lib/services/discussion-moderator"
 import { auth } from "@/lib/auth"
+import { startDiscussionSchema } from "@/lib/validations"
 
 export async function POST(request: NextRequest) {
   try {
@@ -10,19 +13,32 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json()
-    const { roomId, messageId, agentIds, topic, intensity } = body
+    const parsed = startDiscussionSchema.safeParse(body)
 
-    if (!roomId || !messageId || !agentIds || !Array.isArray(agentIds)) {
+    if (!parsed.success) {
       return NextResponse.json(
-        { error: "Missing required fields: roomId, messageId, agentIds" },
+        { error: parsed.error.errors[0]?.message || "Invalid discussion request" },
         { status: 400 }
       )
     }
 
-    if (agentIds.length < 2) {
+    const {
+      roomId,
+      messageId,
+      agentIds,
+      topic,
+      intensity,
+      rounds,
+      maxTurns,
+      stopConditions,
+      moderator,
+      moderatorAgentId
+    } = parsed.data
+
+    if (moderatorAgentId && !(await canUseModeratorAgent(moderatorAgentId, roomId, session.user.id))) {
       return NextResponse.json(
-        { error: "At least 2 agents are required for a discussion" },
-        { status: 400 }
+        { error: "Moderator agent not found or not available in this room" },
+        { status: 403 }
       )
     }
 
@@ -32,7 +48,8 @@ export async function POST(request: NextRequest) {
       messageId,
       agentIds,
       topic,
-      intensity || 'NORMAL'
+      intensity,
+      { rounds, maxTurns, stopConditions, moderator, moderatorAgentId }
     )
 
     if (!discussionResult.success) {
@@ -42,33 +59,23 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Execute discussion
-    const executionResult = await executeDiscussion(
+    // Queue execution; the worker survives restarts and resumes from currentTurn
+    const job = await getDiscussionQueue().enqueue(
       discussionResult.data!.id,
       session.user.id,
       session.user.name
     )
 
-    // Type guard for success/error discrimination
-    if ('error' in executionResult) {
-      return NextResponse.json(
-        { error: executionResult.error },
-        { status: 500 }
-      )
-    }
-
-    // Type guard for success case
-    if ('data' in executionResult && executionResult.success) {
-      return NextResponse.json({
-        success: true,
-        data: {
-          discussion: discussionResult.data,
-          execution: executionResult.data!
+    return NextResponse.json({
+      success: true,
+      data: {
+        discussion: discussionResult.data,
+        job: {
+          id: job.id,
+          status: job.status
         }
-      })
-    }
-
-    return NextResponse.json({ error: "Unexpected execution result" }, { status: 500 })
+      }
+    }, { status: 202 })
   } catch (error) {
     console.error("Error starting discussion:", error)
     return NextResponse.json(
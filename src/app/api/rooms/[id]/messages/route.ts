@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getMessages } from "@/lib/actions/messages"
+import { auth } from "@/lib/auth"
+
+/**
+ * Page through a room's messages
+ * Query: ?before=<messageId> | ?after=<messageId>, &limit=50
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const roomId = params.id
+    if (!roomId) {
+      return NextResponse.json({ error: "Room ID required" }, { status: 400 })
+    }
+
+    const { searchParams } = request.nextUrl
+    const result = await getMessages(roomId, session.user.id, {
+      before: searchParams.get("before") || undefined,
+      after: searchParams.get("after") || undefined,
+      limit: searchParams.has("limit") ? Number(searchParams.get("limit")) : undefined
+    })
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 })
+    }
+
+    return NextResponse.json({ success: true, data: result.data, hasMore: result.hasMore })
+  } catch (error) {
+    console.error("Error fetching messages:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server"
+import { searchMessages } from "@/lib/actions/search"
+import { auth } from "@/lib/auth"
+
+/**
+ * Search messages across the user's rooms
+ * Query: ?q=<text>&roomId=&agentId=&authorId=&type=USER|AGENT|SYSTEM&from=&to=&limit=20
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { searchParams } = request.nextUrl
+    const param = (name: string) => searchParams.get(name) || undefined
+    const date = (name: string) => searchParams.has(name) ? new Date(searchParams.get(name)!) : undefined
+
+    const result = await searchMessages(session.user.id, {
+      q: param("q") || "",
+      roomId: param("roomId"),
+      agentId: param("agentId"),
+      authorId: param("authorId"),
+      type: param("type") as "USER" | "AGENT" | "SYSTEM" | undefined,
+      from: date("from"),
+      to: date("to"),
+      limit: searchParams.has("limit") ? Number(searchParams.get("limit")) : undefined
+    })
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 })
+    }
+
+    return NextResponse.json({ success: true, data: result.data })
+  } catch (error) {
+    console.error("Error searching messages:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
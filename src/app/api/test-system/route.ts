@@ -1,6 +1,6 @@
 import { NextResponse } from 'next/server'
 import { getVectorStore } from '@/lib/vector-store'
-import { getZAIClient } from '@/lib/zai'
+import { getDefaultLLMModel, getDefaultLLMProviderName, getLLMProvider } from '@/lib/llm'
 
 export async function GET() {
   try {
@@ -17,6 +17,7 @@ export async function GET() {
         ai: {
           connected: false,
           message: '',
+          provider: '',
           model: '',
           details: null as any
         }
@@ -51,15 +52,16 @@ export async function GET() {
       }
     }
 
-    // Test AI Service (Z.ai)
+    // Test AI Service (configured LLM provider)
     try {
-      const aiClient = getZAIClient()
+      const aiClient = getLLMProvider()
       const aiTest = await aiClient.testConnection()
 
       results.services.ai = {
         connected: aiTest.success,
         message: aiTest.message,
-        model: process.env.ZAI_MODEL || 'glm-4.6',
+        provider: aiClient.name,
+        model: getDefaultLLMModel(aiClient.name),
         details: {
           success: aiTest.success
         }
@@ -68,7 +70,8 @@ export async function GET() {
       results.services.ai = {
         connected: false,
         message: error instanceof Error ? error.message : 'Unknown AI error',
-        model: process.env.ZAI_MODEL || 'glm-4.6',
+        provider: getDefaultLLMProviderName(),
+        model: getDefaultLLMModel(),
         details: null
       }
     }
@@ -10,9 +10,15 @@ interface ChatPageProps {
   params: {
     id: string
   }
+  searchParams: {
+    // Deep link to a single message, e.g. from search results
+    message?: string
+    // Thread to open in the side panel
+    thread?: string
+  }
 }
 
-export default async function ChatPage({ params }: ChatPageProps) {
+export default async function ChatPage({ params, searchParams }: ChatPageProps) {
   const user = await getCurrentUser()
 
   if (!user?.id) {
@@ -64,6 +70,8 @@ export default async function ChatPage({ params }: ChatPageProps) {
           room={room}
           currentUserId={user.id}
           currentUserName={user.name}
+          focusMessageId={searchParams.message}
+          initialThreadId={searchParams.thread}
         />
       </div>
     </div>
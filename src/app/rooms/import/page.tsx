@@ -0,0 +1,30 @@
+import { RoomImportForm } from "@/components/rooms/RoomImportForm"
+import { ArrowLeft } from "lucide-react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+
+export const metadata = {
+  title: "Import Room | Discux3",
+  description: "Import a conversation into a new room",
+}
+
+export default function ImportRoomPage() {
+  return (
+    <div className="container mx-auto py-8 px-4 max-w-3xl">
+      <div className="mb-8">
+        <Button variant="ghost" asChild className="mb-4">
+          <Link href="/rooms">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Rooms
+          </Link>
+        </Button>
+        <h1 className="text-3xl font-bold tracking-tight">Import Conversation</h1>
+        <p className="text-muted-foreground mt-2">
+          Start a room from an export, a Markdown transcript or a ChatGPT conversation
+        </p>
+      </div>
+
+      <RoomImportForm />
+    </div>
+  )
+}
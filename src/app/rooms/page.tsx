@@ -1,6 +1,6 @@
 import { Suspense } from "react"
 import Link from "next/link"
-import { Plus } from "lucide-react"
+import { Plus, Upload } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { RoomList } from "@/components/rooms/RoomList"
 import { RoomListSkeleton } from "@/components/rooms/RoomListSkeleton"
@@ -20,12 +20,20 @@ export default function RoomsPage() {
             Create collaboration spaces and invite team members
           </p>
         </div>
-        <Button asChild>
-          <Link href="/rooms/create">
-            <Plus className="mr-2 h-4 w-4" />
-            Create Room
-          </Link>
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" asChild>
+            <Link href="/rooms/import">
+              <Upload className="mr-2 h-4 w-4" />
+              Import
+            </Link>
+          </Button>
+          <Button asChild>
+            <Link href="/rooms/create">
+              <Plus className="mr-2 h-4 w-4" />
+              Create Room
+            </Link>
+          </Button>
+        </div>
       </div>
 
       <Suspense fallback={<RoomListSkeleton />}>
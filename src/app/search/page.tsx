@@ -0,0 +1,67 @@
+import { redirect } from "next/navigation"
+import { MessageSearch, type SearchFilters } from "@/components/search/MessageSearch"
+import { getRooms } from "@/lib/actions/rooms"
+import { getCurrentUser } from "@/lib/session"
+
+export const metadata = {
+  title: "Search | Discux3",
+  description: "Search messages across your rooms",
+}
+
+interface SearchPageProps {
+  searchParams: Partial<Record<keyof SearchFilters, string>>
+}
+
+export default async function SearchPage({ searchParams }: SearchPageProps) {
+  const user = await getCurrentUser()
+
+  if (!user?.id) {
+    redirect("/login")
+  }
+
+  const result = await getRooms(user.id)
+  const rooms = result.success && result.data ? result.data : []
+
+  // Filter options come from every room the user can see
+  const agents = new Map<string, { id: string; name: string; emoji: string }>()
+  const authors = new Map<string, { id: string; name: string }>()
+  rooms.forEach(room => {
+    room.agents.forEach(({ agent }) => agents.set(agent.id, agent))
+    authors.set(room.createdBy, { id: room.createdBy, name: room.creator.name || room.creator.email || "Unknown" })
+    room.participants.forEach(participant => {
+      authors.set(participant.userId, {
+        id: participant.userId,
+        name: participant.user.name || participant.user.email || "Unknown"
+      })
+    })
+  })
+
+  const initialFilters: SearchFilters = {
+    q: searchParams.q || "",
+    roomId: searchParams.roomId || "",
+    agentId: searchParams.agentId || "",
+    authorId: searchParams.authorId || "",
+    type: searchParams.type || "",
+    from: searchParams.from || "",
+    to: searchParams.to || "",
+  }
+
+  return (
+    <div className="container mx-auto py-8 px-4 max-w-4xl">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold tracking-tight">Search</h1>
+        <p className="text-muted-foreground mt-2">
+          Find messages by keyword or meaning across all your rooms
+        </p>
+      </div>
+
+      <MessageSearch
+        userId={user.id}
+        initialFilters={initialFilters}
+        rooms={rooms.map(room => ({ id: room.id, name: room.name }))}
+        agents={Array.from(agents.values())}
+        authors={Array.from(authors.values())}
+      />
+    </div>
+  )
+}
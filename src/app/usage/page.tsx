@@ -0,0 +1,44 @@
+import { redirect } from "next/navigation"
+import { getLLMCostBreakdown, getUsageSummary } from "@/lib/actions/usage"
+import { getCurrentUser } from "@/lib/session"
+import { UsageOverview } from "@/components/usage/UsageOverview"
+import { UsageCostBreakdown } from "@/components/usage/UsageCostBreakdown"
+
+export const metadata = {
+  title: "Usage | Discux3",
+  description: "Your plan and how much of it you have used",
+}
+
+export default async function UsagePage() {
+  const user = await getCurrentUser()
+
+  if (!user?.id) {
+    redirect("/login")
+  }
+
+  const [result, costs] = await Promise.all([
+    getUsageSummary(user.id),
+    getLLMCostBreakdown(user.id)
+  ])
+
+  return (
+    <div className="container mx-auto py-8 px-4 max-w-3xl">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold tracking-tight">Usage</h1>
+        <p className="text-muted-foreground mt-2">
+          What you have used this month against your plan
+        </p>
+      </div>
+
+      <div className="space-y-6">
+        {result.success && result.data ? (
+          <UsageOverview usage={result.data} />
+        ) : (
+          <p className="text-muted-foreground">Failed to load usage</p>
+        )}
+
+        {costs.success && costs.data && <UsageCostBreakdown breakdown={costs.data} />}
+      </div>
+    </div>
+  )
+}
@@ -11,7 +11,10 @@ import {
   Settings, 
   LogOut,
   Home,
-  Database
+  Database,
+  Search,
+  Gauge,
+  Compass
 } from "lucide-react"
 import {
   DropdownMenu,
@@ -34,7 +37,9 @@ export function Navigation() {
   const navigation = [
     { name: "Home", href: "/", icon: Home },
     { name: "Agents", href: "/agents", icon: Bot },
+    { name: "Explore", href: "/agents/explore", icon: Compass },
     { name: "Rooms", href: "/rooms", icon: Users },
+    { name: "Search", href: "/search", icon: Search },
   ]
 
   return (
@@ -106,6 +111,12 @@ export function Navigation() {
                     My Rooms
                   </Link>
                 </DropdownMenuItem>
+                <DropdownMenuItem asChild>
+                  <Link href="/usage" className="flex items-center gap-2">
+                    <Gauge className="h-4 w-4" />
+                    Usage
+                  </Link>
+                </DropdownMenuItem>
                 <DropdownMenuItem asChild>
                   <Link href="/ai-testing" className="flex items-center gap-2">
                     <Bot className="h-4 w-4" />
@@ -1,7 +1,7 @@
 "use client"
 
 import Link from "next/link"
-import { MoreVertical, Trash2, Edit, TrendingUp } from "lucide-react"
+import { MoreVertical, Trash2, Edit, TrendingUp, Download, Globe, EyeOff, Store } from "lucide-react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import {
@@ -13,9 +13,13 @@ import {
 } from "@/components/ui/dropdown-menu"
 import { Badge } from "@/components/ui/badge"
 import { Avatar, AvatarFallback } from "@/components/ui/avatar"
-import { deleteAgent } from "@/lib/actions/agents"
+import { deleteAgent, exportAgents } from "@/lib/actions/agents"
+import { unpublishAgent } from "@/lib/actions/marketplace"
+import { downloadFile } from "@/lib/utils"
+import type { AgentDefinitionFormat } from "@/lib/agent-definition"
 import { useRouter } from "next/navigation"
 import { useState } from "react"
+import { AgentPublishDialog } from "./AgentPublishDialog"
 
 interface Agent {
   id: string
@@ -28,6 +32,9 @@ interface Agent {
   usageCount: number
   createdAt: Date
   createdBy: string
+  category?: string | null
+  tags?: string | null
+  clonedFromId?: string | null
 }
 
 interface AgentCardProps {
@@ -37,6 +44,7 @@ interface AgentCardProps {
 export function AgentCard({ agent }: AgentCardProps) {
   const router = useRouter()
   const [isDeleting, setIsDeleting] = useState(false)
+  const [publishOpen, setPublishOpen] = useState(false)
 
   const handleDelete = async () => {
     if (!confirm(`Are you sure you want to delete "${agent.name}"?`)) {
@@ -59,6 +67,36 @@ export function AgentCard({ agent }: AgentCardProps) {
     }
   }
 
+  const handleExport = async (format: AgentDefinitionFormat) => {
+    try {
+      const result = await exportAgents(agent.createdBy, [agent.id], format)
+      if (result.success && result.data) {
+        downloadFile(result.data.filename, result.data.contentType, result.data.body)
+      } else {
+        alert(result.error)
+      }
+    } catch (error) {
+      alert("Failed to export agent")
+    }
+  }
+
+  const handleUnpublish = async () => {
+    if (!confirm(`Remove "${agent.name}" from the marketplace? Existing clones are kept.`)) {
+      return
+    }
+
+    try {
+      const result = await unpublishAgent(agent.id, agent.createdBy)
+      if (result.success) {
+        router.refresh()
+      } else {
+        alert(result.error)
+      }
+    } catch (error) {
+      alert("Failed to unpublish agent")
+    }
+  }
+
   return (
     <Card className="relative hover:shadow-lg transition-shadow">
       <CardHeader>
@@ -85,6 +123,33 @@ export function AgentCard({ agent }: AgentCardProps) {
                   Edit
                 </Link>
               </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExport("json")}>
+                <Download className="mr-2 h-4 w-4" />
+                Export as JSON
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExport("yaml")}>
+                <Download className="mr-2 h-4 w-4" />
+                Export as YAML
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onClick={() => setPublishOpen(true)}>
+                <Globe className="mr-2 h-4 w-4" />
+                {agent.isPublic ? "Edit listing" : "Publish"}
+              </DropdownMenuItem>
+              {agent.isPublic && (
+                <>
+                  <DropdownMenuItem asChild>
+                    <Link href={`/agents/explore/${agent.id}`}>
+                      <Store className="mr-2 h-4 w-4" />
+                      View listing
+                    </Link>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={handleUnpublish}>
+                    <EyeOff className="mr-2 h-4 w-4" />
+                    Unpublish
+                  </DropdownMenuItem>
+                </>
+              )}
               <DropdownMenuSeparator />
               <DropdownMenuItem 
                 onClick={handleDelete} 
@@ -107,11 +172,17 @@ export function AgentCard({ agent }: AgentCardProps) {
             <TrendingUp className="h-4 w-4" />
             <span>{agent.usageCount} uses</span>
           </div>
-          {agent.isPublic && (
-            <Badge variant="secondary">Public</Badge>
-          )}
+          <div className="flex gap-1">
+            {agent.clonedFromId && (
+              <Badge variant="outline">Cloned</Badge>
+            )}
+            {agent.isPublic && (
+              <Badge variant="secondary">Public</Badge>
+            )}
+          </div>
         </div>
       </CardContent>
+      <AgentPublishDialog agent={agent} open={publishOpen} onOpenChange={setPublishOpen} />
     </Card>
   )
 }
@@ -8,15 +8,17 @@ import { zodResolver } from "@hookform/resolvers/zod"
 import { z } from "zod"
 import { createAgent } from "@/lib/actions/agents"
 import { getRandomAgentColor } from "@/lib/constants"
+import { agentGenerationSettingsSchema, type AgentGenerationSettingsInput } from "@/lib/validations"
 import { Button } from "@/components/ui/button"
 import { Textarea } from "@/components/ui/textarea"
 import { Label } from "@/components/ui/label"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Progress } from "@/components/ui/progress"
-import { Sparkles, ArrowLeft, Loader2 } from "lucide-react"
+import { Sparkles, ArrowLeft, Loader2, SlidersHorizontal } from "lucide-react"
 import type { AgentPreview } from "@/lib/services/agent-generator"
 import { MultiAgentSelector } from "./MultiAgentSelector"
 import { GenerationModal } from "./GenerationModal"
+import { AgentGenerationSettings } from "./AgentGenerationSettings"
 
 // Form schemas
 const goalStepSchema = z.object({
@@ -39,6 +41,8 @@ export function AgentCreateWizard({ onCancel }: AgentCreateWizardProps) {
   const [agentPreviews, setAgentPreviews] = useState<AgentPreview[]>([])
   const [selectedPreviews, setSelectedPreviews] = useState<string[]>([])
   const [isGeneratingModal, setIsGeneratingModal] = useState(false)
+  const [showSettings, setShowSettings] = useState(false)
+  const [generationSettings, setGenerationSettings] = useState<AgentGenerationSettingsInput>({})
 
   // Form hooks
   const goalForm = useForm<GoalStepInput>({
@@ -93,6 +97,14 @@ export function AgentCreateWizard({ onCancel }: AgentCreateWizardProps) {
   const handleBatchGenerate = async () => {
     if (!session?.user?.id || selectedPreviews.length === 0) return
 
+    // Validate shared generation settings before spending any generation calls
+    const settingsResult = agentGenerationSettingsSchema.safeParse(generationSettings)
+    if (!settingsResult.success) {
+      setShowSettings(true)
+      setError(settingsResult.error.errors[0]?.message || "Invalid generation settings")
+      return
+    }
+
     setIsGeneratingModal(true)
     setError(null)
 
@@ -126,6 +138,11 @@ export function AgentCreateWizard({ onCancel }: AgentCreateWizardProps) {
           emoji: "bot-icon",
           color: getRandomAgentColor(),
           style: "TRUTH_TELLER",
+          persona: result.agent.persona,
+          title: result.agent.title,
+          philosophy: result.agent.previewPhilosophy,
+          keyCharacteristics: result.agent.keyCharacteristics,
+          ...settingsResult.data,
         })
 
         // Log detailed results for debugging
@@ -256,6 +273,25 @@ export function AgentCreateWizard({ onCancel }: AgentCreateWizardProps) {
                   onSelectionChange={setSelectedPreviews}
                 />
 
+                {/* Generation Settings (applied to every selected agent) */}
+                <div className="border rounded-lg p-4 space-y-4">
+                  <button
+                    type="button"
+                    className="flex items-center gap-2 text-sm font-semibold"
+                    onClick={() => setShowSettings(!showSettings)}
+                  >
+                    <SlidersHorizontal className="h-4 w-4" />
+                    Generation settings (optional)
+                  </button>
+                  {showSettings && (
+                    <AgentGenerationSettings
+                      value={generationSettings}
+                      onChange={setGenerationSettings}
+                      disabled={isGeneratingModal}
+                    />
+                  )}
+                </div>
+
                 {/* Navigation Buttons */}
                 <div className="flex justify-between pt-6 border-t">
                   <Button
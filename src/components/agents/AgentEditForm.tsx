@@ -14,6 +14,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Avatar, AvatarFallback } from "@/components/ui/avatar"
 import { AGENT_STYLE } from "@/lib/constants"
 import { Bot } from "lucide-react"
+import type { LLMProviderName } from "@/lib/llm/types"
+import { AgentGenerationSettings } from "./AgentGenerationSettings"
 
 interface Agent {
   id: string
@@ -23,6 +25,12 @@ interface Agent {
   color: string
   style: string
   createdBy: string
+  llmProvider?: string | null
+  model?: string | null
+  temperature?: number | null
+  topP?: number | null
+  maxTokens?: number | null
+  systemPromptPrefix?: string | null
 }
 
 interface AgentEditFormProps {
@@ -38,6 +46,7 @@ export function AgentEditForm({ agent }: AgentEditFormProps) {
     register,
     handleSubmit,
     watch,
+    setValue,
     formState: { errors },
   } = useForm<UpdateAgentInput>({
     resolver: zodResolver(updateAgentSchema),
@@ -47,12 +56,21 @@ export function AgentEditForm({ agent }: AgentEditFormProps) {
       color: agent.color,
       style: AGENT_STYLE,
       prompt: agent.prompt,
+      llmProvider: (agent.llmProvider as LLMProviderName | null) ?? null,
+      model: agent.model ?? null,
+      temperature: agent.temperature ?? null,
+      topP: agent.topP ?? null,
+      maxTokens: agent.maxTokens ?? null,
+      systemPromptPrefix: agent.systemPromptPrefix ?? null,
     },
   })
 
   const watchedColor = watch("color", agent.color)
   const watchedName = watch("name", agent.name)
   const watchedPrompt = watch("prompt", agent.prompt)
+  const [llmProvider, model, temperature, topP, maxTokens, systemPromptPrefix] = watch([
+    "llmProvider", "model", "temperature", "topP", "maxTokens", "systemPromptPrefix"
+  ])
 
   const onSubmit = async (data: UpdateAgentInput) => {
     setError(null)
@@ -124,6 +142,36 @@ export function AgentEditForm({ agent }: AgentEditFormProps) {
                 </p>
               </div>
 
+              {/* Generation Settings */}
+              <div className="space-y-3 pt-4 border-t">
+                <div>
+                  <h3 className="text-sm font-semibold">Generation Settings</h3>
+                  <p className="text-xs text-muted-foreground">
+                    Tune how this agent&apos;s replies are generated
+                  </p>
+                </div>
+                <AgentGenerationSettings
+                  value={{ llmProvider, model, temperature, topP, maxTokens, systemPromptPrefix }}
+                  onChange={(settings) => {
+                    setValue("llmProvider", settings.llmProvider, { shouldDirty: true })
+                    setValue("model", settings.model, { shouldDirty: true })
+                    setValue("temperature", settings.temperature, { shouldDirty: true })
+                    setValue("topP", settings.topP, { shouldDirty: true })
+                    setValue("maxTokens", settings.maxTokens, { shouldDirty: true })
+                    setValue("systemPromptPrefix", settings.systemPromptPrefix, { shouldDirty: true })
+                  }}
+                  errors={{
+                    llmProvider: errors.llmProvider?.message,
+                    model: errors.model?.message,
+                    temperature: errors.temperature?.message,
+                    topP: errors.topP?.message,
+                    maxTokens: errors.maxTokens?.message,
+                    systemPromptPrefix: errors.systemPromptPrefix?.message,
+                  }}
+                  disabled={isSubmitting}
+                />
+              </div>
+
               {/* Error Message */}
               {error && (
                 <div className="p-3 rounded-md bg-destructive/10 text-destructive text-sm">
@@ -187,6 +235,9 @@ export function AgentEditForm({ agent }: AgentEditFormProps) {
               <div className="text-xs text-muted-foreground space-y-1 pt-2 border-t">
                 <p>💡 Changes will be saved immediately</p>
                 <p>⚡ Agent will use new prompt in next conversation</p>
+                {(model || temperature != null) && (
+                  <p>🎛️ {[model, temperature != null ? `temp ${temperature}` : null].filter(Boolean).join(" · ")}</p>
+                )}
               </div>
             </div>
           </CardContent>
@@ -0,0 +1,186 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { LLM_PROVIDER_NAMES, type LLMProviderName } from "@/lib/llm/types"
+import type { AgentGenerationSettingsInput } from "@/lib/validations"
+
+const DEFAULT_PROVIDER = "default"
+
+const PROVIDER_LABELS: Record<LLMProviderName, string> = {
+  zai: "Z.ai",
+  openai: "OpenAI-compatible",
+  local: "Local (Ollama / llama.cpp)",
+  mock: "Mock (offline)",
+}
+
+// Quick starting points; every field can still be tuned by hand
+const PRESETS: Array<{ label: string; temperature: number; topP: number }> = [
+  { label: "Strict reviewer", temperature: 0.1, topP: 0.8 },
+  { label: "Balanced", temperature: 0.7, topP: 0.95 },
+  { label: "Creative brainstormer", temperature: 1.1, topP: 1 },
+]
+
+type SettingsErrors = Partial<Record<keyof AgentGenerationSettingsInput, string | undefined>>
+
+interface AgentGenerationSettingsProps {
+  value: AgentGenerationSettingsInput
+  onChange: (value: AgentGenerationSettingsInput) => void
+  errors?: SettingsErrors
+  disabled?: boolean
+}
+
+/**
+ * Parse a numeric input, treating blank as "use the provider default"
+ */
+function parseNumber(raw: string): number | null {
+  if (raw.trim() === "") return null
+  const parsed = Number(raw)
+  return Number.isNaN(parsed) ? null : parsed
+}
+
+export function AgentGenerationSettings({ value, onChange, errors, disabled }: AgentGenerationSettingsProps) {
+  const update = (patch: Partial<AgentGenerationSettingsInput>) => {
+    onChange({ ...value, ...patch })
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        {PRESETS.map((preset) => (
+          <Button
+            key={preset.label}
+            type="button"
+            variant="outline"
+            size="sm"
+            disabled={disabled}
+            onClick={() => update({ temperature: preset.temperature, topP: preset.topP })}
+          >
+            {preset.label}
+          </Button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {/* Provider */}
+        <div className="space-y-2">
+          <Label htmlFor="llmProvider">Provider</Label>
+          <Select
+            value={value.llmProvider || DEFAULT_PROVIDER}
+            onValueChange={(provider) => update({
+              llmProvider: provider === DEFAULT_PROVIDER ? null : provider as LLMProviderName
+            })}
+            disabled={disabled}
+          >
+            <SelectTrigger id="llmProvider">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={DEFAULT_PROVIDER}>Default</SelectItem>
+              {LLM_PROVIDER_NAMES.map((name) => (
+                <SelectItem key={name} value={name}>{PROVIDER_LABELS[name]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {errors?.llmProvider && (
+            <p className="text-sm text-destructive">{errors.llmProvider}</p>
+          )}
+        </div>
+
+        {/* Model */}
+        <div className="space-y-2">
+          <Label htmlFor="model">Model</Label>
+          <Input
+            id="model"
+            placeholder="Provider default"
+            value={value.model ?? ""}
+            onChange={(e) => update({ model: e.target.value.trim() ? e.target.value : null })}
+            disabled={disabled}
+          />
+          {errors?.model && (
+            <p className="text-sm text-destructive">{errors.model}</p>
+          )}
+        </div>
+
+        {/* Temperature */}
+        <div className="space-y-2">
+          <Label htmlFor="temperature">Temperature</Label>
+          <Input
+            id="temperature"
+            type="number"
+            step="0.1"
+            min={0}
+            max={2}
+            placeholder="Default"
+            value={value.temperature ?? ""}
+            onChange={(e) => update({ temperature: parseNumber(e.target.value) })}
+            disabled={disabled}
+          />
+          {errors?.temperature && (
+            <p className="text-sm text-destructive">{errors.temperature}</p>
+          )}
+        </div>
+
+        {/* Top P */}
+        <div className="space-y-2">
+          <Label htmlFor="topP">Top P</Label>
+          <Input
+            id="topP"
+            type="number"
+            step="0.05"
+            min={0}
+            max={1}
+            placeholder="Default"
+            value={value.topP ?? ""}
+            onChange={(e) => update({ topP: parseNumber(e.target.value) })}
+            disabled={disabled}
+          />
+          {errors?.topP && (
+            <p className="text-sm text-destructive">{errors.topP}</p>
+          )}
+        </div>
+
+        {/* Max tokens */}
+        <div className="space-y-2">
+          <Label htmlFor="maxTokens">Max tokens</Label>
+          <Input
+            id="maxTokens"
+            type="number"
+            step="1"
+            min={1}
+            max={32000}
+            placeholder="2000"
+            value={value.maxTokens ?? ""}
+            onChange={(e) => update({ maxTokens: parseNumber(e.target.value) })}
+            disabled={disabled}
+          />
+          {errors?.maxTokens && (
+            <p className="text-sm text-destructive">{errors.maxTokens}</p>
+          )}
+        </div>
+      </div>
+
+      {/* System prompt prefix */}
+      <div className="space-y-2">
+        <Label htmlFor="systemPromptPrefix">System prompt prefix</Label>
+        <Textarea
+          id="systemPromptPrefix"
+          placeholder="Optional instructions placed before the system prompt, e.g. 'Always answer in English.'"
+          rows={3}
+          value={value.systemPromptPrefix ?? ""}
+          onChange={(e) => update({ systemPromptPrefix: e.target.value || null })}
+          disabled={disabled}
+        />
+        {errors?.systemPromptPrefix && (
+          <p className="text-sm text-destructive">{errors.systemPromptPrefix}</p>
+        )}
+        <p className="text-xs text-muted-foreground">
+          Leave any field blank to use the provider default
+        </p>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,157 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { useSession } from "next-auth/react"
+import { Download, Upload } from "lucide-react"
+import { exportAgents, getAgents, importAgents } from "@/lib/actions/agents"
+import { downloadFile } from "@/lib/utils"
+import type { AgentDefinitionFormat } from "@/lib/agent-definition"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+
+/**
+ * Bulk import of agent definition files and export of all the user's agents
+ */
+export function AgentImportExport() {
+  const router = useRouter()
+  const { data: session } = useSession()
+  const [open, setOpen] = useState(false)
+  const [files, setFiles] = useState<File[]>([])
+  const [isImporting, setIsImporting] = useState(false)
+  const [errors, setErrors] = useState<string[]>([])
+
+  const handleExportAll = async (format: AgentDefinitionFormat) => {
+    if (!session?.user?.id) return
+
+    try {
+      const agents = await getAgents(session.user.id)
+      if (!agents.success || !agents.data || agents.data.length === 0) {
+        alert(agents.error || "You have no agents to export")
+        return
+      }
+
+      const result = await exportAgents(session.user.id, agents.data.map(agent => agent.id), format)
+      if (result.success && result.data) {
+        downloadFile(result.data.filename, result.data.contentType, result.data.body)
+      } else {
+        alert(result.error)
+      }
+    } catch (error) {
+      alert("Failed to export agents")
+    }
+  }
+
+  const handleImport = async () => {
+    if (!session?.user?.id) {
+      setErrors(["You must be logged in to import agents"])
+      return
+    }
+
+    setErrors([])
+    setIsImporting(true)
+
+    try {
+      const result = await importAgents(
+        session.user.id,
+        await Promise.all(files.map(async file => ({ name: file.name, content: await file.text() })))
+      )
+
+      if (result.success) {
+        setOpen(false)
+        setFiles([])
+        router.refresh()
+      } else {
+        setErrors("errors" in result && result.errors ? result.errors : [result.error || "Failed to import agents"])
+      }
+    } catch (error) {
+      setErrors(["An unexpected error occurred"])
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  return (
+    <div className="flex gap-2">
+      <Dialog
+        open={open}
+        onOpenChange={(value) => {
+          setOpen(value)
+          if (!value) setErrors([])
+        }}
+      >
+        <DialogTrigger asChild>
+          <Button variant="outline">
+            <Upload className="mr-2 h-4 w-4" />
+            Import
+          </Button>
+        </DialogTrigger>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Import agents</DialogTitle>
+            <DialogDescription>
+              JSON or YAML agent definitions, or Markdown role files whose text becomes the prompt
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="agent-files">Files</Label>
+            <Input
+              id="agent-files"
+              type="file"
+              multiple
+              accept=".json,.yaml,.yml,.md,.markdown"
+              onChange={(e) => setFiles(Array.from(e.target.files || []))}
+            />
+            <p className="text-xs text-muted-foreground">
+              Agents are only created when every file is valid
+            </p>
+          </div>
+
+          {errors.length > 0 && (
+            <ul className="p-3 rounded-md bg-destructive/10 text-destructive text-sm space-y-1 max-h-48 overflow-y-auto">
+              {errors.map((error, index) => (
+                <li key={index}>{error}</li>
+              ))}
+            </ul>
+          )}
+
+          <DialogFooter>
+            <Button onClick={handleImport} disabled={isImporting || files.length === 0}>
+              {isImporting ? "Importing..." : `Import ${files.length > 0 ? files.length : ""} ${files.length === 1 ? "file" : "files"}`}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline">
+            <Download className="mr-2 h-4 w-4" />
+            Export all
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onClick={() => handleExportAll("json")}>As JSON</DropdownMenuItem>
+          <DropdownMenuItem onClick={() => handleExportAll("yaml")}>As YAML</DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  )
+}
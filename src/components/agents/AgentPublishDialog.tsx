@@ -0,0 +1,163 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { getAgentSampleCandidates, publishAgent, type AgentSample } from "@/lib/actions/marketplace"
+import { AGENT_CATEGORIES, MAX_AGENT_SAMPLES } from "@/lib/constants"
+
+type AgentCategory = (typeof AGENT_CATEGORIES)[number]
+
+interface AgentPublishDialogProps {
+  agent: {
+    id: string
+    name: string
+    createdBy: string
+    category?: string | null
+    tags?: string | null
+  }
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+function parseTags(tags?: string | null): string {
+  try {
+    return tags ? (JSON.parse(tags) as string[]).join(", ") : ""
+  } catch {
+    return ""
+  }
+}
+
+/**
+ * List an agent on the marketplace with a category, tags and sample replies
+ */
+export function AgentPublishDialog({ agent, open, onOpenChange }: AgentPublishDialogProps) {
+  const router = useRouter()
+  const [category, setCategory] = useState<AgentCategory | "">(
+    (AGENT_CATEGORIES as readonly string[]).includes(agent.category || "") ? agent.category as AgentCategory : ""
+  )
+  const [tags, setTags] = useState(parseTags(agent.tags))
+  const [candidates, setCandidates] = useState<AgentSample[]>([])
+  const [selected, setSelected] = useState<string[]>([])
+  const [isPublishing, setIsPublishing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!open) return
+
+    getAgentSampleCandidates(agent.id, agent.createdBy)
+      .then(result => setCandidates(result.success && result.data ? result.data : []))
+      .catch(() => setCandidates([]))
+  }, [open, agent.id, agent.createdBy])
+
+  const toggleSample = (messageId: string, checked: boolean) => {
+    setSelected(prev => checked ? [...prev, messageId].slice(0, MAX_AGENT_SAMPLES) : prev.filter(id => id !== messageId))
+  }
+
+  const handlePublish = async () => {
+    if (!category) return
+
+    setIsPublishing(true)
+    setError(null)
+    try {
+      const result = await publishAgent(agent.id, agent.createdBy, {
+        category,
+        tags: tags.split(",").map(tag => tag.trim()).filter(Boolean),
+        sampleMessageIds: selected,
+      })
+      if (result.success) {
+        onOpenChange(false)
+        router.refresh()
+      } else {
+        setError(result.error || "Failed to publish agent")
+      }
+    } catch (error) {
+      setError("Failed to publish agent")
+    } finally {
+      setIsPublishing(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Publish {agent.name}</DialogTitle>
+          <DialogDescription>
+            Anyone can find, rate and clone public agents; their prompt is visible on the listing
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Category</Label>
+              <Select value={category} onValueChange={(value) => setCategory(value as AgentCategory)}>
+                <SelectTrigger><SelectValue placeholder="Pick a category" /></SelectTrigger>
+                <SelectContent>
+                  {AGENT_CATEGORIES.map(option => (
+                    <SelectItem key={option} value={option} className="capitalize">{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="agent-tags">Tags</Label>
+              <Input
+                id="agent-tags"
+                value={tags}
+                onChange={(e) => setTags(e.target.value)}
+                placeholder="seo, copywriting"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Sample conversations (up to {MAX_AGENT_SAMPLES})</Label>
+            {candidates.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Replies this agent gives to your own questions can be shown here as samples
+              </p>
+            ) : (
+              <div className="max-h-64 space-y-2 overflow-y-auto">
+                {candidates.map(candidate => (
+                  <label key={candidate.messageId} className="flex gap-3 rounded-md border p-3 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={selected.includes(candidate.messageId)}
+                      disabled={!selected.includes(candidate.messageId) && selected.length >= MAX_AGENT_SAMPLES}
+                      onCheckedChange={(checked) => toggleSample(candidate.messageId, checked === true)}
+                    />
+                    <div className="min-w-0 space-y-1">
+                      <p className="font-medium line-clamp-1">{candidate.prompt}</p>
+                      <p className="text-muted-foreground line-clamp-2">{candidate.response}</p>
+                    </div>
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button onClick={handlePublish} disabled={!category || isPublishing}>
+            {isPublishing ? "Publishing..." : "Publish"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,7 +1,7 @@
 "use client"
 
-import { useState, useEffect, useRef, useCallback } from "react"
-import { Send } from "lucide-react"
+import { useState, useEffect, useLayoutEffect, useRef, useCallback } from "react"
+import { Compass, MessageSquare, Pencil, Pin, PinOff, Send } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Avatar, AvatarFallback } from "@/components/ui/avatar"
@@ -9,11 +9,27 @@ import { Badge } from "@/components/ui/badge"
 import { ScrollArea } from "@/components/ui/scroll-area"
 import { Progress } from "@/components/ui/progress"
 import { Skeleton } from "@/components/ui/skeleton"
-import { getMessages, createMessage } from "@/lib/actions/messages"
+import { getMessages, createMessage, pinMessage, unpinMessage } from "@/lib/actions/messages"
 import { generateBatchAgentResponses } from "@/lib/actions/ai"
 import { ClearHistoryButton } from "./ClearHistoryButton"
+import { ExportConversationButton } from "./ExportConversationButton"
+import { ThreadPanel } from "./ThreadPanel"
+import { MessageEditForm } from "./MessageEditForm"
+import { MessageRevisions } from "./MessageRevisions"
+import { MessageFeedback } from "./MessageFeedback"
+import { PinnedMessages } from "./PinnedMessages"
+import { RoomSummary } from "./RoomSummary"
 import { getUserRoleInRoom } from "@/lib/actions/rooms"
 import { useSocket } from "@/hooks/useSocket"
+import { STEER_COMMAND_PATTERN } from "@/lib/constants"
+import { DISCUSSION_CONTROL_COMMANDS, matchChatCommands, parseChatCommand } from "@/lib/chat-commands"
+import {
+  ALL_AGENTS_MENTION,
+  collectMentionIds,
+  getActiveMentionQuery,
+  insertMention,
+  type MentionToken
+} from "@/lib/mentions"
 
 interface Message {
   id: string
@@ -42,6 +58,16 @@ interface Message {
     style: string
   }
   parsedContent?: string
+  parentId?: string | null
+  editedAt?: Date | string | null
+  activeVariantId?: string | null
+  _count?: {
+    replies: number
+    variants?: number
+  }
+  // The current user's own rating, if any
+  ratings?: Array<{ rating: number; reason: string | null }>
+  pin?: { id: string } | null
 }
 
 interface Room {
@@ -67,18 +93,69 @@ interface DiscussionState {
   agentOrder: string[]
 }
 
+interface StreamingDraft {
+  streamId: string
+  agentId: string
+  agentName: string
+  agentEmoji: string
+  agentColor: string
+  content: string
+  startedAt: Date
+}
+
 interface ChatInterfaceProps {
   roomId: string
   room: Room
   currentUserId: string
   currentUserName: string | null
+  // Message to scroll to and highlight once history is loaded
+  focusMessageId?: string
+  // Thread to open in the side panel
+  initialThreadId?: string
+}
+
+// How close to the top (px) the history has to be scrolled before older messages load
+const LOAD_OLDER_THRESHOLD = 80
+// How far back (in pages of 100) a deep link may reach before giving up
+const MAX_FOCUS_PAGES = 20
+
+/**
+ * Merge a page of messages into the list, dropping ones already present
+ * (live socket events can race with page loads) and keeping chronological order
+ */
+function mergeMessages(existing: Message[], incoming: Message[]): Message[] {
+  const known = new Set(existing.map(message => message.id))
+  const added = incoming.filter(message => !known.has(message.id))
+  if (added.length === 0) return existing
+
+  return [...existing, ...added].sort((a, b) =>
+    new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime() || a.id.localeCompare(b.id)
+  )
 }
 
-export function ChatInterface({ roomId, room, currentUserId, currentUserName }: ChatInterfaceProps) {
+// Filter out messages with null senders ONLY for USER messages
+// Keep AGENT and SYSTEM messages even if sender is null (they are not users)
+function withSenders<T extends { type: string; sender: unknown }>(messages: T[]): T[] {
+  return messages.filter(msg => msg.type !== 'USER' || msg.sender !== null)
+}
+
+export function ChatInterface({ roomId, room, currentUserId, currentUserName, focusMessageId, initialThreadId }: ChatInterfaceProps) {
   const [messages, setMessages] = useState<Message[]>([])
   const [inputMessage, setInputMessage] = useState("")
+  const [caretPosition, setCaretPosition] = useState(0)
+  const [mentionTokens, setMentionTokens] = useState<MentionToken[]>([])
+  const [highlightedSuggestion, setHighlightedSuggestion] = useState(0)
   const [isLoading, setIsLoading] = useState(false)
+  const [hasOlderMessages, setHasOlderMessages] = useState(false)
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false)
+  const [hasLoaded, setHasLoaded] = useState(false)
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null)
+  const [openThreadId, setOpenThreadId] = useState<string | null>(initialThreadId || null)
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null)
+  const [revisionsMessageId, setRevisionsMessageId] = useState<string | null>(null)
+  const [pinnedFocusId, setPinnedFocusId] = useState<string | null>(null)
   const [isTyping, setIsTyping] = useState<string[]>([])
+  const [streamingDrafts, setStreamingDrafts] = useState<Record<string, StreamingDraft>>({})
   const [userRole, setUserRole] = useState<"OWNER" | "ADMIN" | "MEMBER" | null>(null)
   const [discussionState, setDiscussionState] = useState<DiscussionState>({
     isActive: false,
@@ -90,6 +167,16 @@ export function ChatInterface({ roomId, room, currentUserId, currentUserName }:
 
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const inputRef = useRef<HTMLInputElement>(null)
+  const messagesRef = useRef<Message[]>([])
+  const viewportRef = useRef<HTMLDivElement | null>(null)
+  const isNearBottomRef = useRef(true)
+  // Scroll metrics captured before older messages are prepended
+  const scrollRestoreRef = useRef<{ height: number; top: number } | null>(null)
+  const focusedMessageRef = useRef<string | null>(null)
+
+  useEffect(() => {
+    messagesRef.current = messages
+  }, [messages])
 
   // WebSocket integration
   const { isConnected, joinRoom } = useSocket({
@@ -105,18 +192,70 @@ export function ChatInterface({ roomId, room, currentUserId, currentUserName }:
     try {
       const result = await getMessages(roomId, currentUserId)
       if (result.success && result.data) {
-        // Filter out messages with null senders ONLY for USER messages
-        // Keep AGENT messages even if sender is null (agents are not users)
-        const safeMessages = result.data.filter(msg =>
-          msg.type === 'AGENT' || msg.sender !== null
-        )
-        setMessages(safeMessages)
+        isNearBottomRef.current = true
+        setMessages(withSenders(result.data))
+        setHasOlderMessages(!!result.hasMore)
+        setHasLoaded(true)
       }
     } catch (error) {
       console.error("Failed to load messages:", error)
     }
   }, [roomId, currentUserId])
 
+  // Page back through history when the user scrolls to the top
+  const loadOlderMessages = useCallback(async () => {
+    const oldest = messagesRef.current[0]
+    if (!oldest || isLoadingOlder || !hasOlderMessages) return
+
+    setIsLoadingOlder(true)
+    try {
+      const result = await getMessages(roomId, currentUserId, { before: oldest.id })
+      if (result.success && result.data) {
+        const viewport = viewportRef.current
+        if (viewport) {
+          scrollRestoreRef.current = { height: viewport.scrollHeight, top: viewport.scrollTop }
+        }
+        setMessages(prev => mergeMessages(prev, withSenders(result.data)))
+        setHasOlderMessages(!!result.hasMore)
+      }
+    } catch (error) {
+      console.error("Failed to load older messages:", error)
+    } finally {
+      setIsLoadingOlder(false)
+    }
+  }, [roomId, currentUserId, isLoadingOlder, hasOlderMessages])
+
+  // Catch up on messages missed while the socket was disconnected
+  const loadNewerMessages = useCallback(async () => {
+    const newest = messagesRef.current[messagesRef.current.length - 1]
+    if (!newest) return
+
+    try {
+      const result = await getMessages(roomId, currentUserId, { after: newest.id, limit: 100 })
+      if (!result.success || !result.data) return
+
+      // Too far behind to stitch together; start again from the latest page
+      if (result.hasMore) {
+        await loadMessages()
+        return
+      }
+      setMessages(prev => mergeMessages(prev, withSenders(result.data)))
+    } catch (error) {
+      console.error("Failed to load newer messages:", error)
+    }
+  }, [roomId, currentUserId, loadMessages])
+
+  const handleScroll = useCallback((event: React.UIEvent<HTMLDivElement>) => {
+    // Scroll events don't bubble, so this is captured from the ScrollArea's viewport
+    const viewport = event.target as HTMLDivElement
+    viewportRef.current = viewport
+    isNearBottomRef.current = viewport.scrollHeight - viewport.scrollTop - viewport.clientHeight < 150
+
+    if (viewport.scrollTop < LOAD_OLDER_THRESHOLD) {
+      loadOlderMessages()
+    }
+  }, [loadOlderMessages])
+
   // Load user role
   useEffect(() => {
     const fetchUserRole = async () => {
@@ -135,8 +274,9 @@ export function ChatInterface({ roomId, room, currentUserId, currentUserName }:
     if (isConnected && roomId) {
       joinRoom(roomId)
       console.log(`[ChatInterface] Joined room ${roomId} via WebSocket`)
+      loadNewerMessages()
     }
-  }, [isConnected, roomId, joinRoom])
+  }, [isConnected, roomId, joinRoom, loadNewerMessages])
 
   // Memoized event handlers to prevent duplicate listeners
   const handleNewMessage = useCallback((event: any) => {
@@ -148,6 +288,14 @@ export function ChatInterface({ roomId, room, currentUserId, currentUserName }:
     console.log(`[ChatInterface] Message data keys:`, message.data ? Object.keys(message.data) : 'no data')
 
     setMessages(prev => {
+      // Thread replies only bump the reply count; the thread panel shows them
+      if (message.data?.parentId) {
+        return prev.map(existingMsg => existingMsg.id === message.data.parentId
+          ? { ...existingMsg, _count: { replies: (existingMsg._count?.replies || 0) + 1 } }
+          : existingMsg
+        )
+      }
+
       // Extract the actual message ID from various possible locations
       const messageId = message.data?.id || message.id || `temp-${Date.now()}`
 
@@ -184,6 +332,79 @@ export function ChatInterface({ roomId, room, currentUserId, currentUserName }:
       console.log(`[ChatInterface] Adding new message to state:`, messageId)
       return [...prev, transformedMessage]
     })
+
+    // The persisted agent message replaces any draft streamed for that agent
+    if (message.data?.type === 'AGENT' && message.data.agentId) {
+      setStreamingDrafts(prev => {
+        const remaining = Object.values(prev).filter(draft => draft.agentId !== message.data.agentId)
+        if (remaining.length === Object.keys(prev).length) return prev
+        return Object.fromEntries(remaining.map(draft => [draft.streamId, draft]))
+      })
+    }
+  }, [])
+
+  // Edits and regenerated variants replace the content in place; position stays
+  const handleMessageEdited = useCallback((event: any) => {
+    const edited = event.detail?.data
+    if (!edited?.id) return
+
+    setMessages(prev => prev.map(existingMsg => existingMsg.id === edited.id
+      ? {
+          ...existingMsg,
+          content: edited.content,
+          mentions: edited.mentions,
+          editedAt: edited.editedAt,
+          activeVariantId: edited.activeVariantId,
+          _count: edited._count || existingMsg._count
+        }
+      : existingMsg
+    ))
+  }, [])
+
+  const handlePinUpdate = useCallback((event: any) => {
+    const update = event.detail
+    if (!update?.messageId) return
+
+    setMessages(prev => prev.map(existingMsg => existingMsg.id === update.messageId
+      ? { ...existingMsg, pin: update.pinned ? { id: update.messageId } : null }
+      : existingMsg
+    ))
+  }, [])
+
+  const handleAgentToken = useCallback((event: any) => {
+    const update = event.detail
+
+    setStreamingDrafts(prev => {
+      const existing = prev[update.streamId]
+      return {
+        ...prev,
+        [update.streamId]: existing
+          ? { ...existing, content: existing.content + update.token }
+          : {
+              streamId: update.streamId,
+              agentId: update.agentId,
+              agentName: update.agentName,
+              agentEmoji: update.agentEmoji,
+              agentColor: update.agentColor,
+              content: update.token,
+              startedAt: new Date()
+            }
+      }
+    })
+
+    // The draft replaces the typing skeleton once tokens start arriving
+    setIsTyping(prev => prev.includes(update.agentId) ? prev.filter(id => id !== update.agentId) : prev)
+  }, [])
+
+  const handleAgentStreamEnd = useCallback((event: any) => {
+    const update = event.detail
+    console.log(`[ChatInterface] Agent stream ended:`, update.streamId, update.messageId || update.errorMessage)
+
+    setStreamingDrafts(prev => {
+      if (!prev[update.streamId]) return prev
+      const { [update.streamId]: _finished, ...rest } = prev
+      return rest
+    })
   }, [])
 
     const handleAgentTyping = useCallback((event: any) => {
@@ -214,7 +435,7 @@ export function ChatInterface({ roomId, room, currentUserId, currentUserName }:
           completedAgents: [...prev.completedAgents, update.agentId],
           currentAgent: null
         }))
-      } else if (update.type === 'discussion_complete') {
+      } else if (update.type === 'discussion_complete' || update.status === 'CONCLUDED') {
         setDiscussionState({
           isActive: false,
           currentAgent: null,
@@ -291,9 +512,13 @@ export function ChatInterface({ roomId, room, currentUserId, currentUserName }:
 
     // Add event listeners
     window.addEventListener('socket:new_message', handleNewMessage as EventListener)
+    window.addEventListener('socket:message_edited', handleMessageEdited as EventListener)
+    window.addEventListener('socket:pin_update', handlePinUpdate as EventListener)
     window.addEventListener('socket:agent_typing', handleAgentTyping as EventListener)
     window.addEventListener('socket:discussion_update', handleDiscussionUpdate as EventListener)
     window.addEventListener('socket:agent_progress', handleAgentProgress as EventListener)
+    window.addEventListener('socket:agent_token', handleAgentToken as EventListener)
+    window.addEventListener('socket:agent_stream_end', handleAgentStreamEnd as EventListener)
 
     // Load initial messages once
     loadMessages()
@@ -301,32 +526,193 @@ export function ChatInterface({ roomId, room, currentUserId, currentUserName }:
     return () => {
       console.log('[ChatInterface] Cleaning up WebSocket event listeners for room:', roomId)
       window.removeEventListener('socket:new_message', handleNewMessage as EventListener)
+      window.removeEventListener('socket:message_edited', handleMessageEdited as EventListener)
+      window.removeEventListener('socket:pin_update', handlePinUpdate as EventListener)
       window.removeEventListener('socket:agent_typing', handleAgentTyping as EventListener)
       window.removeEventListener('socket:discussion_update', handleDiscussionUpdate as EventListener)
       window.removeEventListener('socket:agent_progress', handleAgentProgress as EventListener)
+      window.removeEventListener('socket:agent_token', handleAgentToken as EventListener)
+      window.removeEventListener('socket:agent_stream_end', handleAgentStreamEnd as EventListener)
+    }
+  }, [roomId, handleNewMessage, handleMessageEdited, handlePinUpdate, handleAgentTyping, handleDiscussionUpdate, handleAgentProgress, handleAgentToken, handleAgentStreamEnd])
+
+  // Deep links and pinned messages: page back until the message is loaded, then bring it into view
+  const focusTargetId = pinnedFocusId || focusMessageId
+  useEffect(() => {
+    if (!focusTargetId || !hasLoaded || focusedMessageRef.current === focusTargetId) return
+    focusedMessageRef.current = focusTargetId
+
+    const focusMessage = async () => {
+      let loaded = messagesRef.current
+      let hasMore = hasOlderMessages
+
+      for (let page = 0; page < MAX_FOCUS_PAGES && hasMore && loaded[0]; page++) {
+        if (loaded.some(message => message.id === focusTargetId)) break
+
+        const result = await getMessages(roomId, currentUserId, { before: loaded[0].id, limit: 100 })
+        if (!result.success || !result.data) break
+        loaded = mergeMessages(loaded, withSenders(result.data))
+        hasMore = !!result.hasMore
+      }
+
+      if (!loaded.some(message => message.id === focusTargetId)) {
+        console.warn(`[ChatInterface] Linked message ${focusTargetId} not found in room history`)
+        return
+      }
+
+      isNearBottomRef.current = false
+      setMessages(prev => mergeMessages(prev, loaded))
+      setHasOlderMessages(hasMore)
+      setHighlightedMessageId(focusTargetId)
+    }
+
+    focusMessage()
+  }, [focusTargetId, hasLoaded, hasOlderMessages, roomId, currentUserId])
+
+  // Thread replies are shown in their thread, next to the highlighted root
+  const handleSelectPinned = useCallback((messageId: string, parentId: string | null) => {
+    const targetId = parentId || messageId
+    if (parentId) setOpenThreadId(parentId)
+
+    if (messagesRef.current.some(message => message.id === targetId)) {
+      isNearBottomRef.current = false
+      setHighlightedMessageId(targetId)
+    } else {
+      setPinnedFocusId(targetId)
     }
-  }, [roomId, handleNewMessage, handleAgentTyping, handleDiscussionUpdate, handleAgentProgress])
+  }, [])
+
+  const togglePin = useCallback(async (message: Message) => {
+    try {
+      const result = message.pin
+        ? await unpinMessage(message.id, currentUserId)
+        : await pinMessage(message.id, currentUserId)
+      if (!result.success) {
+        console.error("Failed to update pin:", result.error)
+      }
+    } catch (error) {
+      console.error("Failed to update pin:", error)
+    }
+  }, [currentUserId])
+
+  useEffect(() => {
+    if (!highlightedMessageId) return
+
+    document.getElementById(`message-${highlightedMessageId}`)?.scrollIntoView({ block: "center" })
+    const timeout = setTimeout(() => setHighlightedMessageId(null), 4000)
+    return () => clearTimeout(timeout)
+  }, [highlightedMessageId])
+
+  // Keep the reader's place when older messages are prepended
+  useLayoutEffect(() => {
+    const restore = scrollRestoreRef.current
+    const viewport = viewportRef.current
+    if (!restore || !viewport) return
+
+    viewport.scrollTop = viewport.scrollHeight - restore.height + restore.top
+    scrollRestoreRef.current = null
+  }, [messages])
 
-  // Auto scroll to bottom
+  // Auto scroll to bottom, unless the user is reading older history
   useEffect(() => {
-    scrollToBottom()
-  }, [messages, scrollToBottom])
+    if (isNearBottomRef.current) {
+      scrollToBottom()
+    }
+  }, [messages, streamingDrafts, scrollToBottom])
+
+  // "@moderator ..." steers and /pause, /stop control a running discussion, so they are allowed mid-discussion
+  const isSteerDraft = STEER_COMMAND_PATTERN.test(inputMessage)
+  const draftCommand = parseChatCommand(inputMessage)
+  const isControlDraft = isSteerDraft ||
+    (draftCommand?.success === true && DISCUSSION_CONTROL_COMMANDS.includes(draftCommand.data.name))
+  const commandSuggestions = matchChatCommands(inputMessage)
+
+  // Agents matching the "@partial" at the caret; @all expands to everyone server-side
+  const activeMention = getActiveMentionQuery(inputMessage, caretPosition)
+  const mentionSuggestions: Array<MentionToken & { emoji?: string; style?: string }> = activeMention
+    ? [
+        ...room.agents
+          .filter(roomAgent => roomAgent.agent.name.toLowerCase().includes(activeMention.query.toLowerCase()))
+          .map(roomAgent => ({
+            id: roomAgent.agent.id,
+            name: roomAgent.agent.name,
+            emoji: roomAgent.agent.emoji,
+            style: roomAgent.agent.style
+          })),
+        ...(room.agents.length > 1 && ALL_AGENTS_MENTION.name.startsWith(activeMention.query.toLowerCase())
+          ? [ALL_AGENTS_MENTION]
+          : [])
+      ]
+    : []
+
+  const updateInput = (value: string, caret: number = value.length) => {
+    setInputMessage(value)
+    setCaretPosition(caret)
+    setHighlightedSuggestion(0)
+  }
+
+  const selectMention = (token: MentionToken) => {
+    const next = insertMention(inputMessage, caretPosition, token.name)
+    updateInput(next.text, next.caret)
+    setMentionTokens(prev => prev.some(existing => existing.id === token.id) ? prev : [...prev, token])
+
+    // Restore the caret after React re-renders the input
+    requestAnimationFrame(() => {
+      inputRef.current?.focus()
+      inputRef.current?.setSelectionRange(next.caret, next.caret)
+    })
+  }
+
+  // Tokens still present in the draft (the user may have deleted some by hand)
+  const activeMentionTokens = mentionTokens.filter(token => inputMessage.includes(`@${token.name}`))
+
+  const removeMention = (token: MentionToken) => {
+    updateInput(inputMessage.split(`@${token.name}`).join("").replace(/\s{2,}/g, " "))
+    setMentionTokens(prev => prev.filter(existing => existing.id !== token.id))
+  }
+
+  const startSteer = () => {
+    if (!isSteerDraft) {
+      updateInput(`@moderator ${inputMessage}`.trimEnd() + " ")
+    }
+    inputRef.current?.focus()
+  }
 
   const handleSendMessage = async () => {
-    if (!inputMessage.trim() || isLoading || discussionState.isActive) return
+    if (!inputMessage.trim() || isLoading || (discussionState.isActive && !isControlDraft)) return
 
     const messageContent = inputMessage.trim()
-    setInputMessage("")
+    const mentionIds = collectMentionIds(
+      messageContent,
+      mentionTokens,
+      room.agents.map(roomAgent => roomAgent.agent.id)
+    )
+    updateInput("")
+    setMentionTokens([])
     setIsLoading(true)
+    // Sending jumps back to the live end of the conversation
+    isNearBottomRef.current = true
 
     try {
-      // Create user message
+      // Create user message; explicit IDs spare the server from guessing names
       const result = await createMessage(currentUserId, {
         roomId,
         content: messageContent,
-        mentions: []
+        mentions: mentionIds
       })
 
+      // Command output meant only for the sender (e.g. an invitation token)
+      if (result.success && result.commandReply) {
+        alert(result.commandReply)
+      }
+
+      // /clear wipes the room server-side, so reload instead of waiting for socket events
+      const sentCommand = parseChatCommand(messageContent)
+      if (result.success && sentCommand?.success && sentCommand.data.name === "clear") {
+        await loadMessages()
+        return
+      }
+
       if (result.success && result.data) {
         // Don't add message to state here - let WebSocket handle it
         // This prevents duplicate messages since WebSocket will also receive this message
@@ -450,6 +836,14 @@ export function ChatInterface({ roomId, room, currentUserId, currentUserName }:
   }
 
   const parseAgentInfo = (message: Message): Message => {
+    // Moderator verdicts carry a [DISCUSSION:id] header linking them to their discussion
+    if (message.type === "SYSTEM" && message.content.startsWith('[DISCUSSION:')) {
+      return {
+        ...message,
+        parsedContent: message.content.replace(/^\[DISCUSSION:[^\]]+\]\n/, '')
+      }
+    }
+
     if (message.type === "AGENT" && message.content.startsWith('[AGENT:')) {
       const agentInfoMatch = message.content.match(/^\[AGENT:([^:]+):([^:]+):([^:]+):([^:]+):([^\]]+)\]/)
 
@@ -491,20 +885,20 @@ export function ChatInterface({ roomId, room, currentUserId, currentUserName }:
   }
 
   // Helper functions for input management
-  const isInputDisabled = isLoading || discussionState.isActive
+  const isInputDisabled = isLoading
 
   const getInputPlaceholder = () => {
     if (discussionState.isActive) {
       const progress = discussionState.completedAgents.length
       const total = discussionState.totalAgents
-      return `Discussion in progress... (${progress}/${total} agents responded)`
+      return `Discussion in progress... (${progress}/${total} agents responded) - steer with @moderator`
     }
     if (isLoading) return "Sending message..."
     return "Type your message... (Use @ to mention agents)"
   }
 
   const getSendButtonDisabled = () => {
-    return !inputMessage.trim() || isInputDisabled
+    return !inputMessage.trim() || isInputDisabled || (discussionState.isActive && !isControlDraft)
   }
 
   // Discussion Progress Component
@@ -613,6 +1007,7 @@ export function ChatInterface({ roomId, room, currentUserId, currentUserName }:
           </div>
 
           <div className="flex items-center gap-2">
+            <ExportConversationButton roomId={roomId} />
             <ClearHistoryButton
               roomId={roomId}
               currentUserId={currentUserId}
@@ -622,19 +1017,33 @@ export function ChatInterface({ roomId, room, currentUserId, currentUserName }:
         </div>
       </div>
 
+      <RoomSummary roomId={roomId} currentUserId={currentUserId} />
+      <PinnedMessages roomId={roomId} currentUserId={currentUserId} onSelect={handleSelectPinned} />
+
       {/* Messages Area */}
-      <ScrollArea className="flex-1 p-4">
+      <ScrollArea className="flex-1 p-4" onScrollCapture={handleScroll}>
         <div className="space-y-4">
+          {isLoadingOlder && (
+            <p className="text-center text-xs text-muted-foreground">Loading earlier messages…</p>
+          )}
+          {!hasOlderMessages && messages.length > 0 && (
+            <p className="text-center text-xs text-muted-foreground">Beginning of conversation</p>
+          )}
           {messages.map((message) => {
             const parsedMessage = parseAgentInfo(message)
             const agentInfo = parsedMessage.parsedAgentInfo
             const displayContent = parsedMessage.parsedContent || parsedMessage.content
 
             return (
-              <div key={message.id} className="flex gap-3">
+              <div
+                key={message.id}
+                id={`message-${message.id}`}
+                className={`flex gap-3 rounded-md transition-colors ${highlightedMessageId === message.id ? "bg-yellow-50 ring-1 ring-yellow-300" : ""}`}
+              >
                 <Avatar className="h-8 w-8 flex-shrink-0">
-                  <AvatarFallback className={message.type === "AGENT" ? "text-lg" : ""}>
+                  <AvatarFallback className={message.type !== "USER" ? "text-lg" : ""}>
                     {message.type === "AGENT" ? (agentInfo?.emoji || "🤖") :
+                     message.type === "SYSTEM" ? "⚖️" :
                      message.sender?.name?.[0] ||
                      message.sender?.email?.[0] || "U"}
                   </AvatarFallback>
@@ -650,6 +1059,8 @@ export function ChatInterface({ roomId, room, currentUserId, currentUserName }:
                             <span>{agentInfo.name}</span>
                           </span>
                         ) : "AI Agent"
+                      ) : message.type === "SYSTEM" ? (
+                        "Moderator"
                       ) : (
                         message.sender?.name || message.sender?.email || "Unknown User"
                       )}
@@ -659,22 +1070,128 @@ export function ChatInterface({ roomId, room, currentUserId, currentUserName }:
                         {agentInfo?.style.toLowerCase() || "AI"}
                       </Badge>
                     )}
+                    {message.type === "SYSTEM" && (
+                      <Badge variant="secondary" className="text-xs">
+                        system
+                      </Badge>
+                    )}
                     <span className="text-xs text-muted-foreground">
                       {formatTime(message.timestamp)}
                     </span>
+                    {message.editedAt && (
+                      <button
+                        type="button"
+                        className="text-xs text-muted-foreground hover:underline"
+                        onClick={() => setRevisionsMessageId(prev => prev === message.id ? null : message.id)}
+                        title="Show edit history"
+                      >
+                        (edited)
+                      </button>
+                    )}
                   </div>
 
-                  <div
-                    className="text-sm bg-white p-3 rounded-lg border whitespace-pre-wrap"
-                    dangerouslySetInnerHTML={{
-                      __html: formatMessageContent(displayContent, message.mentions)
-                    }}
-                  />
+                  {editingMessageId === message.id ? (
+                    <MessageEditForm
+                      messageId={message.id}
+                      initialContent={message.content}
+                      currentUserId={currentUserId}
+                      canRegenerate={message.mentions.length > 0 || /@\S/.test(message.content)}
+                      onDone={() => setEditingMessageId(null)}
+                    />
+                  ) : (
+                    <div
+                      className="text-sm bg-white p-3 rounded-lg border whitespace-pre-wrap"
+                      dangerouslySetInnerHTML={{
+                        __html: formatMessageContent(displayContent, message.mentions)
+                      }}
+                    />
+                  )}
+
+                  {revisionsMessageId === message.id && (
+                    <MessageRevisions messageId={message.id} currentUserId={currentUserId} />
+                  )}
+
+                  <div className="flex items-center gap-3">
+                    <button
+                      type="button"
+                      className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+                      onClick={() => setOpenThreadId(message.id)}
+                    >
+                      <MessageSquare className="h-3 w-3" />
+                      {message._count?.replies
+                        ? `${message._count.replies} ${message._count.replies === 1 ? "reply" : "replies"}`
+                        : "Reply"}
+                    </button>
+                    {message.type === "USER" && message.sender?.id === currentUserId && editingMessageId !== message.id && (
+                      <button
+                        type="button"
+                        className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+                        onClick={() => setEditingMessageId(message.id)}
+                      >
+                        <Pencil className="h-3 w-3" />
+                        Edit
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+                      onClick={() => togglePin(message)}
+                    >
+                      {message.pin ? <PinOff className="h-3 w-3" /> : <Pin className="h-3 w-3" />}
+                      {message.pin ? "Unpin" : "Pin"}
+                    </button>
+                  </div>
+
+                  {message.type === "AGENT" && (
+                    <MessageFeedback
+                      messageId={message.id}
+                      currentUserId={currentUserId}
+                      variantCount={message._count?.variants || 0}
+                      activeVariantId={message.activeVariantId}
+                      initialRating={message.ratings?.[0]}
+                    />
+                  )}
                 </div>
               </div>
             )
           })}
 
+          {/* Streaming agent replies (replaced by the persisted message on completion) */}
+          {Object.values(streamingDrafts).map((draft) => (
+            <div key={draft.streamId} className="flex gap-3">
+              <Avatar className="h-8 w-8 flex-shrink-0">
+                <AvatarFallback className="text-lg">
+                  {draft.agentEmoji || "🤖"}
+                </AvatarFallback>
+              </Avatar>
+
+              <div className="flex-1 space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-sm">
+                    <span className="flex items-center gap-1">
+                      <span>{draft.agentEmoji}</span>
+                      <span>{draft.agentName}</span>
+                    </span>
+                  </span>
+                  <Badge variant="secondary" className="text-xs">
+                    ✍️ Writing
+                  </Badge>
+                  <span className="text-xs text-muted-foreground">
+                    {formatTime(draft.startedAt)}
+                  </span>
+                </div>
+
+                <div
+                  className="text-sm bg-white p-3 rounded-lg border whitespace-pre-wrap"
+                  style={{ borderColor: `${draft.agentColor}60` }}
+                >
+                  {draft.content}
+                  <span className="inline-block w-1.5 h-4 ml-0.5 align-middle bg-gray-400 animate-pulse" />
+                </div>
+              </div>
+            </div>
+          ))}
+
           {/* Enhanced Typing Indicators */}
           {isTyping.length > 0 && (
             <div className="space-y-3">
@@ -716,14 +1233,52 @@ export function ChatInterface({ roomId, room, currentUserId, currentUserName }:
       <div className="border-t bg-white p-4">
         {/* Discussion Progress */}
         <DiscussionProgress />
+        {/* Picked mentions; these IDs are what the server acts on */}
+        {activeMentionTokens.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 mb-2">
+            <span className="text-xs text-muted-foreground">Mentioning:</span>
+            {activeMentionTokens.map((token) => (
+              <Badge key={token.id} variant="secondary" className="gap-1">
+                @{token.name}
+                <button
+                  type="button"
+                  className="ml-1 text-muted-foreground hover:text-foreground"
+                  onClick={() => removeMention(token)}
+                  aria-label={`Remove mention of ${token.name}`}
+                >
+                  ×
+                </button>
+              </Badge>
+            ))}
+          </div>
+        )}
         <div className="flex gap-3">
           <div className="flex-1 relative">
             <Input
               ref={inputRef}
               value={inputMessage}
-              onChange={(e) => setInputMessage(e.target.value)}
+              onChange={(e) => updateInput(e.target.value, e.target.selectionStart ?? e.target.value.length)}
+              onSelect={(e) => setCaretPosition(e.currentTarget.selectionStart ?? inputMessage.length)}
               placeholder={getInputPlaceholder()}
               onKeyDown={(e) => {
+                if (e.key === "Tab" && commandSuggestions.length > 0) {
+                  e.preventDefault()
+                  updateInput(`/${commandSuggestions[0].name} `)
+                  return
+                }
+                if (mentionSuggestions.length > 0) {
+                  if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+                    e.preventDefault()
+                    const step = e.key === "ArrowDown" ? 1 : -1
+                    setHighlightedSuggestion(prev => (prev + step + mentionSuggestions.length) % mentionSuggestions.length)
+                    return
+                  }
+                  if (e.key === "Tab" || (e.key === "Enter" && !e.shiftKey)) {
+                    e.preventDefault()
+                    selectMention(mentionSuggestions[Math.min(highlightedSuggestion, mentionSuggestions.length - 1)])
+                    return
+                  }
+                }
                 if (e.key === "Enter" && !e.shiftKey) {
                   e.preventDefault()
                   handleSendMessage()
@@ -733,32 +1288,70 @@ export function ChatInterface({ roomId, room, currentUserId, currentUserName }:
               className="pr-12"
             />
             
-            {/* Agent Suggestions */}
-            {inputMessage.includes("@") && (
-              <div className="absolute bottom-full left-0 mb-2 bg-white border rounded-lg shadow-lg p-2 z-10">
-                <p className="text-xs font-medium text-muted-foreground mb-2">Available Agents:</p>
+            {/* Command Suggestions */}
+            {commandSuggestions.length > 0 && (
+              <div className="absolute bottom-full left-0 mb-2 bg-white border rounded-lg shadow-lg p-2 z-10 max-w-lg">
+                <p className="text-xs font-medium text-muted-foreground mb-2">Commands (Tab to complete):</p>
                 <div className="space-y-1">
-                  {room.agents.map((roomAgent) => (
+                  {commandSuggestions.map((command) => (
                     <div
-                      key={roomAgent.agent.id}
-                      className="flex items-center gap-2 p-2 rounded hover:bg-gray-100 cursor-pointer text-sm"
+                      key={command.name}
+                      className="p-2 rounded hover:bg-gray-100 cursor-pointer text-sm"
                       onClick={() => {
-                        const mention = `@${roomAgent.agent.name}`
-                        setInputMessage(prev => prev.replace(/@\w*$/, mention) + " ")
+                        updateInput(`/${command.name} `)
                         inputRef.current?.focus()
                       }}
                     >
-                      <span className="text-lg">{roomAgent.agent.emoji}</span>
-                      <span>{roomAgent.agent.name}</span>
-                      <Badge variant="outline" className="text-xs">
-                        {roomAgent.agent.style.toLowerCase()}
-                      </Badge>
+                      <div className="flex items-center gap-2">
+                        <span className="font-mono font-medium">/{command.name}</span>
+                        <span className="text-muted-foreground">{command.description}</span>
+                      </div>
+                      <p className="text-xs font-mono text-muted-foreground truncate">{command.usage}</p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Agent Suggestions */}
+            {mentionSuggestions.length > 0 && (
+              <div className="absolute bottom-full left-0 mb-2 bg-white border rounded-lg shadow-lg p-2 z-10">
+                <p className="text-xs font-medium text-muted-foreground mb-2">Available Agents (↑↓ to move, Enter to pick):</p>
+                <div className="space-y-1">
+                  {mentionSuggestions.map((suggestion, index) => (
+                    <div
+                      key={suggestion.id}
+                      className={`flex items-center gap-2 p-2 rounded hover:bg-gray-100 cursor-pointer text-sm ${
+                        index === highlightedSuggestion ? 'bg-gray-100' : ''
+                      }`}
+                      onMouseDown={(e) => e.preventDefault()}
+                      onClick={() => selectMention(suggestion)}
+                    >
+                      <span className="text-lg">{suggestion.emoji || '👥'}</span>
+                      <span>{suggestion.id === ALL_AGENTS_MENTION.id ? 'all agents' : suggestion.name}</span>
+                      {suggestion.style && (
+                        <Badge variant="outline" className="text-xs">
+                          {suggestion.style.toLowerCase()}
+                        </Badge>
+                      )}
                     </div>
                   ))}
                 </div>
               </div>
             )}
           </div>
+
+          {discussionState.isActive && (
+            <Button
+              variant="outline"
+              onClick={startSteer}
+              disabled={isLoading}
+              title="Steer the discussion"
+            >
+              <Compass className="h-4 w-4 mr-1" />
+              Steer
+            </Button>
+          )}
           
           <Button
             onClick={handleSendMessage}
@@ -771,18 +1364,36 @@ export function ChatInterface({ roomId, room, currentUserId, currentUserName }:
         
         <div className="mt-2 text-xs text-muted-foreground">
           <div className="flex justify-between items-center">
-            <p>💡 Mention agents with @ for sequential discussion</p>
+            <p>💡 Mention agents with @ for sequential discussion, or type / for commands</p>
             <span className="text-xs">
               {inputMessage.length}/500 characters
             </span>
           </div>
-          {discussionState.isActive && (
+          {discussionState.isActive && !isControlDraft && (
             <p className="text-blue-600 mt-1">
-              🔄 Sequential discussion in progress - please wait for all agents to respond
+              🔄 Sequential discussion in progress - please wait for all agents to respond, or steer it with @moderator
+            </p>
+          )}
+          {draftCommand && !draftCommand.success && commandSuggestions.length === 0 && (
+            <p className="text-red-600 mt-1">{draftCommand.error}</p>
+          )}
+          {isSteerDraft && (
+            <p className="text-blue-600 mt-1">
+              🧭 Steer: add a note, or use <code>topic: …</code> · <code>next: @Agent</code> · <code>extend: 2</code> separated by <code>;</code>
             </p>
           )}
         </div>
       </div>
+
+      {openThreadId && (
+        <ThreadPanel
+          key={openThreadId}
+          roomId={roomId}
+          threadId={openThreadId}
+          currentUserId={currentUserId}
+          onClose={() => setOpenThreadId(null)}
+        />
+      )}
     </div>
   )
 }
@@ -0,0 +1,120 @@
+"use client"
+
+import { useState } from "react"
+import { Download } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+
+const MESSAGE_TYPES = [
+  { value: "USER", label: "User messages" },
+  { value: "AGENT", label: "Agent replies" },
+  { value: "SYSTEM", label: "System messages" },
+] as const
+
+interface ExportConversationButtonProps {
+  roomId: string
+}
+
+/**
+ * Download the room's conversation as Markdown, JSON or HTML
+ */
+export function ExportConversationButton({ roomId }: ExportConversationButtonProps) {
+  const [format, setFormat] = useState("markdown")
+  const [from, setFrom] = useState("")
+  const [to, setTo] = useState("")
+  const [types, setTypes] = useState<string[]>(MESSAGE_TYPES.map(type => type.value))
+
+  const params = new URLSearchParams({ format })
+  if (from) params.set("from", new Date(`${from}T00:00:00`).toISOString())
+  // Include the whole end day
+  if (to) params.set("to", new Date(`${to}T23:59:59.999`).toISOString())
+  if (types.length < MESSAGE_TYPES.length) params.set("types", types.join(","))
+
+  const toggleType = (type: string, checked: boolean) => {
+    setTypes(prev => checked ? [...prev, type] : prev.filter(existing => existing !== type))
+  }
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Download className="h-4 w-4 mr-2" />
+          Export
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Export conversation</DialogTitle>
+          <DialogDescription>
+            Markdown and HTML are readable transcripts; JSON keeps every detail for archiving
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <Select value={format} onValueChange={setFormat}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="markdown">Markdown</SelectItem>
+                <SelectItem value="json">JSON</SelectItem>
+                <SelectItem value="html">HTML page</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="export-from">From</Label>
+              <Input id="export-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="export-to">To</Label>
+              <Input id="export-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Include</Label>
+            {MESSAGE_TYPES.map(type => (
+              <div key={type.value} className="flex items-center gap-2">
+                <Checkbox
+                  id={`export-${type.value}`}
+                  checked={types.includes(type.value)}
+                  onCheckedChange={(checked) => toggleType(type.value, checked as boolean)}
+                />
+                <Label htmlFor={`export-${type.value}`} className="font-normal">{type.label}</Label>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button asChild disabled={types.length === 0}>
+            <a
+              href={`/api/rooms/${roomId}/export?${params.toString()}`}
+              download
+              aria-disabled={types.length === 0}
+              className={types.length === 0 ? "pointer-events-none opacity-50" : ""}
+            >
+              <Download className="h-4 w-4 mr-2" />
+              Download
+            </a>
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,76 @@
+"use client"
+
+import { useState } from "react"
+import { Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { editMessage } from "@/lib/actions/messages"
+
+interface MessageEditFormProps {
+  messageId: string
+  initialContent: string
+  currentUserId: string
+  // Offer re-asking the agents only when the message addressed some
+  canRegenerate: boolean
+  onDone: () => void
+}
+
+export function MessageEditForm({ messageId, initialContent, currentUserId, canRegenerate, onDone }: MessageEditFormProps) {
+  const [content, setContent] = useState(initialContent)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const save = async (regenerate: boolean) => {
+    if (!content.trim() || isSaving) return
+
+    setIsSaving(true)
+    setError(null)
+    try {
+      // The edited message comes back over the socket like everyone else's copy
+      const result = await editMessage(currentUserId, { messageId, content: content.trim(), regenerate })
+      if (result.success) {
+        onDone()
+      } else {
+        setError(result.error || "Failed to edit message")
+      }
+    } catch (error) {
+      console.error("Failed to edit message:", error)
+      setError("Failed to edit message")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <Textarea
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Escape") onDone()
+          if (e.key === "Enter" && !e.shiftKey) {
+            e.preventDefault()
+            save(false)
+          }
+        }}
+        rows={3}
+        autoFocus
+      />
+      {error && <p className="text-xs text-red-600">{error}</p>}
+      <div className="flex gap-2">
+        <Button size="sm" onClick={() => save(false)} disabled={isSaving || !content.trim()}>
+          {isSaving && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+          Save
+        </Button>
+        {canRegenerate && (
+          <Button size="sm" variant="outline" onClick={() => save(true)} disabled={isSaving || !content.trim()}>
+            Save & ask agents again
+          </Button>
+        )}
+        <Button size="sm" variant="ghost" onClick={onDone} disabled={isSaving}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,207 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { ChevronLeft, ChevronRight, Loader2, RefreshCw, ThumbsDown, ThumbsUp } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { regenerateAgentResponse } from "@/lib/actions/ai"
+import { getMessageVariants, rateMessage, selectMessageVariant } from "@/lib/actions/messages"
+
+interface MessageFeedbackProps {
+  messageId: string
+  currentUserId: string
+  variantCount: number
+  activeVariantId?: string | null
+  initialRating?: { rating: number; reason: string | null } | null
+}
+
+/**
+ * Regenerate, variant browsing and thumbs up/down for one agent reply
+ * Ratings are private to the user; the chosen variant is shared with the room
+ */
+export function MessageFeedback({ messageId, currentUserId, variantCount, activeVariantId, initialRating }: MessageFeedbackProps) {
+  const [rating, setRating] = useState(initialRating?.rating || 0)
+  const [reason, setReason] = useState(initialRating?.reason || "")
+  const [isReasonOpen, setIsReasonOpen] = useState(false)
+  const [variantIds, setVariantIds] = useState<string[]>([])
+  const [isRegenerating, setIsRegenerating] = useState(false)
+  const [isSwitching, setIsSwitching] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Variant IDs are only needed once a reply has been regenerated
+  useEffect(() => {
+    if (variantCount < 2) return
+
+    getMessageVariants(messageId, currentUserId)
+      .then(result => {
+        if (result.success && result.data) {
+          setVariantIds(result.data.variants.map(variant => variant.id))
+        }
+      })
+      .catch(error => console.error("Failed to load variants:", error))
+  }, [messageId, currentUserId, variantCount, activeVariantId])
+
+  const activeIndex = activeVariantId ? variantIds.indexOf(activeVariantId) : -1
+
+  const handleRegenerate = async () => {
+    setIsRegenerating(true)
+    setError(null)
+    try {
+      // The new variant arrives over the socket as an edit of this message
+      const result = await regenerateAgentResponse(messageId, currentUserId)
+      if (!result.success) {
+        setError(result.error || "Failed to regenerate reply")
+      }
+    } catch (error) {
+      console.error("Failed to regenerate reply:", error)
+      setError("Failed to regenerate reply")
+    } finally {
+      setIsRegenerating(false)
+    }
+  }
+
+  const showVariant = async (index: number) => {
+    const variantId = variantIds[index]
+    if (!variantId || isSwitching) return
+
+    setIsSwitching(true)
+    setError(null)
+    try {
+      const result = await selectMessageVariant(messageId, variantId, currentUserId)
+      if (!result.success) {
+        setError(result.error || "Failed to switch variant")
+      }
+    } catch (error) {
+      console.error("Failed to switch variant:", error)
+      setError("Failed to switch variant")
+    } finally {
+      setIsSwitching(false)
+    }
+  }
+
+  const saveRating = async (value: number, withReason?: string) => {
+    const previous = { rating, reason }
+    setRating(value)
+    setError(null)
+    try {
+      const result = await rateMessage(currentUserId, { messageId, rating: value as 1 | -1 | 0, reason: withReason })
+      if (!result.success) {
+        setRating(previous.rating)
+        setReason(previous.reason)
+        setError(result.error || "Failed to save rating")
+      }
+    } catch (error) {
+      console.error("Failed to save rating:", error)
+      setRating(previous.rating)
+      setReason(previous.reason)
+      setError("Failed to save rating")
+    }
+  }
+
+  const handleThumb = (value: 1 | -1) => {
+    // Clicking the active thumb again clears the rating
+    if (rating === value) {
+      setReason("")
+      setIsReasonOpen(false)
+      saveRating(0)
+      return
+    }
+
+    setReason("")
+    setIsReasonOpen(true)
+    saveRating(value)
+  }
+
+  const handleReasonSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    setIsReasonOpen(false)
+    if (reason.trim()) {
+      await saveRating(rating, reason.trim())
+    }
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-3 text-xs text-muted-foreground">
+        <button
+          type="button"
+          className="flex items-center gap-1 hover:text-foreground disabled:opacity-50"
+          onClick={handleRegenerate}
+          disabled={isRegenerating}
+          title="Ask for another take"
+        >
+          <RefreshCw className={`h-3 w-3 ${isRegenerating ? "animate-spin" : ""}`} />
+          Regenerate
+        </button>
+
+        {variantCount > 1 && (
+          <span className="flex items-center gap-1">
+            <button
+              type="button"
+              className="hover:text-foreground disabled:opacity-30"
+              onClick={() => showVariant(activeIndex - 1)}
+              disabled={isSwitching || activeIndex <= 0}
+              aria-label="Previous variant"
+            >
+              <ChevronLeft className="h-3 w-3" />
+            </button>
+            {isSwitching ? (
+              <Loader2 className="h-3 w-3 animate-spin" />
+            ) : (
+              <span>{activeIndex >= 0 ? activeIndex + 1 : "?"}/{variantCount}</span>
+            )}
+            <button
+              type="button"
+              className="hover:text-foreground disabled:opacity-30"
+              onClick={() => showVariant(activeIndex + 1)}
+              disabled={isSwitching || activeIndex < 0 || activeIndex >= variantIds.length - 1}
+              aria-label="Next variant"
+            >
+              <ChevronRight className="h-3 w-3" />
+            </button>
+          </span>
+        )}
+
+        <button
+          type="button"
+          className={`hover:text-foreground ${rating === 1 ? "text-green-600" : ""}`}
+          onClick={() => handleThumb(1)}
+          aria-label="Helpful"
+          aria-pressed={rating === 1}
+        >
+          <ThumbsUp className="h-3 w-3" />
+        </button>
+        <button
+          type="button"
+          className={`hover:text-foreground ${rating === -1 ? "text-red-600" : ""}`}
+          onClick={() => handleThumb(-1)}
+          aria-label="Not helpful"
+          aria-pressed={rating === -1}
+        >
+          <ThumbsDown className="h-3 w-3" />
+        </button>
+      </div>
+
+      {isReasonOpen && rating !== 0 && (
+        <form onSubmit={handleReasonSubmit} className="flex gap-2">
+          <Input
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder={rating === 1 ? "What helped? (optional)" : "What was wrong? (optional)"}
+            className="h-7 text-xs"
+            maxLength={500}
+            autoFocus
+          />
+          <Button type="submit" size="sm" className="h-7" disabled={!reason.trim()}>
+            Send
+          </Button>
+          <Button type="button" size="sm" variant="ghost" className="h-7" onClick={() => setIsReasonOpen(false)}>
+            Skip
+          </Button>
+        </form>
+      )}
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,51 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Loader2 } from "lucide-react"
+import { getMessageRevisions } from "@/lib/actions/messages"
+
+interface MessageRevisionsProps {
+  messageId: string
+  currentUserId: string
+}
+
+/**
+ * Earlier versions of an edited message, newest first
+ */
+export function MessageRevisions({ messageId, currentUserId }: MessageRevisionsProps) {
+  const [revisions, setRevisions] = useState<Array<{ id: string; content: string; createdAt: Date }> | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const load = async () => {
+      const result = await getMessageRevisions(messageId, currentUserId)
+      if (result.success && result.data) {
+        setRevisions(result.data)
+      } else {
+        setError(result.error || "Failed to load edit history")
+      }
+    }
+    load().catch(() => setError("Failed to load edit history"))
+  }, [messageId, currentUserId])
+
+  if (error) {
+    return <p className="text-xs text-red-600">{error}</p>
+  }
+
+  if (!revisions) {
+    return <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" />
+  }
+
+  return (
+    <div className="space-y-2 border-l-2 pl-3">
+      {revisions.map(revision => (
+        <div key={revision.id} className="text-xs">
+          <p className="text-muted-foreground">
+            Before edit at {new Date(revision.createdAt).toLocaleString()}
+          </p>
+          <p className="whitespace-pre-wrap text-gray-600">{revision.content}</p>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,105 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { ChevronDown, ChevronUp, Pin, X } from "lucide-react"
+import { getPinnedMessages, unpinMessage } from "@/lib/actions/messages"
+
+interface PinnedMessage {
+  id: string
+  message: {
+    id: string
+    content: string
+    type: "USER" | "AGENT" | "SYSTEM"
+    parentId: string | null
+    sender: { id: string; name: string | null; email: string | null } | null
+    agent: { id: string; name: string; emoji: string } | null
+  }
+}
+
+interface PinnedMessagesProps {
+  roomId: string
+  currentUserId: string
+  onSelect: (messageId: string, parentId: string | null) => void
+}
+
+/**
+ * Collapsible strip of the room's pinned messages, shown above the timeline
+ */
+export function PinnedMessages({ roomId, currentUserId, onSelect }: PinnedMessagesProps) {
+  const [pins, setPins] = useState<PinnedMessage[]>([])
+  const [isOpen, setIsOpen] = useState(false)
+
+  const loadPins = useCallback(async () => {
+    try {
+      const result = await getPinnedMessages(roomId, currentUserId)
+      if (result.success && result.data) {
+        setPins(result.data)
+      }
+    } catch (error) {
+      console.error("Failed to load pinned messages:", error)
+    }
+  }, [roomId, currentUserId])
+
+  useEffect(() => {
+    loadPins()
+  }, [loadPins])
+
+  // Anyone in the room may pin or unpin, so reload on every change
+  useEffect(() => {
+    const handlePinUpdate = (event: Event) => {
+      if ((event as CustomEvent).detail?.roomId === roomId) loadPins()
+    }
+
+    window.addEventListener('socket:pin_update', handlePinUpdate)
+    return () => window.removeEventListener('socket:pin_update', handlePinUpdate)
+  }, [roomId, loadPins])
+
+  if (pins.length === 0) return null
+
+  return (
+    <div className="border-b bg-amber-50/60 px-4 py-2">
+      <button
+        type="button"
+        className="flex w-full items-center gap-2 text-sm font-medium"
+        onClick={() => setIsOpen(prev => !prev)}
+      >
+        <Pin className="h-4 w-4" />
+        {pins.length} pinned {pins.length === 1 ? "message" : "messages"}
+        {isOpen ? <ChevronUp className="ml-auto h-4 w-4" /> : <ChevronDown className="ml-auto h-4 w-4" />}
+      </button>
+
+      {isOpen && (
+        <ul className="mt-2 space-y-1">
+          {pins.map(({ id, message }) => {
+            const author = message.type === "AGENT"
+              ? `${message.agent?.emoji || "🤖"} ${message.agent?.name || "AI Agent"}`
+              : message.type === "SYSTEM"
+                ? "Moderator"
+                : message.sender?.name || message.sender?.email || "Unknown User"
+
+            return (
+              <li key={id} className="flex items-center gap-2 text-sm">
+                <button
+                  type="button"
+                  className="flex-1 truncate text-left hover:underline"
+                  onClick={() => onSelect(message.id, message.parentId)}
+                >
+                  <span className="font-medium">{author}:</span>{" "}
+                  {message.content.replace(/^\[AGENT:[^\]]*\]\n/, "")}
+                </button>
+                <button
+                  type="button"
+                  className="text-muted-foreground hover:text-foreground"
+                  onClick={() => unpinMessage(message.id, currentUserId).catch(error => console.error("Failed to unpin message:", error))}
+                  aria-label="Unpin message"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
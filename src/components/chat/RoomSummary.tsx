@@ -0,0 +1,83 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { ChevronDown, ChevronUp, ScrollText } from "lucide-react"
+import { getRoomSummary } from "@/lib/actions/messages"
+
+interface Summary {
+  id: string
+  content: string
+  lastMessageAt: Date
+  createdAt: Date
+}
+
+interface RoomSummaryProps {
+  roomId: string
+  currentUserId: string
+}
+
+/**
+ * Collapsible rolling summary of the room, shown above the timeline
+ * Only rooms with autoSummarize get summaries, so others render nothing
+ */
+export function RoomSummary({ roomId, currentUserId }: RoomSummaryProps) {
+  const [summary, setSummary] = useState<Summary | null>(null)
+  const [isOpen, setIsOpen] = useState(false)
+
+  const loadSummary = useCallback(async () => {
+    try {
+      const result = await getRoomSummary(roomId, currentUserId)
+      if (result.success) {
+        setSummary(result.data || null)
+      }
+    } catch (error) {
+      console.error("Failed to load room summary:", error)
+    }
+  }, [roomId, currentUserId])
+
+  useEffect(() => {
+    loadSummary()
+  }, [loadSummary])
+
+  useEffect(() => {
+    const handleRoomSummary = (event: Event) => {
+      const detail = (event as CustomEvent).detail
+      if (detail?.roomId !== roomId) return
+
+      setSummary({
+        id: detail.summaryId,
+        content: detail.content,
+        lastMessageAt: detail.lastMessageAt,
+        createdAt: detail.createdAt
+      })
+    }
+
+    window.addEventListener('socket:room_summary', handleRoomSummary)
+    return () => window.removeEventListener('socket:room_summary', handleRoomSummary)
+  }, [roomId])
+
+  if (!summary) return null
+
+  return (
+    <div className="border-b bg-muted/40 px-4 py-2">
+      <button
+        type="button"
+        className="flex w-full items-center gap-2 text-sm font-medium"
+        onClick={() => setIsOpen(prev => !prev)}
+      >
+        <ScrollText className="h-4 w-4" />
+        Conversation summary
+        <span className="text-xs font-normal text-muted-foreground">
+          up to {new Date(summary.lastMessageAt).toLocaleString()}
+        </span>
+        {isOpen ? <ChevronUp className="ml-auto h-4 w-4" /> : <ChevronDown className="ml-auto h-4 w-4" />}
+      </button>
+
+      {isOpen && (
+        <p className="mt-2 max-h-60 overflow-y-auto whitespace-pre-wrap text-sm text-muted-foreground">
+          {summary.content}
+        </p>
+      )}
+    </div>
+  )
+}
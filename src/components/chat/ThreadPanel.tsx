@@ -0,0 +1,203 @@
+"use client"
+
+import { useState, useEffect, useCallback, useRef } from "react"
+import { Loader2, Send, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Avatar, AvatarFallback } from "@/components/ui/avatar"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { getThread, createMessage } from "@/lib/actions/messages"
+
+interface ThreadMessage {
+  id: string
+  content: string
+  type: "USER" | "AGENT" | "SYSTEM"
+  timestamp: Date | string
+  parentId?: string | null
+  sender: { id: string; name: string | null; email: string | null } | null
+  agent?: { id: string; name: string; emoji: string; color: string } | null
+}
+
+interface ThreadPanelProps {
+  roomId: string
+  threadId: string
+  currentUserId: string
+  onClose: () => void
+}
+
+/**
+ * Side panel showing one thread: the root message and its replies
+ * Replying to an agent's message goes to that agent, with the thread as its context
+ */
+export function ThreadPanel({ roomId, threadId, currentUserId, onClose }: ThreadPanelProps) {
+  const [root, setRoot] = useState<ThreadMessage | null>(null)
+  const [replies, setReplies] = useState<ThreadMessage[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSending, setIsSending] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [reply, setReply] = useState("")
+  const endRef = useRef<HTMLDivElement>(null)
+
+  const loadThread = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      const result = await getThread(threadId, currentUserId)
+      if (result.success && result.data) {
+        setRoot(result.data.root)
+        setReplies(result.data.replies)
+      } else {
+        setError(result.error || "Failed to load thread")
+      }
+    } catch (error) {
+      console.error("Failed to load thread:", error)
+      setError("Failed to load thread")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [threadId, currentUserId])
+
+  useEffect(() => {
+    loadThread()
+  }, [loadThread])
+
+  // Live replies arrive through the same socket events as the main timeline
+  useEffect(() => {
+    const handleNewMessage = (event: Event) => {
+      const message = (event as CustomEvent).detail?.data
+      if (!message || message.parentId !== threadId) return
+
+      setReplies(prev => prev.some(existing => existing.id === message.id) ? prev : [...prev, message])
+    }
+
+    const handleMessageEdited = (event: Event) => {
+      const edited = (event as CustomEvent).detail?.data
+      if (!edited?.id) return
+
+      const update = (message: ThreadMessage) => message.id === edited.id ? { ...message, content: edited.content } : message
+      setRoot(prev => prev && update(prev))
+      setReplies(prev => prev.map(update))
+    }
+
+    window.addEventListener('socket:new_message', handleNewMessage)
+    window.addEventListener('socket:message_edited', handleMessageEdited)
+    return () => {
+      window.removeEventListener('socket:new_message', handleNewMessage)
+      window.removeEventListener('socket:message_edited', handleMessageEdited)
+    }
+  }, [threadId])
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ behavior: "smooth" })
+  }, [replies])
+
+  const handleSend = async () => {
+    const content = reply.trim()
+    if (!content || isSending) return
+
+    setIsSending(true)
+    setError(null)
+    try {
+      const result = await createMessage(currentUserId, { roomId, content, parentId: threadId })
+      if (result.success) {
+        setReply("")
+      } else {
+        setError(result.error || "Failed to send reply")
+      }
+    } catch (error) {
+      console.error("Failed to send reply:", error)
+      setError("Failed to send reply")
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  const rootAgent = root?.type === "AGENT" ? root.agent : null
+
+  return (
+    <div className="fixed inset-y-0 right-0 z-20 flex w-full max-w-md flex-col border-l bg-white shadow-lg">
+      <div className="flex items-center justify-between border-b px-4 py-3">
+        <div>
+          <h3 className="font-semibold">Thread</h3>
+          <p className="text-xs text-muted-foreground">
+            {replies.length} {replies.length === 1 ? "reply" : "replies"}
+          </p>
+        </div>
+        <Button variant="ghost" size="icon" onClick={onClose} aria-label="Close thread">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <ScrollArea className="flex-1 p-4">
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {root && <ThreadMessageItem message={root} />}
+            {root && <div className="border-t" />}
+            {replies.map(message => (
+              <ThreadMessageItem key={message.id} message={message} />
+            ))}
+            <div ref={endRef} />
+          </div>
+        )}
+      </ScrollArea>
+
+      <div className="border-t p-4 space-y-2">
+        {error && <p className="text-xs text-red-600">{error}</p>}
+        <div className="flex gap-2">
+          <Input
+            value={reply}
+            onChange={(e) => setReply(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && !e.shiftKey) {
+                e.preventDefault()
+                handleSend()
+              }
+            }}
+            placeholder={rootAgent ? `Reply to ${rootAgent.name}...` : "Reply in thread..."}
+            disabled={isSending || !root}
+          />
+          <Button onClick={handleSend} disabled={isSending || !reply.trim()} size="icon">
+            <Send className="h-4 w-4" />
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {rootAgent
+            ? `${rootAgent.name} answers replies here; @mention another agent to ask them instead`
+            : "@mention an agent to get an answer in this thread"}
+        </p>
+      </div>
+    </div>
+  )
+}
+
+function ThreadMessageItem({ message }: { message: ThreadMessage }) {
+  const content = message.content.replace(/^\[AGENT:[^\]]+\]\n/, '')
+  const name = message.type === "AGENT"
+    ? message.agent?.name || "AI Agent"
+    : message.type === "SYSTEM"
+      ? "Moderator"
+      : message.sender?.name || message.sender?.email || "Unknown User"
+
+  return (
+    <div className="flex gap-3">
+      <Avatar className="h-7 w-7 flex-shrink-0">
+        <AvatarFallback className={message.type !== "USER" ? "text-base" : "text-xs"}>
+          {message.type === "AGENT" ? (message.agent?.emoji || "🤖") : message.type === "SYSTEM" ? "⚖️" : name[0]}
+        </AvatarFallback>
+      </Avatar>
+      <div className="flex-1 space-y-1 min-w-0">
+        <div className="flex items-center gap-2">
+          <span className="text-sm font-medium">{name}</span>
+          <span className="text-xs text-muted-foreground">
+            {new Date(message.timestamp).toLocaleTimeString()}
+          </span>
+        </div>
+        <p className="text-sm whitespace-pre-wrap break-words">{content}</p>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,132 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { Copy, Flag } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { cloneAgent, reportAgent } from "@/lib/actions/marketplace"
+import { AGENT_REPORT_REASONS } from "@/lib/constants"
+
+interface AgentListingActionsProps {
+  agentId: string
+  agentName: string
+  currentUserId: string
+  isOwner: boolean
+  hasReported: boolean
+}
+
+/**
+ * Clone and report buttons on a marketplace listing
+ */
+export function AgentListingActions({ agentId, agentName, currentUserId, isOwner, hasReported }: AgentListingActionsProps) {
+  const router = useRouter()
+  const [isCloning, setIsCloning] = useState(false)
+  const [reportOpen, setReportOpen] = useState(false)
+  const [reason, setReason] = useState<(typeof AGENT_REPORT_REASONS)[number]>("spam")
+  const [details, setDetails] = useState("")
+  const [isReporting, setIsReporting] = useState(false)
+  const [reported, setReported] = useState(hasReported)
+
+  const handleClone = async () => {
+    setIsCloning(true)
+    try {
+      const result = await cloneAgent(agentId, currentUserId)
+      if (result.success && result.data) {
+        router.push(`/agents/${result.data.id}`)
+      } else {
+        alert(result.error)
+      }
+    } catch (error) {
+      alert("Failed to clone agent")
+    } finally {
+      setIsCloning(false)
+    }
+  }
+
+  const handleReport = async () => {
+    setIsReporting(true)
+    try {
+      const result = await reportAgent(agentId, currentUserId, { reason, details: details || undefined })
+      if (result.success) {
+        setReported(true)
+        setReportOpen(false)
+      } else {
+        alert(result.error)
+      }
+    } catch (error) {
+      alert("Failed to report agent")
+    } finally {
+      setIsReporting(false)
+    }
+  }
+
+  return (
+    <div className="flex gap-2">
+      <Button onClick={handleClone} disabled={isCloning}>
+        <Copy className="h-4 w-4 mr-2" />
+        {isCloning ? "Cloning..." : "Clone to my agents"}
+      </Button>
+
+      {!isOwner && (
+        <Dialog open={reportOpen} onOpenChange={setReportOpen}>
+          <DialogTrigger asChild>
+            <Button variant="outline" disabled={reported}>
+              <Flag className="h-4 w-4 mr-2" />
+              {reported ? "Reported" : "Report"}
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Report {agentName}</DialogTitle>
+              <DialogDescription>
+                Agents reported by several users are hidden from the marketplace until reviewed
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>Reason</Label>
+                <Select value={reason} onValueChange={(value) => setReason(value as typeof reason)}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {AGENT_REPORT_REASONS.map(option => (
+                      <SelectItem key={option} value={option} className="capitalize">{option}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="report-details">Details</Label>
+                <Textarea
+                  id="report-details"
+                  rows={4}
+                  value={details}
+                  onChange={(e) => setDetails(e.target.value)}
+                  placeholder="What is wrong with this agent?"
+                />
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button variant="destructive" onClick={handleReport} disabled={isReporting}>
+                {isReporting ? "Reporting..." : "Report agent"}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      )}
+    </div>
+  )
+}
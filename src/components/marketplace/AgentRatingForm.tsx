@@ -0,0 +1,78 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { Star } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { rateAgent } from "@/lib/actions/marketplace"
+import { cn } from "@/lib/utils"
+
+interface AgentRatingFormProps {
+  agentId: string
+  currentUserId: string
+  initialRating: { score: number; comment: string | null } | null
+}
+
+/**
+ * Star rating with an optional short review
+ */
+export function AgentRatingForm({ agentId, currentUserId, initialRating }: AgentRatingFormProps) {
+  const router = useRouter()
+  const [score, setScore] = useState(initialRating?.score || 0)
+  const [hovered, setHovered] = useState(0)
+  const [comment, setComment] = useState(initialRating?.comment || "")
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async () => {
+    setIsSaving(true)
+    setError(null)
+    try {
+      const result = await rateAgent(agentId, currentUserId, { score, comment: comment || undefined })
+      if (result.success) {
+        router.refresh()
+      } else {
+        setError(result.error || "Failed to save rating")
+      }
+    } catch (error) {
+      setError("Failed to save rating")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-1" onMouseLeave={() => setHovered(0)}>
+        {[1, 2, 3, 4, 5].map(value => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => setScore(value)}
+            onMouseEnter={() => setHovered(value)}
+            aria-label={`${value} ${value === 1 ? "star" : "stars"}`}
+          >
+            <Star
+              className={cn(
+                "h-6 w-6 text-muted-foreground",
+                value <= (hovered || score) && "fill-yellow-400 text-yellow-400"
+              )}
+            />
+          </button>
+        ))}
+      </div>
+      <Textarea
+        rows={3}
+        value={comment}
+        maxLength={500}
+        onChange={(e) => setComment(e.target.value)}
+        placeholder="What did you use it for? (optional)"
+      />
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      <Button onClick={handleSubmit} disabled={score === 0 || isSaving}>
+        {isSaving ? "Saving..." : initialRating ? "Update rating" : "Submit rating"}
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,81 @@
+import Link from "next/link"
+import { Copy, Star, TrendingUp } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Avatar, AvatarFallback } from "@/components/ui/avatar"
+
+export interface MarketplaceAgent {
+  id: string
+  name: string
+  emoji: string
+  color: string
+  title: string | null
+  philosophy: string | null
+  category: string | null
+  tags: string[]
+  usageCount: number
+  cloneCount: number
+  ratingAverage: number
+  ratingCount: number
+  creator: { name: string | null }
+}
+
+interface MarketplaceAgentCardProps {
+  agent: MarketplaceAgent
+}
+
+/**
+ * A public agent in the explore grid
+ */
+export function MarketplaceAgentCard({ agent }: MarketplaceAgentCardProps) {
+  return (
+    <Card className="flex flex-col hover:shadow-lg transition-shadow">
+      <CardHeader>
+        <Link href={`/agents/explore/${agent.id}`} className="flex items-center gap-3">
+          <Avatar className="h-12 w-12" style={{ backgroundColor: agent.color }}>
+            <AvatarFallback className="text-2xl">{agent.emoji}</AvatarFallback>
+          </Avatar>
+          <div className="min-w-0">
+            <CardTitle className="text-lg truncate">{agent.name}</CardTitle>
+            <CardDescription className="truncate">
+              {agent.title || `by ${agent.creator.name || "Anonymous"}`}
+            </CardDescription>
+          </div>
+        </Link>
+      </CardHeader>
+      <CardContent className="flex flex-1 flex-col gap-4">
+        {agent.philosophy && (
+          <p className="text-sm text-muted-foreground line-clamp-3">{agent.philosophy}</p>
+        )}
+
+        <div className="flex flex-wrap gap-1">
+          {agent.category && (
+            <Link href={`/agents/explore?category=${agent.category}`}>
+              <Badge className="capitalize">{agent.category}</Badge>
+            </Link>
+          )}
+          {agent.tags.slice(0, 4).map(tag => (
+            <Link key={tag} href={`/agents/explore?tag=${encodeURIComponent(tag)}`}>
+              <Badge variant="outline">#{tag}</Badge>
+            </Link>
+          ))}
+        </div>
+
+        <div className="mt-auto flex items-center gap-4 text-sm text-muted-foreground">
+          <span className="flex items-center gap-1">
+            <Star className="h-4 w-4" />
+            {agent.ratingCount > 0 ? `${agent.ratingAverage.toFixed(1)} (${agent.ratingCount})` : "No ratings"}
+          </span>
+          <span className="flex items-center gap-1">
+            <TrendingUp className="h-4 w-4" />
+            {agent.usageCount}
+          </span>
+          <span className="flex items-center gap-1">
+            <Copy className="h-4 w-4" />
+            {agent.cloneCount}
+          </span>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,96 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { Search, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { AGENT_CATEGORIES } from "@/lib/constants"
+
+// Radix Select items cannot have an empty value
+const ANY = "any"
+
+export interface MarketplaceQuery {
+  q: string
+  category: string
+  tag: string
+  sort: string
+}
+
+interface MarketplaceFiltersProps {
+  initialQuery: MarketplaceQuery
+}
+
+/**
+ * Search box, category and sort for the explore page; filters live in the URL
+ */
+export function MarketplaceFilters({ initialQuery }: MarketplaceFiltersProps) {
+  const router = useRouter()
+  const [query, setQuery] = useState<MarketplaceQuery>(initialQuery)
+
+  const navigate = (next: MarketplaceQuery) => {
+    const params = new URLSearchParams()
+    Object.entries(next).forEach(([key, value]) => {
+      if (value) params.set(key, value)
+    })
+    router.push(`/agents/explore?${params.toString()}`)
+  }
+
+  const update = (key: keyof MarketplaceQuery, value: string) => {
+    const next = { ...query, [key]: value === ANY ? "" : value }
+    setQuery(next)
+    // Dropdowns apply right away; the search box waits for submit
+    if (key !== "q") navigate(next)
+  }
+
+  return (
+    <form
+      onSubmit={(event) => {
+        event.preventDefault()
+        navigate(query)
+      }}
+      className="space-y-3"
+    >
+      <div className="flex flex-col gap-2 md:flex-row">
+        <Input
+          value={query.q}
+          onChange={(e) => setQuery({ ...query, q: e.target.value })}
+          placeholder="Search by name, expertise or tag..."
+          className="md:flex-1"
+        />
+        <Select value={query.category || ANY} onValueChange={(value) => update("category", value)}>
+          <SelectTrigger className="md:w-44"><SelectValue placeholder="Category" /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>All categories</SelectItem>
+            {AGENT_CATEGORIES.map(category => (
+              <SelectItem key={category} value={category} className="capitalize">{category}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={query.sort || "usage"} onValueChange={(value) => update("sort", value)}>
+          <SelectTrigger className="md:w-44"><SelectValue placeholder="Sort" /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="usage">Most used</SelectItem>
+            <SelectItem value="rating">Top rated</SelectItem>
+            <SelectItem value="recent">Newest</SelectItem>
+          </SelectContent>
+        </Select>
+        <Button type="submit">
+          <Search className="h-4 w-4 mr-2" />
+          Search
+        </Button>
+      </div>
+
+      {query.tag && (
+        <Badge variant="secondary" className="gap-1">
+          #{query.tag}
+          <button type="button" onClick={() => update("tag", "")} aria-label="Clear tag filter">
+            <X className="h-3 w-3" />
+          </button>
+        </Badge>
+      )}
+    </form>
+  )
+}
@@ -6,8 +6,11 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Avatar, AvatarFallback } from "@/components/ui/avatar"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
 import { addAgentToRoom, removeAgentFromRoom } from "@/lib/actions/rooms"
-import { getAgents } from "@/lib/actions/agents"
+import { createRoomAgent, getAgents, getPublicAgents } from "@/lib/actions/agents"
 import { useRouter } from "next/navigation"
 import {
   Dialog,
@@ -20,7 +23,9 @@ import {
 import {
   Select,
   SelectContent,
+  SelectGroup,
   SelectItem,
+  SelectLabel,
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select"
@@ -30,16 +35,21 @@ interface Room {
   name: string
   agents: Array<{
     id: string
+    addedBy: string
     agent: {
       id: string
       name: string
       emoji: string
       color: string
       style: string
+      roomId: string | null
     }
   }>
   settings: {
     maxAgents: number
+    allowAgentCreation: boolean
+    allowMemberAgents: boolean
+    allowPublicAgents: boolean
   } | null
 }
 
@@ -55,12 +65,26 @@ export function RoomAgents({ room, currentUserId, canManage }: RoomAgentsProps)
   const [selectedAgentId, setSelectedAgentId] = useState("")
   const [isRemoving, setIsRemoving] = useState<string | null>(null)
   const [userAgents, setUserAgents] = useState<any[]>([])
+  const [publicAgents, setPublicAgents] = useState<any[]>([])
+  const [isCreating, setIsCreating] = useState(false)
+  const [newAgent, setNewAgent] = useState({ name: "", emoji: "🤖", prompt: "" })
+
+  // Owners and admins can always add agents; members follow the room settings
+  const canAddOwnAgents = canManage || (room.settings?.allowMemberAgents ?? false)
+  const canAddPublicAgents = canManage || (room.settings?.allowPublicAgents ?? false)
+  const canCreateAgents = canManage || (room.settings?.allowAgentCreation ?? true)
 
   const loadUserAgents = async () => {
     try {
-      const result = await getAgents(currentUserId)
-      if (result.success && result.data) {
-        setUserAgents(result.data)
+      const [own, shared] = await Promise.all([
+        canAddOwnAgents ? getAgents(currentUserId) : Promise.resolve(null),
+        canAddPublicAgents ? getPublicAgents(50) : Promise.resolve(null)
+      ])
+      if (own?.success && own.data) {
+        setUserAgents(own.data)
+      }
+      if (shared?.success && shared.data) {
+        setPublicAgents(shared.data.filter(agent => agent.createdBy !== currentUserId))
       }
     } catch (error) {
       console.error("Failed to load agents:", error)
@@ -86,6 +110,23 @@ export function RoomAgents({ room, currentUserId, canManage }: RoomAgentsProps)
     }
   }
 
+  const handleCreateAgent = async () => {
+    setIsCreating(true)
+    try {
+      const result = await createRoomAgent(room.id, currentUserId, { ...newAgent, style: "TRUTH_TELLER" })
+      if (result.success) {
+        setNewAgent({ name: "", emoji: "🤖", prompt: "" })
+        router.refresh()
+      } else {
+        alert(result.error)
+      }
+    } catch (error) {
+      alert("Failed to create agent")
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
   const handleRemoveAgent = async (roomAgentId: string) => {
     if (!confirm("Are you sure you want to remove this agent from the room?")) {
       return
@@ -106,16 +147,17 @@ export function RoomAgents({ room, currentUserId, canManage }: RoomAgentsProps)
     }
   }
 
-  const availableAgents = userAgents.filter(
-    agent => !room.agents.some(roomAgent => roomAgent.agent.id === agent.id)
-  )
+  const notInRoom = (agent: { id: string }) => !room.agents.some(roomAgent => roomAgent.agent.id === agent.id)
+  const availableOwnAgents = userAgents.filter(notInRoom)
+  const availablePublicAgents = publicAgents.filter(notInRoom)
+  const availableAgents = [...availableOwnAgents, ...availablePublicAgents]
 
   const maxAgentsReached = room.settings && room.agents.length >= (room.settings.maxAgents || 5)
 
   return (
     <div className="space-y-6">
       {/* Add Agent */}
-      {canManage && (
+      {(canAddOwnAgents || canAddPublicAgents || canCreateAgents) && (
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
@@ -123,7 +165,7 @@ export function RoomAgents({ room, currentUserId, canManage }: RoomAgentsProps)
               Add Agent
             </CardTitle>
             <CardDescription>
-              Add your AI agents to assist in this room
+              Add your own or public AI agents, or create one just for this room
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -167,16 +209,24 @@ export function RoomAgents({ room, currentUserId, canManage }: RoomAgentsProps)
                             <SelectValue placeholder="Choose an agent..." />
                           </SelectTrigger>
                           <SelectContent>
-                            {availableAgents.map((agent) => (
-                              <SelectItem key={agent.id} value={agent.id}>
-                                <div className="flex items-center gap-2">
-                                  <span className="text-lg">{agent.emoji}</span>
-                                  <span>{agent.name}</span>
-                                  <Badge variant="outline" className="ml-2 text-xs">
-                                    {agent.style.toLowerCase()}
-                                  </Badge>
-                                </div>
-                              </SelectItem>
+                            {[
+                              { label: "Your agents", agents: availableOwnAgents },
+                              { label: "Public agents", agents: availablePublicAgents },
+                            ].filter(group => group.agents.length > 0).map(group => (
+                              <SelectGroup key={group.label}>
+                                <SelectLabel>{group.label}</SelectLabel>
+                                {group.agents.map((agent) => (
+                                  <SelectItem key={agent.id} value={agent.id}>
+                                    <div className="flex items-center gap-2">
+                                      <span className="text-lg">{agent.emoji}</span>
+                                      <span>{agent.name}</span>
+                                      <Badge variant="outline" className="ml-2 text-xs">
+                                        {agent.style.toLowerCase()}
+                                      </Badge>
+                                    </div>
+                                  </SelectItem>
+                                ))}
+                              </SelectGroup>
                             ))}
                           </SelectContent>
                         </Select>
@@ -215,6 +265,63 @@ export function RoomAgents({ room, currentUserId, canManage }: RoomAgentsProps)
                     </div>
                   </DialogContent>
                 </Dialog>
+
+                {canCreateAgents && (
+                  <Dialog>
+                    <DialogTrigger asChild>
+                      <Button variant="outline">
+                        <Bot className="h-4 w-4 mr-2" />
+                        Create Room Agent
+                      </Button>
+                    </DialogTrigger>
+                    <DialogContent>
+                      <DialogHeader>
+                        <DialogTitle>Create Room Agent</DialogTitle>
+                        <DialogDescription>
+                          This agent only exists in &quot;{room.name}&quot; until it is removed from the room
+                        </DialogDescription>
+                      </DialogHeader>
+                      <div className="space-y-4 mt-4">
+                        <div className="grid grid-cols-[1fr_80px] gap-3">
+                          <div className="space-y-2">
+                            <Label htmlFor="room-agent-name">Name</Label>
+                            <Input
+                              id="room-agent-name"
+                              value={newAgent.name}
+                              onChange={(e) => setNewAgent({ ...newAgent, name: e.target.value })}
+                            />
+                          </div>
+                          <div className="space-y-2">
+                            <Label htmlFor="room-agent-emoji">Emoji</Label>
+                            <Input
+                              id="room-agent-emoji"
+                              value={newAgent.emoji}
+                              maxLength={2}
+                              onChange={(e) => setNewAgent({ ...newAgent, emoji: e.target.value })}
+                            />
+                          </div>
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor="room-agent-prompt">Prompt</Label>
+                          <Textarea
+                            id="room-agent-prompt"
+                            rows={6}
+                            value={newAgent.prompt}
+                            placeholder="You are a meticulous reviewer who..."
+                            onChange={(e) => setNewAgent({ ...newAgent, prompt: e.target.value })}
+                          />
+                        </div>
+                        <Button
+                          onClick={handleCreateAgent}
+                          disabled={!newAgent.name.trim() || newAgent.prompt.trim().length < 10 || isCreating}
+                          className="w-full"
+                        >
+                          {isCreating ? "Creating..." : "Create Agent"}
+                        </Button>
+                      </div>
+                    </DialogContent>
+                  </Dialog>
+                )}
                 
                 <div className="text-sm text-muted-foreground flex items-center">
                   {room.agents.length} / {room.settings?.maxAgents || 5} agents
@@ -262,11 +369,14 @@ export function RoomAgents({ room, currentUserId, canManage }: RoomAgentsProps)
                       >
                         {roomAgent.agent.style.toLowerCase()}
                       </Badge>
+                      {roomAgent.agent.roomId === room.id && (
+                        <Badge variant="outline" className="text-xs">Room agent</Badge>
+                      )}
                     </div>
                   </div>
                 </div>
                 
-                {canManage && (
+                {(canManage || roomAgent.addedBy === currentUserId) && (
                   <Button
                     variant="ghost"
                     size="icon"
@@ -283,7 +393,7 @@ export function RoomAgents({ room, currentUserId, canManage }: RoomAgentsProps)
               <div className="text-center py-8 text-muted-foreground">
                 <Bot className="h-12 w-12 mx-auto mb-4 opacity-50" />
                 <p>No agents in this room</p>
-                {canManage && (
+                {(canAddOwnAgents || canAddPublicAgents || canCreateAgents) && (
                   <p className="text-sm mt-2">Add agents to start AI-assisted collaboration</p>
                 )}
               </div>
@@ -41,18 +41,22 @@ interface Room {
   }>
   agents: Array<{
     id: string
+    addedBy: string
     agent: {
       id: string
       name: string
       emoji: string
       color: string
       style: string
+      roomId: string | null
     }
   }>
   settings: {
     id: string
     maxAgents: number
     allowAgentCreation: boolean
+    allowMemberAgents: boolean
+    allowPublicAgents: boolean
     autoSummarize: boolean
   } | null
   _count: {
@@ -0,0 +1,162 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { useSession } from "next-auth/react"
+import { importConversation } from "@/lib/actions/import"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+
+type ImportSource = "discux" | "markdown" | "chatgpt"
+
+const SOURCES: Record<ImportSource, { label: string; accept: string; hint: string }> = {
+  discux: {
+    label: "Discux JSON export",
+    accept: ".json,application/json",
+    hint: "Messages, threads, discussions and agents are restored; missing agents are recreated",
+  },
+  markdown: {
+    label: "Markdown transcript",
+    accept: ".md,.markdown,.txt,text/markdown,text/plain",
+    hint: "Speakers marked as **Name:** or ## Name; names with an emoji become agents",
+  },
+  chatgpt: {
+    label: "ChatGPT export",
+    accept: ".json,application/json",
+    hint: "conversations.json from a ChatGPT data export; replies become a ChatGPT agent",
+  },
+}
+
+export function RoomImportForm() {
+  const router = useRouter()
+  const { data: session } = useSession()
+  const [source, setSource] = useState<ImportSource>("discux")
+  const [file, setFile] = useState<File | null>(null)
+  const [roomName, setRoomName] = useState("")
+  const [conversationNumber, setConversationNumber] = useState(1)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const onSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+
+    if (!session?.user?.id) {
+      setError("You must be logged in to import a conversation")
+      return
+    }
+    if (!file) {
+      setError("Choose a file to import")
+      return
+    }
+
+    setError(null)
+    setIsSubmitting(true)
+
+    try {
+      const result = await importConversation(session.user.id, {
+        source,
+        content: await file.text(),
+        roomName: roomName.trim() || undefined,
+        conversationIndex: source === "chatgpt" ? Math.max(0, conversationNumber - 1) : undefined,
+      })
+
+      if (result.success && result.data) {
+        router.push(`/rooms/${result.data.roomId}/chat`)
+        router.refresh()
+      } else {
+        setError(result.error || "Failed to import conversation")
+      }
+    } catch (err) {
+      setError("An unexpected error occurred")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Import</CardTitle>
+        <CardDescription>
+          The conversation becomes a new room; agents get its history as context
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={onSubmit} className="space-y-6">
+          <div className="space-y-2">
+            <Label>Source</Label>
+            <Select value={source} onValueChange={(value) => setSource(value as ImportSource)}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {(Object.keys(SOURCES) as ImportSource[]).map(key => (
+                  <SelectItem key={key} value={key}>{SOURCES[key].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">{SOURCES[source].hint}</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="file">File *</Label>
+            <Input
+              id="file"
+              type="file"
+              accept={SOURCES[source].accept}
+              onChange={(e) => setFile(e.target.files?.[0] || null)}
+            />
+          </div>
+
+          {source === "chatgpt" && (
+            <div className="space-y-2">
+              <Label htmlFor="conversation">Conversation number</Label>
+              <Input
+                id="conversation"
+                type="number"
+                min={1}
+                value={conversationNumber}
+                onChange={(e) => setConversationNumber(Number(e.target.value) || 1)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Exports list every conversation; 1 is the first in the file
+              </p>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="roomName">Room Name</Label>
+            <Input
+              id="roomName"
+              placeholder="Defaults to the name in the file"
+              value={roomName}
+              onChange={(e) => setRoomName(e.target.value)}
+              maxLength={200}
+            />
+          </div>
+
+          {error && (
+            <div className="p-3 rounded-md bg-destructive/10 text-destructive text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="flex gap-3">
+            <Button type="submit" disabled={isSubmitting || !file} className="flex-1">
+              {isSubmitting ? "Importing..." : "Import Conversation"}
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => router.push("/rooms")}
+              disabled={isSubmitting}
+            >
+              Cancel
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
@@ -22,6 +22,8 @@ interface Room {
     id: string
     maxAgents: number
     allowAgentCreation: boolean
+    allowMemberAgents: boolean
+    allowPublicAgents: boolean
     autoSummarize: boolean
   } | null
 }
@@ -52,6 +54,8 @@ export function RoomSettings({ room, currentUserId }: RoomSettingsProps) {
     defaultValues: {
       maxAgents: room.settings?.maxAgents || 5,
       allowAgentCreation: room.settings?.allowAgentCreation ?? true,
+      allowMemberAgents: room.settings?.allowMemberAgents ?? false,
+      allowPublicAgents: room.settings?.allowPublicAgents ?? false,
       autoSummarize: room.settings?.autoSummarize ?? false,
     },
   })
@@ -177,12 +181,44 @@ export function RoomSettings({ room, currentUserId }: RoomSettingsProps) {
               </p>
             </div>
 
-            {/* Allow Agent Creation */}
+            {/* Member agent policy; owners and admins are not restricted */}
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label htmlFor="allowMemberAgents">Members Add Their Agents</Label>
+                <p className="text-xs text-muted-foreground">
+                  Members can bring agents from their own library into this room
+                </p>
+              </div>
+              <Switch
+                id="allowMemberAgents"
+                checked={settingsForm.watch("allowMemberAgents")}
+                onCheckedChange={(checked: boolean) => 
+                  settingsForm.setValue("allowMemberAgents", checked)
+                }
+              />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label htmlFor="allowPublicAgents">Members Add Public Agents</Label>
+                <p className="text-xs text-muted-foreground">
+                  Members can add agents other users have shared publicly
+                </p>
+              </div>
+              <Switch
+                id="allowPublicAgents"
+                checked={settingsForm.watch("allowPublicAgents")}
+                onCheckedChange={(checked: boolean) => 
+                  settingsForm.setValue("allowPublicAgents", checked)
+                }
+              />
+            </div>
+
             <div className="flex items-center justify-between">
               <div className="space-y-0.5">
                 <Label htmlFor="allowAgentCreation">Allow Agent Creation</Label>
                 <p className="text-xs text-muted-foreground">
-                  Participants can add their own agents to this room
+                  Members can create agents that only exist in this room
                 </p>
               </div>
               <Switch
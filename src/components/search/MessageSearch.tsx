@@ -0,0 +1,194 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { Loader2, Search } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { searchMessages, type MessageSearchResult } from "@/lib/actions/search"
+
+// Radix Select items cannot have an empty value
+const ANY = "any"
+
+export interface SearchFilters {
+  q: string
+  roomId: string
+  agentId: string
+  authorId: string
+  type: string
+  from: string
+  to: string
+}
+
+interface MessageSearchProps {
+  userId: string
+  initialFilters: SearchFilters
+  rooms: Array<{ id: string; name: string }>
+  agents: Array<{ id: string; name: string; emoji: string }>
+  authors: Array<{ id: string; name: string }>
+}
+
+export function MessageSearch({ userId, initialFilters, rooms, agents, authors }: MessageSearchProps) {
+  const router = useRouter()
+  const [filters, setFilters] = useState<SearchFilters>(initialFilters)
+  const [results, setResults] = useState<MessageSearchResult[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isSearching, setIsSearching] = useState(false)
+
+  const setFilter = (key: keyof SearchFilters, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value === ANY ? "" : value }))
+  }
+
+  const runSearch = useCallback(async (search: SearchFilters) => {
+    if (search.q.trim().length < 2) return
+
+    setIsSearching(true)
+    setError(null)
+    try {
+      const result = await searchMessages(userId, {
+        q: search.q,
+        roomId: search.roomId || undefined,
+        agentId: search.agentId || undefined,
+        authorId: search.authorId || undefined,
+        type: (search.type || undefined) as "USER" | "AGENT" | "SYSTEM" | undefined,
+        from: search.from ? new Date(`${search.from}T00:00:00`) : undefined,
+        // Include the whole end day
+        to: search.to ? new Date(`${search.to}T23:59:59.999`) : undefined
+      })
+
+      if (result.success && result.data) {
+        setResults(result.data)
+      } else {
+        setError(result.error || "Search failed")
+      }
+    } catch (error) {
+      console.error("Search failed:", error)
+      setError("Search failed")
+    } finally {
+      setIsSearching(false)
+    }
+  }, [userId])
+
+  // The URL is the source of truth, so searches can be shared and revisited
+  useEffect(() => {
+    setFilters(initialFilters)
+    runSearch(initialFilters)
+  }, [initialFilters, runSearch])
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault()
+
+    const params = new URLSearchParams()
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value) params.set(key, value)
+    })
+    router.replace(`/search?${params.toString()}`)
+  }
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="flex gap-2">
+          <Input
+            value={filters.q}
+            onChange={(e) => setFilter("q", e.target.value)}
+            placeholder="Search messages in all your rooms..."
+            autoFocus
+          />
+          <Button type="submit" disabled={isSearching || filters.q.trim().length < 2}>
+            {isSearching ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+            <span className="ml-2">Search</span>
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-6 gap-2">
+          <Select value={filters.roomId || ANY} onValueChange={(value) => setFilter("roomId", value)}>
+            <SelectTrigger><SelectValue placeholder="Room" /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>All rooms</SelectItem>
+              {rooms.map(room => (
+                <SelectItem key={room.id} value={room.id}>{room.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select value={filters.type || ANY} onValueChange={(value) => setFilter("type", value)}>
+            <SelectTrigger><SelectValue placeholder="Type" /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>All types</SelectItem>
+              <SelectItem value="USER">User messages</SelectItem>
+              <SelectItem value="AGENT">Agent replies</SelectItem>
+              <SelectItem value="SYSTEM">System messages</SelectItem>
+            </SelectContent>
+          </Select>
+
+          <Select value={filters.agentId || ANY} onValueChange={(value) => setFilter("agentId", value)}>
+            <SelectTrigger><SelectValue placeholder="Agent" /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any agent</SelectItem>
+              {agents.map(agent => (
+                <SelectItem key={agent.id} value={agent.id}>{agent.emoji} {agent.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select value={filters.authorId || ANY} onValueChange={(value) => setFilter("authorId", value)}>
+            <SelectTrigger><SelectValue placeholder="Author" /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any author</SelectItem>
+              {authors.map(author => (
+                <SelectItem key={author.id} value={author.id}>{author.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Input type="date" value={filters.from} onChange={(e) => setFilter("from", e.target.value)} aria-label="From date" />
+          <Input type="date" value={filters.to} onChange={(e) => setFilter("to", e.target.value)} aria-label="To date" />
+        </div>
+      </form>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {results && results.length === 0 && !isSearching && (
+        <div className="text-center py-12 border-2 border-dashed rounded-lg">
+          <p className="text-muted-foreground">No messages found</p>
+        </div>
+      )}
+
+      {results && results.length > 0 && (
+        <div className="space-y-3">
+          {results.map(result => (
+            <Link key={result.id} href={result.link} className="block">
+              <Card className="hover:bg-gray-50 transition-colors">
+                <CardContent className="p-4 space-y-2">
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className="font-medium">
+                      {result.author?.isAgent && result.author.emoji ? `${result.author.emoji} ` : ""}
+                      {result.author?.name || "System"}
+                    </span>
+                    <span className="text-muted-foreground">in {result.roomName}</span>
+                    <span className="text-xs text-muted-foreground ml-auto">
+                      {new Date(result.timestamp).toLocaleString()}
+                    </span>
+                  </div>
+                  <p className="text-sm whitespace-pre-wrap">{result.snippet}</p>
+                  <div className="flex gap-1">
+                    {result.matchedBy.map(source => (
+                      <Badge key={source} variant="secondary" className="text-xs">
+                        {source === "keyword" ? "Keyword match" : "Similar meaning"}
+                      </Badge>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,96 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import type { UsageBreakdown, UsageBreakdownRow } from "@/lib/services/usage-ledger"
+
+const GROUPS: Array<{ key: keyof Pick<UsageBreakdown, "byRoom" | "byAgent" | "byPurpose" | "byModel">; label: string }> = [
+  { key: "byRoom", label: "Rooms" },
+  { key: "byAgent", label: "Agents" },
+  { key: "byPurpose", label: "Purpose" },
+  { key: "byModel", label: "Models" },
+]
+
+const formatCost = (cost: number) => `$${cost < 0.01 && cost > 0 ? cost.toFixed(4) : cost.toFixed(2)}`
+const formatTokens = (tokens: number) => tokens.toLocaleString("en-US")
+
+interface UsageCostBreakdownProps {
+  breakdown: UsageBreakdown
+}
+
+/**
+ * Tokens and estimated LLM cost this month, per room, agent, purpose and model
+ */
+export function UsageCostBreakdown({ breakdown }: UsageCostBreakdownProps) {
+  const { totals } = breakdown
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>AI cost</CardTitle>
+        <CardDescription>
+          Estimated from the configured model prices; providers may bill slightly differently
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+          <Stat label="Estimated cost" value={formatCost(totals.costUsd)} />
+          <Stat label="LLM calls" value={formatTokens(totals.calls)} />
+          <Stat label="Tokens" value={formatTokens(totals.totalTokens)} />
+          <Stat label="Avg. latency" value={`${(totals.avgLatencyMs / 1000).toFixed(1)}s`} />
+        </div>
+
+        {totals.calls === 0 ? (
+          <p className="text-sm text-muted-foreground">No AI calls this month yet</p>
+        ) : (
+          <Tabs defaultValue="byRoom">
+            <TabsList>
+              {GROUPS.map(group => (
+                <TabsTrigger key={group.key} value={group.key}>{group.label}</TabsTrigger>
+              ))}
+            </TabsList>
+            {GROUPS.map(group => (
+              <TabsContent key={group.key} value={group.key}>
+                <BreakdownTable rows={breakdown[group.key]} />
+              </TabsContent>
+            ))}
+          </Tabs>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div>
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p className="text-xl font-semibold">{value}</p>
+    </div>
+  )
+}
+
+function BreakdownTable({ rows }: { rows: UsageBreakdownRow[] }) {
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="border-b text-left text-muted-foreground">
+          <th className="py-2 font-medium">Name</th>
+          <th className="py-2 text-right font-medium">Calls</th>
+          <th className="py-2 text-right font-medium">Input</th>
+          <th className="py-2 text-right font-medium">Output</th>
+          <th className="py-2 text-right font-medium">Cost</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(row => (
+          <tr key={row.key} className="border-b last:border-0">
+            <td className="py-2">{row.label}</td>
+            <td className="py-2 text-right">{formatTokens(row.calls)}</td>
+            <td className="py-2 text-right">{formatTokens(row.promptTokens)}</td>
+            <td className="py-2 text-right">{formatTokens(row.completionTokens)}</td>
+            <td className="py-2 text-right">{formatCost(row.costUsd)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
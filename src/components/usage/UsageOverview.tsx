@@ -0,0 +1,63 @@
+import { Bot, MessageSquare, Sparkles, Users } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Progress } from "@/components/ui/progress"
+import { UNLIMITED } from "@/lib/constants"
+import type { QuotaResource, UsageSummary } from "@/lib/services/quota-service"
+
+const QUOTAS: Array<{ resource: QuotaResource; label: string; icon: typeof Bot; monthly: boolean }> = [
+  { resource: "messages", label: "Messages sent", icon: MessageSquare, monthly: true },
+  { resource: "llmCalls", label: "AI responses", icon: Sparkles, monthly: true },
+  { resource: "agents", label: "Agents", icon: Bot, monthly: false },
+  { resource: "rooms", label: "Rooms", icon: Users, monthly: false },
+]
+
+interface UsageOverviewProps {
+  usage: UsageSummary
+}
+
+/**
+ * Consumption against each plan quota
+ */
+export function UsageOverview({ usage }: UsageOverviewProps) {
+  const resetsOn = new Date(usage.resetsAt).toLocaleDateString("en-US", {
+    month: "long",
+    day: "numeric",
+    timeZone: "UTC",
+  })
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Plan</CardTitle>
+          <Badge variant="secondary" className="capitalize">{usage.plan.toLowerCase()}</Badge>
+        </div>
+        <CardDescription>Monthly counters reset on {resetsOn}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {QUOTAS.map(({ resource, label, icon: Icon, monthly }) => {
+          const { used, limit } = usage.quotas[resource]
+          const unlimited = limit === UNLIMITED
+          const percent = unlimited || limit === 0 ? 0 : Math.min(100, Math.round((used / limit) * 100))
+
+          return (
+            <div key={resource} className="space-y-2">
+              <div className="flex items-center justify-between text-sm">
+                <span className="flex items-center gap-2 font-medium">
+                  <Icon className="h-4 w-4" />
+                  {label}
+                  {monthly && <span className="text-xs font-normal text-muted-foreground">this month</span>}
+                </span>
+                <span className={percent >= 100 ? "text-destructive" : "text-muted-foreground"}>
+                  {used} / {unlimited ? "Unlimited" : limit}
+                </span>
+              </div>
+              {!unlimited && <Progress value={percent} />}
+            </div>
+          )
+        })}
+      </CardContent>
+    </Card>
+  )
+}
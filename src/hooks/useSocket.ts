@@ -9,7 +9,11 @@ import {
   TypingIndicator,
   PresenceStatus,
   DiscussionUpdate,
-  AgentProgressUpdate
+  AgentProgressUpdate,
+  AgentTokenUpdate,
+  AgentStreamEnd,
+  PinUpdate,
+  RoomSummaryUpdate
 } from "@/lib/services/socket-service"
 
 // Global socket instance to prevent multiple connections
@@ -116,6 +120,8 @@ export function useSocket(options: UseSocketOptions = {}) {
         reconnection,
         reconnectionAttempts,
         reconnectionDelay,
+        // The server authenticates from the session cookie; authData is only a dev fallback
+        withCredentials: true,
         auth: authData // Send user data during handshake
       })
 
@@ -151,6 +157,19 @@ export function useSocket(options: UseSocketOptions = {}) {
         window.dispatchEvent(new CustomEvent('socket:new_message', { detail: message }))
       })
 
+      socket.on('message_edited', (message: SocketMessage) => {
+        // Handle edits to existing messages
+        window.dispatchEvent(new CustomEvent('socket:message_edited', { detail: message }))
+      })
+
+      socket.on('pin_update', (update: PinUpdate) => {
+        window.dispatchEvent(new CustomEvent('socket:pin_update', { detail: update }))
+      })
+
+      socket.on('room_summary', (summary: RoomSummaryUpdate) => {
+        window.dispatchEvent(new CustomEvent('socket:room_summary', { detail: summary }))
+      })
+
       socket.on('typing_indicator', (typing: TypingIndicator) => {
         setTypingUsers(prev => {
           const roomTyping = prev[typing.roomId] || []
@@ -191,10 +210,15 @@ export function useSocket(options: UseSocketOptions = {}) {
       })
 
       socket.on('user_joined', (presence: PresenceStatus) => {
-        setOnlineUsers(prev => ({
-          ...prev,
-          [presence.roomId]: [...(prev[presence.roomId] || []), presence.userId]
-        }))
+        setOnlineUsers(prev => {
+          const roomUsers = prev[presence.roomId] || []
+          if (roomUsers.includes(presence.userId)) return prev
+
+          return {
+            ...prev,
+            [presence.roomId]: [...roomUsers, presence.userId]
+          }
+        })
       })
 
       socket.on('user_left', (presence: PresenceStatus) => {
@@ -215,6 +239,16 @@ export function useSocket(options: UseSocketOptions = {}) {
         }
       })
 
+      socket.on('room_error', (payload: { roomId: string; error: string }) => {
+        console.error(`[Socket] Could not join room ${payload.roomId}:`, payload.error)
+        setJoinedRooms(prev => {
+          const newRooms = new Set(prev)
+          newRooms.delete(payload.roomId)
+          return newRooms
+        })
+        window.dispatchEvent(new CustomEvent('socket:room_error', { detail: payload }))
+      })
+
       socket.on('discussion_update', (update: DiscussionUpdate) => {
         // Handle discussion updates
         window.dispatchEvent(new CustomEvent('socket:discussion_update', { detail: update }))
@@ -225,6 +259,16 @@ export function useSocket(options: UseSocketOptions = {}) {
         window.dispatchEvent(new CustomEvent('socket:agent_progress', { detail: progress }))
       })
 
+      socket.on('agent_token', (update: AgentTokenUpdate) => {
+        // Handle partial agent reply tokens
+        window.dispatchEvent(new CustomEvent('socket:agent_token', { detail: update }))
+      })
+
+      socket.on('agent_stream_end', (update: AgentStreamEnd) => {
+        // Handle end of a streamed agent reply
+        window.dispatchEvent(new CustomEvent('socket:agent_stream_end', { detail: update }))
+      })
+
       socketRef.current = socket
       globalSocket = socket
       globalSocketUserId = userId
@@ -3,6 +3,15 @@
 import { revalidatePath } from "next/cache"
 import { prisma } from "@/lib/db"
 import { createAgentSchema, updateAgentSchema, type CreateAgentInput, type UpdateAgentInput } from "@/lib/validations"
+import {
+  parseAgentDefinitionFiles,
+  serializeAgentDefinitions,
+  toAgentDefinition,
+  type AgentDefinitionFile,
+  type AgentDefinitionFormat,
+} from "@/lib/agent-definition"
+import { getQuotaService, QuotaExceededError, quotaExceededResult } from "@/lib/services/quota-service"
+import { getRoomAgentPolicy } from "@/lib/services/room-agent-policy"
 
 /**
  * Get all agents for the current user
@@ -12,6 +21,8 @@ export async function getAgents(userId: string) {
     const agents = await prisma.agent.findMany({
       where: {
         createdBy: userId,
+        // Agents created inside a room are managed from that room
+        roomId: null,
       },
       orderBy: {
         createdAt: "desc",
@@ -57,26 +68,12 @@ export async function createAgent(userId: string, data: CreateAgentInput) {
     const validatedData = createAgentSchema.parse(data)
 
     // Check subscription limits
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      select: { 
-        subscription: true, 
-        maxAgents: true,
-        _count: {
-          select: { agents: true }
-        }
-      },
-    })
+    await getQuotaService().assertQuota(userId, "agents")
 
-    if (!user) {
-      return { success: false, error: "User not found" }
-    }
-
-  
     // Create agent
     const agent = await prisma.agent.create({
       data: {
-        ...validatedData,
+        ...toAgentData(validatedData),
         style: "TRUTH_TELLER", // Force style to be TRUTH_TELLER
         createdBy: userId,
       },
@@ -85,6 +82,9 @@ export async function createAgent(userId: string, data: CreateAgentInput) {
     revalidatePath("/agents")
     return { success: true, data: agent }
   } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      return quotaExceededResult(error)
+    }
     console.error("Error creating agent:", error)
     if (error instanceof Error) {
       return { success: false, error: error.message }
@@ -93,6 +93,61 @@ export async function createAgent(userId: string, data: CreateAgentInput) {
   }
 }
 
+/**
+ * Create an agent that only exists in one room, and add it there
+ * Room agents stay out of the creator's library while they are in the room
+ */
+export async function createRoomAgent(roomId: string, userId: string, data: CreateAgentInput) {
+  try {
+    const policy = await getRoomAgentPolicy(roomId, userId)
+
+    if (!policy) {
+      return { success: false, error: "Room not found or insufficient permissions" }
+    }
+
+    if (!policy.canCreateAgents) {
+      return { success: false, error: "This room does not allow members to create agents" }
+    }
+
+    if (policy.agentCount >= policy.maxAgents) {
+      return { success: false, error: `Room has reached maximum agent limit (${policy.maxAgents})` }
+    }
+
+    const validatedData = createAgentSchema.parse(data)
+
+    await getQuotaService().assertQuota(userId, "agents")
+
+    const agent = await prisma.$transaction(async (tx) => {
+      const created = await tx.agent.create({
+        data: {
+          ...toAgentData(validatedData),
+          style: "TRUTH_TELLER", // Force style to be TRUTH_TELLER
+          createdBy: userId,
+          roomId,
+        },
+      })
+
+      await tx.roomAgent.create({
+        data: { roomId, agentId: created.id, addedBy: userId },
+      })
+
+      return created
+    })
+
+    revalidatePath(`/rooms/${roomId}`)
+    return { success: true, data: agent }
+  } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      return quotaExceededResult(error)
+    }
+    console.error("Error creating room agent:", error)
+    if (error instanceof Error) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: "Failed to create room agent" }
+  }
+}
+
 /**
  * Update an existing agent
  */
@@ -114,7 +169,7 @@ export async function updateAgent(id: string, userId: string, data: UpdateAgentI
     const agent = await prisma.agent.update({
       where: { id },
       data: {
-        ...validatedData,
+        ...toAgentData(validatedData),
         style: "TRUTH_TELLER", // Force style to be TRUTH_TELLER
       },
     })
@@ -220,3 +275,104 @@ export async function getPublicAgents(limit: number = 20) {
     return { success: false, error: "Failed to fetch public agents" }
   }
 }
+
+/**
+ * Export agents as a definition file
+ * Users can export their own agents and public ones; a single agent is written
+ * on its own, several as a bundle
+ */
+export async function exportAgents(userId: string, agentIds: string[], format: AgentDefinitionFormat = "json") {
+  try {
+    const agents = await prisma.agent.findMany({
+      where: {
+        id: { in: agentIds },
+        OR: [{ createdBy: userId }, { isPublic: true }],
+      },
+      orderBy: { createdAt: "asc" },
+    })
+
+    if (agents.length === 0) {
+      return { success: false, error: "No agents to export" }
+    }
+
+    const baseName = agents.length === 1
+      ? agents[0].name.replace(/[^a-z0-9]+/gi, "-").replace(/^-|-$/g, "").toLowerCase() || "agent"
+      : "agents"
+
+    return {
+      success: true,
+      data: {
+        filename: `${baseName}.${format === "yaml" ? "yaml" : "json"}`,
+        contentType: format === "yaml" ? "application/yaml" : "application/json",
+        body: serializeAgentDefinitions(agents.map(toAgentDefinition), format),
+      }
+    }
+  } catch (error) {
+    console.error("Error exporting agents:", error)
+    return { success: false, error: "Failed to export agents" }
+  }
+}
+
+/**
+ * Import agents from definition files (JSON, YAML or Markdown role files)
+ * Nothing is created unless every file is valid; errors name the file and field
+ */
+export async function importAgents(userId: string, files: AgentDefinitionFile[]) {
+  try {
+    if (files.length === 0) {
+      return { success: false, error: "Choose at least one file" }
+    }
+
+    const { definitions, errors } = parseAgentDefinitionFiles(files)
+    if (errors.length > 0) {
+      return { success: false, error: "Some agent definitions are invalid", errors }
+    }
+    if (definitions.length === 0) {
+      return { success: false, error: "No agents found in the files" }
+    }
+
+    await getQuotaService().assertQuota(userId, "agents", definitions.length)
+
+    const agents = await prisma.$transaction(
+      definitions.map(definition => prisma.agent.create({
+        data: {
+          ...toAgentData({
+            ...definition.generation,
+            persona: definition.persona?.name,
+            title: definition.persona?.title,
+            philosophy: definition.persona?.philosophy,
+            keyCharacteristics: definition.persona?.keyCharacteristics,
+          }),
+          name: definition.name,
+          prompt: definition.prompt,
+          emoji: definition.emoji || "🤖",
+          ...(definition.color ? { color: definition.color } : {}),
+          style: "TRUTH_TELLER",
+          createdBy: userId,
+        },
+      }))
+    )
+
+    revalidatePath("/agents")
+    return { success: true, data: agents }
+  } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      return quotaExceededResult(error)
+    }
+    console.error("Error importing agents:", error)
+    return { success: false, error: "Failed to import agents" }
+  }
+}
+
+/**
+ * Key characteristics are stored as a JSON string
+ */
+function toAgentData<T extends { keyCharacteristics?: string[] | null }>(data: T) {
+  const { keyCharacteristics, ...rest } = data
+  return {
+    ...rest,
+    ...(keyCharacteristics !== undefined
+      ? { keyCharacteristics: keyCharacteristics ? JSON.stringify(keyCharacteristics) : null }
+      : {})
+  }
+}
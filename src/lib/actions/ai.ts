@@ -1,12 +1,18 @@
 "use server"
 
-import { getZAIClient } from "@/lib/zai"
+import { getLLMProvider, getDefaultLLMProviderName, toGenerationSettings } from "@/lib/llm"
 import { prisma } from "@/lib/db"
 import { createAgentMessage } from "./messages"
+import { createSystemMessage } from "@/lib/services/system-messages"
+import { addMessageVariant } from "@/lib/services/message-updates"
 import { getConversationContext, getVectorStore, storeConversationMessage } from "../vector-store"
 import logger from "@/lib/logger"
 import { generateCorrelationId } from "@/lib/logger"
 import { debugLog } from "@/lib/utils/debug-logger"
+import { getRoomSummaryForPrompt } from "@/lib/services/room-summarizer"
+import { getQuotaService, QuotaExceededError, quotaExceededResult } from "@/lib/services/quota-service"
+import { getUsageBreakdown, linkUsageToMessage } from "@/lib/services/usage-ledger"
+import type { AgentStream } from "@/lib/services/agent-stream"
 
 // Truth Teller Enhancement - ensure Indonesian language compliance for all agents
 const TRUTH_TELLER_ENHANCEMENT = `
@@ -30,16 +36,47 @@ function cleanMessageContent(content: string): string {
   return cleaned
 }
 
+/**
+ * The thread chain (root message and replies, oldest first) as prompt lines
+ */
+async function getThreadContext(threadId: string, limit: number = 20): Promise<string> {
+  const include = {
+    sender: { select: { name: true } },
+    agent: { select: { name: true } }
+  }
+
+  const [root, replies] = await Promise.all([
+    prisma.message.findUnique({ where: { id: threadId }, include }),
+    prisma.message.findMany({
+      where: { parentId: threadId },
+      include,
+      orderBy: { timestamp: 'desc' },
+      take: limit
+    })
+  ])
+
+  if (!root) return ''
+
+  return [root, ...replies.reverse()]
+    .map(message => `${message.agent?.name || message.sender?.name || 'User'}: ${cleanMessageContent(message.content)}`)
+    .join('\n')
+}
+
 /**
  * Generate AI response for an agent in a room
+ * With a threadId the reply is posted in that thread, and the agent sees the
+ * thread chain in addition to the vector search hits. With replaceMessageId the
+ * reply becomes a new variant of that message instead of a new message
  */
 export async function generateAgentResponse(
   agentId: string,
   roomId: string,
   userMessage: string,
   userId: string,
-  userName?: string
+  userName?: string,
+  options: { threadId?: string; replaceMessageId?: string } = {}
 ) {
+  const { threadId, replaceMessageId } = options
   const correlationId = generateCorrelationId()
   const startTime = Date.now()
 
@@ -54,6 +91,9 @@ export async function generateAgentResponse(
     purpose: 'Agent response generation'
   })
 
+  // Declared here so a failure after streaming started still closes the draft
+  let stream: AgentStream | undefined
+
   try {
     // Get agent details
     const agent = await prisma.agent.findUnique({
@@ -65,7 +105,13 @@ export async function generateAgentResponse(
         style: true,
         color: true,
         emoji: true,
-        createdBy: true
+        createdBy: true,
+        llmProvider: true,
+        model: true,
+        temperature: true,
+        topP: true,
+        maxTokens: true,
+        systemPromptPrefix: true
       }
     })
 
@@ -83,6 +129,9 @@ export async function generateAgentResponse(
       }
     }
 
+    // The provider meters the call itself; fail fast before loading context
+    await getQuotaService().assertQuota(userId, "llmCalls")
+
     // Use provided userName or fallback to a default
     const currentUser = { name: userName || "User" }
 
@@ -93,7 +142,11 @@ export async function generateAgentResponse(
       roomId
     })
 
-    const relevantContext = await getConversationContext(roomId, userMessage, 5)
+    const [relevantContext, threadLines, roomSummary] = await Promise.all([
+      getConversationContext(roomId, userMessage, 5, userId),
+      threadId ? getThreadContext(threadId) : Promise.resolve(''),
+      getRoomSummaryForPrompt(roomId)
+    ])
 
     logger.aiContext(correlationId, {
       query: userMessage,
@@ -122,11 +175,19 @@ export async function generateAgentResponse(
       contextLines = relevantContext.map((ctx: any) =>
         `[${new Date(ctx.timestamp).toLocaleTimeString()}] ${ctx.author_name}: ${cleanMessageContent(ctx.content)}`
       ).join('\n')
+    }
 
+    // The rolling summary covers what the vector hits miss
+    const contextSections = [
+      roomSummary && `Summary of the conversation so far:\n${roomSummary}`,
+      threadLines && `Thread you are replying in (oldest first):\n${threadLines}`,
+      contextLines && `Recent conversation in this room:\n${contextLines}`
+    ].filter(Boolean)
+
+    if (contextSections.length > 0) {
       enhancedPrompt = `${basePrompt}
 
-Recent conversation in this room:
-${contextLines}
+${contextSections.join('\n\n')}
 
 Current message: ${currentUser?.name || "Anonymous"}: ${userMessage}
 
@@ -139,19 +200,30 @@ Please respond considering who is asking and the conversation flow.`
       contextSections: {
         basePrompt: basePrompt.length,
         contextLines: relevantContext.length > 0 ? contextLines.length : 0,
+        threadLines: threadLines.length,
+        roomSummary: roomSummary?.length || 0,
         userMessage: userMessage.length
       }
     })
     debugLog('AI', `Full prompt content: "${enhancedPrompt}"`)
 
-    // Generate response using Z.ai with enhanced prompt
-    const zaiClient = getZAIClient()
-    const response = await zaiClient.generateAgentResponse(
+    // Stream partial tokens to the room while the reply is generated
+    const { createAgentStream } = await import("@/lib/services/agent-stream")
+    stream = createAgentStream(roomId, agent)
+
+    // Generate response with the agent's provider (or the configured default)
+    const llm = getLLMProvider(agent.llmProvider)
+    const response = await llm.generateAgentResponse(
       enhancedPrompt,
       agent.style,
       userMessage,
       [], // No need for manual conversation history with vector context
-      userId
+      userId,
+      {
+        ...toGenerationSettings(agent),
+        onToken: stream.onToken,
+        usageContext: { purpose: "agent_reply", roomId, agentId }
+      }
     )
 
     logger.aiResponse(correlationId, {
@@ -165,18 +237,28 @@ Please respond considering who is asking and the conversation flow.`
       promptLength: enhancedPrompt.length
     })
 
-    // Create agent message in database
-    const message = await createAgentMessage(
-      roomId,
-      agentId,
-      response.content,
-      response.processingTime,
-      0.9, // Default confidence score
-      userMessage.length + response.content.length // Simple context length calculation
-    )
+    // Create agent message in database, or a new variant of the regenerated one
+    const message = replaceMessageId
+      ? await addMessageVariant(
+          replaceMessageId,
+          userId,
+          response.content,
+          response.processingTime,
+          0.9 // Default confidence score
+        )
+      : await createAgentMessage(
+          roomId,
+          agentId,
+          response.content,
+          response.processingTime,
+          0.9, // Default confidence score
+          userMessage.length + response.content.length, // Simple context length calculation
+          threadId
+        )
 
     if (!message.success) {
       const error = new Error("Failed to create agent message")
+      stream.end(undefined, error.message)
       logger.aiError(correlationId, 'Message creation failed', error, {
         agentId: agent.id,
         agentName: agent.name,
@@ -190,6 +272,9 @@ Please respond considering who is asking and the conversation flow.`
       }
     }
 
+    stream.end(message.data?.id)
+    await linkUsageToMessage(response.usageEntryId, message.data?.id)
+
     const totalProcessingTime = Date.now() - startTime
 
     logger.aiIntent(correlationId, {
@@ -226,6 +311,13 @@ Please respond considering who is asking and the conversation flow.`
     }
   } catch (error) {
     const processingTime = Date.now() - startTime
+    stream?.end(undefined, error instanceof Error ? error.message : "Failed to generate agent response")
+
+    if (error instanceof QuotaExceededError) {
+      // Tell the room why the agent stays silent
+      await createSystemMessage(roomId, `⚠️ ${error.message}`)
+      return quotaExceededResult(error)
+    }
 
     // Replace console.error with proper logging
     logger.aiError(correlationId, 'Agent response generation failed', error instanceof Error ? error : new Error(String(error)), {
@@ -243,6 +335,65 @@ Please respond considering who is asking and the conversation flow.`
   }
 }
 
+/**
+ * Ask an agent for another take on one of its replies
+ * The reply is regenerated from the user message it answered; earlier
+ * versions stay available as variants of the same message
+ */
+export async function regenerateAgentResponse(messageId: string, userId: string) {
+  try {
+    const message = await prisma.message.findFirst({
+      where: {
+        id: messageId,
+        type: "AGENT",
+        room: {
+          OR: [
+            { createdBy: userId },
+            { participants: { some: { userId } } }
+          ]
+        }
+      },
+      select: { id: true, roomId: true, agentId: true, parentId: true, timestamp: true }
+    })
+
+    if (!message?.agentId) {
+      return { success: false, error: "Agent message not found or unauthorized" }
+    }
+
+    // The latest user message before the reply, in the same thread (or the timeline)
+    const prompt = await prisma.message.findFirst({
+      where: {
+        roomId: message.roomId,
+        type: "USER",
+        timestamp: { lte: message.timestamp },
+        ...(message.parentId
+          ? { OR: [{ id: message.parentId }, { parentId: message.parentId }] }
+          : { parentId: null })
+      },
+      include: { sender: { select: { name: true } } },
+      orderBy: [{ timestamp: "desc" }, { id: "desc" }]
+    })
+
+    if (!prompt) {
+      return { success: false, error: "Could not find the message this reply answered" }
+    }
+
+    debugLog('AI', `Regenerating message ${message.id} from prompt ${prompt.id}`)
+
+    return generateAgentResponse(
+      message.agentId,
+      message.roomId,
+      cleanMessageContent(prompt.content),
+      userId,
+      prompt.sender?.name || undefined,
+      { threadId: message.parentId || undefined, replaceMessageId: message.id }
+    )
+  } catch (error) {
+    console.error("Error regenerating agent response:", error)
+    return { success: false, error: "Failed to regenerate agent response" }
+  }
+}
+
 /**
  * Batch generate responses for multiple agents mentioned in a message (SEQUENTIAL)
  * Processes agents one by one to create natural discussion flow
@@ -368,8 +519,8 @@ export async function generateBatchAgentResponses(
  */
 export async function testAIIntegration() {
   try {
-    const zaiClient = getZAIClient()
-    const testResult = await zaiClient.testConnection()
+    const llm = getLLMProvider()
+    const testResult = await llm.testConnection()
 
     return {
       success: testResult.success,
@@ -437,6 +588,38 @@ export async function getAIUsageStats(userId: string) {
       take: 10
     })
 
+    // Thumbs up/down on the replies of those agents
+    const ratings = await prisma.messageRating.findMany({
+      where: {
+        message: {
+          agentId: { in: agentUsage.map(agent => agent.id) }
+        }
+      },
+      select: {
+        rating: true,
+        message: { select: { agentId: true } }
+      }
+    })
+
+    // Tokens and estimated cost from the LLM usage ledger
+    const ledger = await getUsageBreakdown(userId)
+
+    const agentRatings = agentUsage.map(agent => {
+      const agentScores = ratings.filter(rating => rating.message.agentId === agent.id)
+      const thumbsUp = agentScores.filter(rating => rating.rating > 0).length
+      const thumbsDown = agentScores.length - thumbsUp
+      const agentLedger = ledger.byAgent.find(row => row.key === agent.id)
+      return {
+        ...agent,
+        thumbsUp,
+        thumbsDown,
+        // Share of ratings that were positive, null until someone rates
+        helpfulRate: agentScores.length > 0 ? (thumbsUp / agentScores.length) * 100 : null,
+        totalTokens: agentLedger?.totalTokens ?? 0,
+        estimatedCost: agentLedger?.costUsd ?? 0
+      }
+    })
+
     logger.aiResponse(correlationId, {
       status: 200,
       statusText: 'Usage statistics retrieved successfully',
@@ -444,7 +627,10 @@ export async function getAIUsageStats(userId: string) {
         totalMessages,
         totalAIResponses,
         agentCount: agentUsage.length,
-        aiResponseRate: totalMessages > 0 ? (totalAIResponses / totalMessages) * 100 : 0
+        aiResponseRate: totalMessages > 0 ? (totalAIResponses / totalMessages) * 100 : 0,
+        llmCalls: ledger.totals.calls,
+        totalTokens: ledger.totals.totalTokens,
+        estimatedCost: ledger.totals.costUsd
       }
     })
 
@@ -453,8 +639,12 @@ export async function getAIUsageStats(userId: string) {
       data: {
         totalMessages,
         totalAIResponses,
-        agentUsage,
-        aiResponseRate: totalMessages > 0 ? (totalAIResponses / totalMessages) * 100 : 0
+        agentUsage: agentRatings,
+        aiResponseRate: totalMessages > 0 ? (totalAIResponses / totalMessages) * 100 : 0,
+        llmUsage: ledger.totals,
+        roomUsage: ledger.byRoom,
+        purposeUsage: ledger.byPurpose,
+        modelUsage: ledger.byModel
       }
     }
   } catch (error) {
@@ -560,6 +750,7 @@ export async function getAIModelInfo() {
       success: true,
       data: {
         currentModel: process.env.ZAI_MODEL || "glm-4.5-flash",
+        currentProvider: getDefaultLLMProviderName(),
         availableModels: models
       }
     }
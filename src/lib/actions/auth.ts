@@ -43,6 +43,7 @@ export async function registerUser(data: z.infer<typeof registerSchema>) {
         maxAgents: 3,
         maxRooms: 1,
         maxMessagesPerMonth: 100,
+        maxLlmCallsPerMonth: 300,
       },
       select: {
         id: true,
@@ -0,0 +1,188 @@
+"use server"
+
+import { prisma } from "@/lib/db"
+import { exportConversationSchema, type ExportConversationInput } from "@/lib/validations"
+import { getUserRoleInRoom } from "./rooms"
+import {
+  renderConversationExport,
+  type ConversationExport,
+  type ExportedAgent
+} from "@/lib/services/conversation-export"
+import { debugLog } from "@/lib/utils/debug-logger"
+
+/**
+ * Export a room's conversation as Markdown, JSON or a standalone HTML page
+ * Any room member may export; filters narrow by date range and message type
+ */
+export async function exportRoomConversation(roomId: string, userId: string, input: ExportConversationInput = {}) {
+  return buildExport(roomId, userId, input)
+}
+
+/**
+ * Export one discussion: the message that started it and the agents' turns
+ */
+export async function exportDiscussion(discussionId: string, userId: string, input: ExportConversationInput = {}) {
+  try {
+    const discussion = await prisma.discussion.findUnique({
+      where: { id: discussionId },
+      select: { roomId: true }
+    })
+
+    if (!discussion) {
+      return { success: false, error: "Discussion not found" }
+    }
+
+    return buildExport(discussion.roomId, userId, input, discussionId)
+  } catch (error) {
+    console.error("Error exporting discussion:", error)
+    return { success: false, error: "Failed to export discussion" }
+  }
+}
+
+async function buildExport(roomId: string, userId: string, input: ExportConversationInput, discussionId?: string) {
+  try {
+    const parsed = exportConversationSchema.safeParse(input)
+    if (!parsed.success) {
+      return { success: false, error: parsed.error.errors[0]?.message || "Invalid export options" }
+    }
+    const { format, from, to, types } = parsed.data
+
+    const role = await getUserRoleInRoom(roomId, userId)
+    if (!role) {
+      return { success: false, error: "Room not found or unauthorized" }
+    }
+
+    const room = await prisma.room.findUnique({
+      where: { id: roomId },
+      select: { id: true, name: true, description: true }
+    })
+
+    if (!room) {
+      return { success: false, error: "Room not found" }
+    }
+
+    const discussions = await prisma.discussion.findMany({
+      where: { roomId, ...(discussionId ? { id: discussionId } : {}) },
+      include: { responses: { orderBy: { turnOrder: "asc" } } },
+      orderBy: { createdAt: "asc" }
+    })
+
+    // A discussion export covers its trigger message and its responses only
+    const discussionMessageIds = discussionId
+      ? discussions.flatMap(discussion => [discussion.messageId, ...discussion.responses.map(response => response.messageId)])
+      : null
+
+    const messages = await prisma.message.findMany({
+      where: {
+        roomId,
+        ...(discussionMessageIds ? { id: { in: discussionMessageIds } } : {}),
+        ...(types ? { type: { in: types } } : {}),
+        ...(from || to ? { timestamp: { ...(from ? { gte: from } : {}), ...(to ? { lte: to } : {}) } } : {})
+      },
+      include: {
+        sender: { select: { name: true } },
+        mentions: { select: { mentionedAgentId: true } }
+      },
+      orderBy: [{ timestamp: "asc" }, { id: "asc" }]
+    })
+
+    // Snapshot every agent that appears, including ones since removed from the room
+    const agentIds = new Set<string>()
+    messages.forEach(message => {
+      if (message.agentId) agentIds.add(message.agentId)
+      message.mentions.forEach(mention => agentIds.add(mention.mentionedAgentId))
+    })
+    discussions.forEach(discussion => discussion.responses.forEach(response => agentIds.add(response.agentId)))
+
+    const agents = await prisma.agent.findMany({
+      where: { id: { in: Array.from(agentIds) } },
+      select: {
+        id: true,
+        name: true,
+        emoji: true,
+        color: true,
+        style: true,
+        prompt: true,
+        llmProvider: true,
+        model: true,
+        temperature: true,
+        topP: true,
+        maxTokens: true,
+        systemPromptPrefix: true,
+        createdBy: true,
+        isPublic: true
+      },
+      orderBy: { name: "asc" }
+    })
+
+    // Another user's private agent is exported by appearance only, never its prompt or settings
+    const exportedAgents = agents.map(({ createdBy, isPublic, ...agent }): ExportedAgent =>
+      createdBy === userId || isPublic
+        ? agent
+        : { id: agent.id, name: agent.name, emoji: agent.emoji, color: agent.color, style: agent.style }
+    )
+
+    const data: ConversationExport = {
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      room,
+      discussionId: discussionId || null,
+      filters: {
+        from: from ? from.toISOString() : null,
+        to: to ? to.toISOString() : null,
+        types: types || null
+      },
+      agents: exportedAgents,
+      messages: messages.map(message => ({
+        id: message.id,
+        type: message.type,
+        content: message.content.replace(/^\[AGENT:[^\]]*\]\n/, ""),
+        timestamp: message.timestamp.toISOString(),
+        editedAt: message.editedAt ? message.editedAt.toISOString() : null,
+        parentId: message.parentId,
+        senderId: message.senderId,
+        senderName: message.sender?.name || null,
+        agentId: message.agentId,
+        processingTime: message.processingTime ? Number(message.processingTime) : null,
+        agentConfidence: message.agentConfidence ? Number(message.agentConfidence) : null,
+        contextLength: message.contextLength,
+        mentions: message.mentions.map(mention => mention.mentionedAgentId)
+      })),
+      discussions: discussions.map(discussion => ({
+        id: discussion.id,
+        messageId: discussion.messageId,
+        status: discussion.status,
+        topic: discussion.topic,
+        intensity: discussion.intensity,
+        turnOrder: parseTurnOrder(discussion.turnOrder),
+        currentTurn: discussion.currentTurn,
+        maxTurns: discussion.maxTurns,
+        createdAt: discussion.createdAt.toISOString(),
+        responses: discussion.responses.map(response => ({
+          agentId: response.agentId,
+          messageId: response.messageId,
+          turnOrder: response.turnOrder,
+          respondingTo: response.respondingTo,
+          responseTo: response.responseTo,
+          createdAt: response.createdAt.toISOString()
+        }))
+      }))
+    }
+
+    debugLog('EXPORT', `Exported ${data.messages.length} messages from room ${roomId} as ${format}`)
+
+    return { success: true, data: renderConversationExport(data, format) }
+  } catch (error) {
+    console.error("Error exporting conversation:", error)
+    return { success: false, error: "Failed to export conversation" }
+  }
+}
+
+function parseTurnOrder(turnOrder: string): string[] {
+  try {
+    const parsed = JSON.parse(turnOrder)
+    return Array.isArray(parsed) ? parsed.map(String) : []
+  } catch {
+    return []
+  }
+}
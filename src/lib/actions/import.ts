@@ -0,0 +1,282 @@
+"use server"
+
+import { revalidatePath } from "next/cache"
+import { prisma } from "@/lib/db"
+import { importConversationSchema, roomSettingsSchema, type ImportConversationInput } from "@/lib/validations"
+import { IMPORTED_AGENT_PROMPT, IMPORTER_ID, parseConversationImport } from "@/lib/services/conversation-import"
+import type { ExportedAgent } from "@/lib/services/conversation-export"
+import { getVectorStore } from "../vector-store"
+import { DISCUSSION_INTENSITIES } from "@/lib/constants"
+import { getQuotaService, QuotaExceededError, quotaExceededResult } from "@/lib/services/quota-service"
+import { debugLog } from "@/lib/utils/debug-logger"
+
+// Messages embedded per storeBatchMessages call
+const EMBED_BATCH_SIZE = 50
+
+const DISCUSSION_STATUSES = ["ACTIVE", "PAUSED", "CONCLUDED", "STOPPED"] as const
+
+/**
+ * Import a conversation into a new room owned by the user
+ * Sources: this app's JSON export, a Markdown transcript or a ChatGPT export.
+ * Agents are matched to ones the user can use, or recreated from their snapshot;
+ * every imported message gets a new ID and is embedded for agent context
+ */
+export async function importConversation(userId: string, input: ImportConversationInput) {
+  let roomId: string | null = null
+  let createdAgentIds: string[] = []
+  // Old message ID -> new message ID, for threads, discussions and rollback
+  const messageIds = new Map<string, string>()
+
+  try {
+    const validatedData = importConversationSchema.parse(input)
+    const data = parseConversationImport(validatedData.source, validatedData.content, validatedData.conversationIndex)
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { name: true, email: true }
+    })
+
+    if (!user) {
+      return { success: false, error: "User not found" }
+    }
+
+    await getQuotaService().assertQuota(userId, "rooms")
+
+    const { resolved: agentIds, createdIds } = await resolveAgents(userId, data.agents)
+    createdAgentIds = createdIds
+    const agentNames = new Map(data.agents.map(agent => [agent.id, agent.name]))
+    const resolvedAgents = await prisma.agent.findMany({
+      where: { id: { in: Array.from(new Set(agentIds.values())) } },
+      select: { id: true, name: true, emoji: true, color: true, style: true }
+    })
+    const agentsById = new Map(resolvedAgents.map(agent => [agent.id, agent]))
+    const ownAgentsByName = new Map(
+      (await prisma.agent.findMany({ where: { createdBy: userId }, select: { id: true, name: true } }))
+        .map(agent => [agent.name.toLowerCase(), agent.id])
+    )
+    const userName = (user.name || user.email || "").toLowerCase()
+
+    const room = await prisma.$transaction(async (tx) => {
+      const newRoom = await tx.room.create({
+        data: {
+          name: validatedData.roomName?.trim() || data.room.name,
+          description: data.room.description,
+          createdBy: userId,
+          settings: {
+            create: roomSettingsSchema.parse({})
+          }
+        }
+      })
+
+      await tx.roomParticipant.create({
+        data: { roomId: newRoom.id, userId, role: "OWNER" }
+      })
+
+      if (agentsById.size > 0) {
+        await tx.roomAgent.createMany({
+          data: Array.from(agentsById.keys()).map(agentId => ({ roomId: newRoom.id, agentId, addedBy: userId }))
+        })
+      }
+
+      return newRoom
+    })
+    roomId = room.id
+
+    const vectorMessages: Array<{
+      id: string
+      room_id: string
+      content: string
+      author_name: string
+      message_type: "user" | "agent" | "system"
+      timestamp: string
+    }> = []
+
+    for (const message of data.messages) {
+      // In transcripts, speakers named like one of the user's agents are that agent
+      const namedAgentId = validatedData.source !== "discux" && message.type === "USER" && message.senderName
+        ? ownAgentsByName.get(message.senderName.toLowerCase())
+        : undefined
+      const agentId = namedAgentId || (message.agentId ? agentIds.get(message.agentId) : undefined)
+      const agent = agentId ? agentsById.get(agentId) : undefined
+      const type = namedAgentId ? "AGENT" : message.type
+
+      const isOwnMessage = type === "USER" && (
+        message.senderId === userId ||
+        message.senderId === IMPORTER_ID ||
+        (!!message.senderName && message.senderName.toLowerCase() === userName)
+      )
+      // Other people's messages keep their author's name in the text
+      const content = type === "USER" && !isOwnMessage && message.senderName
+        ? `${message.senderName}: ${message.content}`
+        : message.content
+
+      const created = await prisma.message.create({
+        data: {
+          roomId: room.id,
+          type: type === "AGENT" && !agent ? "SYSTEM" : type,
+          content: type === "AGENT" && agent
+            ? `[AGENT:${agent.id}:${agent.name}:${agent.emoji}:${agent.color}:${agent.style}]\n${content}`
+            : content,
+          senderId: isOwnMessage ? userId : null,
+          agentId: type === "AGENT" && agent ? agent.id : null,
+          parentId: message.parentId ? messageIds.get(message.parentId) : null,
+          timestamp: new Date(message.timestamp),
+          editedAt: message.editedAt ? new Date(message.editedAt) : null,
+          processingTime: message.processingTime,
+          agentConfidence: message.agentConfidence,
+          contextLength: message.contextLength,
+          mentions: {
+            create: Array.from(new Set(message.mentions.map(id => agentIds.get(id)).filter((id): id is string => !!id)))
+              .map(mentionedAgentId => ({ mentionedAgentId }))
+          }
+        }
+      })
+      messageIds.set(message.id, created.id)
+
+      vectorMessages.push({
+        id: created.id,
+        room_id: room.id,
+        content,
+        author_name: agent?.name || (message.agentId ? agentNames.get(message.agentId) : undefined) || message.senderName || user.name || "User",
+        message_type: type === "AGENT" ? "agent" : type === "SYSTEM" ? "system" : "user",
+        timestamp: created.timestamp.toISOString()
+      })
+    }
+
+    for (const discussion of data.discussions) {
+      const triggerId = messageIds.get(discussion.messageId)
+      if (!triggerId) continue
+
+      const responses = discussion.responses
+        .map(response => ({
+          agentId: agentIds.get(response.agentId),
+          messageId: messageIds.get(response.messageId),
+          turnOrder: response.turnOrder,
+          respondingTo: response.respondingTo ? agentIds.get(response.respondingTo) ?? null : null,
+          responseTo: response.responseTo ? messageIds.get(response.responseTo) ?? null : null,
+          createdAt: new Date(response.createdAt)
+        }))
+        .filter((response): response is typeof response & { agentId: string; messageId: string } =>
+          !!response.agentId && !!response.messageId)
+
+      const status = DISCUSSION_STATUSES.find(value => value === discussion.status)
+      await prisma.discussion.create({
+        data: {
+          roomId: room.id,
+          messageId: triggerId,
+          // Imported discussions never resume
+          status: status === "ACTIVE" || status === "PAUSED" || !status ? "STOPPED" : status,
+          topic: discussion.topic,
+          intensity: DISCUSSION_INTENSITIES.find(value => value === discussion.intensity) || "NORMAL",
+          turnOrder: JSON.stringify(discussion.turnOrder.map(id => agentIds.get(id)).filter(Boolean)),
+          currentTurn: discussion.currentTurn,
+          maxTurns: discussion.maxTurns,
+          createdAt: new Date(discussion.createdAt),
+          responses: { create: responses }
+        }
+      })
+    }
+
+    // Point IDs come from the new message IDs through the IdMapper
+    const vectorStore = getVectorStore()
+    for (let start = 0; start < vectorMessages.length; start += EMBED_BATCH_SIZE) {
+      await vectorStore.storeBatchMessages(vectorMessages.slice(start, start + EMBED_BATCH_SIZE))
+    }
+
+    debugLog('IMPORT', `Imported ${messageIds.size} messages from ${validatedData.source} into room ${room.id}`)
+
+    revalidatePath("/rooms")
+    return {
+      success: true,
+      data: { roomId: room.id, messageCount: messageIds.size, agentCount: agentsById.size }
+    }
+  } catch (error) {
+    console.error("Error importing conversation:", error)
+
+    // Don't leave a half-imported room, its embeddings or its recreated agents behind
+    if (roomId) {
+      await getVectorStore().deleteRoomMessages(roomId).catch(vectorError => {
+        console.error("Error deleting vectors of failed import:", vectorError)
+      })
+      if (messageIds.size > 0) {
+        await prisma.vectorIdMapping.deleteMany({
+          where: { cuidId: { in: Array.from(messageIds.values()) } }
+        }).catch(() => undefined)
+      }
+      await prisma.room.delete({ where: { id: roomId } }).catch(() => undefined)
+    }
+    if (createdAgentIds.length > 0) {
+      await prisma.agent.deleteMany({ where: { id: { in: createdAgentIds } } }).catch(() => undefined)
+    }
+
+    if (error instanceof QuotaExceededError) {
+      return quotaExceededResult(error)
+    }
+
+    if (error instanceof Error) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: "Failed to import conversation" }
+  }
+}
+
+/**
+ * Map each agent snapshot to an agent the user can use: the same agent if it
+ * still exists and is theirs or public, else their agent with the same name,
+ * else a new agent recreated from the snapshot
+ * New agents count against the agents quota and are created all at once
+ */
+async function resolveAgents(
+  userId: string,
+  snapshots: ExportedAgent[]
+): Promise<{ resolved: Map<string, string>; createdIds: string[] }> {
+  const resolved = new Map<string, string>()
+  const missing: ExportedAgent[] = []
+
+  for (const snapshot of snapshots) {
+    const existing = await prisma.agent.findFirst({
+      where: { id: snapshot.id, OR: [{ createdBy: userId }, { isPublic: true }] },
+      select: { id: true }
+    }) || await prisma.agent.findFirst({
+      where: { createdBy: userId, name: snapshot.name },
+      select: { id: true }
+    })
+
+    if (existing) {
+      resolved.set(snapshot.id, existing.id)
+    } else {
+      missing.push(snapshot)
+    }
+  }
+
+  if (missing.length === 0) {
+    return { resolved, createdIds: [] }
+  }
+
+  await getQuotaService().assertQuota(userId, "agents", missing.length)
+
+  const created = await prisma.$transaction(missing.map(snapshot => prisma.agent.create({
+    data: {
+      name: snapshot.name,
+      prompt: snapshot.prompt || IMPORTED_AGENT_PROMPT,
+      emoji: Array.from(snapshot.emoji)[0] || "🤖",
+      color: snapshot.color,
+      style: "TRUTH_TELLER",
+      llmProvider: snapshot.llmProvider,
+      model: snapshot.model,
+      temperature: snapshot.temperature,
+      topP: snapshot.topP,
+      maxTokens: snapshot.maxTokens,
+      systemPromptPrefix: snapshot.systemPromptPrefix,
+      createdBy: userId
+    },
+    select: { id: true, name: true }
+  })))
+
+  created.forEach((agent, index) => {
+    resolved.set(missing[index].id, agent.id)
+    debugLog('IMPORT', `Recreated agent ${agent.name} from snapshot`)
+  })
+
+  return { resolved, createdIds: created.map(agent => agent.id) }
+}
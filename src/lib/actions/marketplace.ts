@@ -0,0 +1,504 @@
+"use server"
+
+import { revalidatePath } from "next/cache"
+import type { Prisma } from "@prisma/client"
+import { prisma } from "@/lib/db"
+import {
+  publishAgentSchema,
+  rateAgentSchema,
+  reportAgentSchema,
+  searchPublicAgentsSchema,
+  type PublishAgentInput,
+  type RateAgentInput,
+  type ReportAgentInput,
+  type SearchPublicAgentsInput,
+} from "@/lib/validations"
+import { AGENT_REPORT_REVIEW_THRESHOLD, MARKETPLACE_PAGE_SIZE } from "@/lib/constants"
+import { getQuotaService, QuotaExceededError, quotaExceededResult } from "@/lib/services/quota-service"
+import { debugLog } from "@/lib/utils/debug-logger"
+
+export interface AgentSample {
+  messageId: string
+  prompt: string
+  response: string
+}
+
+const listingSelect = {
+  id: true,
+  name: true,
+  emoji: true,
+  color: true,
+  title: true,
+  persona: true,
+  philosophy: true,
+  category: true,
+  tags: true,
+  usageCount: true,
+  cloneCount: true,
+  ratingAverage: true,
+  ratingCount: true,
+  publishedAt: true,
+  createdBy: true,
+  creator: { select: { name: true } },
+} satisfies Prisma.AgentSelect
+
+/**
+ * Browse public agents with search, category / tag filters and sorting
+ */
+export async function searchPublicAgents(data: SearchPublicAgentsInput = {}) {
+  try {
+    const filters = searchPublicAgentsSchema.parse(data)
+
+    const where: Prisma.AgentWhereInput = {
+      isPublic: true,
+      ...(filters.category ? { category: filters.category } : {}),
+      // Tags are a JSON array, so match the quoted value
+      ...(filters.tag ? { tags: { contains: JSON.stringify(filters.tag) } } : {}),
+      ...(filters.q
+        ? {
+            OR: [
+              { name: { contains: filters.q } },
+              { title: { contains: filters.q } },
+              { persona: { contains: filters.q } },
+              { philosophy: { contains: filters.q } },
+              { tags: { contains: filters.q.toLowerCase() } },
+            ],
+          }
+        : {}),
+    }
+
+    const orderBy: Prisma.AgentOrderByWithRelationInput[] =
+      filters.sort === "rating"
+        ? [{ ratingAverage: "desc" }, { ratingCount: "desc" }]
+        : filters.sort === "recent"
+          ? [{ publishedAt: "desc" }, { createdAt: "desc" }]
+          : [{ usageCount: "desc" }, { cloneCount: "desc" }]
+
+    const [agents, total] = await Promise.all([
+      prisma.agent.findMany({
+        where,
+        orderBy,
+        skip: (filters.page - 1) * MARKETPLACE_PAGE_SIZE,
+        take: MARKETPLACE_PAGE_SIZE,
+        select: listingSelect,
+      }),
+      prisma.agent.count({ where }),
+    ])
+
+    return {
+      success: true,
+      data: {
+        agents: agents.map(agent => ({ ...agent, tags: parseStringList(agent.tags) })),
+        total,
+        page: filters.page,
+        pageCount: Math.max(1, Math.ceil(total / MARKETPLACE_PAGE_SIZE)),
+      },
+    }
+  } catch (error) {
+    console.error("Error searching public agents:", error)
+    return { success: false, error: "Failed to search agents" }
+  }
+}
+
+/**
+ * A public agent's listing with samples, provenance and the viewer's own rating
+ * Creators can also preview their agents before publishing
+ */
+export async function getPublicAgent(id: string, userId: string) {
+  try {
+    const agent = await prisma.agent.findFirst({
+      where: { id, OR: [{ isPublic: true }, { createdBy: userId }] },
+      select: {
+        ...listingSelect,
+        prompt: true,
+        isPublic: true,
+        flaggedAt: true,
+        samples: true,
+        keyCharacteristics: true,
+        clonedFrom: { select: { id: true, name: true, isPublic: true } },
+        ratings: {
+          where: { comment: { not: null } },
+          orderBy: { updatedAt: "desc" },
+          take: 10,
+          select: { id: true, score: true, comment: true, updatedAt: true, user: { select: { name: true } } },
+        },
+      },
+    })
+
+    if (!agent) {
+      return { success: false, error: "Agent not found" }
+    }
+
+    const [myRating, myReport] = await Promise.all([
+      prisma.agentRating.findUnique({
+        where: { agentId_userId: { agentId: id, userId } },
+        select: { score: true, comment: true },
+      }),
+      prisma.agentReport.findUnique({
+        where: { agentId_reporterId: { agentId: id, reporterId: userId } },
+        select: { id: true },
+      }),
+    ])
+
+    return {
+      success: true,
+      data: {
+        ...agent,
+        tags: parseStringList(agent.tags),
+        keyCharacteristics: parseStringList(agent.keyCharacteristics),
+        samples: parseSamples(agent.samples),
+        isOwner: agent.createdBy === userId,
+        myRating,
+        hasReported: !!myReport,
+      },
+    }
+  } catch (error) {
+    console.error("Error fetching public agent:", error)
+    return { success: false, error: "Failed to fetch agent" }
+  }
+}
+
+/**
+ * Copy a public agent into the user's library
+ * The copy is private and remembers the agent it was cloned from
+ */
+export async function cloneAgent(agentId: string, userId: string) {
+  try {
+    const source = await prisma.agent.findFirst({
+      where: { id: agentId, isPublic: true },
+    })
+
+    if (!source) {
+      return { success: false, error: "Agent not found or not public" }
+    }
+
+    await getQuotaService().assertQuota(userId, "agents")
+
+    const clone = await prisma.$transaction(async (tx) => {
+      const created = await tx.agent.create({
+        data: {
+          name: source.name,
+          prompt: source.prompt,
+          emoji: source.emoji,
+          color: source.color,
+          style: source.style,
+          llmProvider: source.llmProvider,
+          model: source.model,
+          temperature: source.temperature,
+          topP: source.topP,
+          maxTokens: source.maxTokens,
+          systemPromptPrefix: source.systemPromptPrefix,
+          persona: source.persona,
+          title: source.title,
+          philosophy: source.philosophy,
+          keyCharacteristics: source.keyCharacteristics,
+          category: source.category,
+          tags: source.tags,
+          clonedFromId: source.id,
+          createdBy: userId,
+        },
+      })
+
+      await tx.agent.update({
+        where: { id: source.id },
+        data: { cloneCount: { increment: 1 } },
+      })
+
+      return created
+    })
+
+    debugLog('MARKETPLACE', `User ${userId} cloned agent ${source.id} as ${clone.id}`)
+
+    revalidatePath("/agents")
+    revalidatePath(`/agents/explore/${source.id}`)
+    return { success: true, data: clone }
+  } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      return quotaExceededResult(error)
+    }
+    console.error("Error cloning agent:", error)
+    return { success: false, error: "Failed to clone agent" }
+  }
+}
+
+/**
+ * Rate a public agent from 1 to 5 stars; rating again replaces the earlier score
+ * Creators cannot rate their own agents
+ */
+export async function rateAgent(agentId: string, userId: string, data: RateAgentInput) {
+  try {
+    const validatedData = rateAgentSchema.parse(data)
+
+    const agent = await prisma.agent.findFirst({
+      where: { id: agentId, isPublic: true },
+      select: { id: true, createdBy: true },
+    })
+
+    if (!agent) {
+      return { success: false, error: "Agent not found or not public" }
+    }
+
+    if (agent.createdBy === userId) {
+      return { success: false, error: "You cannot rate your own agent" }
+    }
+
+    const comment = validatedData.comment?.trim() || null
+    const summary = await prisma.$transaction(async (tx) => {
+      await tx.agentRating.upsert({
+        where: { agentId_userId: { agentId, userId } },
+        create: { agentId, userId, score: validatedData.score, comment },
+        update: { score: validatedData.score, comment },
+      })
+
+      // Keep the average on the agent so the marketplace can sort by it
+      const stats = await tx.agentRating.aggregate({
+        where: { agentId },
+        _avg: { score: true },
+        _count: { _all: true },
+      })
+
+      return tx.agent.update({
+        where: { id: agentId },
+        data: { ratingAverage: stats._avg.score ?? 0, ratingCount: stats._count._all },
+        select: { ratingAverage: true, ratingCount: true },
+      })
+    })
+
+    revalidatePath(`/agents/explore/${agentId}`)
+    return { success: true, data: summary }
+  } catch (error) {
+    console.error("Error rating agent:", error)
+    if (error instanceof Error) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: "Failed to rate agent" }
+  }
+}
+
+/**
+ * Report a public agent as abusive
+ * Once enough users have open reports against it, the agent is flagged for
+ * review; it stays published so a few reports cannot take down a listing
+ */
+export async function reportAgent(agentId: string, userId: string, data: ReportAgentInput) {
+  try {
+    const validatedData = reportAgentSchema.parse(data)
+
+    const agent = await prisma.agent.findFirst({
+      where: { id: agentId, isPublic: true },
+      select: { id: true, createdBy: true },
+    })
+
+    if (!agent) {
+      return { success: false, error: "Agent not found or not public" }
+    }
+
+    if (agent.createdBy === userId) {
+      return { success: false, error: "You cannot report your own agent" }
+    }
+
+    const existing = await prisma.agentReport.findUnique({
+      where: { agentId_reporterId: { agentId, reporterId: userId } },
+    })
+
+    if (existing) {
+      return { success: false, error: "You have already reported this agent" }
+    }
+
+    await prisma.agentReport.create({
+      data: {
+        agentId,
+        reporterId: userId,
+        reason: validatedData.reason,
+        details: validatedData.details?.trim() || null,
+      },
+    })
+
+    const openReports = await prisma.agentReport.count({
+      where: { agentId, status: "OPEN" },
+    })
+
+    if (openReports >= AGENT_REPORT_REVIEW_THRESHOLD) {
+      const flagged = await prisma.agent.updateMany({
+        where: { id: agentId, flaggedAt: null },
+        data: { flaggedAt: new Date() },
+      })
+      if (flagged.count > 0) {
+        debugLog('MARKETPLACE', `Agent ${agentId} flagged for review after ${openReports} open reports`)
+      }
+    }
+
+    revalidatePath("/agents/explore")
+    return { success: true, message: "Thanks, the agent has been reported" }
+  } catch (error) {
+    console.error("Error reporting agent:", error)
+    if (error instanceof Error) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: "Failed to report agent" }
+  }
+}
+
+/**
+ * List one of the user's agents on the marketplace
+ * Sample conversations are copied from replies the creator picked, so later
+ * edits or deletes in the room do not change the listing
+ */
+export async function publishAgent(agentId: string, userId: string, data: PublishAgentInput) {
+  try {
+    const validatedData = publishAgentSchema.parse(data)
+
+    const agent = await prisma.agent.findFirst({
+      where: { id: agentId, createdBy: userId },
+      select: { id: true, roomId: true, publishedAt: true },
+    })
+
+    if (!agent) {
+      return { success: false, error: "Agent not found or unauthorized" }
+    }
+
+    if (agent.roomId) {
+      return { success: false, error: "Room agents cannot be published" }
+    }
+
+    const candidates = await findSampleExchanges(agentId, userId)
+    const samples = validatedData.sampleMessageIds
+      .map(id => candidates.find(candidate => candidate.messageId === id))
+      .filter((sample): sample is AgentSample => !!sample)
+
+    const updated = await prisma.agent.update({
+      where: { id: agentId },
+      data: {
+        isPublic: true,
+        category: validatedData.category,
+        tags: JSON.stringify(Array.from(new Set(validatedData.tags))),
+        samples: samples.length > 0 ? JSON.stringify(samples) : null,
+        publishedAt: agent.publishedAt ?? new Date(),
+      },
+    })
+
+    revalidatePath("/agents")
+    revalidatePath("/agents/explore")
+    return { success: true, data: updated }
+  } catch (error) {
+    console.error("Error publishing agent:", error)
+    if (error instanceof Error) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: "Failed to publish agent" }
+  }
+}
+
+/**
+ * Take an agent off the marketplace; clones made from it are kept
+ */
+export async function unpublishAgent(agentId: string, userId: string) {
+  try {
+    const result = await prisma.agent.updateMany({
+      where: { id: agentId, createdBy: userId },
+      data: { isPublic: false },
+    })
+
+    if (result.count === 0) {
+      return { success: false, error: "Agent not found or unauthorized" }
+    }
+
+    revalidatePath("/agents")
+    revalidatePath("/agents/explore")
+    return { success: true, message: "Agent unpublished" }
+  } catch (error) {
+    console.error("Error unpublishing agent:", error)
+    return { success: false, error: "Failed to unpublish agent" }
+  }
+}
+
+/**
+ * Recent replies of the agent the creator can pick as marketplace samples
+ */
+export async function getAgentSampleCandidates(agentId: string, userId: string) {
+  try {
+    const agent = await prisma.agent.findFirst({
+      where: { id: agentId, createdBy: userId },
+      select: { id: true },
+    })
+
+    if (!agent) {
+      return { success: false, error: "Agent not found or unauthorized" }
+    }
+
+    return { success: true, data: await findSampleExchanges(agentId, userId) }
+  } catch (error) {
+    console.error("Error fetching sample candidates:", error)
+    return { success: false, error: "Failed to fetch sample conversations" }
+  }
+}
+
+/**
+ * The agent's last replies in the user's rooms, each with the user message it answered
+ * Only replies to the creator's own questions qualify; other members' words
+ * never end up on a public listing
+ */
+async function findSampleExchanges(agentId: string, userId: string): Promise<AgentSample[]> {
+  const replies = await prisma.message.findMany({
+    where: {
+      agentId,
+      type: "AGENT",
+      room: {
+        OR: [
+          { createdBy: userId },
+          { participants: { some: { userId } } },
+        ],
+      },
+    },
+    orderBy: { timestamp: "desc" },
+    take: 20,
+    select: { id: true, roomId: true, content: true, timestamp: true, parentId: true },
+  })
+
+  const exchanges = await Promise.all(replies.map(async (reply) => {
+    // In a thread the question is the root or an earlier reply; otherwise the
+    // last top-level user message before the agent answered
+    const question = await prisma.message.findFirst({
+      where: {
+        roomId: reply.roomId,
+        type: "USER",
+        timestamp: { lte: reply.timestamp },
+        ...(reply.parentId
+          ? { OR: [{ id: reply.parentId }, { parentId: reply.parentId }] }
+          : { parentId: null }),
+      },
+      orderBy: { timestamp: "desc" },
+      select: { content: true, senderId: true },
+    })
+
+    return question?.senderId === userId
+      ? {
+          messageId: reply.id,
+          prompt: question.content,
+          response: reply.content.replace(/^\[AGENT:[^\]]*\]\n/, ""),
+        }
+      : null
+  }))
+
+  return exchanges.filter((exchange): exchange is AgentSample => !!exchange)
+}
+
+function parseStringList(value: string | null): string[] {
+  if (!value) return []
+  try {
+    const parsed = JSON.parse(value)
+    return Array.isArray(parsed) ? parsed.filter((item): item is string => typeof item === "string") : []
+  } catch {
+    return []
+  }
+}
+
+function parseSamples(value: string | null): AgentSample[] {
+  if (!value) return []
+  try {
+    const parsed = JSON.parse(value)
+    return Array.isArray(parsed) ? parsed : []
+  } catch {
+    return []
+  }
+}
@@ -4,19 +4,38 @@ import { revalidatePath } from "next/cache"
 import { prisma } from "@/lib/db"
 import {
   createMessageSchema,
-  type CreateMessageInput
+  editMessageSchema,
+  messagePageSchema,
+  rateMessageSchema,
+  type CreateMessageInput,
+  type EditMessageInput,
+  type MessagePageInput,
+  type RateMessageInput
 } from "@/lib/validations"
 import { storeConversationMessage } from "../vector-store"
 import { incrementAgentUsage } from "./agents"
-import { generateAgentResponse } from "./ai"
+import { generateAgentResponse, regenerateAgentResponse } from "./ai"
 import { getVectorStore } from "../vector-store"
 import { debugLog } from "@/lib/utils/debug-logger"
+import { isSteerCommand, steerActiveDiscussion } from "@/lib/services/discussion-steering"
+import { parseChatCommand } from "@/lib/chat-commands"
+import { getQuotaService, QuotaExceededError, quotaExceededResult } from "@/lib/services/quota-service"
+import { createSystemMessage } from "@/lib/services/system-messages"
+import { publishMessageUpdate, updatedMessageInclude } from "@/lib/services/message-updates"
 
 /**
- * Get messages for a room
+ * Get a page of messages for a room, oldest first
+ * Without a cursor this is the latest page; `before` pages back through history
+ * and `after` fetches what arrived since. `hasMore` refers to the requested direction
  */
-export async function getMessages(roomId: string, userId: string, limit: number = 50) {
+export async function getMessages(roomId: string, userId: string, page: MessagePageInput = {}) {
   try {
+    const parsed = messagePageSchema.safeParse(page)
+    if (!parsed.success) {
+      return { success: false, error: parsed.error.errors[0]?.message || "Invalid page" }
+    }
+    const { before, after, limit } = parsed.data
+
     // Verify user has access to the room
     const room = await prisma.room.findFirst({
       where: {
@@ -36,11 +55,47 @@ export async function getMessages(roomId: string, userId: string, limit: number
       return { success: false, error: "Room not found or unauthorized" }
     }
 
+    // Messages sharing a timestamp are ordered by ID so no page boundary skips one
+    const cursorId = before || after
+    let cursorFilter = {}
+    if (cursorId) {
+      const cursor = await prisma.message.findFirst({
+        where: { id: cursorId, roomId },
+        select: { timestamp: true }
+      })
+      if (!cursor) {
+        return { success: false, error: "Cursor message not found" }
+      }
+
+      const op = before ? "lt" : "gt"
+      cursorFilter = {
+        OR: [
+          { timestamp: { [op]: cursor.timestamp } },
+          { timestamp: cursor.timestamp, id: { [op]: cursorId } }
+        ]
+      }
+    }
+
+    const direction = after ? "asc" : "desc"
+    // Thread replies live in the thread panel; the timeline shows their count
     const messages = await prisma.message.findMany({
       where: {
-        roomId
+        roomId,
+        parentId: null,
+        ...cursorFilter
       },
       include: {
+        _count: {
+          select: { replies: true, variants: true }
+        },
+        // Only the requesting user's own rating
+        ratings: {
+          where: { userId },
+          select: { rating: true, reason: true }
+        },
+        pin: {
+          select: { id: true }
+        },
         sender: {
           select: {
             id: true,
@@ -71,14 +126,19 @@ export async function getMessages(roomId: string, userId: string, limit: number
           }
         }
       },
-      orderBy: {
-        timestamp: "desc"
-      },
-      take: limit
+      orderBy: [
+        { timestamp: direction },
+        { id: direction }
+      ],
+      // One extra row tells whether another page exists
+      take: limit + 1
     })
 
-    // Reverse to get chronological order
-    const orderedMessages = messages.reverse()
+    const hasMore = messages.length > limit
+    const pageMessages = messages.slice(0, limit)
+
+    // Newest-first pages are reversed to get chronological order
+    const orderedMessages = after ? pageMessages : pageMessages.reverse()
 
     // Convert Decimal objects to numbers for Client Component compatibility
     const serializedMessages = orderedMessages.map(message => ({
@@ -88,13 +148,79 @@ export async function getMessages(roomId: string, userId: string, limit: number
       timestamp: message.timestamp
     }))
 
-    return { success: true, data: serializedMessages }
+    return { success: true, data: serializedMessages, hasMore }
   } catch (error) {
     console.error("Error fetching messages:", error)
     return { success: false, error: "Failed to fetch messages" }
   }
 }
 
+/**
+ * Get a thread: its root message followed by every reply, oldest first
+ */
+export async function getThread(messageId: string, userId: string) {
+  try {
+    const message = await prisma.message.findFirst({
+      where: {
+        id: messageId,
+        room: {
+          OR: [
+            { createdBy: userId },
+            { participants: { some: { userId } } }
+          ]
+        }
+      },
+      select: { id: true, parentId: true }
+    })
+
+    if (!message) {
+      return { success: false, error: "Message not found or unauthorized" }
+    }
+
+    const rootId = message.parentId || message.id
+    const include = {
+      sender: {
+        select: { id: true, name: true, email: true, image: true }
+      },
+      agent: {
+        select: { id: true, name: true, emoji: true, color: true, style: true }
+      },
+      mentions: {
+        include: {
+          agent: {
+            select: { id: true, name: true, emoji: true, color: true }
+          }
+        }
+      }
+    }
+
+    const [root, replies] = await Promise.all([
+      prisma.message.findUnique({ where: { id: rootId }, include }),
+      prisma.message.findMany({
+        where: { parentId: rootId },
+        include,
+        orderBy: [{ timestamp: "asc" }, { id: "asc" }]
+      })
+    ])
+
+    if (!root) {
+      return { success: false, error: "Thread not found" }
+    }
+
+    // Convert Decimal objects to numbers for Client Component compatibility
+    const serialize = (item: typeof root) => ({
+      ...item,
+      processingTime: item.processingTime ? Number(item.processingTime) : null,
+      agentConfidence: item.agentConfidence ? Number(item.agentConfidence) : null
+    })
+
+    return { success: true, data: { root: serialize(root), replies: replies.map(serialize) } }
+  } catch (error) {
+    console.error("Error fetching thread:", error)
+    return { success: false, error: "Failed to fetch thread" }
+  }
+}
+
 /**
  * Create a new message
  */
@@ -129,15 +255,54 @@ export async function createMessage(userId: string, data: CreateMessageInput) {
       return { success: false, error: "Room not found or unauthorized" }
     }
 
+    // Replies to a reply join the same thread, so threads stay one level deep
+    let threadRoot: { id: string; type: string; agentId: string | null } | null = null
+    if (validatedData.parentId) {
+      const parent = await prisma.message.findFirst({
+        where: { id: validatedData.parentId, roomId: validatedData.roomId },
+        select: {
+          id: true,
+          type: true,
+          agentId: true,
+          parent: { select: { id: true, type: true, agentId: true } }
+        }
+      })
+
+      if (!parent) {
+        return { success: false, error: "Parent message not found" }
+      }
+      threadRoot = parent.parent || parent
+    }
+
     // Extract agent mentions from message content
     debugLog('START', `User message: "${validatedData.content}"`)
     console.log('[Messages] Extracting agent mentions from content:', validatedData.content)
     console.log('[Messages] Available agents in room:', room.agents.map(ra => ({ id: ra.agent.id, name: ra.agent.name })))
 
-    const agentMentions = extractAgentMentions(validatedData.content, room.agents)
+    // "@moderator ..." steers the running discussion instead of summoning agents,
+    // and slash commands resolve their own @mentions
+    const isSteer = isSteerCommand(validatedData.content)
+    const command = parseChatCommand(validatedData.content)
+    // The composer sends explicit agent IDs; name matching is only a fallback for API clients
+    let agentMentions = isSteer || command
+      ? []
+      : validatedData.mentions
+        ? resolveMentionIds(validatedData.mentions, room.agents)
+        : extractAgentMentions(validatedData.content, room.agents)
+
+    // Replying in an agent's thread addresses that agent unless someone else is mentioned
+    if (threadRoot?.agentId && !isSteer && !command && agentMentions.length === 0 &&
+        room.agents.some(roomAgent => roomAgent.agent.id === threadRoot!.agentId)) {
+      agentMentions = [threadRoot.agentId]
+    }
     console.log('[Messages] Extracted agent mentions:', agentMentions)
     debugLog('DETECT', `Agents found: ${agentMentions.length} mentions`, agentMentions)
 
+    // Only chat messages count against the sender's monthly quota; steers and commands do not
+    if (!isSteer && !command) {
+      await getQuotaService().consume(userId, "messages")
+    }
+
     // Create message with mentions
     const message = await prisma.$transaction(async (tx) => {
       const newMessage = await tx.message.create({
@@ -146,6 +311,7 @@ export async function createMessage(userId: string, data: CreateMessageInput) {
           content: validatedData.content,
           type: "USER",
           senderId: userId,
+          parentId: threadRoot?.id,
         },
         include: {
           sender: {
@@ -214,54 +380,7 @@ export async function createMessage(userId: string, data: CreateMessageInput) {
     }
 
     // Trigger agent responses asynchronously (server-side)
-    if (agentMentions.length > 0) {
-      console.log('[Messages] Triggering agent responses for mentions:', agentMentions)
-
-      // Check if this should be a discussion (multiple agents or explicit discussion command)
-      const isDiscussionMode = agentMentions.length >= 2 ||
-        validatedData.content.toLowerCase().includes('discuss') ||
-        validatedData.content.toLowerCase().includes('debate') ||
-        validatedData.content.toLowerCase().includes('analyze')
-
-      if (isDiscussionMode && agentMentions.length >= 2) {
-        // Start a multi-agent discussion
-        
-        // Determine intensity based on content and agent types
-        const intensity = determineDiscussionIntensity(validatedData.content, agentMentions, room.agents)
-
-        try {
-          const { createDiscussion } = await import("@/lib/services/discussion-orchestrator")
-          const discussionResult = await createDiscussion(
-            validatedData.roomId,
-            message.id,
-            agentMentions,
-            extractTopic(validatedData.content),
-            intensity
-          )
-
-          if (discussionResult.success && discussionResult.data) {
-
-            // Execute discussion asynchronously
-            const { executeDiscussion } = await import("@/lib/services/discussion-orchestrator")
-            executeDiscussion(
-              discussionResult.data.id,
-              userId,
-              message.sender?.name || "User"
-            ).catch(error => {
-              console.error("[Messages] Failed to execute discussion:", error)
-            })
-          }
-        } catch (error) {
-          console.error("[Messages] Failed to create discussion:", error)
-          // Fallback to individual agent responses
-          triggerIndividualAgentResponses(agentMentions, validatedData, message, userId)
-        }
-      } else {
-        // Individual agent responses (existing behavior)
-        console.log('[Messages] Triggering individual agent responses')
-        triggerIndividualAgentResponses(agentMentions, validatedData, message, userId)
-      }
-    }
+    await triggerAgentReplies(agentMentions, validatedData, message, userId, room.agents)
 
     // Emit WebSocket event for real-time updates for user message
     try {
@@ -299,9 +418,46 @@ export async function createMessage(userId: string, data: CreateMessageInput) {
       // Don't fail the operation if WebSocket fails
     }
 
+    let commandReply: string | undefined
+    if (command) {
+      const { runChatCommand, reportCommandError } = await import("@/lib/services/chat-command-runner")
+
+      if (command.success) {
+        const commandResult = await runChatCommand(command.data, {
+          userId,
+          userName: message.sender?.name || "User",
+          roomId: validatedData.roomId,
+          roomAgents: room.agents,
+          messageId: message.id
+        })
+        commandReply = commandResult.success ? commandResult.reply : undefined
+      } else {
+        await reportCommandError(validatedData.roomId, command.error)
+      }
+    }
+
+    if (isSteer) {
+      const steerResult = await steerActiveDiscussion(
+        validatedData.roomId,
+        userId,
+        validatedData.content,
+        room.agents,
+        message.id
+      )
+
+      if (!steerResult.success) {
+        await createSystemMessage(validatedData.roomId, `⚠️ ${steerResult.error}`)
+      }
+    }
+
+    noteRoomMessage(validatedData.roomId)
+
     revalidatePath(`/rooms/${validatedData.roomId}/chat`)
-    return { success: true, data: serializedMessage }
+    return { success: true, data: serializedMessage, commandReply }
   } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      return quotaExceededResult(error)
+    }
     console.error("Error creating message:", error)
     if (error instanceof Error) {
       return { success: false, error: error.message }
@@ -319,7 +475,8 @@ export async function createAgentMessage(
   content: string,
   processingTime?: number,
   agentConfidence?: number,
-  contextLength?: number
+  contextLength?: number,
+  parentId?: string
 ) {
   try {
     debugLog('AGENT_CREATE', `Creating agent message for ${agentId}`)
@@ -352,6 +509,7 @@ export async function createAgentMessage(
         processingTime,
         agentConfidence,
         contextLength,
+        parentId,
       },
       include: {
         agent: {
@@ -439,6 +597,8 @@ export async function createAgentMessage(
       // Don't fail the operation if WebSocket fails
     }
 
+    noteRoomMessage(roomId)
+
     debugLog('FINAL', `Agent message stored to DB (ID: ${serializedMessage.id})`)
     debugLog('END', 'Agent message creation flow complete')
 
@@ -450,6 +610,346 @@ export async function createAgentMessage(
   }
 }
 
+/**
+ * Edit one of the user's own messages, keeping the previous content as a revision
+ * With `regenerate`, the replies it already got are regenerated from the new
+ * text as variants, and newly mentioned agents are asked for the first time
+ */
+export async function editMessage(userId: string, data: EditMessageInput) {
+  try {
+    const validatedData = editMessageSchema.parse(data)
+
+    const existing = await prisma.message.findFirst({
+      where: { id: validatedData.messageId, senderId: userId, type: "USER" },
+      include: {
+        room: {
+          include: {
+            agents: { include: { agent: true } }
+          }
+        },
+        parent: { select: { agentId: true } }
+      }
+    })
+
+    if (!existing) {
+      return { success: false, error: "Message not found or unauthorized" }
+    }
+
+    if (existing.content === validatedData.content) {
+      return { success: false, error: "Nothing changed" }
+    }
+
+    const roomAgents = existing.room.agents
+    // Commands and steers already ran; editing them only changes the text
+    const isControl = [existing.content, validatedData.content]
+      .some(content => isSteerCommand(content) || parseChatCommand(content) !== null)
+
+    let agentMentions = isControl
+      ? []
+      : validatedData.mentions
+        ? resolveMentionIds(validatedData.mentions, roomAgents)
+        : extractAgentMentions(validatedData.content, roomAgents)
+
+    if (existing.parent?.agentId && !isControl && agentMentions.length === 0 &&
+        roomAgents.some(roomAgent => roomAgent.agent.id === existing.parent!.agentId)) {
+      agentMentions = [existing.parent.agentId]
+    }
+
+    const message = await prisma.$transaction(async (tx) => {
+      await tx.messageRevision.create({
+        data: {
+          messageId: existing.id,
+          content: existing.content,
+          editedBy: userId
+        }
+      })
+
+      await tx.messageMention.deleteMany({ where: { messageId: existing.id } })
+      if (agentMentions.length > 0) {
+        await tx.messageMention.createMany({
+          data: agentMentions.map(agentId => ({
+            messageId: existing.id,
+            mentionedAgentId: agentId
+          }))
+        })
+      }
+
+      return tx.message.update({
+        where: { id: existing.id },
+        data: {
+          content: validatedData.content,
+          editedAt: new Date()
+        },
+        include: updatedMessageInclude
+      })
+    })
+
+    const serializedMessage = await publishMessageUpdate(
+      message,
+      userId,
+      message.sender?.name || "Anonymous",
+      "user"
+    )
+
+    if (validatedData.regenerate && !isControl) {
+      const replies = await findAgentReplies(existing)
+      const repliedAgentIds = new Set(replies.map(reply => reply.agentId))
+
+      regenerateReplies(replies.map(reply => reply.id), userId)
+      await triggerAgentReplies(
+        agentMentions.filter(agentId => !repliedAgentIds.has(agentId)),
+        { roomId: existing.roomId, content: validatedData.content },
+        message,
+        userId,
+        roomAgents
+      )
+    }
+
+    revalidatePath(`/rooms/${existing.roomId}/chat`)
+    return { success: true, data: serializedMessage }
+  } catch (error) {
+    console.error("Error editing message:", error)
+    if (error instanceof Error) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: "Failed to edit message" }
+  }
+}
+
+/**
+ * Earlier versions of a message, newest first
+ */
+export async function getMessageRevisions(messageId: string, userId: string) {
+  try {
+    const message = await prisma.message.findFirst({
+      where: {
+        id: messageId,
+        room: {
+          OR: [
+            { createdBy: userId },
+            { participants: { some: { userId } } }
+          ]
+        }
+      },
+      select: { id: true }
+    })
+
+    if (!message) {
+      return { success: false, error: "Message not found or unauthorized" }
+    }
+
+    const revisions = await prisma.messageRevision.findMany({
+      where: { messageId },
+      orderBy: { createdAt: "desc" }
+    })
+
+    return { success: true, data: revisions }
+  } catch (error) {
+    console.error("Error fetching message revisions:", error)
+    return { success: false, error: "Failed to fetch message revisions" }
+  }
+}
+
+/**
+ * All generated variants of an agent reply, oldest first
+ */
+export async function getMessageVariants(messageId: string, userId: string) {
+  try {
+    const message = await findAccessibleMessage(messageId, userId)
+
+    if (!message) {
+      return { success: false, error: "Message not found or unauthorized" }
+    }
+
+    const variants = await prisma.messageVariant.findMany({
+      where: { messageId },
+      orderBy: { createdAt: "asc" }
+    })
+
+    return {
+      success: true,
+      data: {
+        activeVariantId: message.activeVariantId,
+        variants: variants.map(variant => ({
+          ...variant,
+          processingTime: variant.processingTime ? Number(variant.processingTime) : null,
+          agentConfidence: variant.agentConfidence ? Number(variant.agentConfidence) : null
+        }))
+      }
+    }
+  } catch (error) {
+    console.error("Error fetching message variants:", error)
+    return { success: false, error: "Failed to fetch message variants" }
+  }
+}
+
+/**
+ * Show an earlier variant of an agent reply to everyone in the room
+ */
+export async function selectMessageVariant(messageId: string, variantId: string, userId: string) {
+  try {
+    const message = await findAccessibleMessage(messageId, userId)
+    const variant = message && await prisma.messageVariant.findFirst({
+      where: { id: variantId, messageId }
+    })
+
+    if (!message || !variant) {
+      return { success: false, error: "Variant not found or unauthorized" }
+    }
+
+    const updated = await prisma.message.update({
+      where: { id: messageId },
+      data: {
+        content: variant.content,
+        processingTime: variant.processingTime,
+        agentConfidence: variant.agentConfidence,
+        activeVariantId: variant.id
+      },
+      include: updatedMessageInclude
+    })
+
+    const serializedMessage = await publishMessageUpdate(updated, userId, updated.agent?.name || "AI Agent", "agent")
+
+    return { success: true, data: serializedMessage }
+  } catch (error) {
+    console.error("Error selecting message variant:", error)
+    return { success: false, error: "Failed to select message variant" }
+  }
+}
+
+/**
+ * Rate an agent reply thumbs up (1) or down (-1), optionally with a reason
+ * Each user has one rating per message; rating 0 removes it
+ */
+export async function rateMessage(userId: string, data: RateMessageInput) {
+  try {
+    const validatedData = rateMessageSchema.parse(data)
+
+    const message = await findAccessibleMessage(validatedData.messageId, userId)
+    if (!message) {
+      return { success: false, error: "Message not found or unauthorized" }
+    }
+
+    if (message.type !== "AGENT") {
+      return { success: false, error: "Only agent replies can be rated" }
+    }
+
+    if (validatedData.rating === 0) {
+      await prisma.messageRating.deleteMany({
+        where: { messageId: message.id, userId }
+      })
+      return { success: true, data: null }
+    }
+
+    const reason = validatedData.reason?.trim() || null
+    const rating = await prisma.messageRating.upsert({
+      where: { messageId_userId: { messageId: message.id, userId } },
+      create: { messageId: message.id, userId, rating: validatedData.rating, reason },
+      update: { rating: validatedData.rating, reason }
+    })
+
+    debugLog('RATING', `User ${userId} rated message ${message.id}: ${rating.rating}`)
+    return { success: true, data: { rating: rating.rating, reason: rating.reason } }
+  } catch (error) {
+    console.error("Error rating message:", error)
+    if (error instanceof Error) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: "Failed to rate message" }
+  }
+}
+
+/**
+ * Pin a message to the top of its room
+ */
+export async function pinMessage(messageId: string, userId: string) {
+  return setMessagePinned(messageId, userId, true)
+}
+
+/**
+ * Remove a message from the room's pins
+ */
+export async function unpinMessage(messageId: string, userId: string) {
+  return setMessagePinned(messageId, userId, false)
+}
+
+/**
+ * Pinned messages of a room, most recently pinned first
+ */
+export async function getPinnedMessages(roomId: string, userId: string) {
+  try {
+    const room = await prisma.room.findFirst({
+      where: {
+        id: roomId,
+        OR: [
+          { createdBy: userId },
+          { participants: { some: { userId } } }
+        ]
+      },
+      select: { id: true }
+    })
+
+    if (!room) {
+      return { success: false, error: "Room not found or unauthorized" }
+    }
+
+    const pins = await prisma.pinnedMessage.findMany({
+      where: { roomId },
+      include: {
+        message: {
+          select: {
+            id: true,
+            content: true,
+            type: true,
+            timestamp: true,
+            parentId: true,
+            sender: { select: { id: true, name: true, email: true } },
+            agent: { select: { id: true, name: true, emoji: true, color: true } }
+          }
+        }
+      },
+      orderBy: { createdAt: "desc" }
+    })
+
+    return { success: true, data: pins }
+  } catch (error) {
+    console.error("Error fetching pinned messages:", error)
+    return { success: false, error: "Failed to fetch pinned messages" }
+  }
+}
+
+/**
+ * The room's latest rolling summary (null until one has been written)
+ */
+export async function getRoomSummary(roomId: string, userId: string) {
+  try {
+    const room = await prisma.room.findFirst({
+      where: {
+        id: roomId,
+        OR: [
+          { createdBy: userId },
+          { participants: { some: { userId } } }
+        ]
+      },
+      select: { id: true }
+    })
+
+    if (!room) {
+      return { success: false, error: "Room not found or unauthorized" }
+    }
+
+    const summary = await prisma.roomSummary.findFirst({
+      where: { roomId },
+      orderBy: { createdAt: "desc" }
+    })
+
+    return { success: true, data: summary }
+  } catch (error) {
+    console.error("Error fetching room summary:", error)
+    return { success: false, error: "Failed to fetch room summary" }
+  }
+}
+
 /**
  * Delete a message (owner or sender only)
  */
@@ -485,7 +985,80 @@ export async function deleteMessage(messageId: string, userId: string) {
 }
 
 /**
- * Extract agent mentions from message content
+ * A message in a room the user can access
+ */
+async function findAccessibleMessage(messageId: string, userId: string) {
+  return prisma.message.findFirst({
+    where: {
+      id: messageId,
+      room: {
+        OR: [
+          { createdBy: userId },
+          { participants: { some: { userId } } }
+        ]
+      }
+    }
+  })
+}
+
+async function setMessagePinned(messageId: string, userId: string, pinned: boolean) {
+  try {
+    const message = await findAccessibleMessage(messageId, userId)
+    if (!message) {
+      return { success: false, error: "Message not found or unauthorized" }
+    }
+
+    if (pinned) {
+      await prisma.pinnedMessage.upsert({
+        where: { messageId },
+        create: { roomId: message.roomId, messageId, pinnedBy: userId },
+        update: {}
+      })
+    } else {
+      await prisma.pinnedMessage.deleteMany({ where: { messageId } })
+    }
+
+    try {
+      const { ServiceRegistry } = await import("@/lib/services/service-registry")
+      const { getSocketService } = await import("@/lib/services/socket-service")
+      const socketService = ServiceRegistry.getSocketService() || getSocketService()
+
+      socketService?.broadcastPinUpdate(message.roomId, {
+        roomId: message.roomId,
+        messageId,
+        pinned,
+        pinnedBy: userId
+      })
+    } catch (socketError) {
+      console.error("[Messages] Failed to send WebSocket event for pin update:", socketError)
+    }
+
+    return { success: true }
+  } catch (error) {
+    console.error("Error updating pinned message:", error)
+    return { success: false, error: pinned ? "Failed to pin message" : "Failed to unpin message" }
+  }
+}
+
+/**
+ * Let the room summarizer know about a new message; runs in the background
+ */
+function noteRoomMessage(roomId: string) {
+  import("@/lib/services/room-summarizer")
+    .then(({ getRoomSummarizer }) => getRoomSummarizer().noteMessage(roomId))
+    .catch(error => console.error("[Messages] Failed to notify room summarizer:", error))
+}
+
+/**
+ * Keep explicit mention IDs that belong to agents in the room, without duplicates
+ */
+function resolveMentionIds(mentionIds: string[], roomAgents: Array<{ agent: { id: string } }>): string[] {
+  const roomAgentIds = new Set(roomAgents.map(roomAgent => roomAgent.agent.id))
+  return Array.from(new Set(mentionIds)).filter(id => roomAgentIds.has(id))
+}
+
+/**
+ * Extract agent mentions from message content by name
  */
 function extractAgentMentions(content: string, roomAgents: Array<{ agent: { id: string, name: string } }>): string[] {
   const mentions: string[] = []
@@ -540,6 +1113,111 @@ function extractAgentMentions(content: string, roomAgents: Array<{ agent: { id:
     return uniqueMentions
 }
 
+/**
+ * Answer a user message: several mentions start a discussion, otherwise each
+ * mentioned agent replies on its own. Thread replies never start a discussion
+ */
+async function triggerAgentReplies(
+  agentMentions: string[],
+  validatedData: CreateMessageInput,
+  message: any,
+  userId: string,
+  roomAgents: Array<{ agent: { id: string, style: string } }>
+) {
+  if (agentMentions.length === 0) return
+
+  console.log('[Messages] Triggering agent responses for mentions:', agentMentions)
+
+  // Mentioning several agents starts a discussion; /debate gives explicit control.
+  // Inside a thread every mentioned agent simply replies in the thread
+  if (agentMentions.length >= 2 && !message.parentId) {
+    // Start a multi-agent discussion
+
+    // Determine intensity based on content and agent types
+    const intensity = determineDiscussionIntensity(validatedData.content, agentMentions, roomAgents)
+
+    try {
+      const { createDiscussion } = await import("@/lib/services/discussion-orchestrator")
+      const discussionResult = await createDiscussion(
+        validatedData.roomId,
+        message.id,
+        agentMentions,
+        extractTopic(validatedData.content),
+        intensity,
+        { moderator: true }
+      )
+
+      if (discussionResult.success && discussionResult.data) {
+        // Hand the discussion to the durable worker queue
+        const { getDiscussionQueue } = await import("@/lib/services/discussion-queue")
+        await getDiscussionQueue().enqueue(
+          discussionResult.data.id,
+          userId,
+          message.sender?.name || "User"
+        )
+      }
+    } catch (error) {
+      console.error("[Messages] Failed to create discussion:", error)
+      // Fallback to individual agent responses
+      triggerIndividualAgentResponses(agentMentions, validatedData, message, userId)
+    }
+  } else {
+    // Individual agent responses (existing behavior)
+    console.log('[Messages] Triggering individual agent responses')
+    triggerIndividualAgentResponses(agentMentions, validatedData, message, userId)
+  }
+}
+
+/**
+ * Agent replies to a user message: the agent messages in the same thread (or
+ * the timeline) posted after it and before the next user message there
+ */
+async function findAgentReplies(message: { id: string; roomId: string; parentId: string | null; timestamp: Date }) {
+  const nextUserMessage = await prisma.message.findFirst({
+    where: {
+      roomId: message.roomId,
+      parentId: message.parentId,
+      type: "USER",
+      id: { not: message.id },
+      timestamp: { gte: message.timestamp }
+    },
+    orderBy: [{ timestamp: "asc" }, { id: "asc" }],
+    select: { timestamp: true }
+  })
+
+  return prisma.message.findMany({
+    where: {
+      roomId: message.roomId,
+      parentId: message.parentId,
+      type: "AGENT",
+      agentId: { not: null },
+      timestamp: {
+        gte: message.timestamp,
+        ...(nextUserMessage ? { lt: nextUserMessage.timestamp } : {})
+      }
+    },
+    orderBy: { timestamp: "asc" },
+    select: { id: true, agentId: true }
+  })
+}
+
+/**
+ * Regenerate replies one after another in the background; each keeps its
+ * earlier text as a variant
+ */
+function regenerateReplies(replyIds: string[], userId: string) {
+  if (replyIds.length === 0) return
+
+  void (async () => {
+    for (const replyId of replyIds) {
+      const result = await regenerateAgentResponse(replyId, userId)
+      if (!result.success) {
+        console.error(`[Messages] Failed to regenerate reply ${replyId}:`, result.error)
+      }
+    }
+  })()
+}
+
 /**
  * Trigger individual agent responses (fallback for non-discussion mode)
  */
@@ -560,7 +1238,8 @@ function triggerIndividualAgentResponses(
         validatedData.roomId,
         validatedData.content,
         userId,
-        message.sender?.name || "User"
+        message.sender?.name || "User",
+        { threadId: message.parentId || undefined }
       )
       console.log(`[Messages] Successfully generated response for agent ${agentId}`)
           } catch (error) {
@@ -767,6 +1446,10 @@ export async function clearRoomHistory(roomId: string, userId: string) {
       await tx.message.deleteMany({
         where: { roomId }
       })
+
+      await tx.roomSummary.deleteMany({
+        where: { roomId }
+      })
     })
 
     console.log(`[ClearHistory] Successfully deleted ${messageIds.length} messages from MySQL`)
@@ -12,6 +12,8 @@ import {
   type RoomSettingsInput,
   type CreateInvitationInput
 } from "@/lib/validations"
+import { getQuotaService, QuotaExceededError, quotaExceededResult } from "@/lib/services/quota-service"
+import { canRemoveRoomAgent, getRoomAgentPolicy } from "@/lib/services/room-agent-policy"
 // Simple ID generator
 function generateId(length: number = 32): string {
   const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789'
@@ -165,7 +167,8 @@ export async function getRoom(id: string, userId: string) {
                 name: true, 
                 emoji: true, 
                 color: true, 
-                style: true 
+                style: true,
+                roomId: true
               }
             }
           }
@@ -201,30 +204,7 @@ export async function createRoom(userId: string, data: CreateRoomInput) {
     const validatedData = createRoomSchema.parse(data)
 
     // Check subscription limits
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      select: { 
-        subscription: true, 
-        maxRooms: true,
-        _count: {
-          select: { 
-            rooms: true
-          }
-        }
-      },
-    })
-
-    if (!user) {
-      return { success: false, error: "User not found" }
-    }
-
-    // Check if user has reached room limit
-    if (user._count.rooms >= user.maxRooms) {
-      return { 
-        success: false, 
-        error: `You've reached your room limit (${user.maxRooms}). Upgrade to create more rooms.` 
-      }
-    }
+    await getQuotaService().assertQuota(userId, "rooms")
 
     // Create room and settings in a transaction
     const room = await prisma.$transaction(async (tx) => {
@@ -256,6 +236,9 @@ export async function createRoom(userId: string, data: CreateRoomInput) {
     revalidatePath("/rooms")
     return { success: true, data: room }
   } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      return quotaExceededResult(error)
+    }
     console.error("Error creating room:", error)
     if (error instanceof Error) {
       return { success: false, error: error.message }
@@ -540,45 +523,22 @@ export async function removeParticipant(roomId: string, userId: string, particip
 }
 
 /**
- * Add agent to room
+ * Add an agent to a room
+ * Members can add their own or public agents when the room settings allow it
  */
 export async function addAgentToRoom(roomId: string, userId: string, agentId: string) {
   try {
-    // Verify permissions (owner or admin)
-    const room = await prisma.room.findFirst({
-      where: {
-        id: roomId,
-        OR: [
-          { createdBy: userId },
-          { 
-            participants: {
-              some: {
-                userId,
-                role: { in: ["OWNER", "ADMIN"] }
-              }
-            }
-          }
-        ]
-      },
-      include: {
-        settings: true,
-        _count: {
-          select: {
-            agents: true
-          }
-        }
-      }
-    })
+    const policy = await getRoomAgentPolicy(roomId, userId)
 
-    if (!room) {
+    if (!policy) {
       return { success: false, error: "Room not found or insufficient permissions" }
     }
 
     // Check agent limit
-    if (room._count.agents >= (room.settings?.maxAgents || 5)) {
+    if (policy.agentCount >= policy.maxAgents) {
       return { 
         success: false, 
-        error: `Room has reached maximum agent limit (${room.settings?.maxAgents || 5})` 
+        error: `Room has reached maximum agent limit (${policy.maxAgents})` 
       }
     }
 
@@ -586,7 +546,7 @@ export async function addAgentToRoom(roomId: string, userId: string, agentId: st
     const agent = await prisma.agent.findFirst({
       where: {
         id: agentId,
-        createdBy: userId
+        OR: [{ createdBy: userId }, { isPublic: true }]
       }
     })
 
@@ -594,6 +554,19 @@ export async function addAgentToRoom(roomId: string, userId: string, agentId: st
       return { success: false, error: "Agent not found or unauthorized" }
     }
 
+    if (agent.roomId && agent.roomId !== roomId) {
+      return { success: false, error: "This agent belongs to another room" }
+    }
+
+    if (agent.createdBy === userId ? !policy.canAddOwnAgents : !policy.canAddPublicAgents) {
+      return {
+        success: false,
+        error: agent.createdBy === userId
+          ? "This room does not allow members to add their own agents"
+          : "This room does not allow members to add public agents"
+      }
+    }
+
     // Check if agent already in room
     const existingRoomAgent = await prisma.roomAgent.findUnique({
       where: {
@@ -639,41 +612,53 @@ export async function addAgentToRoom(roomId: string, userId: string, agentId: st
 
 /**
  * Remove agent from room
+ * Owners and admins can remove any agent, members only the ones they added.
+ * Agents created for the room are detached and return to their creator's library
  */
 export async function removeAgentFromRoom(roomId: string, userId: string, agentId: string) {
   try {
-    // Verify permissions (owner or admin)
-    const room = await prisma.room.findFirst({
-      where: {
-        id: roomId,
-        OR: [
-          { createdBy: userId },
-          { 
-            participants: {
-              some: {
-                userId,
-                role: { in: ["OWNER", "ADMIN"] }
-              }
-            }
-          }
-        ]
-      }
-    })
+    const policy = await getRoomAgentPolicy(roomId, userId)
 
-    if (!room) {
+    if (!policy) {
       return { success: false, error: "Room not found or insufficient permissions" }
     }
 
-    // Remove agent from room
-    await prisma.roomAgent.delete({
+    const roomAgent = await prisma.roomAgent.findUnique({
       where: {
         roomId_agentId: {
           roomId,
           agentId
         }
+      },
+      include: {
+        agent: { select: { roomId: true } }
       }
     })
 
+    if (!roomAgent) {
+      return { success: false, error: "Agent is not in this room" }
+    }
+
+    if (!canRemoveRoomAgent(policy, roomAgent.addedBy, userId)) {
+      return { success: false, error: "Only room admins or the member who added this agent can remove it" }
+    }
+
+    // Only the membership goes; the agent and the replies it posted stay.
+    // A room agent moves back into its creator's library
+    await prisma.$transaction([
+      prisma.roomAgent.delete({
+        where: {
+          roomId_agentId: {
+            roomId,
+            agentId
+          }
+        }
+      }),
+      ...(roomAgent.agent.roomId === roomId
+        ? [prisma.agent.update({ where: { id: agentId }, data: { roomId: null } })]
+        : [])
+    ])
+
     revalidatePath("/rooms")
     revalidatePath(`/rooms/${roomId}`)
     return { success: true, message: "Agent removed from room successfully" }
@@ -771,6 +756,18 @@ export async function joinRoomViaInvitation(inviteToken: string, userId: string)
       return { success: false, error: "Invitation has expired" }
     }
 
+    // Invitations addressed to an email only work for that account
+    if (invitation.email) {
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { email: true }
+      })
+
+      if (user?.email?.toLowerCase() !== invitation.email.toLowerCase()) {
+        return { success: false, error: "This invitation was sent to a different email address" }
+      }
+    }
+
     // Check if user is already a participant
     const existingParticipant = await prisma.roomParticipant.findUnique({
       where: {
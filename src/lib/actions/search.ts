@@ -0,0 +1,183 @@
+"use server"
+
+import { prisma } from "@/lib/db"
+import { searchMessagesSchema, type SearchMessagesInput } from "@/lib/validations"
+import { getVectorStore } from "../vector-store"
+import { debugLog } from "@/lib/utils/debug-logger"
+
+// Reciprocal rank fusion constant; damps the advantage of the very top hits
+const RANK_FUSION_K = 60
+// Cosine similarity below which a semantic hit is noise; the vector store
+// always returns its nearest neighbours, however unrelated
+const MIN_SEMANTIC_SCORE = Number(process.env.SEARCH_MIN_SEMANTIC_SCORE) || 0.5
+const SNIPPET_LENGTH = 240
+
+export interface MessageSearchResult {
+  id: string
+  roomId: string
+  roomName: string
+  content: string
+  snippet: string
+  type: "USER" | "AGENT" | "SYSTEM"
+  timestamp: Date
+  author: { id: string; name: string; emoji?: string; color?: string; isAgent: boolean } | null
+  matchedBy: Array<"keyword" | "semantic">
+  score: number
+  link: string
+}
+
+/**
+ * Search messages in every room the user can access
+ * Combines MySQL full-text matches with semantic matches from the vector store,
+ * ranked together by reciprocal rank fusion
+ */
+export async function searchMessages(userId: string, input: SearchMessagesInput) {
+  try {
+    const parsed = searchMessagesSchema.safeParse(input)
+    if (!parsed.success) {
+      return { success: false, error: parsed.error.errors[0]?.message || "Invalid search" }
+    }
+    const { q, roomId, agentId, authorId, type, from, to, limit } = parsed.data
+
+    const rooms = await prisma.room.findMany({
+      where: {
+        OR: [
+          { createdBy: userId },
+          { participants: { some: { userId } } }
+        ],
+        ...(roomId ? { id: roomId } : {})
+      },
+      select: { id: true, name: true }
+    })
+
+    if (rooms.length === 0) {
+      return roomId
+        ? { success: false, error: "Room not found or unauthorized" }
+        : { success: true, data: [] as MessageSearchResult[] }
+    }
+
+    const roomIds = rooms.map(room => room.id)
+    const roomNames = new Map(rooms.map(room => [room.id, room.name]))
+
+    // Filters shared by both sources, so semantic hits obey them too
+    const filters = {
+      roomId: { in: roomIds },
+      ...(agentId ? { agentId } : {}),
+      ...(authorId ? { senderId: authorId } : {}),
+      ...(type ? { type } : {}),
+      ...(from || to ? { timestamp: { ...(from ? { gte: from } : {}), ...(to ? { lte: to } : {}) } } : {})
+    }
+
+    const include = {
+      sender: { select: { id: true, name: true } },
+      agent: { select: { id: true, name: true, emoji: true, color: true } }
+    }
+
+    const fullTextQuery = toFullTextQuery(q)
+    const [keywordHits, semanticHits] = await Promise.all([
+      fullTextQuery
+        ? prisma.message.findMany({
+            where: { ...filters, content: { search: fullTextQuery } },
+            include,
+            orderBy: { _relevance: { fields: ["content"], search: fullTextQuery, sort: "desc" } },
+            take: limit
+          })
+        : Promise.resolve([]),
+      getVectorStore().getRelevantContext(roomIds, q, limit * 2)
+    ])
+
+    // Vector payloads can be stale, so semantic hits are re-read through the filters
+    const semanticIds = semanticHits
+      .filter(hit => hit.score >= MIN_SEMANTIC_SCORE)
+      .map(hit => hit.id)
+    const semanticMessages = semanticIds.length > 0
+      ? await prisma.message.findMany({
+          where: { ...filters, id: { in: semanticIds } },
+          include
+        })
+      : []
+    const semanticById = new Map(semanticMessages.map(message => [message.id, message]))
+    const semanticRanked = semanticIds
+      .map(id => semanticById.get(id))
+      .filter((message): message is NonNullable<typeof message> => !!message)
+
+    const results = new Map<string, MessageSearchResult>()
+    const addHits = (hits: typeof keywordHits, source: "keyword" | "semantic") => {
+      hits.forEach((message, rank) => {
+        const existing = results.get(message.id)
+        const score = 1 / (RANK_FUSION_K + rank + 1)
+
+        if (existing) {
+          existing.score += score
+          existing.matchedBy.push(source)
+          return
+        }
+
+        const content = message.content.replace(/^\[AGENT:[^\]]*\]\n/, "")
+        results.set(message.id, {
+          id: message.id,
+          roomId: message.roomId,
+          roomName: roomNames.get(message.roomId) || "Unknown room",
+          content,
+          snippet: buildSnippet(content, q),
+          type: message.type,
+          timestamp: message.timestamp,
+          author: message.agent
+            ? { id: message.agent.id, name: message.agent.name, emoji: message.agent.emoji, color: message.agent.color, isAgent: true }
+            : message.sender
+              ? { id: message.sender.id, name: message.sender.name || "Unknown", isAgent: false }
+              : null,
+          matchedBy: [source],
+          score,
+          // Thread replies open their thread next to the root message
+          link: message.parentId
+            ? `/rooms/${message.roomId}/chat?message=${message.parentId}&thread=${message.parentId}`
+            : `/rooms/${message.roomId}/chat?message=${message.id}`
+        })
+      })
+    }
+
+    addHits(keywordHits, "keyword")
+    addHits(semanticRanked, "semantic")
+
+    const ranked = Array.from(results.values())
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+
+    debugLog('SEARCH', `"${q}" matched ${keywordHits.length} keyword / ${semanticRanked.length} semantic hits`)
+
+    return { success: true, data: ranked }
+  } catch (error) {
+    console.error("Error searching messages:", error)
+    return { success: false, error: "Failed to search messages" }
+  }
+}
+
+/**
+ * Turn free text into a boolean-mode full-text query of prefix terms
+ * Operator characters are stripped so user input cannot break the query
+ */
+function toFullTextQuery(query: string): string {
+  return query
+    .split(/\s+/)
+    .map(term => term.replace(/[^\p{L}\p{N}_]/gu, ""))
+    .filter(term => term.length > 0)
+    .map(term => `${term}*`)
+    .join(" ")
+}
+
+/**
+ * A window of the content around the first matching term
+ */
+function buildSnippet(content: string, query: string): string {
+  const lower = content.toLowerCase()
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean)
+  const hit = terms.map(term => lower.indexOf(term)).filter(index => index >= 0).sort((a, b) => a - b)[0]
+
+  if (content.length <= SNIPPET_LENGTH) return content
+  if (hit === undefined) return `${content.slice(0, SNIPPET_LENGTH)}…`
+
+  const start = Math.max(0, hit - SNIPPET_LENGTH / 3)
+  const end = Math.min(content.length, start + SNIPPET_LENGTH)
+  return `${start > 0 ? "…" : ""}${content.slice(start, end)}${end < content.length ? "…" : ""}`
+}
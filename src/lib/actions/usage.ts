@@ -0,0 +1,33 @@
+"use server"
+
+import { getQuotaService } from "@/lib/services/quota-service"
+import { getUsageBreakdown } from "@/lib/services/usage-ledger"
+
+/**
+ * The user's plan, and usage against each of its quotas this month
+ */
+export async function getUsageSummary(userId: string) {
+  try {
+    const usage = await getQuotaService().getUsage(userId)
+    return { success: true, data: usage }
+  } catch (error) {
+    console.error("Error fetching usage:", error)
+    return { success: false, error: "Failed to fetch usage" }
+  }
+}
+
+/**
+ * This month's LLM tokens and estimated cost, broken down by room, agent,
+ * purpose and model
+ */
+export async function getLLMCostBreakdown(userId: string) {
+  try {
+    const now = new Date()
+    const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1))
+    const breakdown = await getUsageBreakdown(userId, monthStart)
+    return { success: true, data: breakdown }
+  } catch (error) {
+    console.error("Error fetching LLM cost breakdown:", error)
+    return { success: false, error: "Failed to fetch LLM cost breakdown" }
+  }
+}
@@ -0,0 +1,241 @@
+import { z } from "zod"
+import YAML from "yaml"
+import {
+  agentGenerationSettingsSchema,
+  agentPersonaSchema,
+  createAgentSchema,
+  type AgentGenerationSettingsInput,
+} from "@/lib/validations"
+
+/**
+ * Portable agent definitions: one agent, or a bundle of agents, as JSON or YAML
+ * Markdown role files (like sample_role/) are read as a prompt with optional
+ * YAML front matter
+ */
+export const AGENT_DEFINITION_VERSION = 1
+
+export type AgentDefinitionFormat = "json" | "yaml"
+
+const versionSchema = z.literal(AGENT_DEFINITION_VERSION, {
+  errorMap: () => ({ message: `Unsupported version; expected ${AGENT_DEFINITION_VERSION}` }),
+})
+
+export const agentDefinitionSchema = z.object({
+  version: versionSchema,
+  name: createAgentSchema.shape.name,
+  prompt: createAgentSchema.shape.prompt,
+  emoji: z.string().refine(value => Array.from(value).length <= 2, "Emoji must be a single emoji").optional(),
+  color: z.string().regex(/^#[0-9A-F]{6}$/i, "Color must be a hex color like #3B82F6").optional(),
+  style: z.enum(["TRUTH_TELLER"], { errorMap: () => ({ message: "Style must be TRUTH_TELLER" }) }).optional(),
+  persona: z.object({
+    name: agentPersonaSchema.shape.persona,
+    title: agentPersonaSchema.shape.title,
+    philosophy: agentPersonaSchema.shape.philosophy,
+    keyCharacteristics: agentPersonaSchema.shape.keyCharacteristics,
+  }).strict().optional(),
+  generation: agentGenerationSettingsSchema.strict().optional(),
+}).strict()
+
+export const agentBundleSchema = z.object({
+  version: versionSchema,
+  agents: z.array(z.unknown()).min(1, "The bundle has no agents"),
+}).strict()
+
+export type AgentDefinition = z.infer<typeof agentDefinitionSchema>
+
+export interface AgentDefinitionFile {
+  name: string
+  content: string
+}
+
+/**
+ * Read agent definitions from uploaded files
+ * Every problem is reported as "file: path: message" so one bad field
+ * in a bulk import is easy to find
+ */
+export function parseAgentDefinitionFiles(files: AgentDefinitionFile[]): { definitions: AgentDefinition[]; errors: string[] } {
+  const definitions: AgentDefinition[] = []
+  const errors: string[] = []
+
+  files.forEach(file => {
+    let documents: Array<{ label: string; value: unknown }>
+    try {
+      documents = readDocuments(file)
+    } catch (error) {
+      errors.push(`${file.name}: ${error instanceof Error ? error.message : "Could not be read"}`)
+      return
+    }
+
+    documents.forEach(({ label, value }) => {
+      const candidates = isBundle(value)
+        ? expandBundle(value, label, errors)
+        : [{ label, value }]
+
+      candidates.forEach(candidate => {
+        const parsed = agentDefinitionSchema.safeParse(candidate.value)
+        if (parsed.success) {
+          definitions.push(parsed.data)
+        } else {
+          parsed.error.errors.forEach(issue => {
+            errors.push(`${candidate.label}${issue.path.length > 0 ? `: ${formatPath(issue.path)}` : ""}: ${issue.message}`)
+          })
+        }
+      })
+    })
+  })
+
+  return { definitions, errors }
+}
+
+/**
+ * Write definitions as a file: one agent on its own, several as a bundle
+ */
+export function serializeAgentDefinitions(definitions: AgentDefinition[], format: AgentDefinitionFormat): string {
+  const document = definitions.length === 1
+    ? definitions[0]
+    : { version: AGENT_DEFINITION_VERSION, agents: definitions.map(({ version, ...definition }) => definition) }
+
+  return format === "yaml"
+    ? YAML.stringify(document, { lineWidth: 0 })
+    : JSON.stringify(document, null, 2) + "\n"
+}
+
+/**
+ * Build a definition from a stored agent, leaving out unset fields
+ */
+export function toAgentDefinition(agent: {
+  name: string
+  prompt: string
+  emoji: string
+  color: string
+  style: string
+  llmProvider: string | null
+  model: string | null
+  temperature: number | null
+  topP: number | null
+  maxTokens: number | null
+  systemPromptPrefix: string | null
+  persona: string | null
+  title: string | null
+  philosophy: string | null
+  keyCharacteristics: string | null
+}): AgentDefinition {
+  const persona = compact({
+    name: agent.persona,
+    title: agent.title,
+    philosophy: agent.philosophy,
+    keyCharacteristics: parseCharacteristics(agent.keyCharacteristics),
+  })
+  const generation = compact({
+    llmProvider: agent.llmProvider as AgentGenerationSettingsInput["llmProvider"],
+    model: agent.model,
+    temperature: agent.temperature,
+    topP: agent.topP,
+    maxTokens: agent.maxTokens,
+    systemPromptPrefix: agent.systemPromptPrefix,
+  })
+
+  return {
+    version: AGENT_DEFINITION_VERSION,
+    name: agent.name,
+    ...(Array.from(agent.emoji).length <= 2 ? { emoji: agent.emoji } : {}),
+    color: agent.color,
+    style: "TRUTH_TELLER",
+    ...(persona ? { persona } : {}),
+    ...(generation ? { generation } : {}),
+    prompt: agent.prompt,
+  }
+}
+
+function readDocuments(file: AgentDefinitionFile): Array<{ label: string; value: unknown }> {
+  const extension = file.name.toLowerCase().split(".").pop()
+
+  if (extension === "md" || extension === "markdown") {
+    return [{ label: file.name, value: readMarkdownRole(file) }]
+  }
+
+  if (extension === "json") {
+    try {
+      return [{ label: file.name, value: JSON.parse(file.content) }]
+    } catch (error) {
+      throw new Error(`Invalid JSON (${error instanceof Error ? error.message : "parse error"})`)
+    }
+  }
+
+  // YAML files may hold several agents as separate documents
+  const documents = YAML.parseAllDocuments(file.content)
+  return documents.map((document, index) => {
+    if (document.errors.length > 0) {
+      throw new Error(`Invalid YAML: ${document.errors[0].message.split("\n")[0]}`)
+    }
+    return {
+      label: documents.length > 1 ? `${file.name} (document ${index + 1})` : file.name,
+      value: document.toJS()
+    }
+  })
+}
+
+/**
+ * A role file is the prompt; front matter may set the other fields.
+ * The name defaults to the file name, so "elon.md" becomes "Elon"
+ */
+function readMarkdownRole(file: AgentDefinitionFile): unknown {
+  const match = file.content.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/)
+  const frontMatter = match ? YAML.parse(match[1]) : {}
+  if (frontMatter !== null && typeof frontMatter !== "object") {
+    throw new Error("Front matter must be a YAML mapping")
+  }
+
+  const baseName = file.name.replace(/\.[^.]+$/, "").replace(/[-_]+/g, " ").trim()
+  return {
+    version: AGENT_DEFINITION_VERSION,
+    name: baseName.charAt(0).toUpperCase() + baseName.slice(1),
+    ...(frontMatter || {}),
+    prompt: (match ? match[2] : file.content).trim(),
+  }
+}
+
+function isBundle(value: unknown): value is { agents: unknown } {
+  return typeof value === "object" && value !== null && "agents" in value
+}
+
+function expandBundle(value: unknown, label: string, errors: string[]): Array<{ label: string; value: unknown }> {
+  const parsed = agentBundleSchema.safeParse(value)
+  if (!parsed.success) {
+    parsed.error.errors.forEach(issue => {
+      errors.push(`${label}${issue.path.length > 0 ? `: ${formatPath(issue.path)}` : ""}: ${issue.message}`)
+    })
+    return []
+  }
+
+  return parsed.data.agents.map((agent, index) => ({
+    // Bundled agents inherit the bundle's version
+    label: `${label}: agents[${index}]`,
+    value: typeof agent === "object" && agent !== null && !("version" in agent)
+      ? { version: parsed.data.version, ...agent }
+      : agent
+  }))
+}
+
+function formatPath(path: Array<string | number>): string {
+  return path.reduce<string>((result, part) =>
+    typeof part === "number" ? `${result}[${part}]` : result ? `${result}.${part}` : part, "")
+}
+
+function parseCharacteristics(value: string | null): string[] | null {
+  if (!value) return null
+  try {
+    const parsed = JSON.parse(value)
+    return Array.isArray(parsed) ? parsed.map(String) : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Drop null fields; undefined when nothing is left
+ */
+function compact<T extends Record<string, unknown>>(value: T): { [K in keyof T]?: NonNullable<T[K]> } | undefined {
+  const entries = Object.entries(value).filter(([, field]) => field !== null && field !== undefined)
+  return entries.length > 0 ? Object.fromEntries(entries) as { [K in keyof T]?: NonNullable<T[K]> } : undefined
+}
@@ -0,0 +1,146 @@
+/**
+ * Slash commands typed into the chat input
+ * Parsing is shared by the composer (autocomplete) and createMessage (execution),
+ * so this module must stay free of server-only imports
+ */
+
+type FlagKind = "value" | "boolean"
+
+export interface ChatCommandDefinition {
+  name: string
+  usage: string
+  description: string
+  flags: Record<string, FlagKind>
+}
+
+export const CHAT_COMMANDS = [
+  {
+    name: "debate",
+    usage: "/debate @agent @agent <topic> [--rounds 3] [--intensity intense] [--turns 6] [--stop consensus,moderator] [--no-moderator]",
+    description: "Start a multi-round debate between agents",
+    flags: { rounds: "value", intensity: "value", turns: "value", stop: "value", "no-moderator": "boolean" },
+  },
+  {
+    name: "ask",
+    usage: "/ask @agent <question>",
+    description: "Ask a single agent directly",
+    flags: {},
+  },
+  {
+    name: "summarize",
+    usage: "/summarize [--last 30]",
+    description: "Summarize the recent conversation",
+    flags: { last: "value" },
+  },
+  {
+    name: "pause",
+    usage: "/pause",
+    description: "Pause the running discussion",
+    flags: {},
+  },
+  {
+    name: "stop",
+    usage: "/stop",
+    description: "Stop the running discussion",
+    flags: {},
+  },
+  {
+    name: "clear",
+    usage: "/clear",
+    description: "Clear the room history (owners and admins)",
+    flags: {},
+  },
+  {
+    name: "invite",
+    usage: "/invite <email>",
+    description: "Add a user to this room, or create an invitation",
+    flags: {},
+  },
+] as const satisfies readonly ChatCommandDefinition[]
+
+export type ChatCommandName = typeof CHAT_COMMANDS[number]["name"]
+
+// Commands that may be sent while a discussion is still running
+export const DISCUSSION_CONTROL_COMMANDS: readonly ChatCommandName[] = ["pause", "stop"]
+
+export interface ParsedChatCommand {
+  name: ChatCommandName
+  // Everything after the command name with the flags removed
+  args: string
+  flags: Record<string, string | true>
+}
+
+/**
+ * Check whether a message starts with a known slash command
+ * Anything else ("/etc/hosts", "/shrug") is an ordinary message
+ */
+export function isChatCommand(content: string): boolean {
+  const match = content.match(/^\s*\/(\S+)/)
+  return !!match && !!getChatCommand(match[1])
+}
+
+/**
+ * Look up a command definition by name
+ */
+export function getChatCommand(name: string): ChatCommandDefinition | undefined {
+  return CHAT_COMMANDS.find(command => command.name === name.toLowerCase())
+}
+
+/**
+ * Commands whose name starts with what the user has typed so far
+ */
+export function matchChatCommands(input: string): ChatCommandDefinition[] {
+  const match = input.match(/^\s*\/([a-z]*)$/i)
+  if (!match) return []
+  return CHAT_COMMANDS.filter(command => command.name.startsWith(match[1].toLowerCase()))
+}
+
+/**
+ * Parse "/name args --flag value --switch" into its parts
+ * Returns null for ordinary messages, including unknown command names
+ */
+export function parseChatCommand(
+  content: string
+): { success: true; data: ParsedChatCommand } | { success: false; error: string } | null {
+  if (!isChatCommand(content)) return null
+
+  const [, rawName, rest = ""] = content.trim().match(/^\/(\S+)\s*([\s\S]*)$/) || []
+  const definition = getChatCommand(rawName || "")
+
+  if (!definition) return null
+
+  const flags: Record<string, string | true> = {}
+  const args: string[] = []
+  const tokens = rest.split(/\s+/).filter(Boolean)
+
+  for (let i = 0; i < tokens.length; i++) {
+    const flag = tokens[i].match(/^--([a-z-]+)(?:=(.*))?$/i)
+    if (!flag) {
+      args.push(tokens[i])
+      continue
+    }
+
+    const [, flagName, inlineValue] = flag
+    const kind = definition.flags[flagName.toLowerCase()]
+
+    if (!kind) {
+      return { success: false, error: `Unknown option --${flagName} for /${definition.name}` }
+    }
+
+    if (kind === "boolean") {
+      flags[flagName.toLowerCase()] = true
+      continue
+    }
+
+    const value = inlineValue ?? tokens[++i]
+    if (!value || value.startsWith("--")) {
+      return { success: false, error: `Option --${flagName} needs a value` }
+    }
+    flags[flagName.toLowerCase()] = value
+  }
+
+  return {
+    success: true,
+    data: { name: definition.name as ChatCommandName, args: args.join(" "), flags },
+  }
+}
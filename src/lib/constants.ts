@@ -8,19 +8,24 @@ export const SUBSCRIPTION_LIMITS = {
     max_agents: 3,
     max_rooms: 1,
     max_messages_per_month: 100,
+    max_llm_calls_per_month: 300,
   },
   pro: {
     max_agents: -1, // unlimited
     max_rooms: -1, // unlimited
     max_messages_per_month: -1, // unlimited
+    max_llm_calls_per_month: 5000,
   },
   team: {
     max_agents: -1, // unlimited
     max_rooms: -1, // unlimited
     max_messages_per_month: -1, // unlimited
+    max_llm_calls_per_month: 20000,
   },
 } as const
 
+export const UNLIMITED = -1
+
 // Agent Styles (Fixed - TRUTH_TELLER only)
 export const AGENT_STYLE = "TRUTH_TELLER" as const
 
@@ -49,8 +54,39 @@ export const AGENT_COLORS = [
   "#06B6D4", // cyan
 ] as const
 
+// Agent Marketplace
+export const AGENT_CATEGORIES = [
+  "business",
+  "coding",
+  "design",
+  "education",
+  "finance",
+  "health",
+  "marketing",
+  "productivity",
+  "writing",
+  "other",
+] as const
+export const AGENT_REPORT_REASONS = ["spam", "harmful", "impersonation", "inappropriate", "other"] as const
+// Open reports from this many users flag an agent for review
+export const AGENT_REPORT_REVIEW_THRESHOLD = 3
+export const MAX_AGENT_SAMPLES = 3
+export const MARKETPLACE_PAGE_SIZE = 24
+
 // Room Roles
 export const ROOM_ROLES = ["owner", "admin", "member"] as const
 
 // Message Types
 export const MESSAGE_TYPES = ["user", "agent", "system"] as const
+
+// Discussion Intensities
+export const DISCUSSION_INTENSITIES = ["NORMAL", "BRUTAL", "INTENSE", "EXTREME"] as const
+
+// Debate Rounds and Stop Conditions
+export const DEFAULT_DISCUSSION_ROUNDS = 1
+export const MAX_DISCUSSION_ROUNDS = 10
+export const MAX_DISCUSSION_TURNS = 100
+export const DISCUSSION_STOP_CONDITIONS = ["maxTurns", "consensus", "moderator"] as const
+
+// Steering: "@moderator topic: ...; next: @Agent; extend: 2 <note>"
+export const STEER_COMMAND_PATTERN = /^\s*@moderator\b/i
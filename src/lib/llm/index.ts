@@ -0,0 +1,88 @@
+/**
+ * LLM provider registry
+ * Resolves the provider for a call from an explicit name (e.g. per agent),
+ * then LLM_PROVIDER, then Z.ai. Every provider is metered into the usage ledger
+ */
+
+import { getZAIClient } from '@/lib/zai'
+import { OpenAICompatibleClient } from './openai-compatible'
+import { MockLLMClient } from './mock'
+import { MeteredLLMProvider } from './metered'
+import { isLLMProviderName, type LLMProvider, type LLMProviderName } from './types'
+
+export * from './types'
+
+const providers = new Map<LLMProviderName, LLMProvider>()
+
+/**
+ * Get the default provider name from the environment
+ */
+export function getDefaultLLMProviderName(): LLMProviderName {
+  const configured = process.env.LLM_PROVIDER?.trim().toLowerCase()
+  return isLLMProviderName(configured) ? configured : "zai"
+}
+
+/**
+ * Get or create an LLM provider instance
+ */
+export function getLLMProvider(name?: string | null): LLMProvider {
+  const providerName = isLLMProviderName(name) ? name : getDefaultLLMProviderName()
+
+  const cached = providers.get(providerName)
+  if (cached) return cached
+
+  const provider = new MeteredLLMProvider(createProvider(providerName))
+  providers.set(providerName, provider)
+  return provider
+}
+
+/**
+ * The model a provider uses when neither the agent nor the call picks one
+ */
+export function getDefaultLLMModel(name?: string | null): string {
+  const providerName = isLLMProviderName(name) ? name : getDefaultLLMProviderName()
+
+  switch (providerName) {
+    case "openai":
+      return process.env.OPENAI_MODEL || "gpt-4o-mini"
+    case "local":
+      return process.env.LOCAL_LLM_MODEL || "llama3.1"
+    case "mock":
+      return process.env.MOCK_LLM_MODEL || "mock-echo"
+    case "zai":
+    default:
+      return process.env.ZAI_MODEL || "glm-4.6"
+  }
+}
+
+/**
+ * Reset provider instances (useful for testing or configuration changes)
+ */
+export function resetLLMProviders(): void {
+  providers.clear()
+}
+
+function createProvider(name: LLMProviderName): LLMProvider {
+  switch (name) {
+    case "openai":
+      return new OpenAICompatibleClient({
+        name: "openai",
+        apiKey: process.env.OPENAI_API_KEY,
+        baseURL: process.env.OPENAI_BASE_URL || "https://api.openai.com/v1",
+        defaultModel: getDefaultLLMModel("openai")
+      })
+    case "local":
+      // Ollama and llama.cpp's server both expose an OpenAI-compatible /v1 API
+      return new OpenAICompatibleClient({
+        name: "local",
+        apiKey: process.env.LOCAL_LLM_API_KEY,
+        baseURL: process.env.LOCAL_LLM_URL || "http://localhost:11434/v1",
+        defaultModel: getDefaultLLMModel("local")
+      })
+    case "mock":
+      return new MockLLMClient(getDefaultLLMModel("mock"))
+    case "zai":
+    default:
+      return getZAIClient()
+  }
+}
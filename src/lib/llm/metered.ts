@@ -0,0 +1,77 @@
+/**
+ * Provider wrapper that writes every call to the usage ledger and, for calls
+ * made on a user's behalf, meters their monthly LLM call quota
+ */
+
+import type { LLMAgentResponse, LLMGenerateOptions, LLMProvider, LLMProviderName } from './types'
+
+export class MeteredLLMProvider implements LLMProvider {
+  constructor(private readonly provider: LLMProvider) {}
+
+  get name(): LLMProviderName {
+    return this.provider.name
+  }
+
+  async generateAgentResponse(
+    agentPrompt: string,
+    agentStyle: string,
+    userMessage: string,
+    conversationHistory: Array<{ role: string; content: string }> = [],
+    userId?: string,
+    options?: LLMGenerateOptions
+  ): Promise<LLMAgentResponse> {
+    // Throws QuotaExceededError before any tokens are spent
+    if (userId) {
+      const { getQuotaService } = await import('@/lib/services/quota-service')
+      await getQuotaService().consume(userId, 'llmCalls')
+    }
+
+    const startTime = Date.now()
+    let response: LLMAgentResponse
+    try {
+      response = await this.provider.generateAgentResponse(
+        agentPrompt,
+        agentStyle,
+        userMessage,
+        conversationHistory,
+        userId,
+        options
+      )
+    } catch (error) {
+      // Aborted or failed calls don't count against the quota
+      if (userId) await this.refund(userId)
+      throw error
+    }
+
+    // Neither does the canned reply providers give when their API fails
+    if (userId && response.model === 'fallback') {
+      await this.refund(userId)
+    }
+
+    // Loaded on first use so the provider layer can be imported without a database
+    const { recordLLMUsage } = await import('@/lib/services/usage-ledger')
+    const usageEntryId = await recordLLMUsage({
+      provider: this.provider.name,
+      model: response.model,
+      usage: response.usage,
+      latencyMs: response.processingTime ?? Date.now() - startTime,
+      userId,
+      context: options?.usageContext
+    })
+
+    return { ...response, usageEntryId: usageEntryId || undefined }
+  }
+
+  testConnection(): Promise<{ success: boolean; message: string }> {
+    return this.provider.testConnection()
+  }
+
+  private async refund(userId: string): Promise<void> {
+    try {
+      const { getQuotaService } = await import('@/lib/services/quota-service')
+      await getQuotaService().refund(userId, 'llmCalls')
+    } catch (error) {
+      console.error('[LLM] Failed to refund LLM call quota:', error)
+    }
+  }
+}
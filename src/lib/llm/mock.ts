@@ -0,0 +1,87 @@
+/**
+ * Deterministic echo provider for offline development and the scripts/test-*.ts suites
+ * Never touches the network; the same input always yields the same output
+ */
+
+import { applySystemPromptPrefix, createAbortError, type LLMAgentResponse, type LLMGenerateOptions, type LLMProvider } from './types'
+
+export class MockLLMClient implements LLMProvider {
+  readonly name = "mock" as const
+  private model: string
+
+  constructor(model: string = "mock-echo") {
+    this.model = model
+  }
+
+  /**
+   * Echo the user message back, prefixed with a stable fingerprint of the prompt
+   */
+  async generateAgentResponse(
+    agentPrompt: string,
+    _agentStyle: string,
+    userMessage: string,
+    conversationHistory: Array<{ role: string; content: string }> = [],
+    _userId?: string,
+    options?: LLMGenerateOptions
+  ): Promise<LLMAgentResponse> {
+    if (options?.signal?.aborted) {
+      throw createAbortError()
+    }
+
+    const startTime = Date.now()
+    const systemPrompt = applySystemPromptPrefix(agentPrompt, options?.systemPromptPrefix)
+    let content = `[mock:${fingerprint(systemPrompt)}] ${userMessage.trim()}`
+
+    // Honour the token budget using the same whitespace token count
+    if (options?.maxTokens && countTokens(content) > options.maxTokens) {
+      content = content.trim().split(/\s+/).slice(0, options.maxTokens).join(" ")
+    }
+
+    if (options?.onToken) {
+      // Emit word-sized tokens so streaming consumers are exercised too
+      for (const token of content.match(/\S+\s*/g) || []) {
+        options.onToken(token)
+      }
+    }
+
+    const promptTokens = countTokens(systemPrompt) + countTokens(userMessage) +
+      conversationHistory.reduce((sum, msg) => sum + countTokens(msg.content), 0)
+    const completionTokens = countTokens(content)
+
+    return {
+      content,
+      model: options?.model || this.model,
+      usage: {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens
+      },
+      processingTime: Date.now() - startTime
+    }
+  }
+
+  /**
+   * Test API connection
+   */
+  async testConnection(): Promise<{ success: boolean; message: string }> {
+    return { success: true, message: "Mock LLM provider ready (no network)" }
+  }
+}
+
+/**
+ * Short stable hash so different agent prompts produce distinguishable replies
+ */
+function fingerprint(text: string): string {
+  let hash = 0
+  for (let i = 0; i < text.length; i++) {
+    hash = (hash * 31 + text.charCodeAt(i)) | 0
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0")
+}
+
+/**
+ * Rough whitespace token count
+ */
+function countTokens(text: string): number {
+  return text.trim() ? text.trim().split(/\s+/).length : 0
+}
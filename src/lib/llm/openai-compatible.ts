@@ -0,0 +1,255 @@
+/**
+ * OpenAI-compatible chat completions client
+ * Works with OpenAI, Azure-style gateways, OpenRouter, vLLM and any server
+ * exposing POST {baseURL}/chat/completions
+ */
+
+import logger, { generateCorrelationId } from '@/lib/logger'
+import { debugLog } from '@/lib/utils/debug-logger'
+import { readSSEData } from './sse'
+import {
+  applySystemPromptPrefix,
+  isAbortError,
+  type LLMAgentResponse,
+  type LLMGenerateOptions,
+  type LLMProvider,
+  type LLMProviderName,
+  type LLMUsage
+} from './types'
+
+interface ChatMessage {
+  role: "system" | "user" | "assistant"
+  content: string
+}
+
+export interface OpenAICompatibleOptions {
+  name?: LLMProviderName
+  apiKey?: string
+  baseURL: string
+  defaultModel: string
+}
+
+export class OpenAICompatibleClient implements LLMProvider {
+  readonly name: LLMProviderName
+  protected apiKey?: string
+  protected baseURL: string
+  protected defaultModel: string
+
+  constructor(options: OpenAICompatibleOptions) {
+    this.name = options.name || "openai"
+    this.apiKey = options.apiKey
+    this.baseURL = options.baseURL.replace(/\/+$/, "")
+    this.defaultModel = options.defaultModel
+  }
+
+  /**
+   * Send a chat completion request, streaming tokens when onToken is given
+   */
+  async createChatCompletion(
+    messages: ChatMessage[],
+    options: {
+      model?: string
+      temperature?: number
+      max_tokens?: number
+      top_p?: number
+      user?: string
+    } & LLMGenerateOptions = {}
+  ): Promise<{ content: string; model: string; usage: LLMUsage }> {
+    const correlationId = generateCorrelationId()
+    const startTime = Date.now()
+    const endpoint = `${this.baseURL}/chat/completions`
+    const model = options.model || this.defaultModel
+    const stream = !!options.onToken
+
+    const requestBody = {
+      model,
+      messages,
+      temperature: options.temperature ?? 0.7,
+      max_tokens: options.max_tokens ?? 2000,
+      top_p: options.top_p ?? 0.95,
+      stream,
+      ...(stream ? { stream_options: { include_usage: true } } : {}),
+      ...(options.user ? { user: options.user } : {}),
+    }
+
+    logger.aiRequest(correlationId, {
+      endpoint,
+      provider: this.name,
+      model,
+      temperature: requestBody.temperature,
+      maxTokens: requestBody.max_tokens,
+      messageCount: messages.length,
+      stream,
+      promptPreview: messages[messages.length - 1]?.content?.substring(0, 100) + '...'
+    })
+
+    const headers: Record<string, string> = { "Content-Type": "application/json" }
+    if (this.apiKey) {
+      headers["Authorization"] = `Bearer ${this.apiKey}`
+    }
+
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(requestBody),
+      signal: options.signal,
+    })
+
+    if (!response.ok) {
+      const responseText = await response.text()
+      let errorMessage = `HTTP ${response.status}: ${response.statusText}`
+      try {
+        const errorData = JSON.parse(responseText)
+        errorMessage = errorData.error?.message || errorData.message || errorMessage
+      } catch {
+        // Keep the HTTP status message if the body is not JSON
+      }
+
+      const apiError = new Error(`${this.name} API Error: ${errorMessage}`)
+      logger.aiError(correlationId, 'API request failed', apiError, {
+        request: { endpoint, model },
+        response: { status: response.status, body: responseText.substring(0, 200) }
+      })
+      throw apiError
+    }
+
+    let content = ""
+    let responseModel = model
+    let usage: LLMUsage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 }
+
+    if (stream && response.body) {
+      await readSSEData(response.body, (data) => {
+        if (data === "[DONE]") return
+
+        let chunk: any
+        try {
+          chunk = JSON.parse(data)
+        } catch {
+          return
+        }
+
+        responseModel = chunk.model || responseModel
+        if (chunk.usage) usage = { ...usage, ...chunk.usage }
+
+        const delta = chunk.choices?.[0]?.delta?.content
+        if (delta) {
+          content += delta
+          options.onToken?.(delta)
+        }
+      })
+    } else {
+      const data = await response.json()
+      const message = data.choices?.[0]?.message
+      content = message?.content || message?.reasoning_content || ""
+      responseModel = data.model || responseModel
+      if (data.usage) usage = { ...usage, ...data.usage }
+    }
+
+    logger.aiResponse(correlationId, {
+      status: response.status,
+      statusText: response.statusText,
+      duration: Date.now() - startTime,
+      provider: this.name,
+      model: responseModel,
+      usage,
+      streamed: stream,
+      rawBody: content.substring(0, 200) + (content.length > 200 ? '...' : '')
+    })
+
+    return { content, model: responseModel, usage }
+  }
+
+  /**
+   * Generate agent response based on system prompt and user message
+   */
+  async generateAgentResponse(
+    agentPrompt: string,
+    agentStyle: string,
+    userMessage: string,
+    conversationHistory: Array<{ role: string; content: string }> = [],
+    userId?: string,
+    options?: LLMGenerateOptions
+  ): Promise<LLMAgentResponse> {
+    const correlationId = generateCorrelationId()
+    const startTime = Date.now()
+    const systemPrompt = applySystemPromptPrefix(agentPrompt, options?.systemPromptPrefix)
+    const model = options?.model || this.defaultModel
+
+    // Roles other than user/assistant (e.g. agent names in discussions)
+    // are folded into assistant turns with the speaker name inline
+    const messages: ChatMessage[] = [
+      ...(systemPrompt ? [{ role: "system" as const, content: systemPrompt }] : []),
+      ...conversationHistory.map((msg): ChatMessage => (
+        msg.role === "user" || msg.role === "assistant"
+          ? { role: msg.role, content: msg.content }
+          : { role: "assistant", content: `[${msg.role}]: ${msg.content}` }
+      )),
+      { role: "user" as const, content: userMessage }
+    ]
+
+    debugLog('API', `${this.name} request sent (model: ${model})`)
+
+    try {
+      const response = await this.createChatCompletion(messages, {
+        model,
+        temperature: options?.temperature ?? 0.1,
+        top_p: options?.topP,
+        max_tokens: options?.maxTokens,
+        user: userId,
+        onToken: options?.onToken,
+        signal: options?.signal
+      })
+
+      return {
+        content: response.content || "I apologize, but I couldn't generate a proper response.",
+        model: response.model,
+        usage: response.usage,
+        processingTime: Date.now() - startTime
+      }
+    } catch (error) {
+      const processingTime = Date.now() - startTime
+
+      // Cancellation is not a failure: let the caller see it instead of a fallback reply
+      if (isAbortError(error)) {
+        throw error
+      }
+
+      logger.aiError(correlationId, 'Agent response generation failed', error instanceof Error ? error : new Error(String(error)), {
+        provider: this.name,
+        agentStyle,
+        userMessageLength: userMessage.length,
+        conversationHistoryLength: conversationHistory.length,
+        duration: processingTime
+      })
+
+      return {
+        content: "Tidak bisa memberikan respon sekarang. Coba lagi.",
+        model: "fallback",
+        usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+        processingTime
+      }
+    }
+  }
+
+  /**
+   * Test API connection
+   */
+  async testConnection(): Promise<{ success: boolean; message: string }> {
+    try {
+      await this.createChatCompletion(
+        [{ role: "user", content: "Hello, this is a test message." }],
+        { max_tokens: 50 }
+      )
+
+      return {
+        success: true,
+        message: `${this.name} API connection successful (${this.baseURL})`
+      }
+    } catch (error) {
+      return {
+        success: false,
+        message: `${this.name} API connection failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      }
+    }
+  }
+}
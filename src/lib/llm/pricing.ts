@@ -0,0 +1,79 @@
+/**
+ * Estimated LLM cost from token counts
+ * Prices are USD per million tokens, matched on the longest model-name prefix.
+ * LLM_PRICING (JSON, same shape as DEFAULT_PRICES) adds or overrides entries
+ */
+
+import type { LLMProviderName } from './types'
+
+export interface ModelPrice {
+  input: number
+  output: number
+  // Prompt tokens served from the provider's cache; defaults to the input price
+  cachedInput?: number
+}
+
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  "glm-4.6": { input: 0.6, cachedInput: 0.11, output: 2.2 },
+  "glm-4.5": { input: 0.6, cachedInput: 0.11, output: 2.2 },
+  "glm-4.5-air": { input: 0.2, cachedInput: 0.03, output: 1.1 },
+  "glm-4.5-flash": { input: 0, cachedInput: 0, output: 0 },
+  "gpt-4o-mini": { input: 0.15, cachedInput: 0.075, output: 0.6 },
+  "gpt-4o": { input: 2.5, cachedInput: 1.25, output: 10 },
+  "gpt-4.1-mini": { input: 0.4, cachedInput: 0.1, output: 1.6 },
+  "gpt-4.1": { input: 2, cachedInput: 0.5, output: 8 },
+}
+
+// Self-hosted and offline providers cost nothing per token
+const FREE_PROVIDERS: LLMProviderName[] = ["local", "mock"]
+
+let priceTable: Record<string, ModelPrice> | null = null
+
+function getPriceTable(): Record<string, ModelPrice> {
+  if (!priceTable) {
+    let overrides: Record<string, ModelPrice> = {}
+    try {
+      overrides = process.env.LLM_PRICING ? JSON.parse(process.env.LLM_PRICING) : {}
+    } catch (error) {
+      console.error('[LLM] Ignoring invalid LLM_PRICING:', error)
+    }
+    priceTable = { ...DEFAULT_PRICES, ...overrides }
+  }
+  return priceTable
+}
+
+/**
+ * Price entry for a model, or null when it is not in the table
+ */
+export function getModelPrice(provider: LLMProviderName, model: string): ModelPrice | null {
+  if (FREE_PROVIDERS.includes(provider)) {
+    return { input: 0, output: 0 }
+  }
+
+  const table = getPriceTable()
+  const name = model.toLowerCase()
+  const match = Object.keys(table)
+    .filter(prefix => name.startsWith(prefix.toLowerCase()))
+    .sort((a, b) => b.length - a.length)[0]
+
+  return match ? table[match] : null
+}
+
+/**
+ * Estimated cost in USD; unknown models are counted as free
+ */
+export function estimateCost(
+  provider: LLMProviderName,
+  model: string,
+  tokens: { promptTokens: number; completionTokens: number; cachedTokens: number }
+): number {
+  const price = getModelPrice(provider, model)
+  if (!price) return 0
+
+  const uncachedPrompt = Math.max(0, tokens.promptTokens - tokens.cachedTokens)
+  return (
+    uncachedPrompt * price.input +
+    tokens.cachedTokens * (price.cachedInput ?? price.input) +
+    tokens.completionTokens * price.output
+  ) / 1_000_000
+}
@@ -0,0 +1,43 @@
+/**
+ * Minimal server-sent events reader used by streaming LLM adapters
+ */
+
+/**
+ * Read an SSE body and hand the `data:` payload of each event to onData
+ * Events are separated by a blank line; CRLF line endings are normalised
+ */
+export async function readSSEData(
+  body: ReadableStream<Uint8Array>,
+  onData: (data: string) => void
+): Promise<void> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ""
+
+  const extractData = (rawEvent: string) => rawEvent
+    .split("\n")
+    .filter(line => line.startsWith("data:"))
+    // Per the SSE spec: drop one leading space, join multi-line data with "\n"
+    .map(line => line.slice(5).replace(/^ /, ""))
+    .join("\n")
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, "\n")
+
+    let separatorIndex: number
+    while ((separatorIndex = buffer.indexOf("\n\n")) !== -1) {
+      const rawEvent = buffer.slice(0, separatorIndex)
+      buffer = buffer.slice(separatorIndex + 2)
+
+      const data = extractData(rawEvent)
+      if (data) onData(data)
+    }
+  }
+
+  // Flush a trailing event without a terminating blank line
+  const remaining = extractData(buffer)
+  if (remaining) onData(remaining)
+}
@@ -0,0 +1,134 @@
+/**
+ * LLM provider contracts shared by every adapter
+ */
+
+export const LLM_PROVIDER_NAMES = ["zai", "openai", "local", "mock"] as const
+
+export type LLMProviderName = typeof LLM_PROVIDER_NAMES[number]
+
+/**
+ * Per-agent generation overrides; unset fields fall back to provider defaults
+ */
+export interface LLMGenerationSettings {
+  model?: string
+  temperature?: number
+  topP?: number
+  maxTokens?: number
+  systemPromptPrefix?: string
+}
+
+export const LLM_USAGE_PURPOSES = [
+  "agent_reply",
+  "discussion_turn",
+  "discussion_moderator",
+  "intent_analysis",
+  "context_summary",
+  "agent_generation",
+  "room_summary",
+  "other",
+] as const
+
+export type LLMUsagePurpose = typeof LLM_USAGE_PURPOSES[number]
+
+/**
+ * What a call was for, so the usage ledger can attribute its tokens and cost
+ */
+export interface LLMUsageContext {
+  purpose: LLMUsagePurpose
+  roomId?: string
+  agentId?: string
+}
+
+export interface LLMGenerateOptions extends LLMGenerationSettings {
+  onToken?: (token: string) => void
+  // Aborting cancels the in-flight request; providers rethrow instead of falling back
+  signal?: AbortSignal
+  usageContext?: LLMUsageContext
+}
+
+export interface LLMUsage {
+  prompt_tokens: number
+  completion_tokens: number
+  total_tokens: number
+}
+
+export interface LLMAgentResponse {
+  content: string
+  model: string
+  usage: LLMUsage
+  processingTime?: number
+  // Usage ledger entry for this call, to link it to the message it produced
+  usageEntryId?: string
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName
+
+  /**
+   * Generate agent response based on system prompt and user message
+   */
+  generateAgentResponse(
+    agentPrompt: string,
+    agentStyle: string,
+    userMessage: string,
+    conversationHistory?: Array<{ role: string; content: string }>,
+    userId?: string,
+    options?: LLMGenerateOptions
+  ): Promise<LLMAgentResponse>
+
+  /**
+   * Test API connection
+   */
+  testConnection(): Promise<{ success: boolean; message: string }>
+}
+
+/**
+ * Build generation settings from nullable agent columns
+ */
+export function toGenerationSettings(agent: {
+  model?: string | null
+  temperature?: number | null
+  topP?: number | null
+  maxTokens?: number | null
+  systemPromptPrefix?: string | null
+}): LLMGenerationSettings {
+  return {
+    model: agent.model || undefined,
+    temperature: agent.temperature ?? undefined,
+    topP: agent.topP ?? undefined,
+    maxTokens: agent.maxTokens ?? undefined,
+    systemPromptPrefix: agent.systemPromptPrefix || undefined,
+  }
+}
+
+/**
+ * Prepend the agent's system-prompt prefix, if any
+ */
+export function applySystemPromptPrefix(prompt: string, prefix?: string): string {
+  const trimmed = prefix?.trim()
+  if (!trimmed) return prompt
+  return prompt ? `${trimmed}\n\n${prompt}` : trimmed
+}
+
+/**
+ * Check whether an error came from an aborted request
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === "AbortError"
+}
+
+/**
+ * Build the error providers throw when a request is aborted before it starts
+ */
+export function createAbortError(): Error {
+  const error = new Error("The operation was aborted")
+  error.name = "AbortError"
+  return error
+}
+
+/**
+ * Check whether a string names a known provider
+ */
+export function isLLMProviderName(value: unknown): value is LLMProviderName {
+  return typeof value === "string" && (LLM_PROVIDER_NAMES as readonly string[]).includes(value)
+}
@@ -0,0 +1,53 @@
+/**
+ * Agent mentions typed in the chat composer
+ * The composer sends the picked agent IDs explicitly, so createMessage never
+ * has to guess which "@Steve" was meant. Must stay free of server-only imports
+ */
+
+export interface MentionToken {
+  id: string
+  name: string
+}
+
+// Pseudo-agent that expands to every agent in the room
+export const ALL_AGENTS_MENTION: MentionToken = { id: "all", name: "all" }
+
+/**
+ * The "@partial" being typed just before the caret, if any
+ */
+export function getActiveMentionQuery(text: string, caret: number): { query: string; start: number } | null {
+  const match = text.slice(0, caret).match(/(^|\s)@([^\s@]*)$/)
+  if (!match) return null
+  return { query: match[2], start: caret - match[2].length - 1 }
+}
+
+/**
+ * Replace the "@partial" at the caret with a complete "@Name " token
+ */
+export function insertMention(text: string, caret: number, name: string): { text: string; caret: number } {
+  const active = getActiveMentionQuery(text, caret)
+  const start = active ? active.start : caret
+  const token = `@${name} `
+
+  return {
+    text: text.slice(0, start) + token + text.slice(caret).replace(/^\s+/, ""),
+    caret: start + token.length
+  }
+}
+
+/**
+ * Agent IDs for the picked mentions whose "@Name" is still in the text
+ * Tokens the user has since deleted are dropped
+ */
+export function collectMentionIds(text: string, tokens: MentionToken[], roomAgentIds: string[]): string[] {
+  const ids = new Set<string>()
+
+  for (const token of tokens) {
+    if (!text.includes(`@${token.name}`)) continue
+
+    const expanded = token.id === ALL_AGENTS_MENTION.id ? roomAgentIds : [token.id]
+    expanded.forEach(id => ids.add(id))
+  }
+
+  return Array.from(ids)
+}
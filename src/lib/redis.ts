@@ -0,0 +1,18 @@
+import Redis from 'ioredis'
+
+const globalForRedis = globalThis as unknown as {
+  redis: Redis | null | undefined
+}
+
+/**
+ * Shared Redis connection, or null when REDIS_URL is not configured
+ * Only used by the socket layer to share presence and fan out events across instances
+ */
+export function getRedis(): Redis | null {
+  if (globalForRedis.redis === undefined) {
+    globalForRedis.redis = process.env.REDIS_URL
+      ? new Redis(process.env.REDIS_URL, { maxRetriesPerRequest: 3 })
+      : null
+  }
+  return globalForRedis.redis
+}
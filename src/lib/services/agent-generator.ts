@@ -1,5 +1,5 @@
 import { z } from "zod"
-import { getZAIClient } from "@/lib/zai"
+import { getLLMProvider } from "@/lib/llm"
 
 // Agent Preview Schema (Step 1 - lightweight generation)
 export const AgentPreviewSchema = z.object({
@@ -31,7 +31,7 @@ export type AgentOption = AgentFull
 /**
  * Generate 10 agent previews based on user goal (Step 1 - lightweight)
  */
-export async function generateAgentPreviews(goal: string): Promise<AgentPreview[]> {
+export async function generateAgentPreviews(goal: string, userId?: string): Promise<AgentPreview[]> {
   try {
     const prompt = `Based on this user goal: "${goal}"
 
@@ -73,8 +73,10 @@ Please return the response in the following JSON format:
   ]
 }`
 
-    const zaiClient = getZAIClient()
-    const response = await zaiClient.generateAgentResponse(prompt, "TRUTH_TELLER", goal)
+    const llm = getLLMProvider()
+    const response = await llm.generateAgentResponse(prompt, "TRUTH_TELLER", goal, [], userId, {
+      usageContext: { purpose: "agent_generation" }
+    })
 
     // Check if response is a fallback error message (not JSON)
     if (response.content.includes("Tidak bisa memberikan respon") ||
@@ -163,7 +165,7 @@ Please return the response in the following JSON format:
 /**
  * Generate full system role for selected agent (Step 2)
  */
-export async function generateFullAgentRole(preview: AgentPreview, goal: string): Promise<string> {
+export async function generateFullAgentRole(preview: AgentPreview, goal: string, userId?: string): Promise<string> {
   try {
     const prompt = `Based on this user goal: "${goal}" and this expert preview:
 
@@ -185,8 +187,10 @@ Focus on ACTIONABLE GUIDANCE and practical instructions. The agent should provid
 
 Return the complete system role as a comprehensive text that can be used as a system prompt.`
 
-    const zaiClient = getZAIClient()
-    const response = await zaiClient.generateAgentResponse(prompt, "TRUTH_TELLER", goal)
+    const llm = getLLMProvider()
+    const response = await llm.generateAgentResponse(prompt, "TRUTH_TELLER", goal, [], userId, {
+      usageContext: { purpose: "agent_generation" }
+    })
 
     // Check if response is a fallback error message
     if (response.content.includes("Tidak bisa memberikan respon") ||
@@ -207,16 +211,16 @@ Return the complete system role as a comprehensive text that can be used as a sy
 /**
  * Legacy function for backward compatibility
  */
-export async function generateAgentOptions(goal: string): Promise<AgentOption[]> {
+export async function generateAgentOptions(goal: string, userId?: string): Promise<AgentOption[]> {
   // Generate previews first
-  const previews = await generateAgentPreviews(goal)
+  const previews = await generateAgentPreviews(goal, userId)
 
   // Generate full roles for all previews (legacy behavior)
   const fullAgents: AgentOption[] = []
 
   for (const preview of previews) {
     try {
-      const fullSystemRole = await generateFullAgentRole(preview, goal)
+      const fullSystemRole = await generateFullAgentRole(preview, goal, userId)
       fullAgents.push({
         ...preview,
         fullSystemRole
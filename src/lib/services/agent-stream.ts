@@ -0,0 +1,59 @@
+import { getSocketService, AgentTokenUpdate } from "./socket-service"
+
+export interface AgentStreamTarget {
+  id: string
+  name: string
+  emoji: string
+  color: string
+}
+
+export interface AgentStream {
+  streamId: string
+  onToken: (token: string) => void
+  end: (messageId?: string, errorMessage?: string) => void
+}
+
+/**
+ * Create a token stream that relays a partial agent reply to a room
+ * The persisted message arrives through new_message; end() tells clients
+ * which draft it replaces. Only the first end() is sent
+ */
+export function createAgentStream(
+  roomId: string,
+  agent: AgentStreamTarget,
+  discussionId?: string
+): AgentStream {
+  const streamId = `stream_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+  const socketService = getSocketService()
+
+  const base: Omit<AgentTokenUpdate, 'token'> = {
+    streamId,
+    roomId,
+    agentId: agent.id,
+    agentName: agent.name,
+    agentEmoji: agent.emoji,
+    agentColor: agent.color,
+    discussionId
+  }
+
+  let ended = false
+
+  return {
+    streamId,
+    onToken: (token: string) => {
+      socketService?.broadcastAgentToken(roomId, { ...base, token })
+    },
+    end: (messageId?: string, errorMessage?: string) => {
+      if (ended) return
+      ended = true
+      socketService?.broadcastAgentStreamEnd(roomId, {
+        streamId,
+        roomId,
+        agentId: agent.id,
+        messageId,
+        discussionId,
+        errorMessage
+      })
+    }
+  }
+}
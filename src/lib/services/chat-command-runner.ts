@@ -0,0 +1,274 @@
+import { prisma } from "@/lib/db"
+import { clearRoomHistory } from "@/lib/actions/messages"
+import { createSystemMessage } from "./system-messages"
+import { generateAgentResponse } from "@/lib/actions/ai"
+import { addParticipant, createRoomInvitation } from "@/lib/actions/rooms"
+import { getChatCommand, type ParsedChatCommand } from "@/lib/chat-commands"
+import {
+  askCommandSchema,
+  debateCommandSchema,
+  inviteCommandSchema,
+  summarizeCommandSchema
+} from "@/lib/validations"
+import { debugLog } from "@/lib/utils/debug-logger"
+import { createDiscussion, pauseDiscussion, stopDiscussion } from "./discussion-orchestrator"
+import { formatVerdictMessage, synthesizeDiscussion } from "./discussion-moderator"
+import { getDiscussionQueue } from "./discussion-queue"
+import type { DebateTurn } from "./debate-control"
+import type { ZodError } from "zod"
+
+type RoomAgents = Array<{ agent: { id: string; name: string } }>
+
+interface CommandContext {
+  userId: string
+  userName: string
+  roomId: string
+  roomAgents: RoomAgents
+  messageId: string
+}
+
+// `notice` is posted to the room; `reply` goes back to the sender only
+type CommandResult = { success: true; notice?: string; reply?: string } | { success: false; error: string }
+
+/**
+ * Execute a parsed slash command sent as a chat message
+ * Failures are posted to the room as a SYSTEM message with the command's usage
+ */
+export async function runChatCommand(command: ParsedChatCommand, context: CommandContext): Promise<CommandResult> {
+  let result: CommandResult
+
+  try {
+    debugLog('COMMAND', `/${command.name} from ${context.userName}`, command)
+    result = await dispatch(command, context)
+  } catch (error) {
+    console.error(`[ChatCommand] /${command.name} failed:`, error)
+    result = { success: false, error: error instanceof Error ? error.message : "Command failed" }
+  }
+
+  if (!result.success) {
+    await reportCommandError(context.roomId, result.error, command.name)
+  } else if (result.notice) {
+    await createSystemMessage(context.roomId, result.notice)
+  }
+
+  return result
+}
+
+/**
+ * Post a command error (including parse errors) as a SYSTEM message
+ */
+export async function reportCommandError(roomId: string, error: string, commandName?: string) {
+  const usage = commandName ? getChatCommand(commandName)?.usage : undefined
+  return createSystemMessage(roomId, `⚠️ ${error}${usage ? `\nUsage: \`${usage}\`` : ""}`)
+}
+
+async function dispatch(command: ParsedChatCommand, context: CommandContext): Promise<CommandResult> {
+  switch (command.name) {
+    case "debate":
+      return runDebate(command, context)
+    case "ask":
+      return runAsk(command, context)
+    case "summarize":
+      return runSummarize(command, context)
+    case "pause":
+    case "stop":
+      return runDiscussionControl(command.name, context)
+    case "clear":
+      return runClear(context)
+    case "invite":
+      return runInvite(command, context)
+  }
+}
+
+async function runDebate(command: ParsedChatCommand, context: CommandContext): Promise<CommandResult> {
+  const { agentIds, rest, unknown } = takeLeadingMentions(command.args, context.roomAgents)
+  if (unknown) {
+    return { success: false, error: `No agent named @${unknown} in this room` }
+  }
+
+  const parsed = debateCommandSchema.safeParse({
+    agentIds,
+    topic: rest,
+    rounds: flagValue(command.flags.rounds),
+    intensity: flagValue(command.flags.intensity)?.toUpperCase(),
+    maxTurns: flagValue(command.flags.turns),
+    stopConditions: flagValue(command.flags.stop)?.split(",").map(condition => condition.trim()).filter(Boolean),
+    moderator: command.flags["no-moderator"] ? false : undefined
+  })
+  if (!parsed.success) {
+    return { success: false, error: firstIssue(parsed.error) }
+  }
+
+  const { agentIds: participants, topic, intensity, ...options } = parsed.data
+  const discussion = await createDiscussion(context.roomId, context.messageId, participants, topic, intensity, options)
+
+  if (!discussion.success || !discussion.data) {
+    return { success: false, error: discussion.error || "Failed to start debate" }
+  }
+
+  await getDiscussionQueue().enqueue(discussion.data.id, context.userId, context.userName)
+  return { success: true }
+}
+
+async function runAsk(command: ParsedChatCommand, context: CommandContext): Promise<CommandResult> {
+  const { agentIds, rest, unknown } = takeLeadingMentions(command.args, context.roomAgents, 1)
+  if (unknown) {
+    return { success: false, error: `No agent named @${unknown} in this room` }
+  }
+
+  const parsed = askCommandSchema.safeParse({ agentId: agentIds[0] ?? "", question: rest })
+  if (!parsed.success) {
+    return { success: false, error: firstIssue(parsed.error) }
+  }
+
+  // Replies arrive over the socket like any other agent message
+  void generateAgentResponse(parsed.data.agentId, context.roomId, parsed.data.question, context.userId, context.userName)
+    .catch(error => console.error("[ChatCommand] /ask response failed:", error))
+
+  return { success: true }
+}
+
+async function runSummarize(command: ParsedChatCommand, context: CommandContext): Promise<CommandResult> {
+  const parsed = summarizeCommandSchema.safeParse({ last: flagValue(command.flags.last) })
+  if (!parsed.success) {
+    return { success: false, error: firstIssue(parsed.error) }
+  }
+
+  const messages = await prisma.message.findMany({
+    where: { roomId: context.roomId, type: { in: ["USER", "AGENT"] }, id: { not: context.messageId } },
+    orderBy: { timestamp: "desc" },
+    take: parsed.data.last,
+    include: {
+      sender: { select: { name: true } },
+      agent: { select: { name: true } }
+    }
+  })
+
+  if (messages.length < 2) {
+    return { success: false, error: "There is not enough conversation to summarize yet" }
+  }
+
+  const turns: DebateTurn[] = messages.reverse().map((message, index) => ({
+    agentId: message.agentId || message.senderId || "unknown",
+    agentName: message.agent?.name || message.sender?.name || "User",
+    messageId: message.id,
+    content: message.content.replace(/^\[AGENT:[^\]]*\]\n/, ""),
+    turnOrder: index
+  }))
+
+  // Synthesis can take a while; the summary is posted when it is ready
+  void synthesizeDiscussion(`Summary of the last ${turns.length} messages`, turns, undefined, context.userId, context.roomId)
+    .then(verdict => createSystemMessage(context.roomId, formatVerdictMessage(verdict, "📝 **Conversation summary**")))
+    .catch(error => reportCommandError(context.roomId, `Summary failed: ${error instanceof Error ? error.message : error}`))
+
+  return { success: true }
+}
+
+async function runDiscussionControl(action: "pause" | "stop", context: CommandContext): Promise<CommandResult> {
+  const discussion = await prisma.discussion.findFirst({
+    where: {
+      roomId: context.roomId,
+      status: action === "pause" ? "ACTIVE" : { in: ["ACTIVE", "PAUSED"] }
+    },
+    orderBy: { createdAt: "desc" },
+    select: { id: true }
+  })
+
+  if (!discussion) {
+    return { success: false, error: `There is no running discussion to ${action}` }
+  }
+
+  const result = action === "pause"
+    ? await pauseDiscussion(discussion.id)
+    : await stopDiscussion(discussion.id)
+
+  if (!result.success) {
+    return { success: false, error: result.error || `Failed to ${action} discussion` }
+  }
+
+  return {
+    success: true,
+    notice: action === "pause"
+      ? `⏸️ Discussion paused by ${context.userName}`
+      : `⏹️ Discussion stopped by ${context.userName}`
+  }
+}
+
+async function runClear(context: CommandContext): Promise<CommandResult> {
+  const result = await clearRoomHistory(context.roomId, context.userId)
+  if (!result.success) {
+    return { success: false, error: result.error || "Failed to clear room history" }
+  }
+
+  return { success: true, notice: `🧹 Room history cleared by ${context.userName}` }
+}
+
+async function runInvite(command: ParsedChatCommand, context: CommandContext): Promise<CommandResult> {
+  const parsed = inviteCommandSchema.safeParse({ email: command.args.trim() })
+  if (!parsed.success) {
+    return { success: false, error: firstIssue(parsed.error) }
+  }
+
+  const { email } = parsed.data
+
+  // Existing users join straight away; anyone else gets an invitation token
+  const added = await addParticipant(context.roomId, context.userId, email)
+  if (added.success) {
+    return { success: true, notice: `👋 ${email} was added to the room by ${context.userName}` }
+  }
+
+  if (added.error !== "User not found") {
+    return { success: false, error: added.error || "Failed to add participant" }
+  }
+
+  const invitation = await createRoomInvitation(context.userId, { roomId: context.roomId, email })
+  if (!invitation.success || !invitation.data) {
+    return { success: false, error: invitation.error || "Failed to create invitation" }
+  }
+
+  // The token grants access, so only the inviter sees it
+  return {
+    success: true,
+    notice: `✉️ Invitation sent to ${email}`,
+    reply: `Invitation token for ${email}: ${invitation.data.inviteToken} (expires ${invitation.data.expiresAt?.toDateString()})`
+  }
+}
+
+/**
+ * Consume "@Agent" tokens from the start of the arguments, matching the
+ * longest room agent name so multi-word names ("@Steve Jobs") resolve
+ */
+function takeLeadingMentions(
+  args: string,
+  roomAgents: RoomAgents,
+  limit: number = Infinity
+): { agentIds: string[]; rest: string; unknown?: string } {
+  const agentIds: string[] = []
+  let rest = args.trim()
+  const byLength = [...roomAgents].sort((a, b) => b.agent.name.length - a.agent.name.length)
+
+  while (rest.startsWith("@") && agentIds.length < limit) {
+    const candidate = rest.slice(1).toLowerCase()
+    const match = byLength.find(roomAgent => {
+      const name = roomAgent.agent.name.toLowerCase()
+      return candidate.startsWith(name) && /^(\s|$)/.test(candidate.slice(name.length))
+    })
+
+    if (!match) {
+      return { agentIds, rest, unknown: rest.slice(1).split(/\s+/)[0] }
+    }
+
+    if (!agentIds.includes(match.agent.id)) agentIds.push(match.agent.id)
+    rest = rest.slice(match.agent.name.length + 1).trim()
+  }
+
+  return { agentIds, rest }
+}
+
+function flagValue(flag: string | true | undefined): string | undefined {
+  return typeof flag === "string" ? flag : undefined
+}
+
+function firstIssue(error: ZodError): string {
+  return error.errors[0]?.message || "Invalid command"
+}
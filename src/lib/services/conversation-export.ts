@@ -0,0 +1,235 @@
+import { exportConversationSchema } from "@/lib/validations"
+
+export type ExportFormat = "markdown" | "json" | "html"
+
+export interface ExportedAgent {
+  id: string
+  name: string
+  emoji: string
+  color: string
+  style: string
+  // Configuration is left out for other users' private agents
+  prompt?: string
+  llmProvider?: string | null
+  model?: string | null
+  temperature?: number | null
+  topP?: number | null
+  maxTokens?: number | null
+  systemPromptPrefix?: string | null
+}
+
+export interface ExportedMessage {
+  id: string
+  type: "USER" | "AGENT" | "SYSTEM"
+  // Without the [AGENT:...] prefix; the agent is in agentId
+  content: string
+  timestamp: string
+  editedAt: string | null
+  parentId: string | null
+  senderId: string | null
+  senderName: string | null
+  agentId: string | null
+  processingTime: number | null
+  agentConfidence: number | null
+  contextLength: number | null
+  mentions: string[]
+}
+
+export interface ExportedDiscussion {
+  id: string
+  messageId: string
+  status: string
+  topic: string | null
+  intensity: string
+  turnOrder: string[]
+  currentTurn: number
+  maxTurns: number
+  createdAt: string
+  responses: Array<{
+    agentId: string
+    messageId: string
+    turnOrder: number
+    respondingTo: string | null
+    responseTo: string | null
+    createdAt: string
+  }>
+}
+
+/**
+ * Lossless conversation snapshot; the JSON export is exactly this object
+ * Markdown and HTML are rendered from it
+ */
+export interface ConversationExport {
+  version: 1
+  exportedAt: string
+  room: { id: string; name: string; description: string | null }
+  discussionId: string | null
+  filters: { from: string | null; to: string | null; types: Array<"USER" | "AGENT" | "SYSTEM"> | null }
+  agents: ExportedAgent[]
+  messages: ExportedMessage[]
+  discussions: ExportedDiscussion[]
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  markdown: "text/markdown; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  html: "text/html; charset=utf-8"
+}
+
+const EXTENSIONS: Record<ExportFormat, string> = {
+  markdown: "md",
+  json: "json",
+  html: "html"
+}
+
+/**
+ * Validate export options from a download URL's query string
+ * Query: ?format=markdown|json|html, &from=<date>, &to=<date>, &types=USER,AGENT,SYSTEM
+ */
+export function parseExportQuery(searchParams: URLSearchParams) {
+  const types = searchParams.get("types")
+
+  return exportConversationSchema.safeParse({
+    format: searchParams.get("format") || undefined,
+    from: searchParams.get("from") || undefined,
+    to: searchParams.get("to") || undefined,
+    types: types ? types.split(",").map(type => type.trim().toUpperCase()) : undefined
+  })
+}
+
+/**
+ * Render a snapshot in the requested format, ready to be sent as a download
+ */
+export function renderConversationExport(data: ConversationExport, format: ExportFormat) {
+  const body = format === "json"
+    ? JSON.stringify(data, null, 2)
+    : format === "html"
+      ? renderHtml(data)
+      : renderMarkdown(data)
+
+  const slug = data.room.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "room"
+  const date = data.exportedAt.slice(0, 10)
+  const scope = data.discussionId ? `discussion-${data.discussionId}` : slug
+
+  return {
+    filename: `${scope}-${date}.${EXTENSIONS[format]}`,
+    contentType: CONTENT_TYPES[format],
+    body
+  }
+}
+
+function authorName(message: ExportedMessage, agents: Map<string, ExportedAgent>): string {
+  if (message.type === "AGENT") {
+    const agent = message.agentId ? agents.get(message.agentId) : undefined
+    return agent ? `${agent.emoji} ${agent.name}` : "AI Agent"
+  }
+  if (message.type === "SYSTEM") return "Moderator"
+  return message.senderName || "Unknown User"
+}
+
+function title(data: ConversationExport): string {
+  const discussion = data.discussionId && data.discussions.find(d => d.id === data.discussionId)
+  return discussion
+    ? `${data.room.name}: ${discussion.topic || "Discussion"}`
+    : data.room.name
+}
+
+/**
+ * Thread replies follow their root message, indented
+ */
+function orderForTranscript(messages: ExportedMessage[]): Array<{ message: ExportedMessage; isReply: boolean }> {
+  const replies = new Map<string, ExportedMessage[]>()
+  const ids = new Set(messages.map(message => message.id))
+  messages.forEach(message => {
+    if (message.parentId && ids.has(message.parentId)) {
+      replies.set(message.parentId, [...(replies.get(message.parentId) || []), message])
+    }
+  })
+
+  return messages
+    .filter(message => !message.parentId || !ids.has(message.parentId))
+    .flatMap(message => [
+      { message, isReply: !!message.parentId },
+      ...(replies.get(message.id) || []).map(reply => ({ message: reply, isReply: true }))
+    ])
+}
+
+function renderMarkdown(data: ConversationExport): string {
+  const agents = new Map(data.agents.map(agent => [agent.id, agent]))
+  const lines = [
+    `# ${title(data)}`,
+    "",
+    ...(data.room.description ? [data.room.description, ""] : []),
+    `_Exported ${new Date(data.exportedAt).toLocaleString()} · ${data.messages.length} messages_`,
+    ""
+  ]
+
+  if (data.agents.length > 0) {
+    lines.push("**Agents:** " + data.agents.map(agent => `${agent.emoji} ${agent.name} (${agent.style.toLowerCase()})`).join(", "), "")
+  }
+
+  lines.push("---", "")
+
+  orderForTranscript(data.messages).forEach(({ message, isReply }) => {
+    const prefix = isReply ? "> " : ""
+    const edited = message.editedAt ? " _(edited)_" : ""
+    lines.push(`${prefix}**${authorName(message, agents)}** · ${new Date(message.timestamp).toLocaleString()}${edited}`)
+    lines.push(prefix.trimEnd())
+    message.content.split("\n").forEach(line => lines.push(`${prefix}${line}`))
+    lines.push("")
+  })
+
+  return lines.join("\n")
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;")
+}
+
+function renderHtml(data: ConversationExport): string {
+  const agents = new Map(data.agents.map(agent => [agent.id, agent]))
+  const heading = escapeHtml(title(data))
+
+  const items = orderForTranscript(data.messages).map(({ message, isReply }) => {
+    const agent = message.agentId ? agents.get(message.agentId) : undefined
+    const color = message.type === "AGENT" && agent ? agent.color : message.type === "SYSTEM" ? "#6B7280" : "#111827"
+    return `    <article class="message${isReply ? " reply" : ""} ${message.type.toLowerCase()}">
+      <header><strong style="color: ${escapeHtml(color)}">${escapeHtml(authorName(message, agents))}</strong>
+        <time datetime="${message.timestamp}">${escapeHtml(new Date(message.timestamp).toLocaleString())}</time>${message.editedAt ? " <em>(edited)</em>" : ""}</header>
+      <div class="content">${escapeHtml(message.content)}</div>
+    </article>`
+  })
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${heading}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; color: #111827; }
+    .meta { color: #6B7280; font-size: 0.875rem; }
+    .message { border: 1px solid #E5E7EB; border-radius: 0.5rem; padding: 0.75rem 1rem; margin: 0.75rem 0; }
+    .message.reply { margin-left: 2rem; border-left: 3px solid #D1D5DB; }
+    .message.system { background: #F9FAFB; }
+    .message header { display: flex; gap: 0.5rem; align-items: baseline; font-size: 0.875rem; }
+    .message time { color: #6B7280; font-size: 0.75rem; }
+    .content { white-space: pre-wrap; margin-top: 0.25rem; }
+  </style>
+</head>
+<body>
+  <h1>${heading}</h1>
+  ${data.room.description ? `<p>${escapeHtml(data.room.description)}</p>` : ""}
+  <p class="meta">Exported ${escapeHtml(new Date(data.exportedAt).toLocaleString())} · ${data.messages.length} messages${data.agents.length > 0 ? ` · Agents: ${escapeHtml(data.agents.map(agent => `${agent.emoji} ${agent.name}`).join(", "))}` : ""}</p>
+  <main>
+${items.join("\n")}
+  </main>
+</body>
+</html>
+`
+}
@@ -0,0 +1,303 @@
+import { z } from "zod"
+import { agentGenerationSettingsSchema, createAgentSchema } from "@/lib/validations"
+import type { ConversationExport, ExportedAgent, ExportedMessage } from "./conversation-export"
+
+export type ImportSource = "discux" | "markdown" | "chatgpt"
+
+// Stands in for the importing user's ID until the importer resolves it
+export const IMPORTER_ID = "importer"
+
+export const MAX_IMPORT_MESSAGES = 5000
+
+export const IMPORTED_AGENT_PROMPT = "Imported agent. Edit this prompt to describe how the agent should respond."
+
+const exportedAgentSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1).max(100),
+  emoji: z.string().default("🤖"),
+  color: z.string().regex(/^#[0-9A-F]{6}$/i).default("#3B82F6"),
+  style: z.string().default("TRUTH_TELLER"),
+  // Same bounds as agents created in the app
+  prompt: createAgentSchema.shape.prompt.default(IMPORTED_AGENT_PROMPT),
+}).merge(agentGenerationSettingsSchema)
+
+const exportedMessageSchema = z.object({
+  id: z.string(),
+  type: z.enum(["USER", "AGENT", "SYSTEM"]),
+  content: z.string(),
+  timestamp: z.string().datetime(),
+  editedAt: z.string().datetime().nullable().default(null),
+  parentId: z.string().nullable().default(null),
+  senderId: z.string().nullable().default(null),
+  senderName: z.string().nullable().default(null),
+  agentId: z.string().nullable().default(null),
+  processingTime: z.number().nullable().default(null),
+  agentConfidence: z.number().nullable().default(null),
+  contextLength: z.number().int().nullable().default(null),
+  mentions: z.array(z.string()).default([]),
+})
+
+const exportedDiscussionSchema = z.object({
+  id: z.string(),
+  messageId: z.string(),
+  status: z.string(),
+  topic: z.string().nullable().default(null),
+  intensity: z.string(),
+  turnOrder: z.array(z.string()),
+  currentTurn: z.number().int(),
+  maxTurns: z.number().int(),
+  createdAt: z.string().datetime(),
+  responses: z.array(z.object({
+    agentId: z.string(),
+    messageId: z.string(),
+    turnOrder: z.number().int(),
+    respondingTo: z.string().nullable().default(null),
+    responseTo: z.string().nullable().default(null),
+    createdAt: z.string().datetime(),
+  })),
+})
+
+/**
+ * The JSON export format (see conversation-export.ts), as accepted on import
+ */
+export const conversationExportSchema = z.object({
+  version: z.literal(1),
+  exportedAt: z.string().datetime(),
+  room: z.object({
+    id: z.string(),
+    name: z.string().min(1).max(200),
+    description: z.string().max(1000).nullable().default(null),
+  }),
+  discussionId: z.string().nullable().default(null),
+  filters: z.object({
+    from: z.string().nullable(),
+    to: z.string().nullable(),
+    types: z.array(z.enum(["USER", "AGENT", "SYSTEM"])).nullable(),
+  }).default({ from: null, to: null, types: null }),
+  agents: z.array(exportedAgentSchema),
+  messages: z.array(exportedMessageSchema).max(MAX_IMPORT_MESSAGES, `Imports are limited to ${MAX_IMPORT_MESSAGES} messages`),
+  discussions: z.array(exportedDiscussionSchema).default([]),
+})
+
+/**
+ * Parse an uploaded conversation into the export snapshot shape
+ * Markdown and ChatGPT imports get placeholder agent snapshots (IDs prefixed
+ * "import:") and IMPORTER_ID for the user's own messages
+ * Throws with a user-facing message when the file does not match its source
+ */
+export function parseConversationImport(source: ImportSource, raw: string, conversationIndex = 0): ConversationExport {
+  const data = source === "discux"
+    ? parseDiscuxExport(raw)
+    : source === "chatgpt"
+      ? parseChatGptExport(raw, conversationIndex)
+      : parseMarkdownTranscript(raw)
+
+  if (data.messages.length === 0) {
+    throw new Error("No messages found in the file")
+  }
+  if (data.messages.length > MAX_IMPORT_MESSAGES) {
+    throw new Error(`Imports are limited to ${MAX_IMPORT_MESSAGES} messages`)
+  }
+
+  return data
+}
+
+function parseJson(raw: string): unknown {
+  try {
+    return JSON.parse(raw)
+  } catch {
+    throw new Error("The file is not valid JSON")
+  }
+}
+
+function parseDiscuxExport(raw: string): ConversationExport {
+  const parsed = conversationExportSchema.safeParse(parseJson(raw))
+  if (!parsed.success) {
+    const issue = parsed.error.errors[0]
+    throw new Error(`Not a valid conversation export: ${issue?.path.join(".") || "file"} ${issue?.message || ""}`.trim())
+  }
+  return parsed.data
+}
+
+function placeholderAgent(name: string, emoji = "🤖", model: string | null = null): ExportedAgent {
+  return {
+    id: `import:${name}`,
+    name: name.slice(0, 100),
+    emoji,
+    color: "#3B82F6",
+    style: "TRUTH_TELLER",
+    prompt: IMPORTED_AGENT_PROMPT,
+    llmProvider: null,
+    model,
+    temperature: null,
+    topP: null,
+    maxTokens: null,
+    systemPromptPrefix: null
+  }
+}
+
+function importedMessage(index: number, fields: Partial<ExportedMessage> & Pick<ExportedMessage, "type" | "content" | "timestamp">): ExportedMessage {
+  return {
+    id: `import-${index}`,
+    editedAt: null,
+    parentId: null,
+    senderId: null,
+    senderName: null,
+    agentId: null,
+    processingTime: null,
+    agentConfidence: null,
+    contextLength: null,
+    mentions: [],
+    ...fields
+  }
+}
+
+function snapshot(name: string, agents: ExportedAgent[], messages: ExportedMessage[]): ConversationExport {
+  return {
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    room: { id: "import", name: name.slice(0, 200) || "Imported conversation", description: null },
+    discussionId: null,
+    filters: { from: null, to: null, types: null },
+    agents,
+    messages,
+    discussions: []
+  }
+}
+
+/**
+ * ChatGPT's conversations.json: a list of conversations whose messages form a
+ * tree in `mapping`; the branch ending at `current_node` is the one that was shown
+ */
+function parseChatGptExport(raw: string, conversationIndex: number): ConversationExport {
+  const data = parseJson(raw) as any
+  const conversations = Array.isArray(data) ? data : [data]
+  const conversation = conversations[conversationIndex]
+
+  if (!conversation || typeof conversation.mapping !== "object" || conversation.mapping === null) {
+    throw new Error(conversations.length > 1 && conversationIndex >= conversations.length
+      ? `The file has ${conversations.length} conversations; pick one between 1 and ${conversations.length}`
+      : "Not a ChatGPT conversation export")
+  }
+
+  const mapping: Record<string, any> = conversation.mapping
+  const branch: any[] = []
+  let nodeId: string | undefined = conversation.current_node || Object.keys(mapping).pop()
+  // The length check guards against a malformed, cyclic mapping
+  while (nodeId && mapping[nodeId] && branch.length < Object.keys(mapping).length) {
+    branch.unshift(mapping[nodeId])
+    nodeId = mapping[nodeId].parent || undefined
+  }
+
+  const baseTime = typeof conversation.create_time === "number" ? conversation.create_time * 1000 : Date.now()
+  let model: string | null = null
+  const messages: ExportedMessage[] = []
+
+  branch.forEach(node => {
+    const message = node.message
+    const role = message?.author?.role
+    if (role !== "user" && role !== "assistant") return
+
+    const parts: unknown[] = Array.isArray(message.content?.parts) ? message.content.parts : []
+    const content = parts.filter((part): part is string => typeof part === "string").join("\n").trim()
+    if (!content) return
+
+    model = model || message.metadata?.model_slug || null
+    const timestamp = new Date(typeof message.create_time === "number"
+      ? message.create_time * 1000
+      : baseTime + messages.length * 1000).toISOString()
+
+    messages.push(importedMessage(messages.length, role === "user"
+      ? { type: "USER", content, timestamp, senderId: IMPORTER_ID }
+      : { type: "AGENT", content, timestamp, agentId: "import:ChatGPT" }))
+  })
+
+  const agents = messages.some(message => message.type === "AGENT") ? [placeholderAgent("ChatGPT", "🤖", model)] : []
+  return snapshot(typeof conversation.title === "string" ? conversation.title : "ChatGPT conversation", agents, messages)
+}
+
+// "**Name** · time", the transcript header written by the Markdown export
+const EXPORT_HEADER = /^(> )?\*\*(.+?)\*\* · (.+?)( _\(edited\)_)?$/
+// "**Name:** text" or "**Name**: text"
+const BOLD_SPEAKER = /^\*\*(.+?)(?::\*\*|\*\*:)\s*(.*)$/
+// "## Name" on its own line
+const HEADING_SPEAKER = /^#{2,4}\s+(.+?)\s*$/
+const LEADING_EMOJI = /^\p{Extended_Pictographic}️?\s*/u
+const SELF_NAMES = /^(you|user|me)$/i
+const ASSISTANT_NAMES = /^(assistant|chatgpt|ai)$/i
+
+/**
+ * Markdown transcripts: this app's export, or any file that marks speakers with
+ * bold names or headings. Emoji-prefixed and assistant speakers become agents
+ */
+function parseMarkdownTranscript(raw: string): ConversationExport {
+  const lines = raw.replace(/\r\n/g, "\n").split("\n")
+  const title = lines.find(line => /^#\s+/.test(line))?.replace(/^#\s+/, "").trim() || "Imported transcript"
+  const agents = new Map<string, ExportedAgent>()
+  const messages: ExportedMessage[] = []
+  const baseTime = Date.now() - lines.length * 1000
+
+  let current: { speaker: string; time?: string; isReply: boolean; body: string[] } | null = null
+  let lastRootId: string | null = null
+
+  const flush = () => {
+    if (!current) return
+    const content = current.body.join("\n").trim()
+    if (content) {
+      const parsedTime = current.time ? new Date(current.time) : null
+      const timestamp = parsedTime && !isNaN(parsedTime.getTime())
+        ? parsedTime.toISOString()
+        : new Date(baseTime + messages.length * 1000).toISOString()
+      const index = messages.length
+      const parentId = current.isReply ? lastRootId : null
+      const speaker = current.speaker
+      const emoji = speaker.match(LEADING_EMOJI)?.[0].trim()
+      const name = speaker.replace(LEADING_EMOJI, "").trim()
+
+      if (speaker === "Moderator") {
+        messages.push(importedMessage(index, { type: "SYSTEM", content, timestamp, parentId }))
+      } else if (emoji || ASSISTANT_NAMES.test(name)) {
+        if (!agents.has(name)) agents.set(name, placeholderAgent(name, emoji || "🤖"))
+        messages.push(importedMessage(index, { type: "AGENT", content, timestamp, parentId, agentId: `import:${name}` }))
+      } else {
+        messages.push(importedMessage(index, {
+          type: "USER",
+          content,
+          timestamp,
+          parentId,
+          senderId: SELF_NAMES.test(name) ? IMPORTER_ID : null,
+          senderName: name
+        }))
+      }
+
+      if (!current.isReply) lastRootId = `import-${index}`
+    }
+    current = null
+  }
+
+  // In this app's own export, bold lines like "**Agents:**" are not speakers
+  const isOwnExport = lines.some(line => EXPORT_HEADER.test(line))
+
+  lines.forEach(line => {
+    const exportHeader = line.match(EXPORT_HEADER)
+    const boldSpeaker = !isOwnExport && line.match(BOLD_SPEAKER)
+    const headingSpeaker = !isOwnExport && !boldSpeaker && line.match(HEADING_SPEAKER)
+
+    if (exportHeader) {
+      flush()
+      current = { speaker: exportHeader[2].trim(), time: exportHeader[3], isReply: !!exportHeader[1], body: [] }
+    } else if (boldSpeaker) {
+      flush()
+      current = { speaker: boldSpeaker[1].trim(), isReply: false, body: [boldSpeaker[2]] }
+    } else if (headingSpeaker) {
+      flush()
+      current = { speaker: headingSpeaker[1].trim(), isReply: false, body: [] }
+    } else if (current) {
+      // Reply bodies are quoted in the export
+      current.body.push(current.isReply ? line.replace(/^> ?/, "") : line)
+    }
+  })
+  flush()
+
+  return snapshot(title, Array.from(agents.values()), messages)
+}
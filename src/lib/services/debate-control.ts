@@ -0,0 +1,203 @@
+import { getLLMProvider } from "@/lib/llm"
+import { debugLog } from "@/lib/utils/debug-logger"
+import { DEFAULT_DISCUSSION_ROUNDS, DISCUSSION_STOP_CONDITIONS, MAX_DISCUSSION_ROUNDS } from "@/lib/constants"
+
+export type DiscussionStopCondition = typeof DISCUSSION_STOP_CONDITIONS[number]
+
+export interface DebateConfig {
+  rounds: number
+  stopConditions: DiscussionStopCondition[]
+}
+
+/**
+ * Discussion.metadata as stored by the orchestrator
+ */
+export interface DiscussionMetadata extends Partial<DebateConfig> {
+  startTime?: string
+  intensity?: string
+  expectedDuration?: number
+  stopReason?: DiscussionStopCondition | "completed" | "quota"
+  stopDetail?: string
+  concludedAt?: string
+  moderator?: {
+    enabled: boolean
+    agentId?: string
+  }
+  summaryMessageId?: string
+  turnFailures?: TurnFailure[]
+  jobError?: string
+  jobFailedAt?: string
+  [key: string]: unknown
+}
+
+/**
+ * One failed attempt at an agent turn; skipped is set once retries run out
+ */
+export interface TurnFailure {
+  turn: number
+  agentId: string
+  agentName?: string
+  attempt: number
+  error: string
+  skipped: boolean
+  at: string
+}
+
+export interface DebateTurn {
+  agentId: string
+  agentName: string
+  messageId: string
+  content: string
+  turnOrder: number
+}
+
+/**
+ * Parse Discussion.metadata, tolerating null or malformed JSON
+ */
+export function parseDiscussionMetadata(raw: string | null | undefined): DiscussionMetadata {
+  if (!raw) return {}
+  try {
+    const parsed = JSON.parse(raw)
+    return parsed && typeof parsed === "object" ? parsed : {}
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * Resolve rounds and stop conditions from metadata, filling in defaults
+ */
+export function getDebateConfig(metadata: DiscussionMetadata): DebateConfig {
+  const rounds = Math.min(Math.max(metadata.rounds || DEFAULT_DISCUSSION_ROUNDS, 1), MAX_DISCUSSION_ROUNDS)
+  const stopConditions = (metadata.stopConditions || []).filter(
+    (condition): condition is DiscussionStopCondition => DISCUSSION_STOP_CONDITIONS.includes(condition)
+  )
+
+  return {
+    rounds,
+    // maxTurns is always enforced; listing it is just explicit
+    stopConditions: stopConditions.includes("maxTurns") ? stopConditions : ["maxTurns", ...stopConditions]
+  }
+}
+
+/**
+ * Pick the previous turn an agent should address: a turn that named this
+ * agent wins, otherwise the latest turn by someone else
+ */
+export function pickResponseTarget(
+  history: DebateTurn[],
+  agentId: string,
+  agentName: string
+): DebateTurn | undefined {
+  const others = history.filter(turn => turn.agentId !== agentId)
+  if (others.length === 0) return undefined
+
+  const ownLastTurn = [...history].reverse().find(turn => turn.agentId === agentId)
+  const sinceOwnTurn = ownLastTurn
+    ? others.filter(turn => turn.turnOrder > ownLastTurn.turnOrder)
+    : others
+
+  const nameLower = agentName.toLowerCase()
+  const challenger = [...sinceOwnTurn].reverse().find(turn => turn.content.toLowerCase().includes(nameLower))
+
+  return challenger || others[others.length - 1]
+}
+
+/**
+ * Find the participant a reply explicitly addresses by name, if any
+ */
+export function findAddressedTurn(
+  content: string,
+  history: DebateTurn[],
+  agentId: string
+): DebateTurn | undefined {
+  const contentLower = content.toLowerCase()
+  let best: { turn: DebateTurn; index: number } | undefined
+
+  // Latest turn per other agent, choosing the name mentioned earliest in the reply
+  const latestByAgent = new Map<string, DebateTurn>()
+  for (const turn of history) {
+    if (turn.agentId !== agentId) latestByAgent.set(turn.agentId, turn)
+  }
+
+  for (const turn of Array.from(latestByAgent.values())) {
+    const index = contentLower.indexOf(turn.agentName.toLowerCase())
+    if (index !== -1 && (!best || index < best.index)) {
+      best = { turn, index }
+    }
+  }
+
+  return best?.turn
+}
+
+const AGREEMENT_MARKERS = [
+  "i agree", "agree with", "we agree", "consensus", "sepakat", "setuju", "sependapat", "sama pendapat"
+]
+
+const DISAGREEMENT_MARKERS = [
+  "disagree", "i don't agree", "not agree", "however", "but i", "tidak setuju", "kurang setuju",
+  "tidak sependapat", "salah", "keliru", "namun", "tapi"
+]
+
+/**
+ * Heuristic consensus check over one full round: every reply signals
+ * agreement and none pushes back
+ */
+export function detectConsensus(roundTurns: DebateTurn[]): boolean {
+  if (roundTurns.length < 2) return false
+
+  return roundTurns.every(turn => {
+    const text = turn.content.toLowerCase()
+    const agrees = AGREEMENT_MARKERS.some(marker => text.includes(marker))
+    const disagrees = DISAGREEMENT_MARKERS.some(marker => text.includes(marker))
+    return agrees && !disagrees
+  })
+}
+
+/**
+ * Ask the default LLM provider, acting as moderator, whether the debate has run its course
+ */
+export async function askModeratorToStop(
+  topic: string,
+  roundTurns: DebateTurn[],
+  round: number,
+  totalRounds: number,
+  userId?: string,
+  roomId?: string
+): Promise<{ stop: boolean; reason?: string }> {
+  const transcript = roundTurns.map(turn => `[${turn.agentName}]: ${turn.content}`).join("\n\n")
+
+  const moderatorPrompt = `You moderate a multi-agent debate. After each round you decide whether another round would add value.
+Stop when positions have converged, arguments are repeating, or the question is fully answered.
+Reply with JSON only: {"decision": "continue" | "stop", "reason": "<one sentence>"}`
+
+  const message = `Topic: ${topic}
+Round ${round} of ${totalRounds} just finished.
+
+${transcript}`
+
+  try {
+    const response = await getLLMProvider().generateAgentResponse(
+      moderatorPrompt,
+      "MODERATOR",
+      message,
+      [],
+      userId,
+      { temperature: 0, maxTokens: 200, usageContext: { purpose: "discussion_moderator", roomId } }
+    )
+
+    const match = response.content.match(/\{[\s\S]*\}/)
+    if (!match) return { stop: false }
+
+    const verdict = JSON.parse(match[0])
+    debugLog('DISCUSSION', `Moderator verdict after round ${round}:`, verdict)
+
+    return {
+      stop: String(verdict.decision).toLowerCase() === "stop",
+      reason: typeof verdict.reason === "string" ? verdict.reason : undefined
+    }
+  } catch (error) {
+    console.error("Moderator check failed, continuing debate:", error)
+    return { stop: false }
+  }
+}
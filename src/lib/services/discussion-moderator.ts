@@ -0,0 +1,156 @@
+import type { Prisma } from "@prisma/client"
+import { prisma } from "@/lib/db"
+import { getLLMProvider, toGenerationSettings, type LLMGenerateOptions } from "@/lib/llm"
+import { debugLog } from "@/lib/utils/debug-logger"
+import type { DebateTurn } from "./debate-control"
+import type { DiscussionSummary } from "./socket-service"
+
+const MODERATOR_PROMPT = `You are the neutral moderator of a multi-agent discussion. The debate is over; your job is to synthesize it, not to add new opinions.
+
+Reply with JSON only, using this exact shape:
+{
+  "summary": "<2-3 sentence verdict>",
+  "agreements": ["<point every participant accepted>"],
+  "disagreements": ["<point still contested, naming who holds which side>"],
+  "actionItems": ["<concrete next step for the user>"],
+  "openQuestions": ["<question the discussion did not resolve>"]
+}
+
+Write in the same language the participants used. Use empty arrays when a section has nothing to report.`
+
+/**
+ * Produce a structured verdict for a finished discussion
+ * Uses the moderator agent's provider and settings when one is assigned,
+ * otherwise the default provider. Throws when the provider only returns its fallback
+ */
+export async function synthesizeDiscussion(
+  topic: string,
+  turns: DebateTurn[],
+  moderatorAgentId?: string,
+  userId?: string,
+  roomId?: string
+): Promise<Omit<DiscussionSummary, "messageId">> {
+  let prompt = MODERATOR_PROMPT
+  let providerName: string | null = null
+  let settings: LLMGenerateOptions = {
+    temperature: 0.2,
+    usageContext: { purpose: "discussion_moderator", roomId, agentId: moderatorAgentId }
+  }
+
+  if (moderatorAgentId && roomId) {
+    const moderator = await prisma.agent.findFirst({
+      where: moderatorAgentWhere(moderatorAgentId, roomId, userId),
+      select: {
+        prompt: true,
+        llmProvider: true,
+        model: true,
+        temperature: true,
+        topP: true,
+        maxTokens: true,
+        systemPromptPrefix: true
+      }
+    })
+
+    if (moderator) {
+      prompt = `${moderator.prompt}\n\n${MODERATOR_PROMPT}`
+      providerName = moderator.llmProvider
+      settings = { ...settings, ...toGenerationSettings(moderator) }
+    }
+  }
+
+  const transcript = turns
+    .map(turn => `[Turn ${turn.turnOrder + 1}] ${turn.agentName}: ${turn.content}`)
+    .join("\n\n")
+
+  const response = await getLLMProvider(providerName).generateAgentResponse(
+    prompt,
+    "MODERATOR",
+    `Topic: ${topic}\n\nTranscript:\n${transcript}`,
+    [],
+    userId,
+    settings
+  )
+
+  // Providers answer with a canned fallback when the API fails; that is no verdict
+  if (response.model === "fallback") {
+    throw new Error("LLM provider unavailable")
+  }
+
+  debugLog('DISCUSSION', `Moderator synthesis received (${response.content.length} chars)`)
+
+  return parseVerdict(response.content)
+}
+
+/**
+ * Whether the user may pick the agent as a discussion's moderator
+ */
+export async function canUseModeratorAgent(agentId: string, roomId: string, userId: string): Promise<boolean> {
+  const agent = await prisma.agent.findFirst({
+    where: moderatorAgentWhere(agentId, roomId, userId),
+    select: { id: true }
+  })
+  return agent !== null
+}
+
+/**
+ * Moderators must be in the room, owned by the user, or public
+ */
+function moderatorAgentWhere(agentId: string, roomId: string, userId?: string): Prisma.AgentWhereInput {
+  return {
+    id: agentId,
+    OR: [
+      { roomAgents: { some: { roomId } } },
+      ...(userId ? [{ createdBy: userId }] : []),
+      { isPublic: true }
+    ]
+  }
+}
+
+/**
+ * Render a verdict as the Markdown body of the SYSTEM message
+ */
+export function formatVerdictMessage(
+  verdict: Omit<DiscussionSummary, "messageId">,
+  title: string = "⚖️ **Moderator verdict**"
+): string {
+  const section = (heading: string, items: string[]) =>
+    items.length > 0 ? `\n\n**${heading}**\n${items.map(item => `- ${item}`).join("\n")}` : ""
+
+  return `${title}\n\n${verdict.summary}` +
+    section("Points of agreement", verdict.agreements) +
+    section("Disagreements", verdict.disagreements) +
+    section("Recommended action items", verdict.actionItems) +
+    section("Open questions", verdict.openQuestions)
+}
+
+/**
+ * Parse the moderator's JSON, falling back to the raw text as the summary
+ */
+function parseVerdict(content: string): Omit<DiscussionSummary, "messageId"> {
+  const toList = (value: unknown): string[] =>
+    Array.isArray(value) ? value.filter((item): item is string => typeof item === "string" && item.trim() !== "") : []
+
+  const match = content.match(/\{[\s\S]*\}/)
+  if (match) {
+    try {
+      const parsed = JSON.parse(match[0])
+      return {
+        summary: typeof parsed.summary === "string" ? parsed.summary : "",
+        agreements: toList(parsed.agreements),
+        disagreements: toList(parsed.disagreements),
+        actionItems: toList(parsed.actionItems),
+        openQuestions: toList(parsed.openQuestions)
+      }
+    } catch {
+      // Fall through to the plain-text verdict
+    }
+  }
+
+  return {
+    summary: content.trim(),
+    agreements: [],
+    disagreements: [],
+    actionItems: [],
+    openQuestions: []
+  }
+}
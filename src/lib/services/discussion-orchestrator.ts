@@ -1,11 +1,31 @@
 import { prisma } from "@/lib/db"
-import { getZAIClient } from "@/lib/zai"
+import { getLLMProvider, isAbortError, toGenerationSettings } from "@/lib/llm"
+import { linkUsageToMessage } from "./usage-ledger"
 import { createAgentMessage } from "@/lib/actions/messages"
+import { createSystemMessage } from "./system-messages"
 import { getConversationContext } from "@/lib/vector-store"
-import { getSocketService, DiscussionUpdate, AgentProgressUpdate } from "./socket-service"
+import { getRoomSummaryForPrompt } from "./room-summarizer"
+import { getQuotaService, QuotaExceededError } from "./quota-service"
+import { getSocketService, DiscussionUpdate, AgentProgressUpdate, DiscussionSummary } from "./socket-service"
 import { getEnhancedVectorSearch } from "./enhanced-vector-search"
+import { createAgentStream, type AgentStream } from "./agent-stream"
+import { formatVerdictMessage, synthesizeDiscussion } from "./discussion-moderator"
+import {
+  askModeratorToStop,
+  detectConsensus,
+  findAddressedTurn,
+  getDebateConfig,
+  parseDiscussionMetadata,
+  pickResponseTarget,
+  type DebateTurn,
+  type DiscussionMetadata,
+  type DiscussionStopCondition,
+  type TurnFailure
+} from "./debate-control"
 import { debugLog } from "@/lib/utils/debug-logger"
+import { DEFAULT_DISCUSSION_ROUNDS } from "@/lib/constants"
 import type { QueryIntent } from "./enhanced-vector-search"
+import type { DiscussionSteer, Prisma } from "@prisma/client"
 
 // Define AITrueIntent type locally - aligned with QueryIntent from enhanced-vector-search
 interface AITrueIntent {
@@ -38,6 +58,35 @@ function convertQueryIntentToAITrueIntent(queryIntent: QueryIntent): AITrueInten
   }
 }
 
+// Agent turns are retried with exponential backoff before being skipped
+const MAX_TURN_ATTEMPTS = 3
+const TURN_RETRY_BASE_DELAY_MS = 1000
+
+// How often an in-flight turn re-checks the discussion status
+const STATUS_POLL_INTERVAL_MS = 1000
+
+declare global {
+  var __discussionTurnControllers: Map<string, AbortController> | undefined
+}
+
+/**
+ * AbortControllers for in-flight turns, keyed by discussion
+ * Kept on globalThis so route handlers and the worker share one map
+ */
+function getTurnControllers(): Map<string, AbortController> {
+  if (!globalThis.__discussionTurnControllers) {
+    globalThis.__discussionTurnControllers = new Map()
+  }
+  return globalThis.__discussionTurnControllers
+}
+
+/**
+ * Abort the in-flight turn of a discussion, if any
+ */
+function abortCurrentTurn(discussionId: string) {
+  getTurnControllers().get(discussionId)?.abort()
+}
+
 // Truth Teller Enhancement - simple enhancement for all agents
 const TRUTH_TELLER_ENHANCEMENT = `
 Communication Style:
@@ -57,7 +106,19 @@ export interface DiscussionContext {
     currentTurn: number
     turnOrder: string[]
     maxTurns: number
+    round: number
+    totalRounds: number
   }
+  respondingTo?: {
+    agentName: string
+    content: string
+  }
+  // User interjections posted since the previous turn
+  steering?: Array<{
+    author: string
+    content: string
+    topic?: string
+  }>
   previousResponses: Array<{
     agentId: string
     agentName: string
@@ -76,17 +137,29 @@ export interface DiscussionContext {
     growthBlockers: string[]
   }
   aiIntent?: AITrueIntent  // AI-driven intent analysis and instructions
+  roomSummary?: string  // Rolling room summary when autoSummarize is on
+}
+
+export interface DiscussionOptions {
+  rounds?: number
+  maxTurns?: number
+  stopConditions?: DiscussionStopCondition[]
+  // Synthesize a verdict once the debate ends, optionally in a given agent's voice
+  moderator?: boolean
+  moderatorAgentId?: string
 }
 
 /**
  * Create a new multi-agent discussion
+ * Each agent speaks once per round; maxTurns caps the total across rounds
  */
 export async function createDiscussion(
   roomId: string,
   messageId: string,
   agentIds: string[],
   topic?: string,
-  intensity: 'NORMAL' | 'BRUTAL' | 'INTENSE' | 'EXTREME' = 'NORMAL'
+  intensity: 'NORMAL' | 'BRUTAL' | 'INTENSE' | 'EXTREME' = 'NORMAL',
+  options: DiscussionOptions = {}
 ) {
   try {
     // Determine optimal turn order based on agent styles
@@ -98,6 +171,23 @@ export async function createDiscussion(
     // Smart turn ordering: brutal advisors first to set tone, then build discussion
     const turnOrder = determineOptimalTurnOrder(agents, intensity)
 
+    const { rounds, stopConditions } = getDebateConfig({
+      rounds: options.rounds ?? DEFAULT_DISCUSSION_ROUNDS,
+      stopConditions: options.stopConditions
+    })
+    const maxTurns = Math.min(options.maxTurns ?? turnOrder.length * rounds, turnOrder.length * rounds)
+
+    const metadata: DiscussionMetadata = {
+      startTime: new Date().toISOString(),
+      intensity,
+      expectedDuration: calculateExpectedDuration(agents.length, intensity) * rounds,
+      rounds,
+      stopConditions,
+      moderator: options.moderator || options.moderatorAgentId
+        ? { enabled: true, agentId: options.moderatorAgentId }
+        : undefined
+    }
+
     const discussion = await prisma.discussion.create({
       data: {
         roomId,
@@ -105,12 +195,9 @@ export async function createDiscussion(
         topic,
         intensity,
         turnOrder: JSON.stringify(turnOrder),
+        maxTurns,
         status: 'ACTIVE',
-        metadata: JSON.stringify({
-          startTime: new Date().toISOString(),
-          intensity,
-          expectedDuration: calculateExpectedDuration(agents.length, intensity)
-        })
+        metadata: JSON.stringify(metadata)
       }
     })
 
@@ -124,7 +211,9 @@ export async function createDiscussion(
         currentTurn: 0,
         currentAgent: turnOrder[0],
         nextAgent: turnOrder[1],
-        intensity
+        intensity,
+        round: 1,
+        totalRounds: rounds
       }
       socketService.broadcastDiscussionUpdate(roomId, update)
     }
@@ -178,11 +267,15 @@ export async function executeDiscussion(
     const turnOrder = JSON.parse(discussion.turnOrder)
 
     // Get conversation context
-    const conversationHistory = await getConversationContext(
-      discussion.room.id,
-      discussion.message.content,
-      10
-    )
+    const [conversationHistory, roomSummary] = await Promise.all([
+      getConversationContext(
+        discussion.room.id,
+        discussion.message.content,
+        10,
+        userId
+      ),
+      getRoomSummaryForPrompt(discussion.room.id)
+    ])
 
     // Get AI-driven intent analysis for enhanced context
     let aiIntent: AITrueIntent | undefined = undefined
@@ -203,7 +296,7 @@ export async function executeDiscussion(
 
     // Continue discussion from current turn with AI-enhanced context
     const result = await continueDiscussion(
-      { ...discussion, turnOrder }, // Add parsed turnOrder to discussion object
+      { ...discussion, turnOrder, roomSummary }, // Add parsed turnOrder and the room summary to discussion object
       conversationHistory,
       userPatterns,
       userId,
@@ -223,6 +316,8 @@ export async function executeDiscussion(
 
 /**
  * Continue discussion from current turn
+ * Runs round after round until maxTurns is reached, a configured stop
+ * condition fires, or the discussion is paused or stopped
  */
 async function continueDiscussion(
   discussion: any,
@@ -233,39 +328,80 @@ async function continueDiscussion(
   aiIntent?: AITrueIntent
 ) {
   const responses = []
-  const { turnOrder, currentTurn, maxTurns, intensity } = discussion
-
-  // Check if discussion should continue
-  if (currentTurn >= turnOrder.length || currentTurn >= maxTurns) {
-    // Conclude discussion
-    await prisma.discussion.update({
+  const { turnOrder, intensity } = discussion
+  const metadata = parseDiscussionMetadata(discussion.metadata)
+  const { rounds, stopConditions } = getDebateConfig(metadata)
+  const plannedTurns = turnOrder.length * rounds
+  // Steers can extend maxTurns mid-run, so the limit is re-read every turn
+  let totalTurns: number = discussion.maxTurns
+  let totalRounds = Math.max(rounds, Math.ceil(totalTurns / turnOrder.length))
+  const socketService = getSocketService()
+
+  // Turns taken before this run (e.g. before a pause) seed the debate history
+  const history: DebateTurn[] = discussion.responses.map((resp: any) => ({
+    agentId: resp.agent.id,
+    agentName: resp.agent.name,
+    messageId: resp.messageId,
+    content: stripAgentHeader(resp.message.content),
+    turnOrder: resp.turnOrder
+  }))
+
+  // A crash between saving a response and advancing currentTurn must not replay that turn
+  const lastRecordedTurn = history.reduce((max, turn) => Math.max(max, turn.turnOrder), -1)
+  let currentTurn: number = Math.max(discussion.currentTurn, lastRecordedTurn + 1)
+  let stopReason: DiscussionMetadata['stopReason']
+  let stopDetail: string | undefined
+
+  while (true) {
+    // Pause/stop requests and steers take effect between turns
+    const latest = await prisma.discussion.findUnique({
       where: { id: discussion.id },
-      data: { status: 'CONCLUDED' }
+      select: { status: true, topic: true, maxTurns: true }
     })
 
-    return {
-      success: true,
-      data: {
-        status: 'CONCLUDED',
-        message: 'Discussion completed',
-        responses: discussion.responses
+    if (latest?.status !== 'ACTIVE') {
+      return {
+        success: true,
+        data: {
+          status: latest?.status || 'STOPPED',
+          discussionId: discussion.id,
+          currentTurn,
+          responses,
+          hasMore: true
+        }
       }
     }
-  }
 
-  // Process remaining turns sequentially
-  for (let i = currentTurn; i < Math.min(turnOrder.length, currentTurn + 3); i++) {
-    const agentId = turnOrder[i]
+    discussion.topic = latest.topic
+    totalTurns = latest.maxTurns
+    totalRounds = Math.max(rounds, Math.ceil(totalTurns / turnOrder.length))
+    if (currentTurn >= totalTurns) break
 
-      // Build context for this agent
-    const context = await buildAgentContext(
-      discussion,
-      agentId,
-      i,
-      conversationHistory,
-      userPatterns,
-      aiIntent
-    )
+    const i = currentTurn
+    const round = Math.floor(i / turnOrder.length) + 1
+
+    // Interjections posted so far; unapplied ones are shown to the next speaker
+    const steers = await prisma.discussionSteer.findMany({
+      where: { discussionId: discussion.id },
+      orderBy: { createdAt: 'asc' }
+    })
+    const pendingSteers = steers.filter(steer => steer.appliedAtTurn === null)
+
+    // The latest "next: <agent>" request overrides the round-robin for this turn
+    const requestedAgentId = [...pendingSteers].reverse()
+      .map(steer => steer.nextAgentId)
+      .find((id): id is string => !!id && turnOrder.includes(id))
+    const agentId: string = requestedAgentId || turnOrder[i % turnOrder.length]
+
+    // Each turn is an LLM call on the starting user's monthly quota, metered by the provider
+    try {
+      await getQuotaService().assertQuota(userId, 'llmCalls')
+    } catch (error) {
+      if (!(error instanceof QuotaExceededError)) throw error
+      stopReason = 'quota'
+      stopDetail = error.message
+      break
+    }
 
     // Get agent information for broadcasting
     const agent = await prisma.agent.findUnique({
@@ -273,8 +409,25 @@ async function continueDiscussion(
       select: { name: true, emoji: true }
     })
 
+    // Decide which earlier turn this agent should answer
+    const target = pickResponseTarget(history, agentId, agent?.name || '')
+
+    // Build context for this agent
+    const context = buildAgentContext(
+      discussion,
+      history,
+      steers,
+      i,
+      round,
+      totalRounds,
+      totalTurns,
+      target,
+      conversationHistory,
+      userPatterns,
+      aiIntent
+    )
+
     // Broadcast agent starting event
-    const socketService = getSocketService()
     if (socketService) {
       const startingProgress: AgentProgressUpdate = {
         type: 'agent_starting',
@@ -284,23 +437,67 @@ async function continueDiscussion(
         agentName: agent?.name || 'Agent',
         agentEmoji: agent?.emoji || '🤖',
         turnOrder: i,
-        totalTurns: turnOrder.length
+        totalTurns
       }
       socketService.broadcastAgentProgress(discussion.room.id, startingProgress)
     }
 
-    // Generate agent response
-    const response = await generateContextualAgentResponse(
+    // Pause/stop abort the in-flight request, whether they land in this process
+    // (via the controller map) or another one (via the status poll)
+    const controller = new AbortController()
+    getTurnControllers().set(discussion.id, controller)
+    const stopWatching = watchDiscussionStatus(discussion.id, controller)
+
+    const generate = () => generateContextualAgentResponse(
       agentId,
       discussion.room.id,
       context,
       discussion.message.content,
       userId,
       userName,
-      intensity
+      intensity,
+      controller.signal
     )
 
+    // Generate agent response, retrying transient failures with backoff
+    let response = await generate()
+
+    for (let attempt = 1; !response.success && !controller.signal.aborted; attempt++) {
+      const willRetry = attempt < MAX_TURN_ATTEMPTS
+      await recordTurnFailure(discussion.id, metadata, {
+        turn: i,
+        agentId,
+        agentName: agent?.name,
+        attempt,
+        error: response.error || "Unknown error",
+        skipped: !willRetry,
+        at: new Date().toISOString()
+      })
+
+      if (!willRetry) break
+
+      await delay(TURN_RETRY_BASE_DELAY_MS * 2 ** (attempt - 1))
+      response = await generate()
+    }
+
+    stopWatching()
+    if (getTurnControllers().get(discussion.id) === controller) {
+      getTurnControllers().delete(discussion.id)
+    }
+
+    // An interrupted turn is not consumed: resume replays it from the start
+    // (the provider already gave its aborted LLM call back to the quota)
+    if (!response.success && controller.signal.aborted) {
+      debugLog('DISCUSSION', `Turn ${i} of ${discussion.id} aborted by status change`)
+      continue
+    }
+
     if (response.success) {
+      const content = response.data!.response.content
+
+      // A reply that names another participant addresses that participant's latest turn
+      const addressed = findAddressedTurn(content, history, agentId) || target
+
       // Store discussion response
       await prisma.discussionResponse.create({
         data: {
@@ -308,49 +505,35 @@ async function continueDiscussion(
           agentId,
           messageId: response.data!.message.id,
           turnOrder: i,
-          respondingTo: i > 0 ? turnOrder[i - 1] : null,
-          responseTo: i > 0 ? discussion.responses[i - 1]?.messageId : null
+          respondingTo: addressed?.agentId ?? null,
+          responseTo: addressed?.messageId ?? null
         }
       })
 
-      responses.push(response.data)
-
-      // Update discussion current turn
-      await prisma.discussion.update({
-        where: { id: discussion.id },
-        data: { currentTurn: i + 1 }
+      history.push({
+        agentId,
+        agentName: response.data!.agent.name,
+        messageId: response.data!.message.id,
+        content,
+        turnOrder: i
       })
+      responses.push(response.data)
 
       // Broadcast agent completion event
-      const completionProgress: AgentProgressUpdate = {
-        type: 'agent_complete',
-        discussionId: discussion.id,
-        roomId: discussion.room.id,
-        agentId,
-        agentName: agent?.name || 'Agent',
-        agentEmoji: agent?.emoji || '🤖',
-        turnOrder: i,
-        totalTurns: turnOrder.length,
-        processingTime: response.data?.response?.processingTime || 0
-      }
-      socketService!.broadcastAgentProgress(discussion.room.id, completionProgress)
-
-      // Broadcast discussion update via Socket.io
       if (socketService) {
-        const update: DiscussionUpdate = {
+        const completionProgress: AgentProgressUpdate = {
+          type: 'agent_complete',
           discussionId: discussion.id,
           roomId: discussion.room.id,
-          status: 'STARTED', // Still ongoing
-          currentTurn: i + 1,
-          currentAgent: turnOrder[i + 1], // Next agent
-          nextAgent: turnOrder[i + 2], // Agent after next
-          intensity: discussion.intensity
+          agentId,
+          agentName: agent?.name || 'Agent',
+          agentEmoji: agent?.emoji || '🤖',
+          turnOrder: i,
+          totalTurns,
+          processingTime: response.data?.response?.processingTime || 0
         }
-        socketService.broadcastDiscussionUpdate(discussion.room.id, update)
+        socketService.broadcastAgentProgress(discussion.room.id, completionProgress)
       }
-
-      // Add delay for natural feel
-      await delay(1000 + Math.random() * 2000)
     } else {
       console.error(`Failed to generate response for agent ${agentId}:`, response.error)
 
@@ -363,39 +546,282 @@ async function continueDiscussion(
         agentName: agent?.name || 'Agent',
         agentEmoji: agent?.emoji || '🤖',
         turnOrder: i,
-        totalTurns: turnOrder.length,
+        totalTurns,
         errorMessage: response.error || "Unknown error"
       }
       if (socketService) {
         socketService.broadcastAgentProgress(discussion.room.id, errorProgress)
       }
     }
+
+    // A turn that failed every retry is skipped so the debate can still finish
+    currentTurn = i + 1
+    const advanced = await prisma.discussion.update({
+      where: { id: discussion.id },
+      data: { currentTurn },
+      select: { maxTurns: true }
+    })
+    totalTurns = advanced.maxTurns
+    totalRounds = Math.max(rounds, Math.ceil(totalTurns / turnOrder.length))
+
+    // Steers seen by this turn are done; ones posted during it wait for the next
+    if (pendingSteers.length > 0) {
+      await prisma.discussionSteer.updateMany({
+        where: { id: { in: pendingSteers.map(steer => steer.id) } },
+        data: { appliedAtTurn: i }
+      })
+    }
+
+    // Broadcast discussion update via Socket.io
+    if (socketService && currentTurn < totalTurns) {
+      const update: DiscussionUpdate = {
+        discussionId: discussion.id,
+        roomId: discussion.room.id,
+        status: 'STARTED', // Still ongoing
+        currentTurn,
+        currentAgent: turnOrder[currentTurn % turnOrder.length], // Next agent
+        nextAgent: currentTurn + 1 < totalTurns ? turnOrder[(currentTurn + 1) % turnOrder.length] : undefined,
+        intensity: discussion.intensity,
+        round: Math.floor(currentTurn / turnOrder.length) + 1,
+        totalRounds
+      }
+      socketService.broadcastDiscussionUpdate(discussion.room.id, update)
+    }
+
+    if (currentTurn >= totalTurns) break
+
+    // Stop conditions are checked once every agent has had its say in a round
+    if (currentTurn % turnOrder.length === 0) {
+      const roundTurns = history.filter(turn => turn.turnOrder >= currentTurn - turnOrder.length)
+
+      if (stopConditions.includes('consensus') && detectConsensus(roundTurns)) {
+        stopReason = 'consensus'
+        break
+      }
+
+      if (stopConditions.includes('moderator')) {
+        const verdict = await askModeratorToStop(
+          discussion.topic || discussion.message.content,
+          roundTurns,
+          round,
+          totalRounds,
+          userId,
+          discussion.room.id
+        )
+        if (verdict.stop) {
+          stopReason = 'moderator'
+          stopDetail = verdict.reason
+          break
+        }
+      }
+    }
+
+    // Add delay for natural feel
+    await delay(1000 + Math.random() * 2000)
+  }
+
+  if (stopReason === 'quota' && stopDetail) {
+    await createSystemMessage(discussion.room.id, `⚠️ ${stopDetail}`)
+  }
+
+  // Running out of turns before the last round finished means maxTurns cut it short
+  if (!stopReason) {
+    stopReason = totalTurns < plannedTurns ? 'maxTurns' : 'completed'
   }
 
+  const summary = await concludeDiscussion(discussion, metadata, history, currentTurn, stopReason, stopDetail, userId)
+
   return {
     success: true,
     data: {
-      status: 'CONTINUING',
+      status: 'CONCLUDED',
       discussionId: discussion.id,
-      currentTurn: Math.min(currentTurn + 3, turnOrder.length),
+      currentTurn,
       responses,
-      hasMore: currentTurn + 3 < turnOrder.length
+      hasMore: false,
+      stopReason,
+      stopDetail,
+      summary
     }
   }
 }
 
+/**
+ * Poll the discussion status during a turn and abort once it leaves ACTIVE
+ * Returns a function that stops the poll
+ */
+function watchDiscussionStatus(discussionId: string, controller: AbortController): () => void {
+  const timer = setInterval(async () => {
+    try {
+      const latest = await prisma.discussion.findUnique({
+        where: { id: discussionId },
+        select: { status: true }
+      })
+      if (latest?.status !== 'ACTIVE') {
+        controller.abort()
+      }
+    } catch (error) {
+      console.error("Failed to poll discussion status:", error)
+    }
+  }, STATUS_POLL_INTERVAL_MS)
+
+  controller.signal.addEventListener('abort', () => clearInterval(timer), { once: true })
+  return () => clearInterval(timer)
+}
+
+/**
+ * Merge keys into Discussion.metadata, re-reading the row in a transaction so
+ * writers holding an older copy (the run, the queue) keep each other's keys
+ */
+export async function updateDiscussionMetadata(
+  discussionId: string,
+  changes: (current: DiscussionMetadata) => Partial<DiscussionMetadata>,
+  data: Prisma.DiscussionUpdateInput = {}
+) {
+  return prisma.$transaction(async (tx) => {
+    const discussion = await tx.discussion.findUniqueOrThrow({
+      where: { id: discussionId },
+      select: { metadata: true }
+    })
+    const current = parseDiscussionMetadata(discussion.metadata)
+
+    return tx.discussion.update({
+      where: { id: discussionId },
+      data: { ...data, metadata: JSON.stringify({ ...current, ...changes(current) }) }
+    })
+  })
+}
+
+/**
+ * Append a turn failure to Discussion.metadata so the status API can report it
+ */
+async function recordTurnFailure(
+  discussionId: string,
+  metadata: DiscussionMetadata,
+  failure: TurnFailure
+) {
+  metadata.turnFailures = [...(metadata.turnFailures || []), failure]
+
+  try {
+    await updateDiscussionMetadata(discussionId, current => ({
+      turnFailures: [...(current.turnFailures || []), failure]
+    }))
+  } catch (error) {
+    console.error("Failed to record turn failure:", error)
+  }
+}
+
+/**
+ * Mark a discussion CONCLUDED, record why it stopped and, when a moderator
+ * is enabled, post the synthesized verdict as a SYSTEM message
+ */
+async function concludeDiscussion(
+  discussion: any,
+  metadata: DiscussionMetadata,
+  history: DebateTurn[],
+  currentTurn: number,
+  stopReason: NonNullable<DiscussionMetadata['stopReason']>,
+  stopDetail?: string,
+  userId?: string
+): Promise<DiscussionSummary | undefined> {
+  let summary: DiscussionSummary | undefined
+
+  if (metadata.moderator?.enabled && history.length > 0) {
+    try {
+      const verdict = await synthesizeDiscussion(
+        discussion.topic || discussion.message.content,
+        history,
+        metadata.moderator.agentId,
+        userId,
+        discussion.room.id
+      )
+
+      // The header links the message back to its discussion
+      const message = await createSystemMessage(
+        discussion.room.id,
+        `[DISCUSSION:${discussion.id}]\n${formatVerdictMessage(verdict)}`
+      )
+
+      if (message.success && message.data) {
+        summary = { ...verdict, messageId: message.data.id }
+      }
+    } catch (error) {
+      console.error("Failed to synthesize discussion verdict:", error)
+    }
+  }
+
+  await updateDiscussionMetadata(discussion.id, () => ({
+    stopReason,
+    stopDetail,
+    summaryMessageId: summary?.messageId,
+    concludedAt: new Date().toISOString()
+  }), { status: 'CONCLUDED' })
+
+  const socketService = getSocketService()
+  if (socketService) {
+    const update: DiscussionUpdate = {
+      discussionId: discussion.id,
+      roomId: discussion.room.id,
+      status: 'CONCLUDED',
+      currentTurn,
+      intensity: discussion.intensity,
+      stopReason,
+      summary
+    }
+    socketService.broadcastDiscussionUpdate(discussion.room.id, update)
+  }
+
+  return summary
+}
+
 /**
  * Build contextual information for an agent
  */
-async function buildAgentContext(
+function buildAgentContext(
   discussion: any,
-  _agentId: string,  // Prefix with underscore to indicate intentionally unused
+  history: DebateTurn[],
+  steers: DiscussionSteer[],
   turnOrder: number,
+  round: number,
+  totalRounds: number,
+  totalTurns: number,
+  target: DebateTurn | undefined,
   conversationHistory: any[],
   userPatterns?: any,
   aiIntent?: AITrueIntent
-): Promise<DiscussionContext> {
-  const previousResponses = discussion.responses.slice(0, turnOrder)
+): DiscussionContext {
+  // Keep the prompt bounded: the last two rounds carry the live arguments
+  const recent = history.slice(-discussion.turnOrder.length * 2)
+  const since = recent[0]?.turnOrder ?? 0
+
+  // Earlier interjections sit in the transcript just before the turn they preceded
+  const steerEntries = steers
+    .filter(steer => steer.appliedAtTurn !== null && steer.atTurn >= since && steer.content)
+    .map(steer => ({
+      agentId: `user:${steer.userId}`,
+      agentName: `${steer.userName || 'User'} (user)`,
+      content: steer.content,
+      turnOrder: steer.atTurn - 0.5
+    }))
+
+  const previousResponses = [
+    ...recent.map((turn, idx) => ({
+      agentId: turn.agentId,
+      agentName: turn.agentName,
+      content: turn.content,
+      turnOrder: turn.turnOrder,
+      respondingTo: idx > 0 ? recent[idx - 1].agentName : undefined
+    })),
+    ...steerEntries
+  ].sort((a, b) => a.turnOrder - b.turnOrder)
+
+  const steering = steers
+    .filter(steer => steer.appliedAtTurn === null && (steer.content || steer.topic))
+    .map(steer => ({
+      author: steer.userName || 'User',
+      content: steer.content,
+      topic: steer.topic || undefined
+    }))
 
   return {
     discussion: {
@@ -404,21 +830,27 @@ async function buildAgentContext(
       intensity: discussion.intensity,
       currentTurn: turnOrder,
       turnOrder: discussion.turnOrder,
-      maxTurns: discussion.maxTurns
+      maxTurns: totalTurns,
+      round,
+      totalRounds
     },
-    previousResponses: previousResponses.map((resp: any, idx: number) => ({
-      agentId: resp.agent.id,
-      agentName: resp.agent.name,
-      content: resp.message.content,
-      turnOrder: idx,
-      respondingTo: idx > 0 ? discussion.responses[idx - 1].agent.name : undefined
-    })),
+    respondingTo: target ? { agentName: target.agentName, content: target.content } : undefined,
+    steering: steering.length > 0 ? steering : undefined,
+    previousResponses,
     conversationHistory,
     userPatterns,
-    aiIntent  // Include AI-driven intent analysis and instructions
+    aiIntent,  // Include AI-driven intent analysis and instructions
+    roomSummary: discussion.roomSummary || undefined
   }
 }
 
+/**
+ * Remove the [AGENT:...] header createAgentMessage prepends to stored content
+ */
+function stripAgentHeader(content: string): string {
+  return content.replace(/^\[AGENT:[^\]]*\]\n/, '')
+}
+
 /**
  * Generate agent response with enhanced context and brutal prompts
  */
@@ -429,8 +861,11 @@ async function generateContextualAgentResponse(
   userMessage: string,
   userId: string,
   userName?: string,
-  intensity: 'NORMAL' | 'BRUTAL' | 'INTENSE' | 'EXTREME' = 'NORMAL'
+  intensity: 'NORMAL' | 'BRUTAL' | 'INTENSE' | 'EXTREME' = 'NORMAL',
+  signal?: AbortSignal
 ) {
+  let stream: AgentStream | undefined
+
   try {
     const agent = await prisma.agent.findUnique({
       where: { id: agentId },
@@ -440,7 +875,13 @@ async function generateContextualAgentResponse(
         prompt: true,
         style: true,
         color: true,
-        emoji: true
+        emoji: true,
+        llmProvider: true,
+        model: true,
+        temperature: true,
+        topP: true,
+        maxTokens: true,
+        systemPromptPrefix: true
       }
     })
 
@@ -451,16 +892,30 @@ async function generateContextualAgentResponse(
     // Build enhanced prompt based on intensity and agent style
     let enhancedPrompt = buildEnhancedPrompt(agent, context, intensity, userName)
 
-    // Generate response using Z.ai
-    const zaiClient = getZAIClient()
-    const response = await zaiClient.generateAgentResponse(
+    // Stream partial tokens to the room while the reply is generated
+    stream = createAgentStream(roomId, agent, context.discussion.id)
+
+    // Generate response with the agent's provider (or the configured default)
+    const llm = getLLMProvider(agent.llmProvider)
+    const response = await llm.generateAgentResponse(
       enhancedPrompt,
       agent.style,
       userMessage,
       context.previousResponses.map(r => ({ role: r.agentName, content: r.content })),
-      userId
+      userId,
+      {
+        ...toGenerationSettings(agent),
+        onToken: stream.onToken,
+        signal,
+        usageContext: { purpose: "discussion_turn", roomId, agentId }
+      }
     )
 
+    // Providers answer with a canned fallback when the API fails; treat it as a failed turn
+    if (response.model === "fallback") {
+      throw new Error(`LLM provider unavailable: ${response.content}`)
+    }
+
     // Create agent message
     const message = await createAgentMessage(
       roomId,
@@ -475,6 +930,9 @@ async function generateContextualAgentResponse(
       throw new Error("Failed to create agent message")
     }
 
+    stream.end(message.data.id)
+    await linkUsageToMessage(response.usageEntryId, message.data.id)
+
     return {
       success: true,
       data: {
@@ -495,7 +953,13 @@ async function generateContextualAgentResponse(
       }
     }
   } catch (error) {
+    if (isAbortError(error)) {
+      stream?.end(undefined, "Discussion paused or stopped")
+      return { success: false, error: "Turn aborted" }
+    }
+
     console.error("Error generating contextual agent response:", error)
+    stream?.end(undefined, error instanceof Error ? error.message : "Failed to generate agent response")
     return {
       success: false,
       error: error instanceof Error ? error.message : "Failed to generate agent response"
@@ -538,6 +1002,14 @@ ${previousResponsesText}
 `
   }
 
+  // The rolling room summary explains what led up to this discussion
+  if (context.roomSummary) {
+    contextString = `
+ROOM CONVERSATION SO FAR (SUMMARY):
+${context.roomSummary}
+${contextString}`
+  }
+
   // Add AI-driven context and instructions if available
   let aiContextString = ""
   if (context.aiIntent) {
@@ -571,13 +1043,44 @@ USER PATTERNS I'VE NOTICED:
 - Common excuses: ${patterns.commonExcuses.join(', ') || 'None detected yet'}
 - Growth blockers: ${patterns.growthBlockers.join(', ') || 'None detected yet'}
 
+`
+  }
+
+  // Point the agent at the specific turn it should answer
+  let respondingToString = ""
+  if (context.respondingTo) {
+    respondingToString = `
+YOU ARE RESPONDING TO ${context.respondingTo.agentName.toUpperCase()}:
+"${context.respondingTo.content}"
+
+Address ${context.respondingTo.agentName} by name. Rebut, refine, or concede specific points instead of restating your own position.
+
+`
+  }
+
+  // A user interjection outranks the debate's own momentum
+  let steeringString = ""
+  if (context.steering) {
+    const notes = context.steering.map(steer => [
+      steer.topic ? `[${steer.author}] changed the topic to: "${steer.topic}"` : '',
+      steer.content ? `[${steer.author}]: ${steer.content}` : ''
+    ].filter(Boolean).join('\n')).join('\n\n')
+
+    steeringString = `
+USER INTERJECTION (the user stepped into the discussion just now):
+${notes}
+
+Respond to this interjection first and follow its direction before continuing the debate.
+
 `
   }
 
   // Add role context based on turn order
   const roleContext = context.previousResponses.length === 0
     ? "You are STARTING this discussion. Set the tone and establish the key themes."
-    : `You are RESPONDING to previous agents. Build upon, challenge, or redirect the conversation meaningfully.`
+    : context.discussion.round > 1
+      ? `This is round ${context.discussion.round}. Defend or revise your earlier position in light of the rebuttals.`
+      : `You are RESPONDING to previous agents. Build upon, challenge, or redirect the conversation meaningfully.`
 
   const intensityMultiplier = intensity === 'EXTREME' ? 3 : intensity === 'INTENSE' ? 2 : intensity === 'BRUTAL' ? 1.5 : 1
 
@@ -586,9 +1089,12 @@ USER PATTERNS I'VE NOTICED:
 ${contextString}
 ${aiContextString}
 ${userPatternsString}
+${respondingToString}
+${steeringString}
 DISCUSSION CONTEXT:
 - Topic: ${context.discussion.topic || 'Open discussion'}
-- Your turn: ${context.discussion.currentTurn + 1} of ${context.discussion.turnOrder.length}
+- Round: ${context.discussion.round} of ${context.discussion.totalRounds}
+- Your turn: ${context.discussion.currentTurn + 1} of ${context.discussion.maxTurns}
 - Intensity level: ${intensity} (${intensityMultiplier}x directness)
 - Role: ${roleContext}
 
@@ -622,6 +1128,8 @@ ${context.aiIntent ? '\n⚡ PRIORITY: Follow the AI-analyzed instructions above
     contextSections: {
       basePrompt: basePrompt.length,
       contextString: contextString.length,
+      respondingToString: respondingToString.length,
+      steeringString: steeringString.length,
       aiContextString: aiContextString.length,
       userPatternsString: userPatternsString.length
     }
@@ -749,6 +1257,9 @@ export async function pauseDiscussion(discussionId: string) {
       include: { room: true }
     })
 
+    // Cut the in-flight reply short instead of letting it finish
+    abortCurrentTurn(discussionId)
+
     // Broadcast pause via Socket.io
     const socketService = getSocketService()
     if (socketService) {
@@ -771,32 +1282,54 @@ export async function pauseDiscussion(discussionId: string) {
 }
 
 /**
- * Resume a paused discussion
+ * Resume a paused discussion and re-queue it so execution continues from currentTurn
+ * Defaults to the user who started the discussion when no user is given
  */
-export async function resumeDiscussion(discussionId: string) {
+export async function resumeDiscussion(discussionId: string, userId?: string, userName?: string | null) {
   try {
-    const discussion = await prisma.discussion.update({
+    const resumed = await prisma.discussion.updateMany({
+      where: { id: discussionId, status: 'PAUSED' },
+      data: { status: 'ACTIVE' }
+    })
+
+    if (resumed.count === 0) {
+      return { success: false, error: "Only paused discussions can be resumed" }
+    }
+
+    const discussion = await prisma.discussion.findUniqueOrThrow({
       where: { id: discussionId },
-      data: { status: 'ACTIVE' },
-      include: { room: true }
+      include: { room: true, message: { select: { senderId: true, sender: { select: { name: true } } } } }
     })
 
+    const runAs = userId || discussion.message.senderId
+    if (!runAs) {
+      return { success: false, error: "No user to run the discussion as" }
+    }
+
+    const { getDiscussionQueue } = await import("./discussion-queue")
+    const job = await getDiscussionQueue().enqueue(
+      discussionId,
+      runAs,
+      userId ? userName : discussion.message.sender?.name
+    )
+
     // Broadcast resume via Socket.io
     const socketService = getSocketService()
     if (socketService) {
+      const turnOrder: string[] = JSON.parse(discussion.turnOrder)
       const update: DiscussionUpdate = {
         discussionId,
         roomId: discussion.room.id,
         status: 'RESUMED',
         currentTurn: discussion.currentTurn,
-        currentAgent: discussion.turnOrder[discussion.currentTurn],
-        nextAgent: discussion.turnOrder[discussion.currentTurn + 1],
+        currentAgent: turnOrder[discussion.currentTurn % turnOrder.length],
+        nextAgent: turnOrder[(discussion.currentTurn + 1) % turnOrder.length],
         intensity: discussion.intensity
       }
       socketService.broadcastDiscussionUpdate(discussion.room.id, update)
     }
 
-    return { success: true }
+    return { success: true, data: { jobId: job.id, jobStatus: job.status } }
   } catch (error) {
     return {
       success: false,
@@ -816,6 +1349,9 @@ export async function stopDiscussion(discussionId: string) {
       include: { room: true }
     })
 
+    // Cut the in-flight reply short instead of letting it finish
+    abortCurrentTurn(discussionId)
+
     // Broadcast stop via Socket.io
     const socketService = getSocketService()
     if (socketService) {
@@ -845,6 +1381,8 @@ export async function getDiscussionStatus(discussionId: string) {
     const discussion = await prisma.discussion.findUnique({
       where: { id: discussionId },
       include: {
+        job: true,
+        steers: { orderBy: { createdAt: 'asc' } },
         responses: {
           include: {
             agent: { select: { name: true, emoji: true, style: true } },
@@ -859,6 +1397,11 @@ export async function getDiscussionStatus(discussionId: string) {
       return { success: false, error: "Discussion not found" }
     }
 
+    const turnOrder: string[] = JSON.parse(discussion.turnOrder)
+    const metadata = parseDiscussionMetadata(discussion.metadata)
+    const { rounds, stopConditions } = getDebateConfig(metadata)
+    const totalRounds = Math.max(rounds, Math.ceil(discussion.maxTurns / turnOrder.length))
+
     return {
       success: true,
       data: {
@@ -867,15 +1410,42 @@ export async function getDiscussionStatus(discussionId: string) {
         topic: discussion.topic,
         intensity: discussion.intensity,
         currentTurn: discussion.currentTurn,
-        totalTurns: discussion.turnOrder.length,
+        totalTurns: discussion.maxTurns,
         maxTurns: discussion.maxTurns,
+        rounds: totalRounds,
+        currentRound: Math.min(Math.floor(discussion.currentTurn / turnOrder.length) + 1, totalRounds),
+        stopConditions,
+        stopReason: metadata.stopReason,
+        stopDetail: metadata.stopDetail,
+        summaryMessageId: metadata.summaryMessageId,
+        failures: metadata.turnFailures || [],
+        job: discussion.job
+          ? {
+              status: discussion.job.status,
+              attempts: discussion.job.attempts,
+              runAfter: discussion.job.runAfter,
+              lastError: discussion.job.lastError || metadata.jobError
+            }
+          : null,
         responses: discussion.responses.map(r => ({
           agentName: r.agent.name,
           agentEmoji: r.agent.emoji,
           agentStyle: r.agent.style,
           content: r.message.content,
           timestamp: r.message.timestamp,
-          turnOrder: r.turnOrder
+          turnOrder: r.turnOrder,
+          respondingTo: r.respondingTo,
+          responseTo: r.responseTo
+        })),
+        steers: discussion.steers.map(steer => ({
+          id: steer.id,
+          userName: steer.userName,
+          content: steer.content,
+          topic: steer.topic,
+          nextAgentId: steer.nextAgentId,
+          extendTurns: steer.extendTurns,
+          atTurn: steer.atTurn,
+          appliedAtTurn: steer.appliedAtTurn
         })),
         createdAt: discussion.createdAt,
         updatedAt: discussion.updatedAt
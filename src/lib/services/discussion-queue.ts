@@ -0,0 +1,280 @@
+import { randomUUID } from "crypto"
+import type { Prisma } from "@prisma/client"
+import { prisma } from "@/lib/db"
+import { executeDiscussion, updateDiscussionMetadata } from "./discussion-orchestrator"
+
+const POLL_INTERVAL_MS = Number(process.env.DISCUSSION_WORKER_POLL_MS) || 2000
+const CONCURRENCY = Number(process.env.DISCUSSION_WORKER_CONCURRENCY) || 2
+const MAX_JOB_ATTEMPTS = 5
+const BASE_RETRY_DELAY_MS = 5000
+const LEASE_TIMEOUT_MS = Number(process.env.DISCUSSION_JOB_LEASE_MS) || 60000
+// Refresh the lease well before it runs out
+const HEARTBEAT_MS = Math.floor(LEASE_TIMEOUT_MS / 3)
+
+/**
+ * Persistent queue that drives discussions to completion
+ * Jobs live in the discussion_jobs table, so a restart only delays a
+ * discussion: on boot the worker re-queues anything left ACTIVE and
+ * executeDiscussion resumes from Discussion.currentTurn
+ * A running job holds a lease (lockedAt) that its worker refreshes; jobs
+ * whose lease expired belong to a dead worker and are reclaimed
+ */
+export class DiscussionQueue {
+  private workerId = `worker_${randomUUID().slice(0, 8)}`
+  private timer: NodeJS.Timeout | null = null
+  private inFlight = new Set<string>()
+  private ticking = false
+  private lastReclaimAt = 0
+
+  /**
+   * Queue (or re-queue) a discussion for execution
+   */
+  async enqueue(discussionId: string, userId: string, userName?: string | null) {
+    // A running job re-checks the discussion when it finishes, so leave it alone
+    const existing = await prisma.discussionJob.findUnique({ where: { discussionId } })
+    if (existing?.status === 'RUNNING') {
+      return existing
+    }
+
+    const job = await prisma.discussionJob.upsert({
+      where: { discussionId },
+      create: {
+        discussionId,
+        userId,
+        userName: userName || null
+      },
+      update: {
+        status: 'PENDING',
+        attempts: 0,
+        runAfter: new Date(),
+        lockedAt: null,
+        lockedBy: null,
+        lastError: null,
+        userId,
+        userName: userName || null
+      }
+    })
+
+    // Pick it up right away instead of waiting for the next poll
+    if (this.timer) {
+      void this.tick()
+    }
+
+    return job
+  }
+
+  /**
+   * Start the worker loop after recovering work left by a previous process
+   */
+  async start(): Promise<void> {
+    if (this.timer) return
+
+    await this.recover()
+
+    this.timer = setInterval(() => {
+      void this.tick()
+    }, POLL_INTERVAL_MS)
+
+    console.log(`[DiscussionQueue] Worker ${this.workerId} started (concurrency ${CONCURRENCY})`)
+    void this.tick()
+  }
+
+  /**
+   * Stop polling; jobs already running finish on their own
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  /**
+   * Re-queue jobs orphaned by a dead worker and ACTIVE discussions with no live job
+   */
+  private async recover(): Promise<void> {
+    const orphaned = await this.reclaimExpired()
+
+    const stranded = await prisma.discussion.findMany({
+      where: {
+        status: 'ACTIVE',
+        OR: [
+          { job: null },
+          { job: { status: { in: ['COMPLETED', 'FAILED'] } } }
+        ]
+      },
+      select: { id: true, message: { select: { senderId: true, sender: { select: { name: true } } } } }
+    })
+
+    for (const discussion of stranded) {
+      if (!discussion.message.senderId) continue
+      await this.enqueue(discussion.id, discussion.message.senderId, discussion.message.sender?.name)
+    }
+
+    if (orphaned > 0 || stranded.length > 0) {
+      console.log(`[DiscussionQueue] Recovered ${orphaned} orphaned job(s), re-queued ${stranded.length} stranded discussion(s)`)
+    }
+  }
+
+  /**
+   * Put RUNNING jobs whose lease expired back in the queue
+   * Jobs other workers are still heartbeating are left alone
+   */
+  private async reclaimExpired(): Promise<number> {
+    this.lastReclaimAt = Date.now()
+
+    const reclaimed = await prisma.discussionJob.updateMany({
+      where: {
+        status: 'RUNNING',
+        OR: [
+          { lockedAt: null },
+          { lockedAt: { lt: new Date(Date.now() - LEASE_TIMEOUT_MS) } }
+        ]
+      },
+      data: { status: 'PENDING', lockedAt: null, lockedBy: null, runAfter: new Date() }
+    })
+
+    return reclaimed.count
+  }
+
+  /**
+   * Claim due jobs up to the concurrency limit and run them
+   */
+  private async tick(): Promise<void> {
+    if (this.ticking) return
+    this.ticking = true
+
+    try {
+      if (Date.now() - this.lastReclaimAt >= HEARTBEAT_MS) {
+        const reclaimed = await this.reclaimExpired()
+        if (reclaimed > 0) {
+          console.log(`[DiscussionQueue] Reclaimed ${reclaimed} job(s) with an expired lease`)
+        }
+      }
+
+      while (this.inFlight.size < CONCURRENCY) {
+        const candidate = await prisma.discussionJob.findFirst({
+          where: {
+            status: 'PENDING',
+            runAfter: { lte: new Date() },
+            id: { notIn: Array.from(this.inFlight) }
+          },
+          orderBy: { runAfter: 'asc' }
+        })
+
+        if (!candidate) break
+
+        // Conditional update so two workers never claim the same job
+        const claimed = await prisma.discussionJob.updateMany({
+          where: { id: candidate.id, status: 'PENDING' },
+          data: {
+            status: 'RUNNING',
+            lockedAt: new Date(),
+            lockedBy: this.workerId,
+            attempts: { increment: 1 }
+          }
+        })
+
+        if (claimed.count === 0) continue
+
+        this.inFlight.add(candidate.id)
+        void this.run(candidate.id, candidate.discussionId, candidate.userId, candidate.userName, candidate.attempts + 1)
+          .finally(() => this.inFlight.delete(candidate.id))
+      }
+    } catch (error) {
+      console.error("[DiscussionQueue] Failed to poll jobs:", error)
+    } finally {
+      this.ticking = false
+    }
+  }
+
+  /**
+   * Execute one job and record the outcome
+   * The outcome is only written while this worker still holds the lease
+   */
+  private async run(
+    jobId: string,
+    discussionId: string,
+    userId: string,
+    userName: string | null,
+    attempt: number
+  ): Promise<void> {
+    let errorMessage: string | undefined
+
+    const heartbeat = setInterval(() => {
+      prisma.discussionJob.updateMany({
+        where: { id: jobId, status: 'RUNNING', lockedBy: this.workerId },
+        data: { lockedAt: new Date() }
+      }).catch(error => console.error(`[DiscussionQueue] Failed to refresh lease for job ${jobId}:`, error))
+    }, HEARTBEAT_MS)
+
+    try {
+      const result = await executeDiscussion(discussionId, userId, userName || undefined)
+      if (!result.success) {
+        errorMessage = 'error' in result ? result.error : "Discussion execution failed"
+      }
+    } catch (error) {
+      errorMessage = error instanceof Error ? error.message : String(error)
+    } finally {
+      clearInterval(heartbeat)
+    }
+
+    const release = (data: Prisma.DiscussionJobUpdateManyMutationInput) =>
+      prisma.discussionJob.updateMany({
+        where: { id: jobId, status: 'RUNNING', lockedBy: this.workerId },
+        data: { ...data, lockedAt: null, lockedBy: null }
+      })
+
+    // Paused, stopped or finished discussions leave the queue; resume re-queues them
+    const discussion = await prisma.discussion.findUnique({
+      where: { id: discussionId },
+      select: { status: true }
+    })
+
+    if (!discussion || discussion.status !== 'ACTIVE') {
+      await release({ status: 'COMPLETED', lastError: errorMessage || null })
+      return
+    }
+
+    // Resumed while this run was winding down: go again without using up an attempt
+    if (!errorMessage) {
+      await release({ status: 'PENDING', runAfter: new Date(), attempts: { decrement: 1 } })
+      return
+    }
+
+    if (attempt >= MAX_JOB_ATTEMPTS) {
+      console.error(`[DiscussionQueue] Discussion ${discussionId} failed after ${attempt} attempts:`, errorMessage)
+
+      const failed = await release({ status: 'FAILED', lastError: errorMessage })
+      if (failed.count === 0) return
+
+      await updateDiscussionMetadata(discussionId, () => ({
+        jobError: errorMessage,
+        jobFailedAt: new Date().toISOString()
+      }))
+      return
+    }
+
+    // The run failed part-way; retry with exponential backoff
+    const retryDelay = BASE_RETRY_DELAY_MS * 2 ** (attempt - 1)
+    await release({
+      status: 'PENDING',
+      runAfter: new Date(Date.now() + retryDelay),
+      lastError: errorMessage
+    })
+  }
+}
+
+declare global {
+  var __discussionQueue: DiscussionQueue | undefined
+}
+
+/**
+ * Get the process-wide queue (shared between server.ts and Next.js route bundles)
+ */
+export function getDiscussionQueue(): DiscussionQueue {
+  if (!globalThis.__discussionQueue) {
+    globalThis.__discussionQueue = new DiscussionQueue()
+  }
+  return globalThis.__discussionQueue
+}
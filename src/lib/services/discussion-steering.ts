@@ -0,0 +1,196 @@
+import { prisma } from "@/lib/db"
+import { steerDiscussionSchema, type SteerDiscussionInput } from "@/lib/validations"
+import { MAX_DISCUSSION_TURNS, STEER_COMMAND_PATTERN } from "@/lib/constants"
+import { debugLog } from "@/lib/utils/debug-logger"
+import { getSocketService, type DiscussionUpdate } from "./socket-service"
+
+/**
+ * Check whether a chat message is an "@moderator ..." steer command
+ */
+export function isSteerCommand(content: string): boolean {
+  return STEER_COMMAND_PATTERN.test(content)
+}
+
+/**
+ * Parse "@moderator topic: ...; next: @Agent; extend: 2 <note>"
+ * Segments are separated by ";" or new lines; whatever is left over is the
+ * note the next agent sees. A bare "@Agent" in the note also picks the next speaker
+ */
+export function parseSteerCommand(
+  content: string,
+  roomAgents: Array<{ agent: { id: string; name: string } }>
+): SteerDiscussionInput {
+  const body = content.replace(STEER_COMMAND_PATTERN, "").trim()
+  const notes: string[] = []
+  const steer: SteerDiscussionInput = {}
+
+  for (const segment of body.split(/[;\n]/).map(part => part.trim()).filter(Boolean)) {
+    const command = segment.match(/^(topic|next|extend)\s*:\s*(.+)$/i)
+    if (!command) {
+      notes.push(segment)
+      continue
+    }
+
+    const [, key, value] = command
+    switch (key.toLowerCase()) {
+      case "topic":
+        steer.topic = value.trim()
+        break
+      case "next":
+        steer.nextAgentId = findAgentByName(value, roomAgents) || value.trim()
+        break
+      case "extend":
+        steer.extendTurns = parseInt(value, 10) || undefined
+        break
+    }
+  }
+
+  steer.content = notes.join("\n")
+
+  if (!steer.nextAgentId) {
+    const mention = steer.content.match(/@([^\s,.!?]+)/)
+    steer.nextAgentId = mention ? findAgentByName(mention[1], roomAgents) : undefined
+  }
+
+  return steer
+}
+
+/**
+ * Record a user interjection and apply its topic / turn-limit changes right away
+ * The note and next-speaker request are picked up by the orchestrator on its next turn
+ */
+export async function steerDiscussion(
+  discussionId: string,
+  userId: string,
+  input: SteerDiscussionInput,
+  messageId?: string
+) {
+  try {
+    const parsed = steerDiscussionSchema.safeParse(input)
+    if (!parsed.success) {
+      return { success: false, error: parsed.error.errors[0]?.message || "Invalid steer" }
+    }
+    const steer = parsed.data
+
+    const discussion = await prisma.discussion.findFirst({
+      where: {
+        id: discussionId,
+        room: {
+          OR: [
+            { createdBy: userId },
+            { participants: { some: { userId } } }
+          ]
+        }
+      }
+    })
+
+    if (!discussion) {
+      return { success: false, error: "Discussion not found or unauthorized" }
+    }
+
+    if (discussion.status !== 'ACTIVE' && discussion.status !== 'PAUSED') {
+      return { success: false, error: "Only active or paused discussions can be steered" }
+    }
+
+    const turnOrder: string[] = JSON.parse(discussion.turnOrder)
+    if (steer.nextAgentId && !turnOrder.includes(steer.nextAgentId)) {
+      return { success: false, error: "That agent is not part of this discussion" }
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { name: true }
+    })
+
+    const maxTurns = steer.extendTurns
+      ? Math.min(discussion.maxTurns + steer.extendTurns, MAX_DISCUSSION_TURNS)
+      : discussion.maxTurns
+
+    const [record, updated] = await prisma.$transaction([
+      prisma.discussionSteer.create({
+        data: {
+          discussionId,
+          messageId: messageId || null,
+          userId,
+          userName: user?.name || null,
+          content: steer.content.trim(),
+          topic: steer.topic || null,
+          nextAgentId: steer.nextAgentId || null,
+          extendTurns: steer.extendTurns || null,
+          atTurn: discussion.currentTurn
+        }
+      }),
+      prisma.discussion.update({
+        where: { id: discussionId },
+        data: {
+          topic: steer.topic ?? discussion.topic,
+          maxTurns
+        }
+      })
+    ])
+
+    debugLog('DISCUSSION', `Steer ${record.id} recorded for ${discussionId} at turn ${discussion.currentTurn}`, steer)
+
+    const socketService = getSocketService()
+    if (socketService) {
+      const update: DiscussionUpdate = {
+        discussionId,
+        roomId: discussion.roomId,
+        status: 'STEERED',
+        currentTurn: discussion.currentTurn,
+        nextAgent: steer.nextAgentId,
+        intensity: discussion.intensity,
+        topic: updated.topic || undefined,
+        maxTurns: updated.maxTurns
+      }
+      socketService.broadcastDiscussionUpdate(discussion.roomId, update)
+    }
+
+    return { success: true, data: { steer: record, topic: updated.topic, maxTurns: updated.maxTurns } }
+  } catch (error) {
+    console.error("Error steering discussion:", error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to steer discussion"
+    }
+  }
+}
+
+/**
+ * Steer the room's running discussion from an "@moderator" chat message
+ */
+export async function steerActiveDiscussion(
+  roomId: string,
+  userId: string,
+  content: string,
+  roomAgents: Array<{ agent: { id: string; name: string } }>,
+  messageId?: string
+) {
+  const discussion = await prisma.discussion.findFirst({
+    where: { roomId, status: { in: ['ACTIVE', 'PAUSED'] } },
+    orderBy: { createdAt: 'desc' },
+    select: { id: true }
+  })
+
+  if (!discussion) {
+    return { success: false, error: "There is no running discussion to steer" }
+  }
+
+  return steerDiscussion(discussion.id, userId, parseSteerCommand(content, roomAgents), messageId)
+}
+
+/**
+ * Resolve an agent by (partial, case-insensitive) name, ignoring a leading "@"
+ */
+function findAgentByName(
+  name: string,
+  roomAgents: Array<{ agent: { id: string; name: string } }>
+): string | undefined {
+  const wanted = name.trim().replace(/^@/, "").toLowerCase()
+  if (!wanted) return undefined
+
+  const exact = roomAgents.find(roomAgent => roomAgent.agent.name.toLowerCase() === wanted)
+  const partial = roomAgents.find(roomAgent => roomAgent.agent.name.toLowerCase().startsWith(wanted))
+
+  return (exact || partial)?.agent.id
+}
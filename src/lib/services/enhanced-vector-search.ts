@@ -1,5 +1,5 @@
 import { getVectorStore } from "@/lib/vector-store"
-import { getZAIClient } from "@/lib/zai"
+import { getLLMProvider } from "@/lib/llm"
 import logger from "@/lib/logger"
 
 export interface QueryIntent {
@@ -52,7 +52,7 @@ export interface ContextResult {
  * optimized vector search queries with temporal and topic awareness.
  */
 export class EnhancedVectorSearch {
-  private zaiClient = getZAIClient()
+  private llm = getLLMProvider()
   private vectorStore = getVectorStore()
 
   /**
@@ -102,11 +102,12 @@ export class EnhancedVectorSearch {
 
   /**
    * Search with enhanced context understanding
+   * LLM calls are billed to `userId` when given, else run as 'system'
    */
-  async searchWithContext(roomId: string, userQuery: string, limit: number = 10): Promise<ContextResult> {
+  async searchWithContext(roomId: string, userQuery: string, limit: number = 10, userId?: string): Promise<ContextResult> {
     try {
       // Analyze query intent
-      const enhancedQuery = await this.analyzeQuery(userQuery, roomId, 'system')
+      const enhancedQuery = await this.analyzeQuery(userQuery, roomId, userId || 'system')
 
       // Perform hybrid search (semantic + temporal + topic)
       const semanticResults = await this.vectorStore.getRelevantContext(roomId, enhancedQuery.enhancedQuery, limit * 2)
@@ -131,7 +132,7 @@ export class EnhancedVectorSearch {
       // Generate summary if requested
       let summary
       if (enhancedQuery.intent.responseFormat === 'summary' || enhancedQuery.intent.primaryIntent === 'summarize') {
-        summary = await this.generateContextSummary(finalResults, enhancedQuery)
+        summary = await this.generateContextSummary(finalResults, enhancedQuery, roomId, userId)
       }
 
       // Extract key topics
@@ -198,7 +199,7 @@ export class EnhancedVectorSearch {
   /**
    * Analyze user intent using AI
    */
-  private async analyzeUserIntent(userQuery: string): Promise<QueryIntent> {
+  private async analyzeUserIntent(userQuery: string, roomId?: string, userId?: string): Promise<QueryIntent> {
     const correlationId = `intent_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
 
     const prompt = `
@@ -228,7 +229,9 @@ Example response format:
     })
 
     try {
-      const response = await this.zaiClient.generateAgentResponse("", "PROFESSIONAL", prompt)
+      const response = await this.llm.generateAgentResponse("", "PROFESSIONAL", prompt, [], userId, {
+        usageContext: { purpose: "intent_analysis", roomId }
+      })
 
       // Log the raw AI response for debugging
       logger.aiResponse(correlationId, {
@@ -340,7 +343,7 @@ Example response format:
   /**
    * Analyze user intent with conversation context
    */
-  private async analyzeUserIntentWithContext(userQuery: string, _roomId: string, _userId: string): Promise<QueryIntent> {
+  private async analyzeUserIntentWithContext(userQuery: string, roomId: string, userId: string): Promise<QueryIntent> {
     try {
       // Get conversation-aware intent analysis - simplified fallback
       const enhancedIntent = {
@@ -374,7 +377,8 @@ Example response format:
     } catch (error) {
       // Fallback to original intent analysis
       logger.aiError('context-intent', 'Conversation context analysis failed', error instanceof Error ? error : new Error(String(error)))
-      return this.analyzeUserIntent(userQuery)
+      // Background searches run as 'system', which has no usage ledger of its own
+      return this.analyzeUserIntent(userQuery, roomId, userId === 'system' ? undefined : userId)
     }
   }
 
@@ -623,7 +627,9 @@ Example response format:
    */
   private async generateContextSummary(
     results: any[],
-    enhancedQuery: EnhancedQuery
+    enhancedQuery: EnhancedQuery,
+    roomId?: string,
+    userId?: string
   ): Promise<string> {
     if (results.length === 0) return "No relevant context found."
 
@@ -646,7 +652,9 @@ Generate a ${enhancedQuery.intent.responseFormat} summary that directly addresse
 `
 
     try {
-      const response = await this.zaiClient.generateAgentResponse("", "PROFESSIONAL", prompt)
+      const response = await this.llm.generateAgentResponse("", "PROFESSIONAL", prompt, [], userId, {
+        usageContext: { purpose: "context_summary", roomId }
+      })
       return response.content
     } catch (error) {
       console.error("Error generating summary:", error)
@@ -0,0 +1,154 @@
+import { prisma } from "@/lib/db"
+import { storeConversationMessage } from "@/lib/vector-store"
+import { debugLog } from "@/lib/utils/debug-logger"
+
+// What clients need to replace a message they already show
+export const updatedMessageInclude = {
+  sender: {
+    select: { id: true, name: true, email: true, image: true }
+  },
+  agent: {
+    select: { id: true, name: true, emoji: true, color: true, style: true }
+  },
+  mentions: {
+    include: {
+      agent: {
+        select: { id: true, name: true, emoji: true, color: true }
+      }
+    }
+  },
+  _count: {
+    select: { replies: true, variants: true }
+  }
+} as const
+
+/**
+ * Re-embed a changed message and broadcast it to the room
+ * Returns the message with Decimal fields converted for Client Components
+ */
+export async function publishMessageUpdate<T extends {
+  id: string
+  roomId: string
+  content: string
+  timestamp: Date
+  editedAt: Date | null
+  processingTime: unknown
+  agentConfidence: unknown
+}>(message: T, userId: string, authorName: string, authorType: "user" | "agent") {
+  const serializedMessage = {
+    ...message,
+    processingTime: message.processingTime ? Number(message.processingTime) : null,
+    agentConfidence: message.agentConfidence ? Number(message.agentConfidence) : null
+  }
+
+  // Replace the old vector so context searches see the current content
+  try {
+    await storeConversationMessage(
+      message.roomId,
+      message.id,
+      message.content.replace(/^\[AGENT:[^\]]*\]\n/, ""),
+      authorName,
+      authorType,
+      message.timestamp
+    )
+  } catch (error) {
+    console.error("Error re-embedding updated message:", error)
+  }
+
+  try {
+    const { ServiceRegistry } = await import("@/lib/services/service-registry")
+    const { getSocketService } = await import("@/lib/services/socket-service")
+    const socketService = ServiceRegistry.getSocketService() || getSocketService()
+
+    if (socketService) {
+      socketService.broadcastMessageEdited(message.roomId, {
+        id: message.id,
+        type: 'message' as const,
+        roomId: message.roomId,
+        userId,
+        data: serializedMessage,
+        timestamp: message.editedAt || new Date()
+      })
+    }
+  } catch (socketError) {
+    console.error("[Messages] Failed to send WebSocket event for updated message:", socketError)
+  }
+
+  return serializedMessage
+}
+
+/**
+ * Store a regenerated agent reply as a new variant and make it the visible one
+ * The first regeneration also keeps the original reply as the first variant
+ * Server-side only: content is trusted model output, so this is not a server action
+ */
+export async function addMessageVariant(
+  messageId: string,
+  userId: string,
+  content: string,
+  processingTime?: number,
+  agentConfidence?: number
+) {
+  try {
+    const existing = await prisma.message.findFirst({
+      where: {
+        id: messageId,
+        type: "AGENT",
+        room: {
+          OR: [
+            { createdBy: userId },
+            { participants: { some: { userId } } }
+          ]
+        }
+      },
+      include: {
+        agent: { select: { id: true, name: true, emoji: true, color: true, style: true } },
+        _count: { select: { variants: true } }
+      }
+    })
+
+    if (!existing?.agent) {
+      return { success: false, error: "Agent message not found or unauthorized" }
+    }
+
+    const { agent } = existing
+    const contentWithAgentInfo = `[AGENT:${agent.id}:${agent.name}:${agent.emoji}:${agent.color}:${agent.style}]\n${content}`
+
+    const message = await prisma.$transaction(async (tx) => {
+      if (existing._count.variants === 0) {
+        await tx.messageVariant.create({
+          data: {
+            messageId,
+            content: existing.content,
+            processingTime: existing.processingTime,
+            agentConfidence: existing.agentConfidence,
+            createdAt: existing.timestamp
+          }
+        })
+      }
+
+      const variant = await tx.messageVariant.create({
+        data: { messageId, content: contentWithAgentInfo, processingTime, agentConfidence }
+      })
+
+      return tx.message.update({
+        where: { id: messageId },
+        data: {
+          content: contentWithAgentInfo,
+          processingTime,
+          agentConfidence,
+          activeVariantId: variant.id
+        },
+        include: updatedMessageInclude
+      })
+    })
+
+    const serializedMessage = await publishMessageUpdate(message, userId, agent.name, "agent")
+
+    debugLog('AGENT_VARIANT', `Stored variant for message ${messageId} (${agent.name})`)
+    return { success: true, data: serializedMessage }
+  } catch (error) {
+    console.error("Error storing message variant:", error)
+    return { success: false, error: "Failed to store message variant" }
+  }
+}
@@ -0,0 +1,196 @@
+import { getRedis } from "@/lib/redis"
+
+// Typing indicators expire on their own in case the "stopped typing" event is lost
+const TYPING_TTL_MS = 10_000
+// Sockets not refreshed within this window belong to a crashed instance
+const SOCKET_STALE_MS = Number(process.env.PRESENCE_STALE_MS) || 90_000
+const KEY_TTL_SECONDS = 24 * 60 * 60
+
+/**
+ * Room presence and typing state shared by every socket server instance
+ * Presence is tracked per socket, so a user stays online until their last tab leaves
+ */
+export interface PresenceStore {
+  /** Register a socket in a room; resolves true when it is the user's first socket there */
+  join(roomId: string, userId: string, socketId: string): Promise<boolean>
+  /** Remove a socket from a room; resolves true when the user has no sockets left there */
+  leave(roomId: string, userId: string, socketId: string): Promise<boolean>
+  /** Refresh a socket's heartbeat so other instances do not treat it as stale */
+  touch(roomId: string, userId: string, socketId: string): Promise<void>
+  onlineUsers(roomId: string): Promise<string[]>
+  setTyping(roomId: string, userId: string, isTyping: boolean): Promise<void>
+  typingUsers(roomId: string): Promise<string[]>
+}
+
+/**
+ * Single-process store; the default when no Redis is configured
+ */
+export class InMemoryPresenceStore implements PresenceStore {
+  private sockets = new Map<string, Map<string, Set<string>>>() // roomId -> userId -> socketIds
+  private typing = new Map<string, Map<string, number>>() // roomId -> userId -> startedAt
+
+  async join(roomId: string, userId: string, socketId: string): Promise<boolean> {
+    if (!this.sockets.has(roomId)) this.sockets.set(roomId, new Map())
+    const users = this.sockets.get(roomId)!
+
+    const userSockets = users.get(userId) || new Set<string>()
+    const firstSocket = userSockets.size === 0
+    userSockets.add(socketId)
+    users.set(userId, userSockets)
+
+    return firstSocket
+  }
+
+  async leave(roomId: string, userId: string, socketId: string): Promise<boolean> {
+    const users = this.sockets.get(roomId)
+    const userSockets = users?.get(userId)
+    if (!users || !userSockets) return false
+
+    userSockets.delete(socketId)
+    if (userSockets.size > 0) return false
+
+    users.delete(userId)
+    if (users.size === 0) this.sockets.delete(roomId)
+    await this.setTyping(roomId, userId, false)
+    return true
+  }
+
+  async touch(): Promise<void> {
+    // Sockets in this process cannot go stale without the process noticing
+  }
+
+  async onlineUsers(roomId: string): Promise<string[]> {
+    return Array.from(this.sockets.get(roomId)?.keys() || [])
+  }
+
+  async setTyping(roomId: string, userId: string, isTyping: boolean): Promise<void> {
+    if (isTyping) {
+      if (!this.typing.has(roomId)) this.typing.set(roomId, new Map())
+      this.typing.get(roomId)!.set(userId, Date.now())
+      return
+    }
+
+    const roomTyping = this.typing.get(roomId)
+    roomTyping?.delete(userId)
+    if (roomTyping?.size === 0) this.typing.delete(roomId)
+  }
+
+  async typingUsers(roomId: string): Promise<string[]> {
+    const cutoff = Date.now() - TYPING_TTL_MS
+    const roomTyping = this.typing.get(roomId)
+    if (!roomTyping) return []
+
+    return Array.from(roomTyping.entries())
+      .filter(([, startedAt]) => startedAt >= cutoff)
+      .map(([userId]) => userId)
+  }
+}
+
+/**
+ * The subset of Redis commands the presence store needs
+ * ioredis satisfies it; tests can pass any stand-in with the same sorted-set semantics
+ */
+export interface RedisLike {
+  zadd(key: string, score: number, member: string): Promise<unknown>
+  zrem(key: string, member: string): Promise<number>
+  zremrangebyscore(key: string, min: number | string, max: number | string): Promise<unknown>
+  zrange(key: string, start: number, stop: number): Promise<string[]>
+  expire(key: string, seconds: number): Promise<unknown>
+}
+
+/**
+ * Redis-backed store shared by every server instance
+ * Each room keeps two sorted sets scored by last-seen time:
+ *   presence:{roomId}:sockets  members "userId|socketId"
+ *   presence:{roomId}:typing   members "userId"
+ */
+export class RedisPresenceStore implements PresenceStore {
+  constructor(private redis: RedisLike, private prefix: string = "discux:presence") {}
+
+  async join(roomId: string, userId: string, socketId: string): Promise<boolean> {
+    // Decide before adding, so a socket joining again is not a new arrival
+    const sockets = await this.liveSockets(roomId)
+    await this.touch(roomId, userId, socketId)
+    return !sockets.some(member => member.userId === userId)
+  }
+
+  async leave(roomId: string, userId: string, socketId: string): Promise<boolean> {
+    // Like the memory store, a socket that already left does not count as a departure
+    const removed = await this.redis.zrem(this.socketsKey(roomId), `${userId}|${socketId}`)
+    if (removed === 0) return false
+
+    const sockets = await this.liveSockets(roomId)
+    const lastSocket = !sockets.some(member => member.userId === userId)
+
+    if (lastSocket) {
+      await this.setTyping(roomId, userId, false)
+    }
+    return lastSocket
+  }
+
+  async touch(roomId: string, userId: string, socketId: string): Promise<void> {
+    const key = this.socketsKey(roomId)
+    await this.redis.zadd(key, Date.now(), `${userId}|${socketId}`)
+    await this.redis.expire(key, KEY_TTL_SECONDS)
+  }
+
+  async onlineUsers(roomId: string): Promise<string[]> {
+    const sockets = await this.liveSockets(roomId)
+    return Array.from(new Set(sockets.map(member => member.userId)))
+  }
+
+  async setTyping(roomId: string, userId: string, isTyping: boolean): Promise<void> {
+    const key = this.typingKey(roomId)
+    if (isTyping) {
+      await this.redis.zadd(key, Date.now(), userId)
+      await this.redis.expire(key, KEY_TTL_SECONDS)
+    } else {
+      await this.redis.zrem(key, userId)
+    }
+  }
+
+  async typingUsers(roomId: string): Promise<string[]> {
+    const key = this.typingKey(roomId)
+    await this.redis.zremrangebyscore(key, "-inf", Date.now() - TYPING_TTL_MS)
+    return this.redis.zrange(key, 0, -1)
+  }
+
+  /**
+   * Sockets in a room, dropping entries a crashed instance never cleaned up
+   */
+  private async liveSockets(roomId: string): Promise<Array<{ userId: string; socketId: string }>> {
+    const key = this.socketsKey(roomId)
+    await this.redis.zremrangebyscore(key, "-inf", Date.now() - SOCKET_STALE_MS)
+    const members = await this.redis.zrange(key, 0, -1)
+
+    return members.map(member => {
+      const [userId, socketId] = member.split("|")
+      return { userId, socketId }
+    })
+  }
+
+  private socketsKey(roomId: string): string {
+    return `${this.prefix}:${roomId}:sockets`
+  }
+
+  private typingKey(roomId: string): string {
+    return `${this.prefix}:${roomId}:typing`
+  }
+}
+
+/**
+ * Heartbeat interval for refreshing sockets in a shared store
+ */
+export const PRESENCE_HEARTBEAT_MS = Math.floor(SOCKET_STALE_MS / 3)
+
+/**
+ * Pick the store from the environment: Redis when REDIS_URL is set, memory otherwise
+ */
+export function createPresenceStore(): PresenceStore {
+  const redis = getRedis()
+  if (redis) {
+    console.log("[Presence] Using Redis presence store")
+    return new RedisPresenceStore(redis)
+  }
+  return new InMemoryPresenceStore()
+}
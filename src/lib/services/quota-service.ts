@@ -0,0 +1,212 @@
+import { prisma } from "@/lib/db"
+import { SUBSCRIPTION_LIMITS, UNLIMITED } from "@/lib/constants"
+import { debugLog } from "@/lib/utils/debug-logger"
+
+export type QuotaResource = "agents" | "rooms" | "messages" | "llmCalls"
+
+// Resources counted per calendar month; agents and rooms are counted live
+export type MeteredResource = Extract<QuotaResource, "messages" | "llmCalls">
+
+export interface QuotaStatus {
+  used: number
+  // UNLIMITED (-1) when the plan has no cap
+  limit: number
+}
+
+export interface UsageSummary {
+  plan: "FREE" | "PRO" | "TEAM"
+  // Calendar month the metered counters cover, "YYYY-MM" (UTC)
+  period: string
+  resetsAt: string
+  quotas: Record<QuotaResource, QuotaStatus>
+}
+
+export interface QuotaExceeded {
+  resource: QuotaResource
+  limit: number
+  used: number
+  plan: UsageSummary["plan"]
+  // Only monthly quotas reset
+  resetsAt: string | null
+}
+
+const RESOURCE_LABELS: Record<QuotaResource, string> = {
+  agents: "agent",
+  rooms: "room",
+  messages: "monthly message",
+  llmCalls: "monthly AI response",
+}
+
+/**
+ * Thrown when an action would go over the user's plan
+ * Server actions turn it into a structured { code: "QUOTA_EXCEEDED" } result
+ */
+export class QuotaExceededError extends Error {
+  readonly code = "QUOTA_EXCEEDED" as const
+
+  constructor(public readonly quota: QuotaExceeded) {
+    super(
+      `You've reached your ${RESOURCE_LABELS[quota.resource]} limit (${quota.limit}).` +
+      (quota.resetsAt
+        ? ` It resets on ${new Date(quota.resetsAt).toLocaleDateString("en-US", { month: "long", day: "numeric", timeZone: "UTC" })}.`
+        : " Upgrade to get more.")
+    )
+    this.name = "QuotaExceededError"
+  }
+}
+
+/**
+ * Failure result for server actions, keeping the quota details for the client
+ */
+export function quotaExceededResult(error: QuotaExceededError) {
+  return { success: false as const, error: error.message, code: error.code, quota: error.quota }
+}
+
+/**
+ * Plan quotas: agents, rooms, and monthly messages and LLM calls
+ * A user's own limit columns can raise their plan's limits but never lower
+ * them; unlimited plan quotas stay unlimited
+ */
+export class QuotaService {
+  /**
+   * Usage against every quota for the current month
+   */
+  async getUsage(userId: string): Promise<UsageSummary> {
+    const period = currentPeriod()
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        subscription: true,
+        maxAgents: true,
+        maxRooms: true,
+        maxMessagesPerMonth: true,
+        maxLlmCallsPerMonth: true,
+        _count: { select: { agents: true, rooms: true } },
+        usageCounters: { where: { period }, select: { messages: true, llmCalls: true } }
+      }
+    })
+
+    if (!user) {
+      throw new Error("User not found")
+    }
+
+    const plan = SUBSCRIPTION_LIMITS[user.subscription.toLowerCase() as keyof typeof SUBSCRIPTION_LIMITS]
+    const counter = user.usageCounters[0]
+
+    return {
+      plan: user.subscription,
+      period,
+      resetsAt: nextPeriodStart().toISOString(),
+      quotas: {
+        agents: { used: user._count.agents, limit: effectiveLimit(plan.max_agents, user.maxAgents) },
+        rooms: { used: user._count.rooms, limit: effectiveLimit(plan.max_rooms, user.maxRooms) },
+        messages: { used: counter?.messages ?? 0, limit: effectiveLimit(plan.max_messages_per_month, user.maxMessagesPerMonth) },
+        llmCalls: { used: counter?.llmCalls ?? 0, limit: effectiveLimit(plan.max_llm_calls_per_month, user.maxLlmCallsPerMonth) },
+      }
+    }
+  }
+
+  /**
+   * Throw QuotaExceededError unless `amount` more of the resource fits the plan
+   */
+  async assertQuota(userId: string, resource: QuotaResource, amount: number = 1): Promise<void> {
+    const usage = await this.getUsage(userId)
+    const { used, limit } = usage.quotas[resource]
+
+    if (limit !== UNLIMITED && used + amount > limit) {
+      debugLog('QUOTA', `User ${userId} over ${resource} quota (${used}/${limit})`)
+      throw new QuotaExceededError({
+        resource,
+        limit,
+        used,
+        plan: usage.plan,
+        resetsAt: resource === "messages" || resource === "llmCalls" ? usage.resetsAt : null
+      })
+    }
+  }
+
+  /**
+   * Add to this month's counter for a metered resource
+   */
+  async record(userId: string, resource: MeteredResource, amount: number = 1): Promise<void> {
+    const period = currentPeriod()
+    await prisma.usageCounter.upsert({
+      where: { userId_period: { userId, period } },
+      create: { userId, period, [resource]: amount },
+      update: { [resource]: { increment: amount } }
+    })
+  }
+
+  /**
+   * Give back metered usage for work that did not happen (e.g. an aborted LLM call)
+   */
+  async refund(userId: string, resource: MeteredResource, amount: number = 1): Promise<void> {
+    await prisma.usageCounter.updateMany({
+      where: { userId, period: currentPeriod(), [resource]: { gte: amount } },
+      data: { [resource]: { decrement: amount } }
+    })
+  }
+
+  /**
+   * Check and meter in one step, for messages and LLM calls
+   * The increment only applies while it fits the limit, so concurrent
+   * requests cannot push the counter past the plan
+   */
+  async consume(userId: string, resource: MeteredResource, amount: number = 1): Promise<void> {
+    const usage = await this.getUsage(userId)
+    const { used, limit } = usage.quotas[resource]
+
+    if (limit === UNLIMITED) {
+      await this.record(userId, resource, amount)
+      return
+    }
+
+    const period = currentPeriod()
+    await prisma.usageCounter.upsert({
+      where: { userId_period: { userId, period } },
+      create: { userId, period },
+      update: {}
+    })
+
+    const metered = await prisma.usageCounter.updateMany({
+      where: { userId, period, [resource]: { lte: limit - amount } },
+      data: { [resource]: { increment: amount } }
+    })
+
+    if (metered.count === 0) {
+      debugLog('QUOTA', `User ${userId} over ${resource} quota (${used}/${limit})`)
+      throw new QuotaExceededError({
+        resource,
+        limit,
+        // Another request may have used up the rest since getUsage
+        used: Math.max(used, limit),
+        plan: usage.plan,
+        resetsAt: usage.resetsAt
+      })
+    }
+  }
+}
+
+function effectiveLimit(planLimit: number, userLimit: number): number {
+  return planLimit === UNLIMITED ? UNLIMITED : Math.max(planLimit, userLimit)
+}
+
+function currentPeriod(date: Date = new Date()): string {
+  return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, "0")}`
+}
+
+function nextPeriodStart(date: Date = new Date()): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1))
+}
+
+let quotaService: QuotaService | null = null
+
+/**
+ * Get the shared quota service
+ */
+export function getQuotaService(): QuotaService {
+  if (!quotaService) {
+    quotaService = new QuotaService()
+  }
+  return quotaService
+}
@@ -0,0 +1,65 @@
+import { prisma } from "@/lib/db"
+
+export type RoomRoleName = "OWNER" | "ADMIN" | "MEMBER"
+
+export interface RoomAgentPolicy {
+  role: RoomRoleName
+  /** Owners and admins manage every agent in the room */
+  canManage: boolean
+  /** May add agents from their own library */
+  canAddOwnAgents: boolean
+  /** May add public agents made by other users */
+  canAddPublicAgents: boolean
+  /** May create agents that only exist in this room */
+  canCreateAgents: boolean
+  agentCount: number
+  maxAgents: number
+}
+
+/**
+ * What the user may do with the room's agents
+ * Owners and admins can always add and create agents; members are bound by
+ * the room settings. Returns null when the user is not in the room
+ */
+export async function getRoomAgentPolicy(roomId: string, userId: string): Promise<RoomAgentPolicy | null> {
+  const room = await prisma.room.findFirst({
+    where: {
+      id: roomId,
+      OR: [
+        { createdBy: userId },
+        { participants: { some: { userId } } }
+      ]
+    },
+    include: {
+      settings: true,
+      participants: {
+        where: { userId },
+        select: { role: true }
+      },
+      _count: { select: { agents: true } }
+    }
+  })
+
+  if (!room) return null
+
+  const role: RoomRoleName = room.createdBy === userId ? "OWNER" : room.participants[0]?.role || "MEMBER"
+  const canManage = role === "OWNER" || role === "ADMIN"
+
+  return {
+    role,
+    canManage,
+    canAddOwnAgents: canManage || (room.settings?.allowMemberAgents ?? false),
+    canAddPublicAgents: canManage || (room.settings?.allowPublicAgents ?? false),
+    canCreateAgents: canManage || (room.settings?.allowAgentCreation ?? true),
+    agentCount: room._count.agents,
+    maxAgents: room.settings?.maxAgents || 5
+  }
+}
+
+/**
+ * Whether the user may take an agent out of the room
+ * Owners and admins may remove any agent, members only the ones they added
+ */
+export function canRemoveRoomAgent(policy: RoomAgentPolicy, addedBy: string, userId: string): boolean {
+  return policy.canManage || addedBy === userId
+}
@@ -0,0 +1,211 @@
+import { prisma } from "@/lib/db"
+import { getLLMProvider } from "@/lib/llm"
+import { debugLog } from "@/lib/utils/debug-logger"
+
+const SUMMARY_EVERY_MESSAGES = Number(process.env.ROOM_SUMMARY_EVERY_MESSAGES) || 20
+const SUMMARY_IDLE_MS = Number(process.env.ROOM_SUMMARY_IDLE_MS) || 10 * 60 * 1000
+// An idle room is only summarized once it has this many new messages
+const MIN_IDLE_MESSAGES = 3
+// Messages folded into the summary per LLM call
+const MAX_BATCH_MESSAGES = 100
+
+const SUMMARY_PROMPT = `You maintain the running summary of a group chat between people and AI agents.
+
+You get the previous summary (if any) and the messages that came after it. Write the updated summary of the whole conversation:
+- Keep decisions, open questions, facts the participants rely on and who holds which position
+- Drop small talk and details that no longer matter
+- At most 12 short bullet points, no heading
+
+Write in the same language the participants used. Reply with the summary only.`
+
+/**
+ * Rolling summaries for rooms with autoSummarize enabled
+ * A room is summarized after every SUMMARY_EVERY_MESSAGES new messages, or
+ * when it has been quiet for SUMMARY_IDLE_MS. Each summary chains onto the
+ * previous one, so the latest row covers the whole conversation
+ */
+export class RoomSummarizer {
+  private idleTimers = new Map<string, NodeJS.Timeout>()
+  private inFlight = new Set<string>()
+
+  /**
+   * Called after a message is stored in a room
+   */
+  async noteMessage(roomId: string): Promise<void> {
+    try {
+      if (!(await this.isEnabled(roomId))) {
+        this.clearIdleTimer(roomId)
+        return
+      }
+
+      const latest = await this.getLatestSummary(roomId)
+      const pending = await prisma.message.count({
+        where: { roomId, ...(latest ? { timestamp: { gt: latest.lastMessageAt } } : {}) }
+      })
+
+      if (pending >= SUMMARY_EVERY_MESSAGES) {
+        this.clearIdleTimer(roomId)
+        await this.summarize(roomId)
+        return
+      }
+
+      // Every message restarts the inactivity countdown
+      this.clearIdleTimer(roomId)
+      const timer = setTimeout(() => {
+        this.idleTimers.delete(roomId)
+        void this.summarize(roomId, MIN_IDLE_MESSAGES)
+      }, SUMMARY_IDLE_MS)
+      timer.unref?.()
+      this.idleTimers.set(roomId, timer)
+    } catch (error) {
+      console.error(`[RoomSummarizer] Failed to check room ${roomId}:`, error)
+    }
+  }
+
+  /**
+   * Fold the messages since the last summary into a new summary
+   * Returns null when the room is off, busy, has too few new messages or the
+   * LLM provider is unavailable
+   */
+  async summarize(roomId: string, minMessages: number = 1) {
+    if (this.inFlight.has(roomId)) return null
+    this.inFlight.add(roomId)
+
+    try {
+      if (!(await this.isEnabled(roomId))) return null
+
+      const previous = await this.getLatestSummary(roomId)
+      const messages = await prisma.message.findMany({
+        where: { roomId, ...(previous ? { timestamp: { gt: previous.lastMessageAt } } : {}) },
+        include: {
+          sender: { select: { name: true, email: true } },
+          agent: { select: { name: true } }
+        },
+        orderBy: { timestamp: 'asc' },
+        take: MAX_BATCH_MESSAGES
+      })
+
+      if (messages.length < minMessages || messages.length === 0) return null
+
+      const transcript = messages
+        .map(message => {
+          const author = message.agent?.name
+            || (message.type === 'SYSTEM' ? 'Moderator' : message.sender?.name || message.sender?.email || 'User')
+          return `${author}: ${message.content.replace(/^\[AGENT:[^\]]*\]\n/, '').trim()}`
+        })
+        .join('\n')
+
+      // Summaries are billed to the room's owner in the usage ledger
+      const room = await prisma.room.findUnique({ where: { id: roomId }, select: { createdBy: true } })
+
+      const response = await getLLMProvider().generateAgentResponse(
+        SUMMARY_PROMPT,
+        'SUMMARIZER',
+        `${previous ? `Previous summary:\n${previous.content}\n\n` : ''}New messages:\n${transcript}`,
+        [],
+        room?.createdBy,
+        { temperature: 0.2, usageContext: { purpose: 'room_summary', roomId } }
+      )
+
+      // A canned fallback is not a summary; keep the previous one and retry on a later message
+      if (response.model === 'fallback') {
+        debugLog('SUMMARY', `Room ${roomId} not summarized: LLM provider unavailable`)
+        return null
+      }
+
+      const lastMessage = messages[messages.length - 1]
+      const summary = await prisma.roomSummary.create({
+        data: {
+          roomId,
+          content: response.content.trim(),
+          messageCount: messages.length,
+          lastMessageId: lastMessage.id,
+          lastMessageAt: lastMessage.timestamp
+        }
+      })
+
+      debugLog('SUMMARY', `Room ${roomId} summarized (${messages.length} new messages)`)
+
+      try {
+        const { ServiceRegistry } = await import("./service-registry")
+        const { getSocketService } = await import("./socket-service")
+        const socketService = ServiceRegistry.getSocketService() || getSocketService()
+
+        socketService?.broadcastRoomSummary(roomId, {
+          roomId,
+          summaryId: summary.id,
+          content: summary.content,
+          lastMessageAt: summary.lastMessageAt,
+          createdAt: summary.createdAt
+        })
+      } catch (socketError) {
+        console.error("[RoomSummarizer] Failed to send WebSocket event for summary:", socketError)
+      }
+
+      return summary
+    } catch (error) {
+      console.error(`[RoomSummarizer] Failed to summarize room ${roomId}:`, error)
+      return null
+    } finally {
+      this.inFlight.delete(roomId)
+    }
+  }
+
+  /**
+   * The room's current rolling summary, if it has one
+   */
+  getLatestSummary(roomId: string) {
+    return prisma.roomSummary.findFirst({
+      where: { roomId },
+      orderBy: { createdAt: 'desc' }
+    })
+  }
+
+  private async isEnabled(roomId: string): Promise<boolean> {
+    const settings = await prisma.roomSettings.findUnique({
+      where: { roomId },
+      select: { autoSummarize: true }
+    })
+    return settings?.autoSummarize ?? false
+  }
+
+  private clearIdleTimer(roomId: string): void {
+    const timer = this.idleTimers.get(roomId)
+    if (timer) {
+      clearTimeout(timer)
+      this.idleTimers.delete(roomId)
+    }
+  }
+}
+
+/**
+ * The summary agents should see: the latest one, while autoSummarize is on
+ */
+export async function getRoomSummaryForPrompt(roomId: string): Promise<string | null> {
+  try {
+    const summary = await prisma.roomSummary.findFirst({
+      where: { roomId, room: { settings: { autoSummarize: true } } },
+      orderBy: { createdAt: 'desc' },
+      select: { content: true }
+    })
+    return summary?.content || null
+  } catch (error) {
+    // Agents still answer from the vector context without it
+    console.error(`[RoomSummarizer] Failed to load summary for room ${roomId}:`, error)
+    return null
+  }
+}
+
+declare global {
+  var __roomSummarizer: RoomSummarizer | undefined
+}
+
+/**
+ * Get the process-wide summarizer (shared between server.ts and Next.js route bundles)
+ */
+export function getRoomSummarizer(): RoomSummarizer {
+  if (!globalThis.__roomSummarizer) {
+    globalThis.__roomSummarizer = new RoomSummarizer()
+  }
+  return globalThis.__roomSummarizer
+}
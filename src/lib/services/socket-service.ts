@@ -1,7 +1,12 @@
 import { Server as NetServer } from "http"
 import { NextApiResponse } from "next"
-import { Server as ServerIO } from "socket.io"
+import { Server as ServerIO, type Socket } from "socket.io"
+import { createAdapter } from "@socket.io/redis-adapter"
+import { getToken } from "next-auth/jwt"
+import { prisma } from "@/lib/db"
+import { getRedis } from "@/lib/redis"
 import { ServiceRegistry } from "./service-registry"
+import { createPresenceStore, PRESENCE_HEARTBEAT_MS, type PresenceStore } from "./presence-store"
 
 export interface NextApiResponseWithSocket extends NextApiResponse {
   socket: any
@@ -34,11 +39,27 @@ export interface PresenceStatus {
 export interface DiscussionUpdate {
   discussionId: string
   roomId: string
-  status: 'STARTED' | 'PAUSED' | 'RESUMED' | 'CONCLUDED' | 'STOPPED'
+  status: 'STARTED' | 'PAUSED' | 'RESUMED' | 'STEERED' | 'CONCLUDED' | 'STOPPED'
   currentTurn?: number
   currentAgent?: string
   nextAgent?: string
   intensity: string
+  round?: number
+  totalRounds?: number
+  stopReason?: string
+  summary?: DiscussionSummary
+  // Set when a user steer changes the topic or extends the turn limit
+  topic?: string
+  maxTurns?: number
+}
+
+export interface DiscussionSummary {
+  messageId: string
+  summary: string
+  agreements: string[]
+  disagreements: string[]
+  actionItems: string[]
+  openQuestions: string[]
 }
 
 export interface AgentProgressUpdate {
@@ -54,22 +75,60 @@ export interface AgentProgressUpdate {
   errorMessage?: string
 }
 
+export interface AgentTokenUpdate {
+  streamId: string
+  roomId: string
+  agentId: string
+  agentName: string
+  agentEmoji: string
+  agentColor: string
+  token: string
+  discussionId?: string
+}
+
+export interface AgentStreamEnd {
+  streamId: string
+  roomId: string
+  agentId: string
+  messageId?: string
+  discussionId?: string
+  errorMessage?: string
+}
+
+export interface PinUpdate {
+  roomId: string
+  messageId: string
+  pinned: boolean
+  pinnedBy: string
+}
+
+export interface RoomSummaryUpdate {
+  roomId: string
+  summaryId: string
+  content: string
+  lastMessageAt: Date
+  createdAt: Date
+}
+
 /**
  * Socket.io Service for Real-time Communication
  */
 export class SocketService {
   private io: ServerIO
-  private typingUsers = new Map<string, Set<string>>() // roomId -> Set of userIds
-  private onlineUsers = new Map<string, Set<string>>() // roomId -> Set of userIds
-  private userSockets = new Map<string, string>() // userId -> socketId
+  private presence: PresenceStore
+  private heartbeat: NodeJS.Timeout
+
+  constructor(httpServer: NetServer, presence: PresenceStore = createPresenceStore()) {
+    this.presence = presence
 
-  constructor(httpServer: NetServer) {
     this.io = new ServerIO(httpServer, {
       cors: {
         origin: process.env.NODE_ENV === 'production'
           ? (process.env.ALLOWED_ORIGINS ? process.env.ALLOWED_ORIGINS.split(',') : ["https://discux3.com"])
           : ["http://localhost:3000"],
-        methods: ["GET", "POST"]
+        methods: ["GET", "POST"],
+        // The session cookie has to travel with the handshake
+        credentials: true
       },
       transports: ['websocket', 'polling']
     })
@@ -83,40 +142,104 @@ export class SocketService {
       }
     })
 
+    this.setupAdapter()
     this.setupMiddleware()
     this.setupEventHandlers()
+
+    // Keep this instance's sockets fresh in the shared store
+    this.heartbeat = setInterval(() => this.refreshPresence(), PRESENCE_HEARTBEAT_MS)
+    this.heartbeat.unref()
+  }
+
+  /**
+   * Setup the socket.io adapter
+   * SOCKET_ADAPTER=redis fans room broadcasts out through Redis pub/sub so several
+   * server instances behind a load balancer reach every client
+   */
+  private setupAdapter(): void {
+    const adapter = process.env.SOCKET_ADAPTER || 'memory'
+    if (adapter === 'memory') return
+
+    if (adapter !== 'redis') {
+      throw new Error(`Unknown SOCKET_ADAPTER "${adapter}" (expected "memory" or "redis")`)
+    }
+
+    const pubClient = getRedis()
+    if (!pubClient) {
+      throw new Error('SOCKET_ADAPTER=redis requires REDIS_URL')
+    }
+
+    this.io.adapter(createAdapter(pubClient, pubClient.duplicate()))
+    console.log('[Socket] Using Redis adapter')
   }
 
   /**
    * Setup authentication middleware
+   * The identity comes from the NextAuth session JWT (cookie, or a bearer token in
+   * handshake.auth.token for non-browser clients). Outside production, sockets
+   * without a session may still connect as the user they claim, for local scripts
    */
   private setupMiddleware(): void {
     this.io.use(async (socket, next) => {
       try {
-        // Extract user data from handshake auth sent by client
-        const { userId, userName } = socket.handshake.auth
+        const session = await this.verifySession(socket)
 
-  
-        if (userId && userId !== 'anonymous') {
-          socket.data.userId = userId
-          socket.data.userName = userName || 'Unknown User'
-          } else {
-          // Fallback for development - allow anonymous but with consistent ID
-          socket.data.userId = 'dev-user'
-          socket.data.userName = 'Development User'
-          }
+        if (session) {
+          socket.data.userId = session.userId
+          socket.data.userName = session.userName
+          return next()
+        }
 
+        if (process.env.NODE_ENV === 'production') {
+          return next(new Error('Unauthorized'))
+        }
+
+        const { userId, userName } = socket.handshake.auth
+        if (!userId || userId === 'anonymous') {
+          return next(new Error('Unauthorized'))
+        }
+
+        console.warn(`[Socket] No session on handshake, trusting claimed user ${userId} (development only)`)
+        socket.data.userId = userId
+        socket.data.userName = userName || 'Unknown User'
         next()
       } catch (error) {
         console.error('[Socket] Authentication error:', error)
-        // Fallback to development user
-        socket.data.userId = 'dev-user'
-        socket.data.userName = 'Development User'
-          next()
+        next(new Error('Authentication failed'))
       }
     })
   }
 
+  /**
+   * Decode the NextAuth JWT sent with the handshake
+   */
+  private async verifySession(socket: Socket): Promise<{ userId: string; userName: string } | null> {
+    const secret = process.env.NEXTAUTH_SECRET || process.env.AUTH_SECRET
+    if (!secret) {
+      console.error('[Socket] NEXTAUTH_SECRET is not set; cannot verify socket sessions')
+      return null
+    }
+
+    const headers: Record<string, string> = {
+      cookie: socket.handshake.headers.cookie || ''
+    }
+    const bearer = socket.handshake.auth?.token
+    if (typeof bearer === 'string' && bearer) {
+      headers.authorization = `Bearer ${bearer}`
+    }
+
+    // Auth.js prefixes the cookie name with __Secure- when served over https,
+    // and salts the token with the cookie name
+    const secureCookie = (process.env.NEXTAUTH_URL || process.env.AUTH_URL || '').startsWith('https://')
+    const cookieName = secureCookie ? '__Secure-authjs.session-token' : 'authjs.session-token'
+    const token = await getToken({ req: { headers }, secret, secureCookie, cookieName, salt: cookieName })
+
+    const userId = (token?.id as string | undefined) || token?.sub
+    if (!userId) return null
+
+    return { userId, userName: token?.name || 'Unknown User' }
+  }
+
   /**
    * Setup event handlers
    */
@@ -130,8 +253,8 @@ export class SocketService {
 
       console.log('[Socket] User authenticated:', userId, userName)
 
-      // Store user socket mapping
-      this.userSockets.set(userId, socket.id)
+      // Rooms this socket joined, for heartbeats and disconnect cleanup
+      socket.data.rooms = new Set<string>()
 
       // Handle room joins
       socket.on('join_room', async (data: { roomId: string }) => {
@@ -144,8 +267,8 @@ export class SocketService {
       })
 
       // Handle typing indicators
-      socket.on('typing', (data: TypingIndicator) => {
-        this.handleTyping(socket, data)
+      socket.on('typing', async (data: TypingIndicator) => {
+        await this.handleTyping(socket, data)
       })
 
       // Handle presence updates
@@ -169,8 +292,8 @@ export class SocketService {
       })
 
       // Handle disconnect
-      socket.on('disconnect', () => {
-        this.handleDisconnect(socket)
+      socket.on('disconnect', async () => {
+        await this.handleDisconnect(socket)
       })
     })
   }
@@ -183,108 +306,151 @@ export class SocketService {
       const userId = socket.data.userId
       const userName = socket.data.userName
 
-      // Join socket room
-      socket.join(roomId)
+      // Joining again (e.g. after a reconnect race) must not announce the user twice
+      if (this.isInRoom(socket, roomId)) return
 
-      // Add to online users for this room
-      if (!this.onlineUsers.has(roomId)) {
-        this.onlineUsers.set(roomId, new Set())
+      // Only the room's creator and participants may subscribe to it
+      const isMember = await this.isRoomMember(roomId, userId)
+      if (!isMember) {
+        console.warn(`[Socket] User ${userId} tried to join room ${roomId} without membership`)
+        socket.emit('room_error', { roomId, error: 'You are not a member of this room' })
+        return
       }
-      this.onlineUsers.get(roomId)!.add(userId)
 
-      // Update presence
-      const presence: PresenceStatus = {
-        userId,
-        userName,
-        roomId,
-        status: 'online',
-        lastSeen: new Date()
-      }
+      // Join socket room
+      socket.join(roomId)
+      socket.data.rooms.add(roomId)
+
+      // Only the user's first tab in the room announces them
+      const firstSocket = await this.presence.join(roomId, userId, socket.id)
+
+      if (firstSocket) {
+        const presence: PresenceStatus = {
+          userId,
+          userName,
+          roomId,
+          status: 'online',
+          lastSeen: new Date()
+        }
 
-      // Broadcast to room (excluding sender)
-      socket.to(roomId).emit('user_joined', presence)
-      socket.to(roomId).emit('presence_update', presence)
+        // Broadcast to room (excluding sender)
+        socket.to(roomId).emit('user_joined', presence)
+      }
 
       // Send current online users list to new user
-      const roomUsers = this.onlineUsers.get(roomId) || new Set()
-      const onlineUsersList = Array.from(roomUsers).map(id => ({
+      const roomUsers = await this.presence.onlineUsers(roomId)
+      const onlineUsersList = roomUsers.map(id => ({
         userId: id,
         status: 'online'
       }))
 
       socket.emit('online_users', onlineUsersList)
-
-      } catch (error) {
+    } catch (error) {
       console.error('[Socket] Error handling join_room:', error)
     }
   }
 
+  /**
+   * Check whether a user created or participates in a room
+   */
+  private async isRoomMember(roomId: string, userId: string): Promise<boolean> {
+    if (!roomId || !userId) return false
+
+    const room = await prisma.room.findFirst({
+      where: {
+        id: roomId,
+        OR: [
+          { createdBy: userId },
+          { participants: { some: { userId } } }
+        ]
+      },
+      select: { id: true }
+    })
+
+    return !!room
+  }
+
+  /**
+   * Client events may only target rooms the socket has joined
+   */
+  private isInRoom(socket: any, roomId: string): boolean {
+    return typeof roomId === 'string' && socket.rooms.has(roomId)
+  }
+
   /**
    * Handle room leave
    */
   private async handleLeaveRoom(socket: any, roomId: string): Promise<void> {
     try {
-      const userId = socket.data.userId
-      const userName = socket.data.userName
+      if (!this.isInRoom(socket, roomId)) return
 
       // Leave socket room
       socket.leave(roomId)
+      socket.data.rooms.delete(roomId)
 
-      // Remove from online users
-      const roomUsers = this.onlineUsers.get(roomId)
-      if (roomUsers) {
-        roomUsers.delete(userId)
-        if (roomUsers.size === 0) {
-          this.onlineUsers.delete(roomId)
-        }
-      }
-
-      // Remove from typing users
-      const roomTyping = this.typingUsers.get(roomId)
-      if (roomTyping) {
-        roomTyping.delete(userId)
-        if (roomTyping.size === 0) {
-          this.typingUsers.delete(roomId)
-        }
-      }
+      await this.removePresence(socket, roomId)
+    } catch (error) {
+      console.error('[Socket] Error handling leave_room:', error)
+    }
+  }
 
-      // Broadcast to room
-      const presence: PresenceStatus = {
-        userId,
-        userName,
-        roomId,
-        status: 'offline',
-        lastSeen: new Date()
-      }
+  /**
+   * Drop a socket from a room's presence, announcing the user as gone
+   * once their last socket in the room has left
+   */
+  private async removePresence(socket: any, roomId: string): Promise<void> {
+    const userId = socket.data.userId
+    const userName = socket.data.userName
+
+    const lastSocket = await this.presence.leave(roomId, userId, socket.id)
+    if (!lastSocket) return
+
+    const presence: PresenceStatus = {
+      userId,
+      userName,
+      roomId,
+      status: 'offline',
+      lastSeen: new Date()
+    }
 
-      socket.to(roomId).emit('user_left', presence)
-      socket.to(roomId).emit('presence_update', presence)
+    socket.to(roomId).emit('user_left', presence)
+    socket.to(roomId).emit('presence_update', presence)
+    socket.to(roomId).emit('typing_indicator', {
+      userId,
+      userName,
+      roomId,
+      isTyping: false
+    })
+  }
 
-      } catch (error) {
-      console.error('[Socket] Error handling leave_room:', error)
+  /**
+   * Refresh every local socket's rooms in the presence store
+   */
+  private async refreshPresence(): Promise<void> {
+    try {
+      for (const socket of this.io.of('/').sockets.values()) {
+        for (const roomId of socket.data.rooms || []) {
+          await this.presence.touch(roomId, socket.data.userId, socket.id)
+        }
+      }
+    } catch (error) {
+      console.error('[Socket] Error refreshing presence:', error)
     }
   }
 
   /**
    * Handle typing indicators
    */
-  private handleTyping(socket: any, data: TypingIndicator): void {
+  private async handleTyping(socket: any, data: TypingIndicator): Promise<void> {
     try {
-      const { roomId, userId, isTyping } = data
+      const { roomId, isTyping } = data
+      const userId = socket.data.userId
       const userName = socket.data.userName
 
-      // Update typing state
-      if (!this.typingUsers.has(roomId)) {
-        this.typingUsers.set(roomId, new Set())
-      }
-
-      const roomTyping = this.typingUsers.get(roomId)!
+      if (!this.isInRoom(socket, roomId)) return
 
-      if (isTyping) {
-        roomTyping.add(userId)
-      } else {
-        roomTyping.delete(userId)
-      }
+      // Update typing state
+      await this.presence.setTyping(roomId, userId, !!isTyping)
 
       // Broadcast typing indicator to room (excluding sender)
       socket.to(roomId).emit('typing_indicator', {
@@ -293,11 +459,6 @@ export class SocketService {
         roomId,
         isTyping
       })
-
-      // Clean up if no one is typing
-      if (roomTyping.size === 0) {
-        this.typingUsers.delete(roomId)
-      }
     } catch (error) {
       console.error('[Socket] Error handling typing:', error)
     }
@@ -312,6 +473,8 @@ export class SocketService {
       const userId = socket.data.userId
       const userName = socket.data.userName
 
+      if (!this.isInRoom(socket, roomId)) return
+
       const presence: PresenceStatus = {
         userId,
         userName,
@@ -334,6 +497,7 @@ export class SocketService {
   private handleMessage(socket: any, data: SocketMessage): void {
     try {
       const { roomId } = data
+      if (!this.isInRoom(socket, roomId)) return
 
       // Broadcast message to room (excluding sender)
       socket.to(roomId).emit('new_message', data)
@@ -349,6 +513,7 @@ export class SocketService {
   private handleDiscussionUpdate(socket: any, data: DiscussionUpdate): void {
     try {
       const { roomId, status, discussionId, currentAgent, nextAgent } = data
+      if (!this.isInRoom(socket, roomId)) return
 
       // Broadcast discussion update to room
       socket.to(roomId).emit('discussion_update', {
@@ -371,6 +536,7 @@ export class SocketService {
   private handleAgentProgress(socket: any, data: AgentProgressUpdate): void {
     try {
       const { roomId } = data
+      if (!this.isInRoom(socket, roomId)) return
 
       // Broadcast agent progress to room (excluding sender)
       socket.to(roomId).emit('agent_progress', {
@@ -386,55 +552,15 @@ export class SocketService {
   /**
    * Handle disconnect
    */
-  private handleDisconnect(socket: any): void {
+  private async handleDisconnect(socket: any): Promise<void> {
     try {
-      const userId = socket.data.userId
-      const userName = socket.data.userName
-
-      // Remove from user sockets mapping
-      this.userSockets.delete(userId)
-
-      // Mark user as offline in all rooms
-      this.onlineUsers.forEach((users, roomId) => {
-        if (users.has(userId)) {
-          users.delete(userId)
-
-          const presence: PresenceStatus = {
-            userId,
-            userName,
-            roomId,
-            status: 'offline',
-            lastSeen: new Date()
-          }
-
-          socket.to(roomId).emit('user_left', presence)
-          socket.to(roomId).emit('presence_update', presence)
-        }
-      })
-
-      // Clean up empty rooms
-      this.onlineUsers.forEach((users, roomId) => {
-        if (users.size === 0) {
-          this.onlineUsers.delete(roomId)
-        }
-      })
+      const rooms: Set<string> = socket.data.rooms || new Set()
 
-      this.typingUsers.forEach((typers, roomId) => {
-        if (typers.has(userId)) {
-          typers.delete(userId)
-
-          socket.to(roomId).emit('typing_indicator', {
-            userId,
-            userName: socket.data.userName,
-            roomId,
-            isTyping: false
-          })
-        }
-
-        if (typers.size === 0) {
-          this.typingUsers.delete(roomId)
-        }
-      })
+      // Socket.io has already removed the socket from its rooms by now
+      for (const roomId of rooms) {
+        await this.removePresence(socket, roomId)
+      }
+      rooms.clear()
 
         } catch (error) {
       console.error('[Socket] Error handling disconnect:', error)
@@ -454,6 +580,27 @@ export class SocketService {
     this.io.to(roomId).emit('new_message', message)
   }
 
+  /**
+   * Broadcast an edited message so clients can update it in place
+   */
+  public broadcastMessageEdited(roomId: string, message: SocketMessage): void {
+    this.io.to(roomId).emit('message_edited', message)
+  }
+
+  /**
+   * Broadcast a message being pinned or unpinned
+   */
+  public broadcastPinUpdate(roomId: string, update: PinUpdate): void {
+    this.io.to(roomId).emit('pin_update', update)
+  }
+
+  /**
+   * Broadcast a new rolling summary of the room
+   */
+  public broadcastRoomSummary(roomId: string, summary: RoomSummaryUpdate): void {
+    this.io.to(roomId).emit('room_summary', summary)
+  }
+
   /**
    * Broadcast typing indicator
    */
@@ -478,25 +625,43 @@ export class SocketService {
     })
   }
 
+  /**
+   * Broadcast a partial agent reply token
+   */
+  public broadcastAgentToken(roomId: string, update: AgentTokenUpdate): void {
+    this.io.to(roomId).emit('agent_token', update)
+  }
+
+  /**
+   * Broadcast the end of an agent reply stream
+   */
+  public broadcastAgentStreamEnd(roomId: string, update: AgentStreamEnd): void {
+    this.io.to(roomId).emit('agent_stream_end', {
+      ...update,
+      timestamp: new Date()
+    })
+  }
+
   /**
    * Get online users in room
    */
-  public getOnlineUsers(roomId: string): string[] {
-    return Array.from(this.onlineUsers.get(roomId) || [])
+  public async getOnlineUsers(roomId: string): Promise<string[]> {
+    return this.presence.onlineUsers(roomId)
   }
 
   /**
    * Get typing users in room
    */
-  public getTypingUsers(roomId: string): string[] {
-    return Array.from(this.typingUsers.get(roomId) || [])
+  public async getTypingUsers(roomId: string): Promise<string[]> {
+    return this.presence.typingUsers(roomId)
   }
 
   /**
-   * Check if user is online
+   * Check if user is online in a room, on any instance and any of their tabs
    */
-  public isUserOnline(userId: string): boolean {
-    return this.userSockets.has(userId)
+  public async isUserOnline(userId: string, roomId: string): Promise<boolean> {
+    const users = await this.presence.onlineUsers(roomId)
+    return users.includes(userId)
   }
 
   /**
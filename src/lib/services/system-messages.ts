@@ -0,0 +1,78 @@
+import { revalidatePath } from "next/cache"
+import { prisma } from "@/lib/db"
+import { storeConversationMessage } from "@/lib/vector-store"
+
+/**
+ * Create a SYSTEM message (moderator verdicts, notices) and broadcast it
+ * Server-side only: callers decide what the room is told, so this is not a server action
+ */
+export async function createSystemMessage(roomId: string, content: string) {
+  try {
+    const message = await prisma.message.create({
+      data: {
+        roomId,
+        content,
+        type: "SYSTEM",
+      },
+      include: {
+        mentions: {
+          include: {
+            agent: {
+              select: {
+                id: true,
+                name: true,
+                emoji: true,
+                color: true
+              }
+            }
+          }
+        }
+      }
+    })
+
+    const serializedMessage = {
+      ...message,
+      processingTime: message.processingTime ? Number(message.processingTime) : null,
+      agentConfidence: message.agentConfidence ? Number(message.agentConfidence) : null,
+      sender: null
+    }
+
+    // Store in vector database so agents can recall earlier verdicts
+    try {
+      await storeConversationMessage(roomId, message.id, content, "System", "system")
+    } catch (error) {
+      console.error("Error storing system message in vector DB:", error)
+    }
+
+    revalidatePath(`/rooms/${roomId}/chat`)
+
+    try {
+      const { ServiceRegistry } = await import("@/lib/services/service-registry")
+      const { getSocketService } = await import("@/lib/services/socket-service")
+      const socketService = ServiceRegistry.getSocketService() || getSocketService()
+
+      if (socketService) {
+        socketService.broadcastMessage(roomId, {
+          id: serializedMessage.id,
+          type: 'message' as const,
+          roomId,
+          userId: 'system',
+          data: serializedMessage,
+          timestamp: serializedMessage.timestamp
+        })
+      }
+    } catch (socketError) {
+      console.error("[SystemMessages] Failed to send WebSocket event for system message:", socketError)
+    }
+
+    // Let the room summarizer know about the new message; runs in the background
+    import("@/lib/services/room-summarizer")
+      .then(({ getRoomSummarizer }) => getRoomSummarizer().noteMessage(roomId))
+      .catch(error => console.error("[SystemMessages] Failed to notify room summarizer:", error))
+
+    return { success: true, data: serializedMessage }
+  } catch (error) {
+    console.error("Error creating system message:", error)
+    return { success: false, error: "Failed to create system message" }
+  }
+}
@@ -0,0 +1,179 @@
+import { prisma } from "@/lib/db"
+import { estimateCost } from "@/lib/llm/pricing"
+import type { LLMProviderName, LLMUsageContext } from "@/lib/llm/types"
+
+export interface UsageTotals {
+  calls: number
+  promptTokens: number
+  completionTokens: number
+  cachedTokens: number
+  totalTokens: number
+  costUsd: number
+  avgLatencyMs: number
+}
+
+export interface UsageBreakdownRow extends UsageTotals {
+  key: string
+  label: string
+}
+
+export interface UsageBreakdown {
+  since: string | null
+  totals: UsageTotals
+  byRoom: UsageBreakdownRow[]
+  byAgent: UsageBreakdownRow[]
+  byPurpose: UsageBreakdownRow[]
+  byModel: UsageBreakdownRow[]
+}
+
+/**
+ * Token counts from a provider response
+ * Providers report them under different names (OpenAI, Anthropic-style
+ * input/output, Z.ai's cached prompt details), so read all of them
+ */
+function readTokens(usage: unknown) {
+  const raw = (usage || {}) as Record<string, any>
+  const promptTokens = Number(raw.prompt_tokens ?? raw.input_tokens ?? 0) || 0
+  const completionTokens = Number(raw.completion_tokens ?? raw.output_tokens ?? 0) || 0
+  const cachedTokens = Number(raw.prompt_tokens_details?.cached_tokens ?? raw.cache_read_input_tokens ?? 0) || 0
+
+  return {
+    promptTokens,
+    completionTokens,
+    cachedTokens: Math.min(cachedTokens, promptTokens),
+    totalTokens: Number(raw.total_tokens ?? 0) || promptTokens + completionTokens
+  }
+}
+
+/**
+ * Write one LLM call to the usage ledger
+ * Returns the entry ID, or null when it could not be stored; accounting
+ * never fails the call itself
+ */
+export async function recordLLMUsage(entry: {
+  provider: LLMProviderName
+  model: string
+  usage: unknown
+  latencyMs: number
+  userId?: string
+  context?: LLMUsageContext
+}): Promise<string | null> {
+  try {
+    const tokens = readTokens(entry.usage)
+    const created = await prisma.llmUsageEntry.create({
+      data: {
+        userId: entry.userId || null,
+        roomId: entry.context?.roomId || null,
+        agentId: entry.context?.agentId || null,
+        purpose: entry.context?.purpose || "other",
+        provider: entry.provider,
+        model: entry.model.slice(0, 100),
+        ...tokens,
+        latencyMs: Math.round(entry.latencyMs),
+        costUsd: estimateCost(entry.provider, entry.model, tokens)
+      },
+      select: { id: true }
+    })
+    return created.id
+  } catch (error) {
+    console.error("[UsageLedger] Failed to record LLM usage:", error)
+    return null
+  }
+}
+
+/**
+ * Attach a ledger entry to the message its call produced
+ */
+export async function linkUsageToMessage(entryId: string | undefined, messageId: string | undefined): Promise<void> {
+  if (!entryId || !messageId) return
+
+  try {
+    await prisma.llmUsageEntry.update({
+      where: { id: entryId },
+      data: { messageId }
+    })
+  } catch (error) {
+    console.error("[UsageLedger] Failed to link usage to message:", error)
+  }
+}
+
+const sumFields = {
+  promptTokens: true,
+  completionTokens: true,
+  cachedTokens: true,
+  totalTokens: true,
+  costUsd: true
+} as const
+
+function toTotals(group: {
+  _count: { _all: number }
+  _sum: { promptTokens: number | null; completionTokens: number | null; cachedTokens: number | null; totalTokens: number | null; costUsd: unknown }
+  _avg: { latencyMs: number | null }
+}): UsageTotals {
+  return {
+    calls: group._count._all,
+    promptTokens: group._sum.promptTokens ?? 0,
+    completionTokens: group._sum.completionTokens ?? 0,
+    cachedTokens: group._sum.cachedTokens ?? 0,
+    totalTokens: group._sum.totalTokens ?? 0,
+    costUsd: Number(group._sum.costUsd ?? 0),
+    avgLatencyMs: Math.round(group._avg.latencyMs ?? 0)
+  }
+}
+
+/**
+ * The user's LLM usage, in total and per room, agent, purpose and model
+ * Costs are estimates from the price table at the time of each call
+ */
+export async function getUsageBreakdown(userId: string, since?: Date): Promise<UsageBreakdown> {
+  const where = { userId, ...(since ? { createdAt: { gte: since } } : {}) }
+  const aggregate = { _count: { _all: true }, _sum: sumFields, _avg: { latencyMs: true } } as const
+
+  const [totals, byRoom, byAgent, byPurpose, byModel] = await Promise.all([
+    prisma.llmUsageEntry.aggregate({ where, ...aggregate }),
+    prisma.llmUsageEntry.groupBy({ by: ["roomId"], where, ...aggregate }),
+    prisma.llmUsageEntry.groupBy({ by: ["agentId"], where, ...aggregate }),
+    prisma.llmUsageEntry.groupBy({ by: ["purpose"], where, ...aggregate }),
+    prisma.llmUsageEntry.groupBy({ by: ["model"], where, ...aggregate })
+  ])
+
+  const [rooms, agents] = await Promise.all([
+    prisma.room.findMany({
+      where: { id: { in: byRoom.map(row => row.roomId).filter((id): id is string => !!id) } },
+      select: { id: true, name: true }
+    }),
+    prisma.agent.findMany({
+      where: { id: { in: byAgent.map(row => row.agentId).filter((id): id is string => !!id) } },
+      select: { id: true, name: true, emoji: true }
+    })
+  ])
+  const roomNames = new Map(rooms.map(room => [room.id, room.name]))
+  const agentNames = new Map(agents.map(agent => [agent.id, `${agent.emoji} ${agent.name}`]))
+
+  const byCost = (a: UsageBreakdownRow, b: UsageBreakdownRow) => b.costUsd - a.costUsd || b.totalTokens - a.totalTokens
+
+  return {
+    since: since ? since.toISOString() : null,
+    totals: toTotals(totals),
+    byRoom: byRoom.map(row => ({
+      key: row.roomId || "none",
+      label: row.roomId ? roomNames.get(row.roomId) || "Deleted room" : "Outside rooms",
+      ...toTotals(row)
+    })).sort(byCost),
+    byAgent: byAgent.map(row => ({
+      key: row.agentId || "none",
+      label: row.agentId ? agentNames.get(row.agentId) || "Deleted agent" : "No agent",
+      ...toTotals(row)
+    })).sort(byCost),
+    byPurpose: byPurpose.map(row => ({
+      key: row.purpose,
+      label: row.purpose.replace(/_/g, " "),
+      ...toTotals(row)
+    })).sort(byCost),
+    byModel: byModel.map(row => ({
+      key: row.model,
+      label: row.model,
+      ...toTotals(row)
+    })).sort(byCost)
+  }
+}
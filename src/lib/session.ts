@@ -52,6 +52,7 @@ export async function getUserById(userId: string) {
         maxAgents: true,
         maxRooms: true,
         maxMessagesPerMonth: true,
+        maxLlmCallsPerMonth: true,
       },
     })
     return user
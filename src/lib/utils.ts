@@ -4,3 +4,15 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+/**
+ * Save generated text as a file from the browser
+ */
+export function downloadFile(filename: string, contentType: string, body: string) {
+  const url = URL.createObjectURL(new Blob([body], { type: contentType }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
@@ -1,16 +1,70 @@
 import { z } from "zod"
+import { LLM_PROVIDER_NAMES } from "@/lib/llm/types"
+import {
+  AGENT_CATEGORIES,
+  AGENT_REPORT_REASONS,
+  DISCUSSION_INTENSITIES,
+  DISCUSSION_STOP_CONDITIONS,
+  MAX_DISCUSSION_ROUNDS,
+  MAX_AGENT_SAMPLES,
+  MAX_DISCUSSION_TURNS,
+} from "@/lib/constants"
 
 // Agent Validations
+// Per-agent LLM settings; null clears an override back to the provider default
+export const agentGenerationSettingsSchema = z.object({
+  llmProvider: z.enum(LLM_PROVIDER_NAMES).nullable().optional(),
+  model: z.string().trim().max(100, "Model name must be less than 100 characters").nullable().optional(),
+  temperature: z.number().min(0, "Temperature must be between 0 and 2").max(2, "Temperature must be between 0 and 2").nullable().optional(),
+  topP: z.number().gt(0, "Top P must be greater than 0").max(1, "Top P must be at most 1").nullable().optional(),
+  maxTokens: z.number().int("Max tokens must be a whole number").min(1, "Max tokens must be at least 1").max(32000, "Max tokens must be at most 32000").nullable().optional(),
+  systemPromptPrefix: z.string().max(4000, "Prefix must be less than 4000 characters").nullable().optional(),
+})
+
+// Persona details from the creation wizard
+export const agentPersonaSchema = z.object({
+  persona: z.string().max(200, "Persona must be less than 200 characters").nullable().optional(),
+  title: z.string().max(200, "Title must be less than 200 characters").nullable().optional(),
+  philosophy: z.string().max(4000, "Philosophy must be less than 4000 characters").nullable().optional(),
+  keyCharacteristics: z.array(z.string().max(200, "Each characteristic must be less than 200 characters")).max(20, "At most 20 key characteristics").nullable().optional(),
+})
+
 export const createAgentSchema = z.object({
   name: z.string().min(1, "Name is required").max(100, "Name must be less than 100 characters"),
   prompt: z.string().min(10, "Prompt must be at least 10 characters").max(100000, "Prompt must be less than 100000 characters"),
   emoji: z.string().optional().default("bot-icon"),
   color: z.string().regex(/^#[0-9A-F]{6}$/i, "Invalid color format").optional(),
   style: z.string().optional().default("TRUTH_TELLER"),
-})
+}).merge(agentGenerationSettingsSchema).merge(agentPersonaSchema)
 
 export const updateAgentSchema = createAgentSchema.partial()
 
+// Marketplace Validations
+export const publishAgentSchema = z.object({
+  category: z.enum(AGENT_CATEGORIES, { errorMap: () => ({ message: "Pick a category" }) }),
+  tags: z.array(z.string().trim().toLowerCase().min(1).max(30, "Tags must be less than 30 characters")).max(10, "At most 10 tags").default([]),
+  // Agent replies shown as sample conversations on the listing
+  sampleMessageIds: z.array(z.string().cuid()).max(MAX_AGENT_SAMPLES, `At most ${MAX_AGENT_SAMPLES} samples`).default([]),
+})
+
+export const rateAgentSchema = z.object({
+  score: z.number().int().min(1, "Rate from 1 to 5 stars").max(5, "Rate from 1 to 5 stars"),
+  comment: z.string().max(500, "Comment must be less than 500 characters").optional(),
+})
+
+export const reportAgentSchema = z.object({
+  reason: z.enum(AGENT_REPORT_REASONS),
+  details: z.string().max(2000, "Details must be less than 2000 characters").optional(),
+})
+
+export const searchPublicAgentsSchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  category: z.enum(AGENT_CATEGORIES).optional(),
+  tag: z.string().trim().toLowerCase().max(30).optional(),
+  sort: z.enum(["usage", "rating", "recent"]).default("usage"),
+  page: z.number().int().min(1).default(1),
+})
+
 // Room Validations
 export const createRoomSchema = z.object({
   name: z.string().min(1, "Name is required").max(200, "Name must be less than 200 characters"),
@@ -22,6 +76,8 @@ export const updateRoomSchema = createRoomSchema.partial()
 export const roomSettingsSchema = z.object({
   maxAgents: z.number().int().min(1).max(10).default(5),
   allowAgentCreation: z.boolean().default(true),
+  allowMemberAgents: z.boolean().default(false),
+  allowPublicAgents: z.boolean().default(false),
   autoSummarize: z.boolean().default(false),
 })
 
@@ -29,7 +85,121 @@ export const roomSettingsSchema = z.object({
 export const createMessageSchema = z.object({
   roomId: z.string().cuid("Invalid room ID"),
   content: z.string().min(1, "Message cannot be empty").max(4000, "Message must be less than 4000 characters"),
-  mentions: z.array(z.string().cuid()).optional().default([]),
+  // Agent IDs picked in the composer; omit to fall back to matching @names in content
+  mentions: z.array(z.string().cuid()).optional(),
+  // Reply in the thread of this message
+  parentId: z.string().cuid("Invalid parent message ID").optional(),
+})
+
+export const editMessageSchema = z.object({
+  messageId: z.string().cuid("Invalid message ID"),
+  content: z.string().min(1, "Message cannot be empty").max(4000, "Message must be less than 4000 characters"),
+  mentions: z.array(z.string().cuid()).optional(),
+  // Ask the mentioned agents again with the edited content
+  regenerate: z.boolean().optional().default(false),
+})
+
+// Thumbs up/down on a message; 0 clears the user's rating
+export const rateMessageSchema = z.object({
+  messageId: z.string().cuid("Invalid message ID"),
+  rating: z.union([z.literal(1), z.literal(-1), z.literal(0)]),
+  reason: z.string().max(500, "Reason must be less than 500 characters").optional(),
+})
+
+// Cursor pagination: pass the ID of the oldest loaded message as `before`
+// to page back, or of the newest as `after` to catch up
+export const messagePageSchema = z.object({
+  before: z.string().cuid("Invalid cursor").optional(),
+  after: z.string().cuid("Invalid cursor").optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional().default(50),
+}).refine(page => !(page.before && page.after), {
+  message: "Use either before or after, not both",
+})
+
+// Search Validations
+export const searchMessagesSchema = z.object({
+  q: z.string().trim().min(2, "Search for at least 2 characters").max(200, "Search must be less than 200 characters"),
+  roomId: z.string().cuid("Invalid room ID").optional(),
+  agentId: z.string().cuid("Invalid agent ID").optional(),
+  authorId: z.string().cuid("Invalid author ID").optional(),
+  type: z.enum(["USER", "AGENT", "SYSTEM"]).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(50).optional().default(20),
+}).refine(search => !search.from || !search.to || search.from <= search.to, {
+  message: "The start date must be before the end date",
+})
+
+// Conversation export; both dates are inclusive
+export const exportConversationSchema = z.object({
+  format: z.enum(["markdown", "json", "html"]).optional().default("markdown"),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  types: z.array(z.enum(["USER", "AGENT", "SYSTEM"])).min(1, "Pick at least one message type").optional(),
+}).refine(range => !range.from || !range.to || range.from <= range.to, {
+  message: "The start date must be before the end date",
+})
+
+// Conversation import; `discux` is this app's JSON export
+export const importConversationSchema = z.object({
+  source: z.enum(["discux", "markdown", "chatgpt"]),
+  content: z.string().min(1, "The file is empty").max(2_000_000, "The file must be smaller than 2 MB"),
+  roomName: z.string().max(200, "Name must be less than 200 characters").optional(),
+  // ChatGPT exports hold every conversation; pick one by position
+  conversationIndex: z.number().int().min(0).optional().default(0),
+})
+
+// Discussion Validations
+export const startDiscussionSchema = z.object({
+  roomId: z.string().min(1, "Room ID is required"),
+  messageId: z.string().min(1, "Message ID is required"),
+  agentIds: z.array(z.string().min(1)).min(2, "At least 2 agents are required for a discussion"),
+  topic: z.string().max(500, "Topic must be less than 500 characters").optional(),
+  intensity: z.enum(DISCUSSION_INTENSITIES).optional().default("NORMAL"),
+  rounds: z.number().int().min(1, "Rounds must be at least 1").max(MAX_DISCUSSION_ROUNDS, `Rounds must be at most ${MAX_DISCUSSION_ROUNDS}`).optional(),
+  maxTurns: z.number().int().min(1, "Max turns must be at least 1").max(MAX_DISCUSSION_TURNS, `Max turns must be at most ${MAX_DISCUSSION_TURNS}`).optional(),
+  stopConditions: z.array(z.enum(DISCUSSION_STOP_CONDITIONS)).optional(),
+  moderator: z.boolean().optional(),
+  moderatorAgentId: z.string().min(1).optional(),
+})
+
+// A user interjection into a running discussion; at least one field must do something
+export const steerDiscussionSchema = z.object({
+  content: z.string().max(4000, "Message must be less than 4000 characters").optional().default(""),
+  topic: z.string().min(1).max(500, "Topic must be less than 500 characters").optional(),
+  nextAgentId: z.string().min(1).optional(),
+  extendTurns: z.number().int().min(1, "Extend by at least 1 turn").max(MAX_DISCUSSION_TURNS, `Extend by at most ${MAX_DISCUSSION_TURNS} turns`).optional(),
+}).refine(
+  (steer) => steer.content.trim() !== "" || steer.topic || steer.nextAgentId || steer.extendTurns,
+  { message: "Steer needs a note, a new topic, a next agent or extra turns" }
+)
+
+// Chat Command Validations
+export const debateCommandSchema = z.object({
+  agentIds: z.array(z.string().min(1)).min(2, "Mention at least 2 agents, e.g. /debate @a @b <topic>"),
+  topic: z.string().min(1, "Add a topic after the agents").max(500, "Topic must be less than 500 characters"),
+  rounds: z.coerce.number().int().min(1, "Rounds must be at least 1").max(MAX_DISCUSSION_ROUNDS, `Rounds must be at most ${MAX_DISCUSSION_ROUNDS}`).optional(),
+  intensity: z.enum(DISCUSSION_INTENSITIES, {
+    errorMap: () => ({ message: "Intensity must be normal, brutal, intense or extreme" }),
+  }).optional().default("NORMAL"),
+  maxTurns: z.coerce.number().int().min(1, "Turns must be at least 1").max(MAX_DISCUSSION_TURNS, `Turns must be at most ${MAX_DISCUSSION_TURNS}`).optional(),
+  stopConditions: z.array(z.enum(DISCUSSION_STOP_CONDITIONS, {
+    errorMap: () => ({ message: `Stop conditions must be among ${DISCUSSION_STOP_CONDITIONS.join(", ")}` }),
+  })).optional(),
+  moderator: z.boolean().optional().default(true),
+})
+
+export const askCommandSchema = z.object({
+  agentId: z.string().min(1, "Mention the agent to ask, e.g. /ask @agent <question>"),
+  question: z.string().min(1, "Add a question after the agent").max(4000, "Question must be less than 4000 characters"),
+})
+
+export const summarizeCommandSchema = z.object({
+  last: z.coerce.number().int().min(2, "Summarize at least 2 messages").max(100, "Summarize at most 100 messages").optional().default(30),
+})
+
+export const inviteCommandSchema = z.object({
+  email: z.string().email("Usage: /invite <email>"),
 })
 
 // Invitation Validations
@@ -46,11 +216,25 @@ export const updateUserSchema = z.object({
 })
 
 // Type exports
+export type AgentGenerationSettingsInput = z.infer<typeof agentGenerationSettingsSchema>
+export type AgentPersonaInput = z.infer<typeof agentPersonaSchema>
 export type CreateAgentInput = z.infer<typeof createAgentSchema>
 export type UpdateAgentInput = z.infer<typeof updateAgentSchema>
+export type PublishAgentInput = z.input<typeof publishAgentSchema>
+export type RateAgentInput = z.infer<typeof rateAgentSchema>
+export type ReportAgentInput = z.infer<typeof reportAgentSchema>
+export type SearchPublicAgentsInput = z.input<typeof searchPublicAgentsSchema>
 export type CreateRoomInput = z.infer<typeof createRoomSchema>
 export type UpdateRoomInput = z.infer<typeof updateRoomSchema>
 export type RoomSettingsInput = z.infer<typeof roomSettingsSchema>
 export type CreateMessageInput = z.infer<typeof createMessageSchema>
+export type EditMessageInput = z.input<typeof editMessageSchema>
+export type RateMessageInput = z.infer<typeof rateMessageSchema>
+export type MessagePageInput = z.input<typeof messagePageSchema>
+export type SearchMessagesInput = z.input<typeof searchMessagesSchema>
+export type ExportConversationInput = z.input<typeof exportConversationSchema>
+export type ImportConversationInput = z.input<typeof importConversationSchema>
+export type StartDiscussionInput = z.infer<typeof startDiscussionSchema>
+export type SteerDiscussionInput = z.input<typeof steerDiscussionSchema>
 export type CreateInvitationInput = z.infer<typeof createInvitationSchema>
 export type UpdateUserInput = z.infer<typeof updateUserSchema>
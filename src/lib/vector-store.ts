@@ -149,13 +149,15 @@ export class VectorStore {
 
   /**
    * Get relevant context for AI response
+   * Pass several room IDs to search across rooms (used by message search)
    */
   async getRelevantContext(
-    roomId: string, 
+    roomId: string | string[], 
     query: string, 
     limit: number = 5
   ): Promise<SearchResult[]> {
     if (!this.enabled) return []
+    if (Array.isArray(roomId) && roomId.length === 0) return []
 
     try {
       const queryEmbedding = await embedText(query)
@@ -164,7 +166,9 @@ export class VectorStore {
         vector: queryEmbedding,
         filter: {
           must: [
-            { key: "room_id", match: { value: roomId } }
+            Array.isArray(roomId)
+              ? { key: "room_id", match: { any: roomId } }
+              : { key: "room_id", match: { value: roomId } }
           ]
         },
         limit: limit,
@@ -352,17 +356,19 @@ export async function storeConversationMessage(
   messageId: string,
   content: string,
   authorName: string,
-  messageType: "user" | "agent" | "system" = "user"
+  messageType: "user" | "agent" | "system" = "user",
+  timestamp: Date = new Date()
 ): Promise<void> {
   const store = getVectorStore()
   
+  // The point ID derives from the message ID, so storing again replaces the old vector
   const vectorMessage: VectorMessage = {
     id: messageId,
     room_id: roomId,
     content,
     author_name: authorName,
     message_type: messageType,
-    timestamp: new Date().toISOString()
+    timestamp: timestamp.toISOString()
   }
 
   await store.storeMessage(vectorMessage)
@@ -392,7 +398,7 @@ export async function getConversationContext(
   roomId: string,
   query: string,
   limit?: number,
-  _userId?: string
+  userId?: string
 ): Promise<SearchResult[]> {
   const store = getVectorStore()
 
@@ -400,7 +406,7 @@ export async function getConversationContext(
   try {
     const { getEnhancedVectorSearch } = await import("./services/enhanced-vector-search")
     const enhancedSearch = getEnhancedVectorSearch()
-    const enhancedResult = await enhancedSearch.searchWithContext(roomId, query, limit || 5)
+    const enhancedResult = await enhancedSearch.searchWithContext(roomId, query, limit || 5, userId)
 
     // Convert enhanced results back to SearchResult format
     return enhancedResult.messages.map(msg => ({
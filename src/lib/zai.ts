@@ -5,6 +5,8 @@
 
 import logger, { generateCorrelationId } from './logger'
 import { debugLog } from '@/lib/utils/debug-logger'
+import { readSSEData } from '@/lib/llm/sse'
+import { applySystemPromptPrefix, isAbortError, type LLMProvider, type LLMGenerateOptions } from '@/lib/llm/types'
 
 interface ZAIMessage {
   role: "system" | "user" | "assistant" | "tool"
@@ -84,7 +86,10 @@ interface ZAIChatResponse {
   stop_sequence?: string
 }
 
-export class ZAIClient {
+type ZAIStreamOptions = LLMGenerateOptions
+
+export class ZAIClient implements LLMProvider {
+  readonly name = "zai" as const
   private apiKey: string
   private baseURL: string
   private defaultModel: string
@@ -100,8 +105,10 @@ export class ZAIClient {
 
   /**
    * Create a chat completion with Z.ai API
+   * When request.stream is set, the SSE body is parsed incrementally and each
+   * text delta is passed to options.onToken before the assembled response is returned
    */
-  async createChatCompletion(request: ZAIChatRequest): Promise<ZAIChatResponse> {
+  async createChatCompletion(request: ZAIChatRequest, options?: ZAIStreamOptions): Promise<ZAIChatResponse> {
     const correlationId = generateCorrelationId()
     const startTime = Date.now()
 
@@ -116,6 +123,9 @@ export class ZAIClient {
       model: request.model || this.defaultModel,
       messages: request.messages,
       max_tokens: request.max_tokens ?? 2000,
+      ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+      ...(request.top_p !== undefined ? { top_p: request.top_p } : {}),
+      ...(request.stream ? { stream: true } : {}),
     } : {
       model: request.model || this.defaultModel,
       messages: request.messages,
@@ -155,8 +165,27 @@ export class ZAIClient {
           "Authorization": `Bearer ${this.apiKey}`,
         },
         body: JSON.stringify(requestBody),
+        signal: options?.signal,
       })
 
+      // Streamed responses are consumed incrementally instead of buffered as text
+      if (request.stream && response.ok && response.body) {
+        const streamedResponse = await this.readStream(response.body, isAnthropicStyle, options?.onToken)
+
+        logger.aiResponse(correlationId, {
+          status: response.status,
+          statusText: response.statusText,
+          duration: Date.now() - startTime,
+          streamed: true,
+          model: streamedResponse.model,
+          usage: streamedResponse.usage
+        })
+
+        debugLog('API', `Streamed response received (${Date.now() - startTime}ms)`)
+
+        return streamedResponse
+      }
+
       const responseTime = Date.now() - startTime
 
       // Get response text for logging
@@ -273,6 +302,11 @@ export class ZAIClient {
     } catch (error) {
       const responseTime = Date.now() - startTime
 
+      if (isAbortError(error)) {
+        debugLog('API', 'Z.ai request aborted')
+        throw error
+      }
+
       if (error instanceof Error && error.message.includes('Z.ai API Error:')) {
         // Already logged above, just re-throw
         throw error
@@ -291,15 +325,100 @@ export class ZAIClient {
     }
   }
 
+  /**
+   * Read a server-sent events body and assemble it into a regular chat response
+   * Supports both the Anthropic-style event stream and OpenAI-style chunks
+   */
+  private async readStream(
+    body: ReadableStream<Uint8Array>,
+    isAnthropicStyle: boolean,
+    onToken?: (token: string) => void
+  ): Promise<ZAIChatResponse> {
+    let text = ""
+    let id = ""
+    let model = this.defaultModel
+    let stopReason: string | undefined
+    let usage: ZAIChatResponse['usage'] = {}
+
+    await readSSEData(body, (data) => {
+      if (data === "[DONE]") return
+
+      let event: any
+      try {
+        event = JSON.parse(data)
+      } catch {
+        // Ignore keep-alive or partial payloads that are not JSON
+        return
+      }
+
+      let delta: string | undefined
+
+      if (isAnthropicStyle) {
+        switch (event.type) {
+          case "message_start":
+            id = event.message?.id || id
+            model = event.message?.model || model
+            usage = { ...usage, ...event.message?.usage }
+            break
+          case "content_block_delta":
+            if (event.delta?.type === "text_delta") {
+              delta = event.delta.text
+            }
+            break
+          case "message_delta":
+            stopReason = event.delta?.stop_reason || stopReason
+            usage = { ...usage, ...event.usage }
+            break
+          case "error":
+            throw new Error(`Z.ai API Error: ${event.error?.message || "Stream error"}`)
+        }
+      } else {
+        id = event.id || id
+        model = event.model || model
+        if (event.usage) usage = { ...usage, ...event.usage }
+        const choice = event.choices?.[0]
+        if (choice?.finish_reason) stopReason = choice.finish_reason
+        delta = choice?.delta?.content || undefined
+      }
+
+      if (delta) {
+        text += delta
+        onToken?.(delta)
+      }
+    })
+
+    // Assemble the same shape the non-streaming endpoint returns
+    return isAnthropicStyle ? {
+      id,
+      model,
+      type: "message",
+      role: "assistant",
+      content: [{ type: "text", text }],
+      stop_reason: stopReason,
+      usage
+    } : {
+      id,
+      model,
+      choices: [{
+        index: 0,
+        message: { role: "assistant", content: text },
+        finish_reason: stopReason || "stop"
+      }],
+      usage
+    }
+  }
+
   /**
    * Generate agent response based on system prompt and user message
+   * Pass options.onToken to receive the reply incrementally while it is generated
    */
   async generateAgentResponse(
     agentPrompt: string,
     agentStyle: string,
     userMessage: string,
     conversationHistory: Array<{ role: string; content: string }> = [],
-    userId?: string
+    userId?: string,
+    options?: ZAIStreamOptions
   ): Promise<{
     content: string
     model: string
@@ -314,7 +433,9 @@ export class ZAIClient {
     const startTime = Date.now()
 
     // Build system message based on agent style
-    const systemPrompt = this.buildSystemPrompt(agentPrompt)
+    const systemPrompt = applySystemPromptPrefix(this.buildSystemPrompt(agentPrompt), options?.systemPromptPrefix)
+    const requestModel = options?.model || this.defaultModel
+    const temperature = options?.temperature ?? this.getTemperatureForStyle()
 
     // Build messages array - Z.ai API doesn't support system role
     // so we prepend system prompt to the first user message
@@ -332,8 +453,10 @@ export class ZAIClient {
     // Log the agent request
     logger.aiRequest(correlationId, {
       endpoint: 'generateAgentResponse',
-      model: this.defaultModel,
-      temperature: this.getTemperatureForStyle(),
+      model: requestModel,
+      temperature,
+      topP: options?.topP,
+      maxTokens: options?.maxTokens,
       messageCount: messages.length,
       userId,
       agentStyle,
@@ -344,12 +467,15 @@ export class ZAIClient {
 
     try {
       const response = await this.createChatCompletion({
-        model: this.defaultModel,
+        model: requestModel,
         messages,
-        temperature: this.getTemperatureForStyle(),
+        temperature,
+        top_p: options?.topP,
+        max_tokens: options?.maxTokens,
+        stream: !!options?.onToken,
         user_id: userId,
         request_id: `discux3_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-      })
+      }, options)
 
       const processingTime = Date.now() - startTime
 
@@ -431,6 +557,11 @@ export class ZAIClient {
     } catch (error) {
       const processingTime = Date.now() - startTime
 
+      // Cancellation is not a failure: let the caller see it instead of a fallback reply
+      if (isAbortError(error)) {
+        throw error
+      }
+
       // Replace console.error with proper logging
       logger.aiError(correlationId, 'Agent response generation failed', error instanceof Error ? error : new Error(String(error)), {
         agentStyle,